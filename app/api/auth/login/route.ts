@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateApi, AuthType, secureApiHeaders } from '@/lib/utils/apiAuth';
+import { CredentialsSchema, verifyCredentials } from '@/lib/utils/credentialStore';
+import { startUserSession } from '@/lib/utils/sessionConfig';
+
+/**
+ * POST handler for logging in
+ * Checks the username and password and issues the session cookie and CSRF token
+ *
+ * @param request The incoming request with `{ username, password }`
+ * @returns Response with the user and CSRF token
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Rate limit login attempts to slow down password guessing
+    const auth = await authenticateApi({ type: AuthType.RATE_LIMITED, rateLimit: 'auth' });
+    if (auth.response) return auth.response;
+    const responseHeaders = { ...secureApiHeaders, ...auth.rateLimitHeaders };
+
+    const result = CredentialsSchema.safeParse(await request.json().catch(() => null));
+    if (!result.success) {
+      return NextResponse.json(
+        { error: 'Invalid username or password' },
+        { status: 401, headers: responseHeaders }
+      );
+    }
+
+    const user = await verifyCredentials(result.data.username, result.data.password);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Invalid username or password' },
+        { status: 401, headers: responseHeaders }
+      );
+    }
+
+    const csrfToken = await startUserSession(user);
+    return NextResponse.json({ user, csrfToken }, { headers: responseHeaders });
+  } catch (error) {
+    console.error('Login error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500, headers: secureApiHeaders }
+    );
+  }
+}
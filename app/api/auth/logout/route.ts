@@ -0,0 +1,12 @@
+import { NextResponse } from 'next/server';
+import { secureApiHeaders } from '@/lib/utils/apiAuth';
+import { withSecureApi } from '@/lib/utils/apiHandler';
+
+/**
+ * POST handler for logging out
+ * Requires the CSRF token when logged in (checked by withSecureApi) and clears the session cookie
+ */
+export const POST = withSecureApi(async (_req, session) => {
+  session.destroy();
+  return NextResponse.json({ success: true }, { headers: secureApiHeaders });
+});
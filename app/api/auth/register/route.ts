@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateApi, AuthType, secureApiHeaders } from '@/lib/utils/apiAuth';
+import { createUser, CredentialsSchema, UsernameTakenError } from '@/lib/utils/credentialStore';
+import { startUserSession } from '@/lib/utils/sessionConfig';
+
+/**
+ * POST handler for creating an account
+ * Creates the user in the local credential store and logs them in
+ *
+ * @param request The incoming request with `{ username, password }`
+ * @returns Response with the new user and CSRF token
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Shares the login limit so accounts can't be mass-created
+    const auth = await authenticateApi({ type: AuthType.RATE_LIMITED, rateLimit: 'auth' });
+    if (auth.response) return auth.response;
+    const responseHeaders = { ...secureApiHeaders, ...auth.rateLimitHeaders };
+
+    const result = CredentialsSchema.safeParse(await request.json().catch(() => null));
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error.issues[0]?.message || 'Invalid username or password', details: result.error.format() },
+        { status: 400, headers: responseHeaders }
+      );
+    }
+
+    const user = await createUser(result.data.username, result.data.password);
+    const csrfToken = await startUserSession(user);
+    return NextResponse.json({ user, csrfToken }, { status: 201, headers: responseHeaders });
+  } catch (error) {
+    if (error instanceof UsernameTakenError) {
+      return NextResponse.json(
+        { error: 'That username is already taken' },
+        { status: 409, headers: secureApiHeaders }
+      );
+    }
+    console.error('Registration error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500, headers: secureApiHeaders }
+    );
+  }
+}
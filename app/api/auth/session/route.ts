@@ -0,0 +1,19 @@
+import { NextResponse } from 'next/server';
+import { secureApiHeaders } from '@/lib/utils/apiAuth';
+import { withSecureApi } from '@/lib/utils/apiHandler';
+
+/**
+ * GET handler for the current session
+ * Returns the logged-in user and their CSRF token, so the client can restore its state on load
+ */
+export const GET = withSecureApi(async (_req, session) => {
+  if (!session.isLoggedIn || !session.userId) {
+    return NextResponse.json({ isLoggedIn: false }, { headers: secureApiHeaders });
+  }
+
+  return NextResponse.json({
+    isLoggedIn: true,
+    user: { id: session.userId, username: session.username },
+    csrfToken: session.csrfToken,
+  }, { headers: secureApiHeaders });
+});
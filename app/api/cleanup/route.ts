@@ -17,8 +17,9 @@ function isPathWithinProject(targetPath: string): boolean {
 export async function GET(request: Request) {
   try {
     // Authenticate with admin privileges required
-    const authResponse = await authenticateApi({ type: AuthType.ADMIN });
-    if (authResponse) return authResponse; // Return error response if authentication failed
+    const auth = await authenticateApi({ type: AuthType.ADMIN, rateLimit: 'cleanup' });
+    if (auth.response) return auth.response; // Return error response if authentication failed
+    const responseHeaders = { ...secureApiHeaders, ...auth.rateLimitHeaders };
     
     const results: Record<string, string> = {};
     
@@ -69,7 +70,7 @@ export async function GET(request: Request) {
       results,
       timestamp: new Date().toISOString()
     }, {
-      headers: secureApiHeaders
+      headers: responseHeaders
     });
   } catch (error) {
     console.error('Cleanup API error:', error);
@@ -0,0 +1,89 @@
+import { describe, expect, it, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { GET, POST } from './route';
+
+// Only the conversion is under test; skip request authentication and rate limiting
+vi.mock('@/lib/utils/apiAuth', () => ({
+  AuthType: { RATE_LIMITED: 'rate' },
+  secureApiHeaders: {},
+  authenticateApi: async () => ({ response: null, rateLimitHeaders: { 'RateLimit-Limit': '60' } })
+}));
+
+const get = (query: string) => GET(new NextRequest(`http://localhost/api/convert?${query}`));
+const post = (body: unknown) => POST(new NextRequest('http://localhost/api/convert', { method: 'POST', body: JSON.stringify(body) }));
+
+describe('GET /api/convert', () => {
+  it('converts a wall time and reports it as valid', async () => {
+    const response = await get('time=2026-06-15T09:00&from=America/New_York&to=Europe/London');
+    const body = await response.json();
+    expect(response.status).toBe(200);
+    expect(response.headers.get('RateLimit-Limit')).toBe('60');
+    expect(body.source).toMatchObject({ utc: '2026-06-15T13:00:00.000Z', dst: { status: 'valid' } });
+  });
+
+  it('shifts a skipped time forward and says so', async () => {
+    const body = await (await get('time=2026-03-08T02:30&from=America/New_York&to=Europe/London')).json();
+    expect(body.source.utc).toBe('2026-03-08T07:30:00.000Z');
+    expect(body.source.dst).toEqual({
+      status: 'gap',
+      message: '2026-03-08T02:30 is skipped in America/New_York; shifted forward by 60 minutes',
+      gapMinutes: 60
+    });
+  });
+
+  it('picks the requested occurrence of a repeated time', async () => {
+    const earlier = await (await get('time=2026-11-01T01:30&from=America/New_York&to=UTC')).json();
+    expect(earlier.source.utc).toBe('2026-11-01T05:30:00.000Z');
+    expect(earlier.source.dst).toMatchObject({
+      status: 'ambiguous',
+      earlier: '2026-11-01T01:30:00.000-04:00',
+      later: '2026-11-01T01:30:00.000-05:00',
+      chosen: 'earlier'
+    });
+
+    const later = await (await get('time=2026-11-01T01:30&from=America/New_York&to=UTC&disambiguation=later')).json();
+    expect(later.source.utc).toBe('2026-11-01T06:30:00.000Z');
+    expect(later.source.dst.chosen).toBe('later');
+  });
+
+  it('refuses gaps and overlaps when asked to reject them', async () => {
+    const gap = await get('time=2026-03-08T02:30&from=America/New_York&to=UTC&disambiguation=reject');
+    expect(gap.status).toBe(422);
+    expect(await gap.json()).toEqual({
+      error: 'The requested time does not exist in the source timezone (DST gap)',
+      details: { status: 'gap', candidates: [], gapMinutes: 60 }
+    });
+
+    const overlap = await get('time=2026-11-01T01:30&from=America/New_York&to=UTC&disambiguation=reject');
+    expect(overlap.status).toBe(422);
+    expect((await overlap.json()).details).toEqual({
+      status: 'ambiguous',
+      candidates: ['2026-11-01T01:30:00.000-04:00', '2026-11-01T01:30:00.000-05:00']
+    });
+  });
+
+  it('uses exact instants as given, whatever the source zone does', async () => {
+    const body = await (await get('time=2026-03-08T07:30Z&from=America/New_York&to=UTC&disambiguation=reject')).json();
+    expect(body.source).toMatchObject({ utc: '2026-03-08T07:30:00.000Z', dst: { status: 'valid' } });
+  });
+});
+
+describe('POST /api/convert', () => {
+  it('reports gaps and rejections per item in a batch', async () => {
+    const response = await post({
+      conversions: [
+        { time: '2026-10-04T02:30', from: 'Australia/Sydney', to: ['UTC'] },
+        { time: '2026-04-05T02:30', from: 'Australia/Sydney', to: ['UTC'], disambiguation: 'reject' }
+      ]
+    });
+    const { results } = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(results[0]).toMatchObject({ index: 0, source: { utc: '2026-10-03T16:30:00.000Z', dst: { status: 'gap', gapMinutes: 60 } } });
+    expect(results[1]).toMatchObject({
+      index: 1,
+      status: 422,
+      error: 'The requested time occurs twice in the source timezone (DST overlap)'
+    });
+  });
+});
@@ -0,0 +1,248 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { DateTime } from 'luxon';
+import { getCanonicalTimezoneId, isValidTimezone } from '@/lib/utils/timezone';
+import { convertInstantToZone, isMarsZone, resolveLocalTime } from '@/lib/utils/timeConversion';
+import { getTimeSystem } from '@/lib/utils/timeSystems';
+import { authenticateApi, AuthType, secureApiHeaders } from '@/lib/utils/apiAuth';
+import { z } from 'zod';
+
+const MAX_TIMEZONE_LENGTH = 100;  // Reasonable max length for a timezone string
+const MAX_TARGETS = 50;           // Target zones per conversion
+const MAX_BATCH_SIZE = 25;        // Conversions per batch request
+
+// "2026-03-29T01:30", "2026-03-29 01:30:00" (wall time in `from`), or with Z/±HH:mm (an exact instant)
+const TIME_PATTERN = /^(\d{4})-(\d{2})-(\d{2})[T ](\d{2}):(\d{2})(?::(\d{2}))?(Z|[+-]\d{2}:?\d{2})?$/i;
+
+const ConversionSchema = z.object({
+  time: z.string().max(40).regex(TIME_PATTERN, 'Expected yyyy-MM-ddTHH:mm[:ss], optionally followed by Z or an offset'),
+  from: z.string().max(MAX_TIMEZONE_LENGTH),
+  to: z.array(z.string().max(MAX_TIMEZONE_LENGTH)).min(1).max(MAX_TARGETS),
+  // What to do with a wall time that happens twice (clocks fall back) or never (clocks spring forward)
+  disambiguation: z.enum(['earlier', 'later', 'reject']).default('earlier'),
+});
+
+const BatchSchema = z.object({
+  conversions: z.array(ConversionSchema).min(1).max(MAX_BATCH_SIZE),
+});
+
+type ConversionRequest = z.infer<typeof ConversionSchema>;
+
+/**
+ * Error raised for a conversion that can't be performed as requested
+ */
+class ConversionError extends Error {
+  constructor(message: string, public status = 400, public details?: unknown) {
+    super(message);
+    this.name = 'ConversionError';
+  }
+}
+
+/**
+ * Run one conversion
+ * @param request A validated conversion request
+ * @returns Source details (including DST gap/ambiguity information) and the converted targets
+ */
+function convert(request: ConversionRequest) {
+  // Wall times can only be resolved in zones with UTC offsets
+  const sourceSystem = getTimeSystem(request.from);
+  if (!sourceSystem.usesEarthCalendar) {
+    throw new ConversionError(`${sourceSystem.name} zones are only supported as conversion targets`, 400, { from: request.from });
+  }
+  const from = getCanonicalTimezoneId(request.from);
+  if (!isValidTimezone(from)) {
+    throw new ConversionError('Invalid source timezone identifier', 400, { from: request.from });
+  }
+
+  const invalidTargets = request.to.filter(zone => !isMarsZone(zone) && !isValidTimezone(getCanonicalTimezoneId(zone)));
+  if (invalidTargets.length > 0) {
+    throw new ConversionError('Invalid target timezone identifiers', 400, { to: invalidTargets });
+  }
+
+  const match = request.time.match(TIME_PATTERN)!;
+  const [, year, month, day, hour, minute, second, offset] = match;
+
+  let instant: DateTime;
+  let dst: Record<string, unknown> = { status: 'valid' };
+
+  if (offset) {
+    // An exact instant; the source zone is only used for presentation
+    instant = DateTime.fromISO(request.time.replace(' ', 'T'), { setZone: true });
+    if (!instant.isValid) {
+      throw new ConversionError('Invalid time', 400, { time: request.time, reason: instant.invalidReason });
+    }
+    instant = instant.setZone(from);
+  } else {
+    const resolution = resolveLocalTime({
+      year: Number(year),
+      month: Number(month),
+      day: Number(day),
+      hour: Number(hour),
+      minute: Number(minute),
+      second: second ? Number(second) : 0,
+    }, from, request.disambiguation === 'later' ? 'later' : 'earlier');
+
+    if (!resolution) {
+      throw new ConversionError('Invalid time', 400, { time: request.time });
+    }
+
+    if (resolution.status !== 'valid' && request.disambiguation === 'reject') {
+      throw new ConversionError(
+        resolution.status === 'gap'
+          ? 'The requested time does not exist in the source timezone (DST gap)'
+          : 'The requested time occurs twice in the source timezone (DST overlap)',
+        422,
+        {
+          status: resolution.status,
+          candidates: resolution.candidates.map(candidate => candidate.toISO()),
+          ...(resolution.gapMinutes !== undefined ? { gapMinutes: resolution.gapMinutes } : {}),
+        }
+      );
+    }
+
+    instant = resolution.resolved;
+    if (resolution.status === 'gap') {
+      dst = {
+        status: 'gap',
+        message: `${request.time} is skipped in ${from}; shifted forward by ${resolution.gapMinutes} minutes`,
+        gapMinutes: resolution.gapMinutes,
+      };
+    } else if (resolution.status === 'ambiguous') {
+      dst = {
+        status: 'ambiguous',
+        message: `${request.time} occurs twice in ${from}; using the ${request.disambiguation} occurrence`,
+        earlier: resolution.candidates[0].toISO(),
+        later: resolution.candidates[resolution.candidates.length - 1].toISO(),
+        chosen: request.disambiguation,
+      };
+    }
+  }
+
+  const sourceDate = instant.toFormat('yyyy-MM-dd');
+
+  return {
+    source: {
+      input: request.time,
+      timezone: from,
+      iso: instant.toISO(),
+      utc: instant.toUTC().toISO(),
+      formatted: {
+        time: instant.toFormat('HH:mm:ss'),
+        date: sourceDate,
+        dateTime: instant.toFormat('yyyy-MM-dd HH:mm:ss'),
+        dayOfWeek: instant.toFormat('EEEE'),
+        offset: instant.toFormat('ZZ'),
+        abbreviation: instant.toFormat('ZZZZ'),
+      },
+      isInDST: instant.isInDST,
+      dst,
+    },
+    targets: request.to.map(zone => convertInstantToZone(instant, zone, sourceDate)),
+  };
+}
+
+/**
+ * Build the error response for a failed conversion
+ */
+function errorBody(error: unknown) {
+  if (error instanceof ConversionError) {
+    return { status: error.status, body: { error: error.message, ...(error.details ? { details: error.details } : {}) } };
+  }
+  console.error('Error converting time:', error);
+  return { status: 500, body: { error: 'Internal server error' } };  // Don't expose internal error details
+}
+
+/**
+ * GET handler for the convert API
+ * Converts a time in one zone into a list of target zones
+ * e.g. /api/convert?time=2026-03-29T01:30&from=Europe/London&to=America/New_York,Asia/Tokyo
+ *
+ * @param request The incoming request
+ * @returns Response with the converted times
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Only apply rate limiting for this endpoint
+    const auth = await authenticateApi({ type: AuthType.RATE_LIMITED });
+    if (auth.response) return auth.response;
+    const responseHeaders = { ...secureApiHeaders, ...auth.rateLimitHeaders };
+
+    const searchParams = request.nextUrl.searchParams;
+    const result = ConversionSchema.safeParse({
+      time: searchParams.get('time') ?? undefined,
+      from: searchParams.get('from') ?? undefined,
+      to: searchParams.get('to')?.split(',').map(zone => zone.trim()).filter(Boolean) ?? undefined,
+      disambiguation: searchParams.get('disambiguation') ?? undefined,
+    });
+    if (!result.success) {
+      return NextResponse.json(
+        { error: 'Invalid conversion parameters', details: result.error.format() },
+        { status: 400, headers: responseHeaders }
+      );
+    }
+
+    return NextResponse.json(convert(result.data), { headers: responseHeaders });
+  } catch (error) {
+    const { status, body } = errorBody(error);
+    return NextResponse.json(body, { status, headers: secureApiHeaders });
+  }
+}
+
+/**
+ * POST handler for the convert API
+ * Accepts a single conversion, or `{ conversions: [...] }` for a batch.
+ * Batch results are returned in order; a failed item carries an `error` instead of results.
+ *
+ * @param request The incoming request
+ * @returns Response with the converted times
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Only apply rate limiting for this endpoint
+    const auth = await authenticateApi({ type: AuthType.RATE_LIMITED });
+    if (auth.response) return auth.response;
+    const responseHeaders = { ...secureApiHeaders, ...auth.rateLimitHeaders };
+
+    let payload: unknown;
+    try {
+      payload = await request.json();
+    } catch {
+      return NextResponse.json(
+        { error: 'Request body must be valid JSON' },
+        { status: 400, headers: responseHeaders }
+      );
+    }
+
+    if (payload && typeof payload === 'object' && 'conversions' in payload) {
+      const batch = BatchSchema.safeParse(payload);
+      if (!batch.success) {
+        return NextResponse.json(
+          { error: 'Invalid batch conversion request', details: batch.error.format() },
+          { status: 400, headers: responseHeaders }
+        );
+      }
+
+      const results = batch.data.conversions.map((conversion, index) => {
+        try {
+          return { index, ...convert(conversion) };
+        } catch (error) {
+          const { status, body } = errorBody(error);
+          return { index, status, ...body };
+        }
+      });
+      return NextResponse.json({ results }, { headers: responseHeaders });
+    }
+
+    const result = ConversionSchema.safeParse(payload);
+    if (!result.success) {
+      return NextResponse.json(
+        { error: 'Invalid conversion request', details: result.error.format() },
+        { status: 400, headers: responseHeaders }
+      );
+    }
+
+    return NextResponse.json(convert(result.data), { headers: responseHeaders });
+  } catch (error) {
+    const { status, body } = errorBody(error);
+    return NextResponse.json(body, { status, headers: secureApiHeaders });
+  }
+}
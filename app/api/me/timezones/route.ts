@@ -0,0 +1,68 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { authenticateApi, AuthType, secureApiHeaders } from '@/lib/utils/apiAuth';
+import { withSecureApi } from '@/lib/utils/apiHandler';
+import { getUserTimezones, setUserTimezones } from '@/lib/utils/credentialStore';
+
+const MAX_TIMEZONES = 100;
+
+// Mirrors the Timezone interface in the timezone store
+const TimezoneSchema = z.object({
+  id: z.string().min(1).max(100),
+  name: z.string().max(200),
+  city: z.string().max(200).optional(),
+  country: z.string().max(200).optional(),
+  offset: z.string().max(20).optional(),
+  abbreviation: z.string().max(20).optional(),
+  region: z.string().max(100).optional(),
+  aliases: z.array(z.string().max(100)).max(50).optional(),
+  workingHours: z.object({
+    start: z.string().regex(/^\d{2}:\d{2}$/),
+    end: z.string().regex(/^\d{2}:\d{2}$/),
+    workdays: z.array(z.number().int().min(1).max(7)).max(7),
+  }).optional(),
+  lat: z.number().min(-90).max(90).optional(),
+  lon: z.number().min(-180).max(180).optional(),
+});
+
+const UpdateSchema = z.object({
+  timezones: z.array(TimezoneSchema).max(MAX_TIMEZONES),
+});
+
+/**
+ * GET handler for the logged-in user's timezone list
+ * `updatedAt` is null until the list has been saved from any device
+ */
+export const GET = withSecureApi(async (_req, session) => {
+  const { response: authResponse } = await authenticateApi({ type: AuthType.SESSION });
+  if (authResponse) return authResponse;
+
+  const data = await getUserTimezones(session.userId!);
+  if (!data) {
+    return NextResponse.json({ error: 'User not found' }, { status: 404, headers: secureApiHeaders });
+  }
+  return NextResponse.json(data, { headers: secureApiHeaders });
+});
+
+/**
+ * PUT handler replacing the logged-in user's timezone list
+ * Requires the x-csrf-token header (checked by withSecureApi)
+ */
+export const PUT = withSecureApi(async (req, session) => {
+  const { response: authResponse } = await authenticateApi({ type: AuthType.SESSION });
+  if (authResponse) return authResponse;
+
+  const result = UpdateSchema.safeParse(await req.json().catch(() => null));
+  if (!result.success) {
+    return NextResponse.json(
+      { error: 'Invalid timezone list', details: result.error.format() },
+      { status: 400, headers: secureApiHeaders }
+    );
+  }
+
+  const updatedAt = await setUserTimezones(session.userId!, result.data.timezones);
+  if (updatedAt === null) {
+    return NextResponse.json({ error: 'User not found' }, { status: 404, headers: secureApiHeaders });
+  }
+  return NextResponse.json({ timezones: result.data.timezones, updatedAt }, { headers: secureApiHeaders });
+});
@@ -1,13 +1,19 @@
 import { NextResponse } from 'next/server';
+import { authenticateApi, AuthType } from '@/lib/utils/apiAuth';
 
 const NEWS_API_KEY = process.env.NEWS_API_KEY;
 
 export async function GET(request: Request) {
+  // Rate limit calls so the upstream API quota can't be exhausted
+  const auth = await authenticateApi({ type: AuthType.RATE_LIMITED, rateLimit: 'news' });
+  if (auth.response) return auth.response;
+  const headers = auth.rateLimitHeaders;
+
   const { searchParams } = new URL(request.url);
   const city = searchParams.get('city');
 
   if (!city) {
-    return NextResponse.json({ error: 'City parameter is required' }, { status: 400 });
+    return NextResponse.json({ error: 'City parameter is required' }, { status: 400, headers });
   }
 
   try {
@@ -39,9 +45,9 @@ export async function GET(request: Request) {
       };
     });
 
-    return NextResponse.json(newsItems);
+    return NextResponse.json(newsItems, { headers });
   } catch (error) {
     console.error('News API error:', error);
-    return NextResponse.json({ error: 'Failed to fetch news' }, { status: 500 });
+    return NextResponse.json({ error: 'Failed to fetch news' }, { status: 500, headers });
   }
 } 
\ No newline at end of file
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { DateTime } from 'luxon';
 import { isValidTimezone } from '@/lib/utils/timezone';
+import { DEFAULT_WORKING_HOURS, isBusinessHours, parseTimeOfDay } from '@/lib/utils/dateTimeFormatter';
 import { authenticateApi, AuthType, secureApiHeaders } from '@/lib/utils/apiAuth';
 import { z } from 'zod'; // Add Zod for request validation
 
@@ -11,6 +12,21 @@ const TimezoneSchema = z.object({
   timezone: z.string().max(MAX_TIMEZONE_LENGTH).optional(),
 });
 
+// Optional working hours used for the isBusinessHours flag, e.g.
+// ?workStart=10:00&workEnd=19:00&workdays=7,1,2,3,4 (Luxon weekdays, 7 = Sunday)
+const TimeOfDaySchema = z.string().refine(value => parseTimeOfDay(value) !== null, {
+  message: 'Expected a time in HH:mm format',
+});
+
+const WorkingHoursSchema = z.object({
+  workStart: TimeOfDaySchema.default(DEFAULT_WORKING_HOURS.start),
+  workEnd: TimeOfDaySchema.default(DEFAULT_WORKING_HOURS.end),
+  workdays: z.string()
+    .regex(/^[1-7](,[1-7]){0,6}$/, 'Expected comma-separated weekdays (1 = Monday ... 7 = Sunday)')
+    .transform(value => Array.from(new Set(value.split(',').map(Number))))
+    .optional(),
+});
+
 /**
  * GET handler for the time API
  * Returns the current time for a specific timezone
@@ -21,8 +37,9 @@ const TimezoneSchema = z.object({
 export async function GET(request: NextRequest) {
   try {
     // Only apply rate limiting for this endpoint
-    const authResponse = await authenticateApi({ type: AuthType.RATE_LIMITED });
-    if (authResponse) return authResponse;
+    const auth = await authenticateApi({ type: AuthType.RATE_LIMITED, rateLimit: 'time' });
+    if (auth.response) return auth.response;
+    const responseHeaders = { ...secureApiHeaders, ...auth.rateLimitHeaders };
     
     // Get and sanitize the timezone from query parameters
     const searchParams = request.nextUrl.searchParams;
@@ -33,17 +50,35 @@ export async function GET(request: NextRequest) {
     if (!result.success) {
       return NextResponse.json(
         { error: 'Invalid timezone parameter', details: result.error.format() },
-        { status: 400, headers: secureApiHeaders }
+        { status: 400, headers: responseHeaders }
       );
     }
     
     const timezone = result.data.timezone || 'UTC';
 
+    const workingHoursResult = WorkingHoursSchema.safeParse({
+      workStart: searchParams.get('workStart') ?? undefined,
+      workEnd: searchParams.get('workEnd') ?? undefined,
+      workdays: searchParams.get('workdays') ?? undefined,
+    });
+    if (!workingHoursResult.success) {
+      return NextResponse.json(
+        { error: 'Invalid working hours parameters', details: workingHoursResult.error.format() },
+        { status: 400, headers: responseHeaders }
+      );
+    }
+    
+    const workingHours = {
+      start: workingHoursResult.data.workStart,
+      end: workingHoursResult.data.workEnd,
+      workdays: workingHoursResult.data.workdays ?? DEFAULT_WORKING_HOURS.workdays,
+    };
+
     // Validate timezone format and existence
     if (!isValidTimezone(timezone)) {
       return NextResponse.json(
         { error: 'Invalid timezone identifier' },
-        { status: 400, headers: secureApiHeaders }
+        { status: 400, headers: responseHeaders }
       );
     }
 
@@ -54,7 +89,7 @@ export async function GET(request: NextRequest) {
     if (!now.isValid) {
       return NextResponse.json(
         { error: 'Failed to parse timezone', details: now.invalidReason },
-        { status: 400, headers: secureApiHeaders }
+        { status: 400, headers: responseHeaders }
       );
     }
 
@@ -71,14 +106,15 @@ export async function GET(request: NextRequest) {
         abbreviation: now.toFormat('ZZZZ'),
       },
       isInDST: now.isInDST,
-      isBusinessHours: now.hour >= 9 && now.hour < 17,
+      isBusinessHours: isBusinessHours(now, timezone, workingHours),
+      workingHours,
       isNightTime: now.hour >= 20 || now.hour < 6,
     };
 
     // Return the time information with security headers
     return NextResponse.json(timeInfo, {
       headers: {
-        ...secureApiHeaders,
+        ...responseHeaders,
         'Cache-Control': 'private, no-cache, no-store, must-revalidate',
       }
     });
@@ -1,13 +1,19 @@
 import { NextResponse } from 'next/server';
+import { authenticateApi, AuthType } from '@/lib/utils/apiAuth';
 
 const WEATHER_API_KEY = process.env.WEATHER_API_KEY;
 
 export async function GET(request: Request) {
+  // Rate limit calls so the upstream API quota can't be exhausted
+  const auth = await authenticateApi({ type: AuthType.RATE_LIMITED, rateLimit: 'weather' });
+  if (auth.response) return auth.response;
+  const headers = auth.rateLimitHeaders;
+
   const { searchParams } = new URL(request.url);
   const city = searchParams.get('city');
 
   if (!city) {
-    return NextResponse.json({ error: 'City parameter is required' }, { status: 400 });
+    return NextResponse.json({ error: 'City parameter is required' }, { status: 400, headers });
   }
 
   try {
@@ -27,9 +33,9 @@ export async function GET(request: Request) {
       forecast: '' // Placeholder, can extend with forecast API
     };
 
-    return NextResponse.json(weatherData);
+    return NextResponse.json(weatherData, { headers });
   } catch (error) {
     console.error('Weather API error:', error);
-    return NextResponse.json({ error: 'Failed to fetch weather' }, { status: 500 });
+    return NextResponse.json({ error: 'Failed to fetch weather' }, { status: 500, headers });
   }
 } 
\ No newline at end of file
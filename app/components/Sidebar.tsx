@@ -4,10 +4,12 @@ import { useState, useEffect } from 'react';
 import { usePathname } from 'next/navigation';
 import { useSwipeable } from 'react-swipeable';
 import { XMarkIcon, ClockIcon, GlobeAltIcon, CalendarDaysIcon, StarIcon, 
-  NewspaperIcon, ChartBarIcon, Cog6ToothIcon, ArrowRightOnRectangleIcon, 
+  NewspaperIcon, ChartBarIcon, ArrowRightOnRectangleIcon, ArrowLeftOnRectangleIcon, 
   PlusCircleIcon, Bars3Icon } from '@heroicons/react/24/outline';
 import { UserCircleIcon } from '@heroicons/react/24/solid';
 import { DatePickerSidebarTrigger } from '@/components/DatePickerSidebarTrigger';
+import { SettingsSidebarTrigger } from '@/components/SettingsSidebarTrigger';
+import { useAuthStore } from '@/store/authStore';
 
 interface SidebarProps {
   children: React.ReactNode;
@@ -17,6 +19,7 @@ export default function Sidebar({ children }: SidebarProps) {
   const [sidebarOpen, setSidebarOpen] = useState(false);
   const [isMobileOrTablet, setIsMobileOrTablet] = useState(false);
   const pathname = usePathname() ?? '';
+  const { status, user, logout } = useAuthStore();
 
   // Check if the device is mobile or tablet on mount and on resize
   useEffect(() => {
@@ -125,7 +128,9 @@ export default function Sidebar({ children }: SidebarProps) {
                   </div>
                   <div>
                     <h2 className="font-bold text-white">My Timezones</h2>
-                    <p className="text-sm text-gray-400">Manage your time</p>
+                    <p className="text-sm text-gray-400">
+                      {status === 'authenticated' && user ? `Synced as ${user.username}` : 'Manage your time'}
+                    </p>
                   </div>
                 </div>
               </div>
@@ -200,16 +205,31 @@ export default function Sidebar({ children }: SidebarProps) {
                   
                   {/* Settings Section */}
                   <li>
-                    <a href="#" className="flex items-center space-x-3 px-3 py-3 rounded-full hover:bg-gray-800">
-                      <Cog6ToothIcon className="w-6 h-6 text-gray-200" />
-                      <span className="text-white">Settings</span>
-                    </a>
+                    <SettingsSidebarTrigger onSidebarCollapse={() => setSidebarOpen(false)} />
                   </li>
                   <li>
-                    <a href="#" className="flex items-center space-x-3 px-3 py-3 rounded-full hover:bg-gray-800">
-                      <ArrowRightOnRectangleIcon className="w-6 h-6 text-gray-200" />
-                      <span className="text-white">Log out</span>
-                    </a>
+                    {status === 'authenticated' ? (
+                      <button
+                        onClick={() => {
+                          logout();
+                          setSidebarOpen(false);
+                        }}
+                        className="w-full flex items-center space-x-3 px-3 py-3 rounded-full hover:bg-gray-800"
+                      >
+                        <ArrowRightOnRectangleIcon className="w-6 h-6 text-gray-200" />
+                        <span className="text-white">Log out</span>
+                      </button>
+                    ) : (
+                      <a
+                        href="/login"
+                        className={`flex items-center space-x-3 px-3 py-3 rounded-full hover:bg-gray-800 ${
+                          pathname.startsWith('/login') ? 'bg-primary-700 text-white font-semibold' : ''
+                        }`}
+                      >
+                        <ArrowLeftOnRectangleIcon className="w-6 h-6 text-gray-200" />
+                        <span className="text-white">Log in</span>
+                      </a>
+                    )}
                   </li>
                 </ul>
               </nav>
@@ -0,0 +1,118 @@
+'use client';
+
+import React, { useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { toast } from 'sonner';
+import { useAuthStore } from '@/store/authStore';
+
+type Mode = 'login' | 'register';
+
+export default function LoginPage() {
+  const router = useRouter();
+  const { status, user, login, register, logout } = useAuthStore();
+  const [mode, setMode] = useState<Mode>('login');
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setIsSubmitting(true);
+    try {
+      if (mode === 'login') {
+        await login(username, password);
+        toast.success('Logged in. Your timezones will sync to this device.');
+      } else {
+        await register(username, password);
+        toast.success('Account created. Your timezones are now saved to your account.');
+      }
+      router.push('/');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const inputClassName = 'w-full px-3 py-2 rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800';
+
+  return (
+    <main className="min-h-screen mobile-desktop-container">
+      <div className="w-full max-w-sm mx-auto px-4 py-12">
+        <h1 className="text-2xl font-bold mb-2 text-center">
+          {mode === 'login' ? 'Log in' : 'Create an account'}
+        </h1>
+        <p className="text-sm text-muted-foreground text-center mb-6">
+          Sign in to keep your timezone list in sync across devices.{' '}
+          <Link href="/" className="text-primary-500 hover:underline">Back to the clock</Link>
+        </p>
+
+        {status === 'authenticated' && user ? (
+          <div className="p-4 rounded-lg border border-border bg-card text-center">
+            <p className="mb-4">Logged in as <span className="font-semibold">{user.username}</span>.</p>
+            <button
+              type="button"
+              onClick={() => logout()}
+              className="px-4 py-2 rounded-md bg-primary-500 text-white hover:bg-primary-600 transition-colors"
+            >
+              Log out
+            </button>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <label htmlFor="username" className="block text-sm font-medium mb-1">Username</label>
+              <input
+                id="username"
+                value={username}
+                onChange={(e) => setUsername(e.target.value)}
+                autoComplete="username"
+                required
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label htmlFor="password" className="block text-sm font-medium mb-1">Password</label>
+              <input
+                id="password"
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                autoComplete={mode === 'login' ? 'current-password' : 'new-password'}
+                minLength={mode === 'register' ? 8 : undefined}
+                required
+                className={inputClassName}
+              />
+            </div>
+
+            {error && (
+              <p className="text-sm text-red-600 dark:text-red-400" role="alert">{error}</p>
+            )}
+
+            <button
+              type="submit"
+              disabled={isSubmitting || !username || !password}
+              className="w-full px-4 py-2 rounded-md bg-primary-500 text-white hover:bg-primary-600 disabled:opacity-50 transition-colors"
+            >
+              {isSubmitting ? 'Please wait…' : mode === 'login' ? 'Log in' : 'Create account'}
+            </button>
+
+            <p className="text-sm text-center text-muted-foreground">
+              {mode === 'login' ? "Don't have an account?" : 'Already have an account?'}{' '}
+              <button
+                type="button"
+                onClick={() => { setMode(mode === 'login' ? 'register' : 'login'); setError(null); }}
+                className="text-primary-500 hover:underline"
+              >
+                {mode === 'login' ? 'Create one' : 'Log in'}
+              </button>
+            </p>
+          </form>
+        )}
+      </div>
+    </main>
+  );
+}
@@ -6,6 +6,7 @@ import TimeZonePulse from '@/components/clock/WorldClock';
 // Removed ViewProvider import
 import { IntegrationsProvider } from '@/app/contexts/IntegrationsContext';
 import { useTimezoneStore } from '@/store/timezoneStore';
+import { useShareLink } from '@/lib/hooks/useShareLink';
 
 // No need for separate wrapper component, we'll include that functionality directly
 // in this main page component
@@ -33,6 +34,9 @@ export default function Home() {
     setIsMounted(true);
   }, [hydrate]);
 
+  // Apply zones/date/time from a shared link and handle the ?action=add shortcut
+  useShareLink();
+
   if (!isMounted) {
     return (
       <div className="min-h-screen p-8">
@@ -3,10 +3,14 @@
 import React, { useState, useEffect, type ReactNode } from 'react';
 import { ThemeProvider } from 'next-themes';
 import { useTimezoneStore } from '@/store/timezoneStore';
+import { useSettingsStore } from '@/store/settingsStore';
+import { useImportedEventsStore } from '@/store/importedEventsStore';
+import { useMarsLocationsStore } from '@/store/marsLocationsStore';
 // Removed ViewProvider import
 import { ClientInitializer } from '@/components/performance/ClientInitializer';
 import ErrorBoundary from '@/components/error/ErrorBoundary';
 import { initGlobalErrorHandlers } from '@/lib/utils/errorHandler';
+import { useTimezoneSync } from '@/lib/hooks/useTimezoneSync';
 import { Toaster } from 'sonner';
 
 interface ProvidersProps {
@@ -35,8 +39,18 @@ export function Providers({ children }: ProvidersProps) {
       // Initialize global error handlers
       initGlobalErrorHandlers();
       
-      // Hydrate timezone store
+      // Load user-defined Mars locations first; the timezone list may include them
+      useMarsLocationsStore.persist.rehydrate();
+
+      // Hydrate timezone store and load the saved timezone list
       hydrate();
+      useTimezoneStore.persist.rehydrate();
+
+      // Load persisted user settings
+      useSettingsStore.persist.rehydrate();
+
+      // Load calendar events imported from .ics files
+      useImportedEventsStore.persist.rehydrate();
     } catch (error) {
       console.error("Error during providers initialization:", error);
       setInitError(error instanceof Error ? error : new Error(String(error)));
@@ -46,6 +60,9 @@ export function Providers({ children }: ProvidersProps) {
     }
   }, [hydrate]);
 
+  // Sync the timezone list with the user's account once the local copy is loaded
+  useTimezoneSync(mounted);
+
   // Provide fallback during hydration to prevent mismatch
   if (!mounted) {
     return <div className="min-h-screen bg-gray-50 dark:bg-gray-900" aria-hidden="true" />;
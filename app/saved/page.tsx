@@ -0,0 +1,204 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Check, Copy, Pencil, Plus, Trash2, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { useTimezoneStore, Timezone, TimezoneSet } from '@/store/timezoneStore';
+
+/**
+ * Short list of city names for a set
+ */
+function summarizeTimezones(timezones: Timezone[]): string {
+  if (timezones.length === 0) return 'No timezones';
+  return timezones.map(tz => tz.city || tz.name).join(' · ');
+}
+
+interface TimezoneSetCardProps {
+  timezoneSet: TimezoneSet;
+  timezones: Timezone[];
+  isActive: boolean;
+}
+
+function TimezoneSetCard({ timezoneSet, timezones, isActive }: TimezoneSetCardProps) {
+  const { renameTimezoneSet, duplicateTimezoneSet, deleteTimezoneSet, switchTimezoneSet } = useTimezoneStore();
+  const [isRenaming, setIsRenaming] = useState(false);
+  const [name, setName] = useState(timezoneSet.name);
+
+  const handleRename = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+    renameTimezoneSet(timezoneSet.id, name);
+    setIsRenaming(false);
+  };
+
+  const handleDelete = () => {
+    if (window.confirm(`Are you sure you want to delete the set "${timezoneSet.name}"?`)) {
+      deleteTimezoneSet(timezoneSet.id);
+    }
+  };
+
+  const handleSwitch = () => {
+    switchTimezoneSet(timezoneSet.id);
+    toast.success(`Switched to "${timezoneSet.name}"`);
+  };
+
+  return (
+    <li
+      className={`p-4 rounded-lg border bg-card shadow-sm ${isActive ? 'border-primary-500 ring-1 ring-primary-500' : 'border-border'}`}
+    >
+      <div className="flex items-start justify-between gap-3 mb-2">
+        {isRenaming ? (
+          <form onSubmit={handleRename} className="flex items-center gap-1 flex-1">
+            <input
+              autoFocus
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className="flex-1 min-w-0 px-2 py-1 text-sm rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800"
+              aria-label="Set name"
+            />
+            <button type="submit" className="p-1.5 rounded-md hover:bg-muted" aria-label="Save name">
+              <Check className="w-4 h-4" />
+            </button>
+            <button
+              type="button"
+              onClick={() => { setName(timezoneSet.name); setIsRenaming(false); }}
+              className="p-1.5 rounded-md hover:bg-muted"
+              aria-label="Cancel rename"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </form>
+        ) : (
+          <h2 className="font-semibold text-lg truncate" title={timezoneSet.name}>{timezoneSet.name}</h2>
+        )}
+        {isActive && !isRenaming && (
+          <span className="shrink-0 text-xs font-medium px-2 py-0.5 rounded-full bg-primary-100 text-primary-800 dark:bg-primary-900 dark:text-primary-200">
+            Active
+          </span>
+        )}
+      </div>
+
+      <p className="text-sm text-muted-foreground mb-4 line-clamp-2" title={summarizeTimezones(timezones)}>
+        {timezones.length} {timezones.length === 1 ? 'timezone' : 'timezones'} · {summarizeTimezones(timezones)}
+      </p>
+
+      <div className="flex items-center gap-2">
+        <button
+          type="button"
+          onClick={handleSwitch}
+          disabled={isActive}
+          className="px-3 py-1.5 text-sm rounded-md bg-primary-500 text-white hover:bg-primary-600 disabled:opacity-50 disabled:cursor-default transition-colors"
+        >
+          {isActive ? 'In use' : 'Use this set'}
+        </button>
+        <div className="flex items-center gap-1 ml-auto">
+          <button
+            type="button"
+            onClick={() => setIsRenaming(true)}
+            className="p-1.5 rounded-md hover:bg-muted text-muted-foreground"
+            aria-label={`Rename ${timezoneSet.name}`}
+            title="Rename"
+          >
+            <Pencil className="w-4 h-4" />
+          </button>
+          <button
+            type="button"
+            onClick={() => duplicateTimezoneSet(timezoneSet.id)}
+            className="p-1.5 rounded-md hover:bg-muted text-muted-foreground"
+            aria-label={`Duplicate ${timezoneSet.name}`}
+            title="Duplicate"
+          >
+            <Copy className="w-4 h-4" />
+          </button>
+          <button
+            type="button"
+            onClick={handleDelete}
+            className="p-1.5 rounded-md hover:bg-muted text-red-500"
+            aria-label={`Delete ${timezoneSet.name}`}
+            title="Delete"
+          >
+            <Trash2 className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+    </li>
+  );
+}
+
+export default function SavedPage() {
+  const {
+    timezones,
+    savedTimezones,
+    timezoneSets,
+    activeSetId,
+    createTimezoneSet,
+    hydrate
+  } = useTimezoneStore();
+  const [newSetName, setNewSetName] = useState('');
+
+  useEffect(() => {
+    hydrate();
+  }, [hydrate]);
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newSetName.trim()) return;
+    createTimezoneSet(newSetName);
+    toast.success(`Saved "${newSetName.trim()}"`);
+    setNewSetName('');
+  };
+
+  // The active set shows the live list, since edits are copied back when switching
+  const ownTimezones = savedTimezones ?? timezones;
+
+  return (
+    <main className="min-h-screen mobile-desktop-container">
+      <div className="w-full max-w-screen-md mx-auto px-4 py-6">
+        <h1 className="text-2xl font-bold mb-2 text-center">Saved Timezone Sets</h1>
+        <p className="text-sm text-muted-foreground text-center mb-6">
+          Save groups of timezones and switch between them in one click.{' '}
+          <Link href="/" className="text-primary-500 hover:underline">Back to the clock</Link>
+        </p>
+
+        <form onSubmit={handleCreate} className="flex flex-col sm:flex-row gap-2 mb-2">
+          <input
+            value={newSetName}
+            onChange={(e) => setNewSetName(e.target.value)}
+            placeholder='Name, e.g. "EMEA support"'
+            className="flex-1 px-3 py-2 rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800"
+            aria-label="New set name"
+          />
+          <button
+            type="submit"
+            disabled={!newSetName.trim() || timezones.length === 0}
+            className="flex items-center justify-center gap-1 px-4 py-2 rounded-md bg-primary-500 text-white hover:bg-primary-600 disabled:opacity-50 transition-colors"
+          >
+            <Plus className="w-4 h-4" />
+            Save current list
+          </button>
+        </form>
+        <p className="text-xs text-muted-foreground mb-6">
+          Current list: {summarizeTimezones(timezones)}
+        </p>
+
+        {timezoneSets.length === 0 ? (
+          <p className="text-center text-muted-foreground py-12 border-2 border-dashed border-border rounded-lg">
+            No saved sets yet. Save your current list to get started.
+          </p>
+        ) : (
+          <ul className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            {timezoneSets.map((timezoneSet) => (
+              <TimezoneSetCard
+                key={timezoneSet.id}
+                timezoneSet={timezoneSet}
+                timezones={timezoneSet.id === activeSetId ? ownTimezones : timezoneSet.timezones}
+                isActive={timezoneSet.id === activeSetId}
+              />
+            ))}
+          </ul>
+        )}
+      </div>
+    </main>
+  );
+}
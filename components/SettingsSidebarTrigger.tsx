@@ -0,0 +1,45 @@
+import { useState } from 'react';
+import { Cog6ToothIcon } from '@heroicons/react/24/outline';
+import { SettingsPanel } from './ui/SettingsPanel';
+import { createPortal } from 'react-dom';
+
+interface SettingsSidebarTriggerProps {
+  onSidebarCollapse: () => void;
+}
+
+export function SettingsSidebarTrigger({ onSidebarCollapse }: SettingsSidebarTriggerProps) {
+  const [showSettings, setShowSettings] = useState(false);
+
+  const handleOpen = () => {
+    onSidebarCollapse();
+    setTimeout(() => setShowSettings(true), 200); // Wait for sidebar to close
+  };
+
+  // Render modal at the app root using a portal
+  const settingsModal = showSettings && typeof window !== 'undefined'
+    ? createPortal(
+        <div className="fixed inset-0 z-50 flex items-center justify-center">
+          <div className="absolute inset-0 bg-black/40" onClick={() => setShowSettings(false)} />
+          <div className="relative z-10">
+            <SettingsPanel onClose={() => setShowSettings(false)} />
+          </div>
+        </div>,
+        document.body
+      )
+    : null;
+
+  return (
+    <>
+      {/* Sidebar menu item button */}
+      <button
+        className="flex items-center space-x-3 px-3 py-3 rounded-full hover:bg-gray-800 w-full"
+        onClick={handleOpen}
+        type="button"
+      >
+        <Cog6ToothIcon className="w-6 h-6 text-gray-200" />
+        <span className="text-white">Settings</span>
+      </button>
+      {settingsModal}
+    </>
+  );
+}
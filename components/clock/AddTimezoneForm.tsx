@@ -1,7 +1,9 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { getAllTimezones, isValidTimezone } from '@/lib/utils/timezone';
+import { buildTimezoneSearchIndex, describeSearchMatch, type TimezoneSearchResult } from '@/lib/utils/timezoneSearch';
+import type { Timezone } from '@/store/timezoneStore';
 import * as Dialog from '@radix-ui/react-dialog';
 import { useCombobox } from 'downshift';
 import { motion, AnimatePresence } from 'framer-motion';
@@ -17,8 +19,9 @@ interface AddTimezoneFormProps {
 export default function AddTimezoneForm({ onAddTimezone, onCancel }: AddTimezoneFormProps) {
   // State for the timezone search
   const [inputValue, setInputValue] = useState('');
-  const [timezones, setTimezones] = useState<Array<{ id: string; name: string; city?: string; country?: string }>>([]);
-  const [filteredTimezones, setFilteredTimezones] = useState<Array<{ id: string; name: string; city?: string; country?: string }>>([]);
+  const [timezones, setTimezones] = useState<Timezone[]>([]);
+  const [filteredTimezones, setFilteredTimezones] = useState<Timezone[]>([]);
+  const [searchResults, setSearchResults] = useState<TimezoneSearchResult[]>([]);
   
   // Load all available timezones
   useEffect(() => {
@@ -27,25 +30,21 @@ export default function AddTimezoneForm({ onAddTimezone, onCancel }: AddTimezone
     setFilteredTimezones(allTimezones);
   }, []);
   
+  // Index abbreviations, aliases and countries so "PST" or "Bombay" find their zones
+  const searchIndex = useMemo(() => buildTimezoneSearchIndex(timezones), [timezones]);
+  
   // Filter timezones based on input
   useEffect(() => {
     if (!inputValue.trim()) {
+      setSearchResults([]);
       setFilteredTimezones(timezones);
       return;
     }
     
-    const filtered = timezones.filter((tz) => {
-      const searchTerm = inputValue.toLowerCase();
-      return (
-        tz.name.toLowerCase().includes(searchTerm) ||
-        tz.id.toLowerCase().includes(searchTerm) ||
-        (tz.city && tz.city.toLowerCase().includes(searchTerm)) ||
-        (tz.country && tz.country.toLowerCase().includes(searchTerm))
-      );
-    });
-    
-    setFilteredTimezones(filtered);
-  }, [inputValue, timezones]);
+    const results = searchIndex.search(inputValue);
+    setSearchResults(results);
+    setFilteredTimezones(results.map(result => result.timezone));
+  }, [inputValue, timezones, searchIndex]);
   
   // Set up Downshift combobox
   const {
@@ -139,20 +138,26 @@ export default function AddTimezoneForm({ onAddTimezone, onCancel }: AddTimezone
                     {filteredTimezones.length === 0 ? (
                       <div className="p-2 text-sm text-gray-500">No timezones found</div>
                     ) : (
-                      filteredTimezones.map((timezone, index) => (
-                        <div
-                          key={timezone.id}
-                          {...getItemProps({ item: timezone, index })}
-                          className={`
-                            p-2 cursor-pointer text-sm
-                            ${highlightedIndex === index ? 'bg-primary-100 dark:bg-primary-900' : ''}
-                            ${selectedItem === timezone ? 'bg-primary-200 dark:bg-primary-800' : ''}
-                          `}
-                        >
-                          <div className="font-medium">{timezone.name}</div>
-                          <div className="text-xs text-gray-500 dark:text-gray-400">{timezone.id}</div>
-                        </div>
-                      ))
+                      filteredTimezones.map((timezone, index) => {
+                        const matchNote = describeSearchMatch(searchResults[index]);
+                        return (
+                          <div
+                            key={timezone.id}
+                            {...getItemProps({ item: timezone, index })}
+                            className={`
+                              p-2 cursor-pointer text-sm
+                              ${highlightedIndex === index ? 'bg-primary-100 dark:bg-primary-900' : ''}
+                              ${selectedItem === timezone ? 'bg-primary-200 dark:bg-primary-800' : ''}
+                            `}
+                          >
+                            <div className="font-medium">{timezone.name}</div>
+                            <div className="text-xs text-gray-500 dark:text-gray-400">
+                              {timezone.id}
+                              {matchNote && <span className="text-primary-600 dark:text-primary-400"> · {matchNote}</span>}
+                            </div>
+                          </div>
+                        );
+                      })
                     )}
                   </motion.div>
                 )}
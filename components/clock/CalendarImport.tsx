@@ -0,0 +1,189 @@
+'use client';
+
+import React, { useCallback, useRef, useState } from 'react';
+import * as Dialog from '@radix-ui/react-dialog';
+import { CalendarClock, Repeat, Trash2, Upload, X } from 'lucide-react';
+import { DateTime } from 'luxon';
+import { toast } from 'sonner';
+import { useImportedEventsStore } from '@/store/importedEventsStore';
+import { useTimezoneStore } from '@/store/timezoneStore';
+import { ImportedEvent, parseICalendar } from '@/lib/utils/icalendarParser';
+import { getDateFormatPattern } from '@/lib/utils/dateTimeFormatter';
+import { useSettingsStore, type DateFormat } from '@/store/settingsStore';
+
+// Largest file accepted; calendar exports are text and rarely exceed this
+const MAX_FILE_BYTES = 5 * 1024 * 1024;
+
+/**
+ * Describe when an imported event (first) happens, in the user's timezone
+ */
+function describeEventStart(event: ImportedEvent, localTimezone: string, dateFormat: DateFormat): string {
+  const start = DateTime.fromISO(event.start.local, { zone: event.start.zone || localTimezone });
+  if (!start.isValid) return '';
+  const datePattern = getDateFormatPattern(dateFormat, { weekday: true });
+  return event.allDay
+    ? start.toFormat(datePattern)
+    : start.setZone(localTimezone).toFormat(`${datePattern} · HH:mm`);
+}
+
+/**
+ * Button + dialog for importing .ics files (drag-and-drop or file picker).
+ * Files are parsed in the browser; imported events show as busy blocks in the time columns.
+ */
+export default function CalendarImport() {
+  const { calendars, events, addCalendar, removeCalendar, removeEvent } = useImportedEventsStore();
+  const localTimezone = useTimezoneStore((state) => state.localTimezone);
+  const dateFormat = useSettingsStore((state) => state.dateFormat);
+  const [isOpen, setIsOpen] = useState(false);
+  const [isDragging, setIsDragging] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const importFiles = useCallback(async (files: FileList | File[]) => {
+    for (const file of Array.from(files)) {
+      if (file.size > MAX_FILE_BYTES) {
+        toast.error(`${file.name} is too large to import`);
+        continue;
+      }
+      try {
+        const calendarId = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+        const parsed = parseICalendar(await file.text(), calendarId);
+        if (parsed.length === 0) {
+          toast.error(`No events found in ${file.name}`);
+          continue;
+        }
+        addCalendar({ id: calendarId, name: file.name, importedAt: Date.now() }, parsed);
+        toast.success(`Imported ${parsed.length} event${parsed.length === 1 ? '' : 's'} from ${file.name}`);
+      } catch (error) {
+        console.error(`Failed to import ${file.name}:`, error);
+        toast.error(`Could not read ${file.name}`);
+      }
+    }
+  }, [addCalendar]);
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setIsDragging(false);
+    if (e.dataTransfer.files.length > 0) {
+      importFiles(e.dataTransfer.files);
+    }
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files && e.target.files.length > 0) {
+      importFiles(e.target.files);
+    }
+    // Allow picking the same file again
+    e.target.value = '';
+  };
+
+  return (
+    <Dialog.Root open={isOpen} onOpenChange={setIsOpen}>
+      <Dialog.Trigger asChild>
+        <button
+          className={`p-2 rounded-md hover:bg-muted transition-colors ${events.length > 0 ? 'text-primary-500' : 'text-muted-foreground'}`}
+          aria-label="Import calendar"
+          title="Import Calendar (.ics)"
+        >
+          <CalendarClock size={20} />
+        </button>
+      </Dialog.Trigger>
+      <Dialog.Portal>
+        <Dialog.Overlay className="fixed inset-0 bg-black/50 z-40 backdrop-blur-sm" />
+        <Dialog.Content
+          className="fixed left-1/2 top-1/2 z-50 w-full max-w-md max-h-[85vh] overflow-y-auto -translate-x-1/2 -translate-y-1/2 p-6 rounded-lg shadow-xl
+                    bg-white/80 dark:bg-gray-800/80 backdrop-blur-lg border border-white/20 dark:border-gray-700/50"
+        >
+          <div className="flex justify-between items-center mb-4">
+            <Dialog.Title className="text-lg font-semibold text-gray-900 dark:text-white">
+              Imported calendars
+            </Dialog.Title>
+            <Dialog.Close
+              className="p-1.5 rounded-full hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-400 hover:text-gray-500"
+              aria-label="Close calendar import"
+            >
+              <X className="w-5 h-5" />
+            </Dialog.Close>
+          </div>
+          <Dialog.Description className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+            Events are read in your browser and stored on this device only. They appear as busy blocks in the time columns.
+          </Dialog.Description>
+
+          <div
+            onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+            onDragLeave={() => setIsDragging(false)}
+            onDrop={handleDrop}
+            onClick={() => fileInputRef.current?.click()}
+            onKeyDown={(e) => { if (e.key === 'Enter' || e.key === ' ') fileInputRef.current?.click(); }}
+            role="button"
+            tabIndex={0}
+            className={`flex flex-col items-center justify-center gap-2 p-6 mb-4 rounded-lg border-2 border-dashed cursor-pointer transition-colors
+              ${isDragging
+                ? 'border-primary-500 bg-primary-50/50 dark:bg-primary-900/20'
+                : 'border-gray-300 dark:border-gray-600 hover:border-primary-400'}`}
+          >
+            <Upload className="w-6 h-6 text-gray-400" />
+            <span className="text-sm text-gray-700 dark:text-gray-300">
+              Drop .ics files here or click to choose
+            </span>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".ics,text/calendar"
+              multiple
+              onChange={handleFileChange}
+              className="hidden"
+            />
+          </div>
+
+          {calendars.length === 0 ? (
+            <p className="text-sm text-center text-gray-500 dark:text-gray-400">No calendars imported yet.</p>
+          ) : (
+            <ul className="space-y-3">
+              {calendars.map((calendar) => {
+                const calendarEvents = events.filter((event) => event.calendarId === calendar.id);
+                return (
+                  <li key={calendar.id} className="rounded-md border border-gray-200 dark:border-gray-700">
+                    <div className="flex justify-between items-center px-3 py-2 bg-gray-50/70 dark:bg-gray-900/40 rounded-t-md">
+                      <span className="text-sm font-medium text-gray-900 dark:text-white truncate" title={calendar.name}>
+                        {calendar.name}
+                      </span>
+                      <button
+                        type="button"
+                        onClick={() => removeCalendar(calendar.id)}
+                        className="text-xs text-red-600 dark:text-red-400 hover:underline shrink-0 ml-2"
+                      >
+                        Remove all
+                      </button>
+                    </div>
+                    <ul className="max-h-48 overflow-y-auto divide-y divide-gray-100 dark:divide-gray-700">
+                      {calendarEvents.map((event) => (
+                        <li key={event.id} className="flex justify-between items-center gap-2 px-3 py-1.5">
+                          <div className="min-w-0">
+                            <p className="text-sm text-gray-800 dark:text-gray-200 truncate">{event.title}</p>
+                            <p className="text-xs text-gray-500 dark:text-gray-400 flex items-center gap-1">
+                              {describeEventStart(event, localTimezone, dateFormat)}
+                              {event.allDay && ' · All day'}
+                              {event.rrule && <Repeat className="w-3 h-3" aria-label="Repeats" />}
+                            </p>
+                          </div>
+                          <button
+                            type="button"
+                            onClick={() => removeEvent(event.id)}
+                            className="p-1 rounded text-gray-400 hover:text-red-500 shrink-0"
+                            aria-label={`Remove ${event.title}`}
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        </li>
+                      ))}
+                    </ul>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </Dialog.Content>
+      </Dialog.Portal>
+    </Dialog.Root>
+  );
+}
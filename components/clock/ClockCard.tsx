@@ -5,6 +5,8 @@ import { motion, MotionProps } from 'framer-motion';
 import { Timezone } from '@/store/timezoneStore';
 import { DateTime } from 'luxon';
 import { isInDST } from '@/lib/utils/timezone';
+import { getDateFormatPattern } from '@/lib/utils/dateTimeFormatter';
+import { useSettingsStore } from '@/store/settingsStore';
 import * as DropdownMenu from '@radix-ui/react-dropdown-menu';
 import { Edit2, Settings, X } from 'lucide-react'; // Added X icon
 import { useTheme } from 'next-themes';
@@ -60,7 +62,11 @@ function ClockCard({
   );
   
   const isDST = useMemo(() => isInDST(timezone.id), [timezone.id]);
-  const dateDisplay = useMemo(() => zonedTime.toFormat('EEE, MMM d'), [zonedTime]);
+  const dateFormat = useSettingsStore((state) => state.dateFormat);
+  const dateDisplay = useMemo(
+    () => zonedTime.toFormat(getDateFormatPattern(dateFormat, { weekday: true, year: false })),
+    [zonedTime, dateFormat]
+  );
   const hour = zonedTime.hour;
   const isBusinessHours = useMemo(() => hour >= 9 && hour < 17, [hour]);
   const isNightTime = useMemo(() => hour >= 20 || hour < 6, [hour]);
@@ -0,0 +1,445 @@
+'use client';
+
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { Command } from 'cmdk';
+import { DateTime } from 'luxon';
+import { useTheme } from 'next-themes';
+import {
+  ArrowLeftCircle,
+  Calendar,
+  Clock,
+  FolderOpen,
+  Minus,
+  Plus,
+  Repeat,
+  Search,
+  SunMoon
+} from 'lucide-react';
+import { Timezone, useTimezoneStore } from '@/store/timezoneStore';
+import { useSettingsStore } from '@/store/settingsStore';
+import { getAllTimezones } from '@/lib/utils/timezone';
+import { buildTimezoneSearchIndex } from '@/lib/utils/timezoneSearch';
+import { getTimeSystem, isEarthZone } from '@/lib/utils/timeSystems';
+import { resolveLocalTime } from '@/lib/utils/timeConversion';
+import { getDateFormatPattern, getTimeFormatPattern } from '@/lib/utils/dateTimeFormatter';
+import { formatTimeForTimezone } from '@/lib/timezone-utils';
+
+type PalettePage = 'root' | 'add' | 'remove' | 'replace' | 'replace-with' | 'date' | 'time' | 'sets';
+
+const PAGE_PLACEHOLDERS: Record<PalettePage, string> = {
+  root: 'Type a command…',
+  add: 'Search for a timezone to add…',
+  remove: 'Pick a timezone to remove…',
+  replace: 'Pick a timezone to replace…',
+  'replace-with': 'Search for the new timezone…',
+  date: 'Date, e.g. 2025-06-14, Jun 14, tomorrow, +3…',
+  time: 'Time, e.g. 14:30 or 2:30 pm…',
+  sets: 'Pick a saved set…'
+};
+
+// Pages that list fixed items and let cmdk filter them
+const CMDK_FILTERED_PAGES: PalettePage[] = ['root', 'remove', 'replace', 'sets'];
+
+const MAX_ZONE_RESULTS = 30;
+const MAX_PREVIEW_ZONES = 4;
+
+const itemClassName = 'flex items-center gap-3 px-3 py-2 rounded-md text-sm cursor-pointer text-foreground aria-selected:bg-primary-500/10 aria-selected:text-primary-700 dark:aria-selected:text-primary-300';
+const groupClassName = '[&_[cmdk-group-heading]]:px-3 [&_[cmdk-group-heading]]:pt-2 [&_[cmdk-group-heading]]:pb-1 [&_[cmdk-group-heading]]:text-xs [&_[cmdk-group-heading]]:font-medium [&_[cmdk-group-heading]]:text-muted-foreground';
+
+/**
+ * Parse a date typed into the palette: an ISO date, a month and day
+ * (e.g. "Jun 14"), "today"/"tomorrow"/"yesterday" or a day offset such as "+3"
+ * @returns Start of the day, or null if the text isn't a date
+ */
+function parsePaletteDate(value: string, today: DateTime): DateTime | null {
+  const text = value.trim().toLowerCase();
+  if (!text) return null;
+  if (text === 'today') return today.startOf('day');
+  if (text === 'tomorrow') return today.plus({ days: 1 }).startOf('day');
+  if (text === 'yesterday') return today.minus({ days: 1 }).startOf('day');
+
+  const offset = /^([+-])\s*(\d{1,3})\s*d?$/.exec(text);
+  if (offset) {
+    const days = parseInt(offset[2], 10) * (offset[1] === '-' ? -1 : 1);
+    return today.plus({ days }).startOf('day');
+  }
+
+  if (/^\d{4}-\d{2}-\d{2}$/.test(text)) {
+    const iso = DateTime.fromISO(text);
+    return iso.isValid ? iso : null;
+  }
+
+  for (const format of ['LLL d', 'LLLL d', 'd LLL', 'd LLLL', 'LLL d yyyy', 'd LLL yyyy', 'M/d', 'M/d/yyyy']) {
+    const parsed = DateTime.fromFormat(text.replace(/,/g, ''), format, { locale: 'en-US' });
+    if (parsed.isValid) {
+      // Formats without a year fall in the current one
+      return format.includes('yyyy') ? parsed.startOf('day') : parsed.set({ year: today.year }).startOf('day');
+    }
+  }
+  return null;
+}
+
+/**
+ * Parse a time of day typed into the palette, e.g. "14:30", "2:30 pm" or "9am"
+ * @returns Hours and minutes, or null if the text isn't a time
+ */
+function parsePaletteTime(value: string): { hour: number; minute: number } | null {
+  const match = /^(\d{1,2})(?:[:.](\d{2}))?\s*(am|pm|a|p)?$/i.exec(value.trim());
+  if (!match) return null;
+  let hour = parseInt(match[1], 10);
+  const minute = match[2] ? parseInt(match[2], 10) : 0;
+  const meridiem = match[3]?.toLowerCase();
+  if (minute > 59) return null;
+  if (meridiem) {
+    if (hour < 1 || hour > 12) return null;
+    hour = (hour % 12) + (meridiem.startsWith('p') ? 12 : 0);
+  } else if (hour > 23 || !match[2]) {
+    // A bare number is only a time with am/pm, e.g. "9am"
+    return null;
+  }
+  return { hour, minute };
+}
+
+// Keep the same recent list as the timezone selector so relevance matches
+const readRecentTimezones = (): Set<string> => {
+  try {
+    const saved = localStorage.getItem('recentTimezones');
+    return new Set(saved ? JSON.parse(saved) : []);
+  } catch {
+    return new Set();
+  }
+};
+
+const rememberRecentTimezone = (id: string) => {
+  try {
+    const recent = Array.from(readRecentTimezones()).filter(existing => existing !== id);
+    localStorage.setItem('recentTimezones', JSON.stringify([...recent, id].slice(-10)));
+  } catch (err) {
+    console.error('Error saving recent timezones:', err);
+  }
+};
+
+const getZoneLabel = (timezone: Timezone) => timezone.city || timezone.name;
+
+interface CommandPaletteProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Command palette (Cmd/Ctrl+K) for adding, removing and replacing zones, moving
+ * to a date, highlighting a time, switching saved sets and toggling the theme
+ * without the mouse. Items preview their result, e.g. a zone's current time.
+ */
+export default function CommandPalette({ open, onOpenChange }: CommandPaletteProps) {
+  const {
+    timezones,
+    localTimezone,
+    selectedDate,
+    timezoneSets,
+    activeSetId,
+    addTimezone,
+    removeTimezone,
+    reorderTimezones,
+    setSelectedDate,
+    setHighlightedTime,
+    resetToToday,
+    switchTimezoneSet
+  } = useTimezoneStore();
+  const timeFormat = useSettingsStore((state) => state.timeFormat);
+  const dateFormat = useSettingsStore((state) => state.dateFormat);
+  const shortDatePattern = getDateFormatPattern(dateFormat, { weekday: true, year: false });
+  const marsTimeScale = useSettingsStore((state) => state.marsTimeScale);
+  const { resolvedTheme, setTheme } = useTheme();
+
+  const [page, setPage] = useState<PalettePage>('root');
+  const [search, setSearch] = useState('');
+  const [replaceTarget, setReplaceTarget] = useState<Timezone | null>(null);
+  const [now, setNow] = useState(() => new Date());
+
+  // Cmd/Ctrl+K opens and closes the palette from anywhere
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key.toLowerCase() === 'k' && (event.metaKey || event.ctrlKey)) {
+        event.preventDefault();
+        onOpenChange(!open);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [open, onOpenChange]);
+
+  // Start over each time it opens, and keep previews current while it's open
+  useEffect(() => {
+    if (!open) return;
+    setPage('root');
+    setSearch('');
+    setReplaceTarget(null);
+    setNow(new Date());
+    const timer = setInterval(() => setNow(new Date()), 15000);
+    return () => clearInterval(timer);
+  }, [open]);
+
+  const goTo = useCallback((nextPage: PalettePage) => {
+    setPage(nextPage);
+    setSearch('');
+  }, []);
+
+  const close = useCallback(() => onOpenChange(false), [onOpenChange]);
+
+  const formatZoneTime = useCallback(
+    (time: Date, zone: string) => formatTimeForTimezone(time, zone, getTimeFormatPattern(timeFormat), marsTimeScale),
+    [timeFormat, marsTimeScale]
+  );
+
+  // All zones that can be added, other time systems (e.g. Mars) first, as in the selector
+  const addableTimezones = useMemo<Timezone[]>(() => {
+    if (!open) return [];
+    const excluded = new Set([localTimezone, ...timezones.map(tz => tz.id)]);
+    return getAllTimezones()
+      .filter(tz => !excluded.has(tz.id))
+      .sort((a, b) => Number(isEarthZone(a.id)) - Number(isEarthZone(b.id)));
+  }, [open, localTimezone, timezones]);
+
+  const zoneSearchIndex = useMemo(() => buildTimezoneSearchIndex(addableTimezones), [addableTimezones]);
+
+  const zoneResults = useMemo(() => {
+    if (page !== 'add' && page !== 'replace-with') return [];
+    const searchTerm = search.trim();
+    if (!searchTerm) return addableTimezones.slice(0, MAX_ZONE_RESULTS);
+    return zoneSearchIndex
+      .search(searchTerm, { recentTimezones: readRecentTimezones(), limit: MAX_ZONE_RESULTS })
+      .map(result => result.timezone);
+  }, [page, search, addableTimezones, zoneSearchIndex]);
+
+  const today = useMemo(() => DateTime.fromJSDate(now).setZone(localTimezone), [now, localTimezone]);
+  const parsedDate = useMemo(() => page === 'date' ? parsePaletteDate(search, today) : null, [page, search, today]);
+
+  // The typed time on the selected date in the user's zone
+  const parsedTime = useMemo(() => {
+    if (page !== 'time') return null;
+    const time = parsePaletteTime(search);
+    if (!time) return null;
+    const date = DateTime.fromJSDate(selectedDate).setZone(localTimezone);
+    const resolution = resolveLocalTime({ year: date.year, month: date.month, day: date.day, ...time }, localTimezone);
+    return resolution ? resolution.resolved.toJSDate() : null;
+  }, [page, search, selectedDate, localTimezone]);
+
+  const handleAdd = (timezone: Timezone) => {
+    rememberRecentTimezone(timezone.id);
+    addTimezone(timezone);
+    close();
+  };
+
+  const handleReplace = (timezone: Timezone) => {
+    if (!replaceTarget) return;
+    // Put the new zone where the old one was
+    const current = useTimezoneStore.getState().timezones;
+    const index = current.findIndex(tz => tz.id === replaceTarget.id);
+    rememberRecentTimezone(timezone.id);
+    removeTimezone(replaceTarget.id);
+    addTimezone(timezone);
+    if (index >= 0) reorderTimezones(current.length - 1, index);
+    close();
+  };
+
+  const handleJumpToDate = (date: DateTime) => {
+    setSelectedDate(date.toJSDate());
+    close();
+  };
+
+  const handleHighlight = (time: Date) => {
+    setHighlightedTime(time);
+    close();
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    // Backspace on an empty search goes back a page
+    if (event.key === 'Backspace' && !search && page !== 'root') {
+      event.preventDefault();
+      goTo(page === 'replace-with' ? 'replace' : 'root');
+    }
+  };
+
+  const renderZoneItem = (timezone: Timezone, onSelect: (timezone: Timezone) => void) => {
+    const timeSystem = getTimeSystem(timezone.id);
+    return (
+      <Command.Item key={timezone.id} value={timezone.id} onSelect={() => onSelect(timezone)} className={itemClassName}>
+        <Clock size={16} className="text-muted-foreground flex-shrink-0" />
+        <span className="flex-1 truncate">
+          {getZoneLabel(timezone)}
+          <span className="ml-2 text-xs text-muted-foreground">{timezone.id}</span>
+        </span>
+        <span className={`text-xs tabular-nums ${timeSystem.usesEarthCalendar ? 'text-muted-foreground' : 'text-red-600 dark:text-red-400'}`}>
+          {formatZoneTime(now, timezone.id)} · {timeSystem.getOffsetLabel(timezone.id)}
+        </span>
+      </Command.Item>
+    );
+  };
+
+  const previewZones = timezones.slice(0, MAX_PREVIEW_ZONES);
+  const isViewingToday = DateTime.fromJSDate(selectedDate).hasSame(DateTime.now(), 'day');
+  const nextTheme = resolvedTheme === 'dark' ? 'light' : 'dark';
+
+  return (
+    <Command.Dialog
+      open={open}
+      onOpenChange={onOpenChange}
+      label="Command palette"
+      shouldFilter={CMDK_FILTERED_PAGES.includes(page)}
+      loop
+      overlayClassName="fixed inset-0 z-50 bg-black/40"
+      contentClassName="fixed left-1/2 top-[15vh] z-50 w-[92vw] max-w-xl -translate-x-1/2 rounded-lg border border-border bg-card shadow-2xl overflow-hidden"
+      onKeyDown={handleKeyDown}
+    >
+      <div className="flex items-center gap-2 px-3 border-b border-border">
+        <Search size={16} className="text-muted-foreground flex-shrink-0" />
+        <Command.Input
+          value={search}
+          onValueChange={setSearch}
+          placeholder={replaceTarget && page === 'replace-with'
+            ? `Replace ${getZoneLabel(replaceTarget)} with…`
+            : PAGE_PLACEHOLDERS[page]}
+          className="w-full py-3 bg-transparent text-sm outline-none placeholder:text-muted-foreground"
+        />
+      </div>
+
+      <Command.List className="max-h-[60vh] overflow-y-auto p-2">
+        <Command.Empty className="px-3 py-6 text-center text-sm text-muted-foreground">
+          {page === 'date' ? 'Type a date to jump to.' : page === 'time' ? 'Type a time to highlight.' : 'No results.'}
+        </Command.Empty>
+
+        {page === 'root' && (
+          <>
+            <Command.Group heading="Timezones" className={groupClassName}>
+              <Command.Item value="add timezone" onSelect={() => goTo('add')} className={itemClassName}>
+                <Plus size={16} className="text-muted-foreground" />
+                <span className="flex-1">Add timezone…</span>
+              </Command.Item>
+              {timezones.length > 0 && (
+                <>
+                  <Command.Item value="remove timezone" onSelect={() => goTo('remove')} className={itemClassName}>
+                    <Minus size={16} className="text-muted-foreground" />
+                    <span className="flex-1">Remove timezone…</span>
+                  </Command.Item>
+                  <Command.Item value="replace timezone" onSelect={() => goTo('replace')} className={itemClassName}>
+                    <Repeat size={16} className="text-muted-foreground" />
+                    <span className="flex-1">Replace timezone…</span>
+                  </Command.Item>
+                </>
+              )}
+            </Command.Group>
+
+            <Command.Group heading="Time" className={groupClassName}>
+              <Command.Item value="jump to date" onSelect={() => goTo('date')} className={itemClassName}>
+                <Calendar size={16} className="text-muted-foreground" />
+                <span className="flex-1">Jump to date…</span>
+                <span className="text-xs text-muted-foreground">{DateTime.fromJSDate(selectedDate).toFormat(shortDatePattern)}</span>
+              </Command.Item>
+              <Command.Item value="highlight time" onSelect={() => goTo('time')} className={itemClassName}>
+                <Clock size={16} className="text-muted-foreground" />
+                <span className="flex-1">Highlight time…</span>
+              </Command.Item>
+              <Command.Item value="reset to today" onSelect={() => { resetToToday(); close(); }} className={itemClassName}>
+                <ArrowLeftCircle size={16} className="text-muted-foreground" />
+                <span className="flex-1">Reset to today</span>
+                <span className="text-xs text-muted-foreground">
+                  {isViewingToday ? 'Already on today' : today.toFormat(shortDatePattern)}
+                </span>
+              </Command.Item>
+            </Command.Group>
+
+            <Command.Group heading="General" className={groupClassName}>
+              {timezoneSets.length > 0 && (
+                <Command.Item value="switch saved set" onSelect={() => goTo('sets')} className={itemClassName}>
+                  <FolderOpen size={16} className="text-muted-foreground" />
+                  <span className="flex-1">Switch saved set…</span>
+                  <span className="text-xs text-muted-foreground">
+                    {timezoneSets.find(timezoneSet => timezoneSet.id === activeSetId)?.name ?? `${timezoneSets.length} saved`}
+                  </span>
+                </Command.Item>
+              )}
+              <Command.Item value="toggle theme dark light" onSelect={() => { setTheme(nextTheme); close(); }} className={itemClassName}>
+                <SunMoon size={16} className="text-muted-foreground" />
+                <span className="flex-1">Toggle theme</span>
+                <span className="text-xs text-muted-foreground">Switch to {nextTheme}</span>
+              </Command.Item>
+            </Command.Group>
+          </>
+        )}
+
+        {page === 'add' && zoneResults.map(timezone => renderZoneItem(timezone, handleAdd))}
+
+        {page === 'replace-with' && zoneResults.map(timezone => renderZoneItem(timezone, handleReplace))}
+
+        {(page === 'remove' || page === 'replace') && timezones.map(timezone => (
+          <Command.Item
+            key={timezone.id}
+            value={`${getZoneLabel(timezone)} ${timezone.id}`}
+            onSelect={() => {
+              if (page === 'remove') {
+                removeTimezone(timezone.id);
+                close();
+              } else {
+                setReplaceTarget(timezone);
+                goTo('replace-with');
+              }
+            }}
+            className={itemClassName}
+          >
+            {page === 'remove' ? <Minus size={16} className="text-muted-foreground" /> : <Repeat size={16} className="text-muted-foreground" />}
+            <span className="flex-1 truncate">{getZoneLabel(timezone)}</span>
+            <span className="text-xs text-muted-foreground tabular-nums">{formatZoneTime(now, timezone.id)}</span>
+          </Command.Item>
+        ))}
+
+        {page === 'date' && parsedDate && (
+          <Command.Item value="date" onSelect={() => handleJumpToDate(parsedDate)} className={itemClassName}>
+            <Calendar size={16} className="text-muted-foreground" />
+            <span className="flex-1">Go to {parsedDate.toFormat(`EEEE, ${getDateFormatPattern(dateFormat)}`)}</span>
+            <span className="text-xs text-muted-foreground">
+              {parsedDate.hasSame(today, 'day') ? 'Today' : parsedDate.toRelativeCalendar({ base: today.startOf('day') })}
+            </span>
+          </Command.Item>
+        )}
+
+        {page === 'time' && parsedTime && (
+          <Command.Item value="time" onSelect={() => handleHighlight(parsedTime)} className={`${itemClassName} flex-wrap`}>
+            <Clock size={16} className="text-muted-foreground" />
+            <span className="flex-1">
+              Highlight {formatZoneTime(parsedTime, localTimezone)} on {DateTime.fromJSDate(parsedTime).setZone(localTimezone).toFormat(shortDatePattern)}
+            </span>
+            {previewZones.length > 0 && (
+              <span className="w-full pl-7 text-xs text-muted-foreground truncate">
+                {previewZones.map(timezone => `${getZoneLabel(timezone)} ${formatZoneTime(parsedTime, timezone.id)}`).join(' · ')}
+              </span>
+            )}
+          </Command.Item>
+        )}
+
+        {page === 'sets' && timezoneSets.map(timezoneSet => (
+          <Command.Item
+            key={timezoneSet.id}
+            value={`${timezoneSet.name} ${timezoneSet.id}`}
+            onSelect={() => { switchTimezoneSet(timezoneSet.id); close(); }}
+            className={itemClassName}
+          >
+            <FolderOpen size={16} className="text-muted-foreground" />
+            <span className="flex-1 truncate">
+              {timezoneSet.name}
+              {timezoneSet.id === activeSetId && <span className="ml-2 text-xs text-primary-500">Active</span>}
+            </span>
+            <span className="text-xs text-muted-foreground truncate max-w-[50%]">
+              {timezoneSet.timezones.map(getZoneLabel).join(', ') || 'No zones'}
+            </span>
+          </Command.Item>
+        ))}
+      </Command.List>
+
+      <div className="px-3 py-2 border-t border-border text-xs text-muted-foreground flex justify-between">
+        <span>↑↓ to move · Enter to run</span>
+        <span>{page === 'root' ? 'Esc to close' : 'Backspace to go back'}</span>
+      </div>
+    </Command.Dialog>
+  );
+}
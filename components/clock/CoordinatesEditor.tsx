@@ -0,0 +1,169 @@
+'use client';
+
+import React, { useState } from 'react';
+import * as Dialog from '@radix-ui/react-dialog';
+import { MapPin, X } from 'lucide-react';
+import { DateTime } from 'luxon';
+import { Timezone, useTimezoneStore } from '@/store/timezoneStore';
+import { getSunTimes, getTimezoneCoordinates, getZoneCoordinates } from '@/lib/utils/solar';
+
+interface CoordinatesEditorProps {
+  timezone: Timezone;
+  className?: string;
+  compact?: boolean; // Smaller trigger for dense column headers
+}
+
+const formatCoordinate = (value: number, positive: string, negative: string) =>
+  `${Math.abs(value).toFixed(2)}°${value >= 0 ? positive : negative}`;
+
+/**
+ * Button + dialog for setting where a timezone's sunrise and sunset are computed.
+ * Zones start at their bundled city; changes are saved on the timezone entry in the store.
+ */
+export default function CoordinatesEditor({ timezone, className = '', compact = false }: CoordinatesEditorProps) {
+  const setTimezoneCoordinates = useTimezoneStore((state) => state.setTimezoneCoordinates);
+  const current = getTimezoneCoordinates(timezone);
+  const bundled = getZoneCoordinates(timezone.id);
+  const isCustom = !!current && (!bundled || current.lat !== bundled.lat || current.lon !== bundled.lon);
+
+  const [isOpen, setIsOpen] = useState(false);
+  const [latitude, setLatitude] = useState('');
+  const [longitude, setLongitude] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const cityName = timezone.city || timezone.name;
+  const lat = Number(latitude);
+  const lon = Number(longitude);
+  const isValid = latitude.trim() !== '' && longitude.trim() !== '' &&
+    Number.isFinite(lat) && Number.isFinite(lon) && Math.abs(lat) <= 90 && Math.abs(lon) <= 180;
+
+  // Today's sun times at the coordinates being edited
+  const preview = isValid ? getSunTimes(new Date(), { lat, lon }, timezone.id) : null;
+  const formatSunTime = (date: Date | null) =>
+    date ? DateTime.fromJSDate(date).setZone(timezone.id).toFormat('t') : '—';
+
+  const handleOpenChange = (open: boolean) => {
+    if (open) {
+      // Start each edit from the saved value
+      setLatitude(current ? String(current.lat) : '');
+      setLongitude(current ? String(current.lon) : '');
+      setError(null);
+    }
+    setIsOpen(open);
+  };
+
+  const handleSave = () => {
+    if (!isValid) {
+      setError('Enter a latitude between -90 and 90 and a longitude between -180 and 180.');
+      return;
+    }
+    setTimezoneCoordinates(timezone.id, { lat, lon });
+    setIsOpen(false);
+  };
+
+  const handleReset = () => {
+    setTimezoneCoordinates(timezone.id, null);
+    setIsOpen(false);
+  };
+
+  const inputClassName = 'mt-1 w-full p-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white';
+
+  return (
+    // Stop clicks (including ones bubbling from the portal) from reaching the column header
+    <div data-coordinates-editor onClick={(e) => e.stopPropagation()} className={className}>
+      <Dialog.Root open={isOpen} onOpenChange={handleOpenChange}>
+        <Dialog.Trigger asChild>
+          <button
+            type="button"
+            className={`${compact
+              ? 'p-1.5 rounded-full hover:bg-gray-200 dark:hover:bg-gray-700 focus:outline-none opacity-50 hover:opacity-100'
+              : 'p-3 rounded-full bg-gray-100 dark:bg-gray-700 hover:bg-primary-100 dark:hover:bg-primary-900/30 focus:outline-none focus:ring-2 focus:ring-primary-500 transition-colors z-10'}
+              ${isCustom ? 'text-primary-600 dark:text-primary-400' : ''}`}
+            aria-label={`Edit location for ${cityName}`}
+            title={current
+              ? `Sunrise/sunset at ${formatCoordinate(current.lat, 'N', 'S')}, ${formatCoordinate(current.lon, 'E', 'W')}`
+              : 'Set a location for sunrise/sunset'}
+          >
+            <MapPin className={compact ? 'h-3.5 w-3.5' : 'h-5 w-5'} />
+          </button>
+        </Dialog.Trigger>
+        <Dialog.Portal>
+          <Dialog.Overlay className="fixed inset-0 bg-black/50 z-40 backdrop-blur-sm" />
+          <Dialog.Content
+            className="fixed left-1/2 top-1/2 z-50 w-full max-w-sm -translate-x-1/2 -translate-y-1/2 p-6 rounded-lg shadow-xl
+                      bg-white/80 dark:bg-gray-800/80 backdrop-blur-lg border border-white/20 dark:border-gray-700/50"
+          >
+            <div className="flex justify-between items-center mb-4">
+              <Dialog.Title className="text-lg font-semibold text-gray-900 dark:text-white">
+                Location · {cityName}
+              </Dialog.Title>
+              <Dialog.Close
+                className="p-1.5 rounded-full hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-400 hover:text-gray-500"
+                aria-label="Close location editor"
+              >
+                <X className="w-5 h-5" />
+              </Dialog.Close>
+            </div>
+            <Dialog.Description className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+              Day, night and twilight shading follow the sun here. Degrees north and east are positive.
+            </Dialog.Description>
+
+            <div className="grid grid-cols-2 gap-3 mb-4">
+              <label className="text-sm text-gray-700 dark:text-gray-300">
+                Latitude
+                <input
+                  type="number"
+                  step="any"
+                  min={-90}
+                  max={90}
+                  value={latitude}
+                  onChange={(e) => setLatitude(e.target.value)}
+                  className={inputClassName}
+                />
+              </label>
+              <label className="text-sm text-gray-700 dark:text-gray-300">
+                Longitude
+                <input
+                  type="number"
+                  step="any"
+                  min={-180}
+                  max={180}
+                  value={longitude}
+                  onChange={(e) => setLongitude(e.target.value)}
+                  className={inputClassName}
+                />
+              </label>
+            </div>
+
+            {preview && (
+              <p className="text-sm text-gray-600 dark:text-gray-300 mb-4">
+                Today: sunrise {formatSunTime(preview.sunrise)} · sunset {formatSunTime(preview.sunset)}
+              </p>
+            )}
+
+            {error && (
+              <p className="text-sm text-red-600 dark:text-red-400 mb-3" role="alert">{error}</p>
+            )}
+
+            <div className="flex justify-between items-center gap-2">
+              <button
+                type="button"
+                onClick={handleReset}
+                className="text-sm text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+              >
+                {bundled ? `Reset to ${cityName}` : 'Clear location'}
+              </button>
+              <button
+                type="button"
+                onClick={handleSave}
+                className="px-4 py-2 rounded-md bg-primary-500 text-white font-medium hover:bg-primary-600 focus:outline-none focus:ring-2 focus:ring-primary-500"
+              >
+                Save
+              </button>
+            </div>
+          </Dialog.Content>
+        </Dialog.Portal>
+      </Dialog.Root>
+    </div>
+  );
+}
@@ -0,0 +1,159 @@
+'use client';
+
+import React, { useState } from 'react';
+import * as Dialog from '@radix-ui/react-dialog';
+import { Orbit, Trash2, X } from 'lucide-react';
+import { DateTime } from 'luxon';
+import { toast } from 'sonner';
+import { useMarsLocationsStore } from '@/store/marsLocationsStore';
+import { useTimezoneStore } from '@/store/timezoneStore';
+import { convertEarthToMarsTime, formatMarsTime } from '@/lib/utils/mars-timezone';
+
+const inputClassName = 'w-full px-2 py-1.5 rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-900 text-sm';
+
+/**
+ * Button + dialog for defining custom Mars locations by latitude/longitude and an
+ * optional mission start date. Saved locations appear in the timezone selector.
+ */
+export default function MarsLocationManager() {
+  const { locations, addLocation, removeLocation } = useMarsLocationsStore();
+  const removeTimezone = useTimezoneStore((state) => state.removeTimezone);
+  const [isOpen, setIsOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [latitude, setLatitude] = useState('');
+  const [longitude, setLongitude] = useState('');
+  const [missionName, setMissionName] = useState('');
+  const [missionStart, setMissionStart] = useState('');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const lat = Number(latitude);
+    const lon = Number(longitude);
+    if (!name.trim() || !Number.isFinite(lat) || !Number.isFinite(lon) || lat < -90 || lat > 90) {
+      toast.error('Enter a name, a latitude between -90 and 90, and a longitude');
+      return;
+    }
+
+    // The mission start is entered as UTC
+    const start = missionStart ? DateTime.fromISO(missionStart, { zone: 'utc' }) : null;
+    if (start && !start.isValid) {
+      toast.error('Enter a valid mission start date');
+      return;
+    }
+
+    const location = addLocation({
+      name,
+      latitude: lat,
+      longitude: lon,
+      missionName: missionName || undefined,
+      missionStart: start?.toISO() ?? undefined
+    });
+    toast.success(`Added ${location.name}. Find it in the timezone selector.`);
+    setName('');
+    setLatitude('');
+    setLongitude('');
+    setMissionName('');
+    setMissionStart('');
+  };
+
+  const handleRemove = (id: string) => {
+    removeLocation(id);
+    // Drop it from the clock too, since its time can no longer be worked out
+    removeTimezone(id);
+  };
+
+  return (
+    <Dialog.Root open={isOpen} onOpenChange={setIsOpen}>
+      <Dialog.Trigger asChild>
+        <button
+          className={`p-2 rounded-md hover:bg-muted transition-colors ${locations.length > 0 ? 'text-red-500' : 'text-muted-foreground'}`}
+          aria-label="Mars locations"
+          title="Mars Locations"
+        >
+          <Orbit size={20} />
+        </button>
+      </Dialog.Trigger>
+      <Dialog.Portal>
+        <Dialog.Overlay className="fixed inset-0 bg-black/50 z-40 backdrop-blur-sm" />
+        <Dialog.Content
+          className="fixed left-1/2 top-1/2 z-50 w-full max-w-md max-h-[85vh] overflow-y-auto -translate-x-1/2 -translate-y-1/2 p-6 rounded-lg shadow-xl
+                    bg-white/80 dark:bg-gray-800/80 backdrop-blur-lg border border-white/20 dark:border-gray-700/50"
+        >
+          <div className="flex justify-between items-center mb-4">
+            <Dialog.Title className="text-lg font-semibold text-gray-900 dark:text-white">
+              Mars locations
+            </Dialog.Title>
+            <Dialog.Close
+              className="p-1.5 rounded-full hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-400 hover:text-gray-500"
+              aria-label="Close Mars locations"
+            >
+              <X className="w-5 h-5" />
+            </Dialog.Close>
+          </div>
+          <Dialog.Description className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+            Add a place on Mars by its coordinates. With a mission start date, sols are counted from that
+            landing (Sol 0); otherwise the Mars Sol Date is shown.
+          </Dialog.Description>
+
+          <form onSubmit={handleSubmit} className="space-y-3 mb-6">
+            <div>
+              <label htmlFor="mars-location-name" className="block text-xs font-medium mb-1 text-gray-700 dark:text-gray-300">Name</label>
+              <input id="mars-location-name" value={name} onChange={(e) => setName(e.target.value)} required className={inputClassName} />
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label htmlFor="mars-location-lat" className="block text-xs font-medium mb-1 text-gray-700 dark:text-gray-300">Latitude (°N)</label>
+                <input id="mars-location-lat" type="number" step="any" min={-90} max={90} value={latitude} onChange={(e) => setLatitude(e.target.value)} required className={inputClassName} />
+              </div>
+              <div>
+                <label htmlFor="mars-location-lon" className="block text-xs font-medium mb-1 text-gray-700 dark:text-gray-300">Longitude (°E)</label>
+                <input id="mars-location-lon" type="number" step="any" value={longitude} onChange={(e) => setLongitude(e.target.value)} required className={inputClassName} />
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label htmlFor="mars-location-mission" className="block text-xs font-medium mb-1 text-gray-700 dark:text-gray-300">Mission (optional)</label>
+                <input id="mars-location-mission" value={missionName} onChange={(e) => setMissionName(e.target.value)} className={inputClassName} />
+              </div>
+              <div>
+                <label htmlFor="mars-location-start" className="block text-xs font-medium mb-1 text-gray-700 dark:text-gray-300">Landing (UTC)</label>
+                <input id="mars-location-start" type="datetime-local" value={missionStart} onChange={(e) => setMissionStart(e.target.value)} className={inputClassName} />
+              </div>
+            </div>
+            <button
+              type="submit"
+              className="w-full px-3 py-2 rounded-md bg-primary-500 text-white text-sm hover:bg-primary-600 transition-colors"
+            >
+              Add location
+            </button>
+          </form>
+
+          {locations.length === 0 ? (
+            <p className="text-sm text-center text-gray-500 dark:text-gray-400">No custom locations yet.</p>
+          ) : (
+            <ul className="divide-y divide-gray-100 dark:divide-gray-700 rounded-md border border-gray-200 dark:border-gray-700">
+              {locations.map((location) => (
+                <li key={location.id} className="flex justify-between items-center gap-2 px-3 py-2">
+                  <div className="min-w-0">
+                    <p className="text-sm text-gray-800 dark:text-gray-200 truncate">{location.name}</p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                      {location.description} · {formatMarsTime(convertEarthToMarsTime(DateTime.now(), location.id))}
+                    </p>
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => handleRemove(location.id)}
+                    className="p-1 rounded text-gray-400 hover:text-red-500 shrink-0"
+                    aria-label={`Remove ${location.name}`}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </Dialog.Content>
+      </Dialog.Portal>
+    </Dialog.Root>
+  );
+}
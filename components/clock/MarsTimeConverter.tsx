@@ -0,0 +1,144 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import { DateTime } from 'luxon';
+import { motion } from 'framer-motion';
+import { Orbit } from 'lucide-react';
+import { useTimezoneStore } from '@/store/timezoneStore';
+import { useSettingsStore } from '@/store/settingsStore';
+import {
+  convertEarthToMarsTime,
+  convertMarsToEarthTime,
+  getMarsLocations,
+  MarsTimeScale
+} from '@/lib/utils/mars-timezone';
+import { getTimeSystem, isEarthZone, marsTimeSystem } from '@/lib/utils/timeSystems';
+import { getDateFormatPattern } from '@/lib/utils/dateTimeFormatter';
+
+const inputClassName = 'px-2 py-1 rounded-md border border-border bg-background text-sm';
+
+/**
+ * Mars-to-Earth converter panel. Pick a Mars site, sol and local Mars time to see the
+ * Earth instant in each selected zone; "Highlight" selects it in the time grid.
+ */
+export default function MarsTimeConverter() {
+  const {
+    timezones,
+    localTimezone,
+    setHighlightedTime,
+    setSelectedDate
+  } = useTimezoneStore();
+  const defaultScale = useSettingsStore((state) => state.marsTimeScale);
+  const dateFormat = useSettingsStore((state) => state.dateFormat);
+
+  const locations = getMarsLocations();
+  const [locationId, setLocationId] = useState(
+    () => timezones.find(tz => getTimeSystem(tz.id) === marsTimeSystem)?.id ?? locations[0].id
+  );
+  const [sol, setSol] = useState(() => String(convertEarthToMarsTime(DateTime.now(), locationId).sol));
+  const [time, setTime] = useState('14:00');
+  const [scale, setScale] = useState<MarsTimeScale>(defaultScale);
+
+  const earthTime = useMemo(() => {
+    const [hours, minutes] = time.split(':').map(Number);
+    const solNumber = Number(sol);
+    if (!Number.isInteger(solNumber) || !Number.isFinite(hours) || !Number.isFinite(minutes)) {
+      return null;
+    }
+    return convertMarsToEarthTime({ location: locationId, sol: solNumber, hours, minutes, scale });
+  }, [locationId, sol, time, scale]);
+
+  const earthZones = useMemo(() => {
+    const ids = [localTimezone, ...timezones.map(tz => tz.id)].filter(isEarthZone);
+    return Array.from(new Set(ids)).map(id => ({
+      id,
+      name: timezones.find(tz => tz.id === id)?.city || id.split('/').pop()?.replace(/_/g, ' ') || id
+    }));
+  }, [timezones, localTimezone]);
+
+  const handleLocationChange = (id: string) => {
+    setLocationId(id);
+    // Sol numbering differs between sites, so start from today's sol there
+    setSol(String(convertEarthToMarsTime(DateTime.now(), id).sol));
+  };
+
+  const handleHighlight = () => {
+    if (!earthTime) return;
+    const instant = earthTime.toJSDate();
+    setSelectedDate(instant);
+    setHighlightedTime(instant);
+  };
+
+  const solLabel = convertEarthToMarsTime(DateTime.now(), locationId).mission ?? 'MSD';
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: -6 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, y: -6 }}
+      transition={{ duration: 0.2 }}
+      className="mb-4 px-3 py-2 bg-card rounded-lg shadow-sm border border-border"
+      role="region"
+      aria-label="Mars time converter"
+    >
+      <div className="flex items-center gap-2 mb-2 text-sm font-medium text-muted-foreground">
+        <Orbit size={16} />
+        <span>Mars time to Earth time</span>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-2 mb-2 text-sm">
+        <label className="flex flex-col gap-1">
+          <span className="text-xs text-muted-foreground">Site</span>
+          <select value={locationId} onChange={(e) => handleLocationChange(e.target.value)} className={inputClassName}>
+            {locations.map(location => (
+              <option key={location.id} value={location.id}>{location.name}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1">
+          <span className="text-xs text-muted-foreground">{solLabel === 'MSD' ? 'MSD' : `${solLabel} sol`}</span>
+          <input type="number" step={1} value={sol} onChange={(e) => setSol(e.target.value)} className={`${inputClassName} w-28`} />
+        </label>
+        <label className="flex flex-col gap-1">
+          <span className="text-xs text-muted-foreground">Local time</span>
+          <input type="time" value={time} onChange={(e) => setTime(e.target.value)} className={inputClassName} />
+        </label>
+        <label className="flex flex-col gap-1">
+          <span className="text-xs text-muted-foreground">Clock</span>
+          <select value={scale} onChange={(e) => setScale(e.target.value as MarsTimeScale)} className={inputClassName}>
+            <option value="lmst">LMST</option>
+            <option value="ltst">LTST</option>
+          </select>
+        </label>
+        <button
+          type="button"
+          onClick={handleHighlight}
+          disabled={!earthTime}
+          className="px-3 py-1.5 rounded-md bg-primary-500 text-white hover:bg-primary-600 disabled:opacity-50 transition-colors"
+        >
+          Highlight
+        </button>
+      </div>
+
+      {earthTime ? (
+        <div className="flex gap-2 overflow-x-auto pb-1">
+          <div className="flex-shrink-0 px-3 py-1.5 rounded-md border border-border">
+            <div className="text-sm font-medium">{earthTime.toFormat('HH:mm')} UTC</div>
+            <div className="text-xs text-muted-foreground">{earthTime.toFormat(getDateFormatPattern(dateFormat, { weekday: true }))}</div>
+          </div>
+          {earthZones.map(zone => {
+            const zoned = earthTime.setZone(zone.id);
+            return (
+              <div key={zone.id} className="flex-shrink-0 px-3 py-1.5 rounded-md border border-border">
+                <div className="text-sm font-medium">{zoned.toFormat('h:mm a')}</div>
+                <div className="text-xs text-muted-foreground">{zone.name} · {zoned.toFormat(getDateFormatPattern(dateFormat, { weekday: true, year: false }))}</div>
+              </div>
+            );
+          })}
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground">Enter a whole sol number and a local time.</p>
+      )}
+    </motion.div>
+  );
+}
@@ -0,0 +1,100 @@
+'use client';
+
+import React, { useMemo } from 'react';
+import { DateTime } from 'luxon';
+import { motion } from 'framer-motion';
+import { Users } from 'lucide-react';
+import { useTimezoneStore } from '@/store/timezoneStore';
+import { findBestMeetingSlots } from '@/lib/utils/meetingPlanner';
+import { isEarthZone } from '@/lib/utils/timeSystems';
+import { getDateFormatPattern } from '@/lib/utils/dateTimeFormatter';
+import { useSettingsStore } from '@/store/settingsStore';
+
+interface MeetingPlannerProps {
+  maxSlots?: number;
+}
+
+/**
+ * "Best slots" strip for planning meetings across the selected timezones.
+ * Ranks the 30-minute slots on the selected date by how many zones are in
+ * working hours; clicking a slot highlights it in the time grid.
+ */
+export default function MeetingPlanner({ maxSlots = 6 }: MeetingPlannerProps) {
+  const {
+    timezones,
+    localTimezone,
+    selectedDate,
+    highlightedTime,
+    setHighlightedTime
+  } = useTimezoneStore();
+  const dateFormat = useSettingsStore((state) => state.dateFormat);
+
+  const bestSlots = useMemo(
+    () => findBestMeetingSlots(timezones, selectedDate, localTimezone, maxSlots),
+    [timezones, selectedDate, localTimezone, maxSlots]
+  );
+
+  const zoneNames = useMemo(() => {
+    const names = new Map<string, string>();
+    timezones.forEach(tz => names.set(tz.id, tz.city || tz.name));
+    return names;
+  }, [timezones]);
+
+  const totalZones = bestSlots[0]?.totalZones ?? timezones.filter(tz => isEarthZone(tz.id)).length;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: -6 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, y: -6 }}
+      transition={{ duration: 0.2 }}
+      className="mb-4 px-3 py-2 bg-card rounded-lg shadow-sm border border-border"
+      role="region"
+      aria-label="Meeting planner"
+    >
+      <div className="flex items-center gap-2 mb-2 text-sm font-medium text-muted-foreground">
+        <Users size={16} />
+        <span>Best meeting times</span>
+        <span className="text-xs font-normal">
+          ({DateTime.fromJSDate(selectedDate).setZone(localTimezone).toFormat(getDateFormatPattern(dateFormat, { weekday: true }))}, your time)
+        </span>
+      </div>
+
+      {bestSlots.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          No slot on this date falls inside working hours for any of your timezones.
+        </p>
+      ) : (
+        <div className="flex gap-2 overflow-x-auto pb-1">
+          {bestSlots.map(slot => {
+            const start = DateTime.fromJSDate(slot.start).setZone(localTimezone);
+            const isActive = highlightedTime?.getTime() === slot.start.getTime();
+            const isEveryone = slot.availableCount === slot.totalZones;
+            const details = slot.availableZoneIds
+              .map(id => `${zoneNames.get(id) || id}: ${DateTime.fromJSDate(slot.start).setZone(id).toFormat('h:mm a')}`)
+              .join('\n');
+
+            return (
+              <button
+                key={slot.start.toISOString()}
+                type="button"
+                onClick={() => setHighlightedTime(slot.start)}
+                className={`flex-shrink-0 px-3 py-1.5 rounded-md border text-left transition-colors
+                  ${isActive
+                    ? 'bg-primary-500 text-white border-primary-500'
+                    : 'border-border hover:bg-muted'}`}
+                aria-pressed={isActive}
+                title={details}
+              >
+                <div className="text-sm font-medium">{start.toFormat('h:mm a')}</div>
+                <div className={`text-xs ${isActive ? 'text-white/80' : isEveryone ? 'text-green-600 dark:text-green-400' : 'text-muted-foreground'}`}>
+                  {slot.availableCount}/{totalZones} in working hours
+                </div>
+              </button>
+            );
+          })}
+        </div>
+      )}
+    </motion.div>
+  );
+}
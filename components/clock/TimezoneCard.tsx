@@ -5,6 +5,12 @@ import { motion } from 'framer-motion';
 import { Timezone, ViewMode } from '@/store/timezoneStore';
 import { isInDST } from '@/lib/utils/timezone';
 import { DateTime } from 'luxon';
+import { isBusinessHours as checkBusinessHours, getDateFormatPattern } from '@/lib/utils/dateTimeFormatter';
+import { useSettingsStore } from '@/store/settingsStore';
+import { getSunTimes, getTimezoneCoordinates } from '@/lib/utils/solar';
+import { getTimeSystem } from '@/lib/utils/timeSystems';
+import WorkingHoursEditor from './WorkingHoursEditor';
+import CoordinatesEditor from './CoordinatesEditor';
 
 interface TimezoneCardProps {
   timezone: Timezone;
@@ -53,6 +59,7 @@ export default function TimezoneCard({
   const [showOptions, setShowOptions] = useState(false);
   const [showEvents, setShowEvents] = useState(false);
   const [activeTab, setActiveTab] = useState<'weather' | 'news' | 'sports'>('weather');
+  const dateFormat = useSettingsStore((state) => state.dateFormat);
   
   // Weather state
   const [weather, setWeather] = useState<any>(null);
@@ -79,15 +86,19 @@ export default function TimezoneCard({
   // Check if the timezone is in DST
   const isDST = isInDST(timezone.id);
   
-  // Determine if it's business hours (9 AM to 5 PM)
-  const hour = zonedTime.hour;
-  const isBusinessHours = hour >= 9 && hour < 17;
+  // Determine if it's business hours (per-timezone working hours, default 9 AM to 5 PM Mon–Fri)
+  const isBusinessHours = checkBusinessHours(zonedTime, timezone.id, timezone.workingHours);
   
-  // Determine if it's night time (8 PM to 6 AM)
-  const isNightTime = hour >= 20 || hour < 6;
+  // Follow the sun at the zone's location (bundled city or set by the user)
+  const coordinates = getTimezoneCoordinates(timezone);
+  const daylight = getTimeSystem(timezone.id).getDaylightPhase(currentTime, timezone.id, { coordinates: coordinates ?? undefined });
+  const isNightTime = daylight === 'night';
+  const isTwilight = daylight === 'civil-twilight' || daylight === 'nautical-twilight';
+  const sunTimes = coordinates ? getSunTimes(currentTime, coordinates, timezone.id) : null;
+  const { lat, lon } = coordinates ?? {};
   
   // Format the date for display
-  const dateDisplay = zonedTime.toFormat('EEE, MMM d');
+  const dateDisplay = zonedTime.toFormat(getDateFormatPattern(dateFormat, { weekday: true, year: false }));
   
   // Glass card classes
   const glassClasses = `glass-card ${isNightTime ? 'glass-card-dark' : 'glass-card-light'}`;
@@ -105,11 +116,11 @@ export default function TimezoneCard({
 
   // Fetch weather data when events section is shown and Weather tab is active
   useEffect(() => {
-    if (showEvents && activeTab === 'weather' && timezone.lat && timezone.lon) {
+    if (showEvents && activeTab === 'weather' && lat !== undefined && lon !== undefined) {
       setWeatherLoading(true);
       setWeatherError(null);
       fetch(
-        `https://api.open-meteo.com/v1/forecast?latitude=${timezone.lat}&longitude=${timezone.lon}&current_weather=true`
+        `https://api.open-meteo.com/v1/forecast?latitude=${lat}&longitude=${lon}&current_weather=true`
       )
         .then((res) => res.json())
         .then((data) => {
@@ -128,7 +139,7 @@ export default function TimezoneCard({
         .catch(() => setWeatherError('Failed to fetch weather data.'))
         .finally(() => setWeatherLoading(false));
     }
-  }, [showEvents, activeTab, timezone.lat, timezone.lon]);
+  }, [showEvents, activeTab, lat, lon]);
 
   // Fetch news data when events section is shown, News tab is active, or newsCategory changes
   useEffect(() => {
@@ -196,20 +207,14 @@ export default function TimezoneCard({
             {DateTime.now().setZone(timezone.id).offsetNameShort || DateTime.now().setZone(timezone.id).toFormat('ZZZZ')}
           </span>
         </div>
-        <div className="flex items-center gap-2">
-          <button
-            onClick={() => setShowEvents((v) => !v)}
-            className="p-2 rounded-full hover:bg-gray-200 dark:hover:bg-gray-700 focus:ring-2 focus:ring-primary-500 transition-colors"
-            aria-label={showEvents ? 'Hide events' : 'Show events'}
-            tabIndex={0}
-          >
-            {showEvents ? (
         <div className="flex items-center">
           {isDST && (
             <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-amber-100 text-amber-800 dark:bg-amber-800 dark:text-amber-100 mr-2">
               DST
             </span>
           )}
+          <WorkingHoursEditor timezone={timezone} compact className="mr-1" />
+          {getTimeSystem(timezone.id).usesEarthCalendar && <CoordinatesEditor timezone={timezone} compact className="mr-1" />}
           <button
             onClick={() => setShowOptions(!showOptions)}
             className="p-3 rounded-full hover:bg-gray-200 dark:hover:bg-gray-700 focus:ring-2 focus:ring-primary-500 transition-colors"
@@ -459,8 +464,15 @@ export default function TimezoneCard({
       {/* Status indicators */}
       <div className="flex justify-between text-xs text-gray-500 dark:text-gray-400">
         <span>
-          {isBusinessHours ? 'Business Hours' : isNightTime ? 'Night Time' : 'Off Hours'}
+          {isBusinessHours ? 'Business Hours' : isNightTime ? 'Night Time' : isTwilight ? 'Twilight' : 'Off Hours'}
         </span>
+        {sunTimes && (
+          <span>
+            {sunTimes.sunrise && sunTimes.sunset
+              ? `↑ ${DateTime.fromJSDate(sunTimes.sunrise).setZone(timezone.id).toFormat('t')} ↓ ${DateTime.fromJSDate(sunTimes.sunset).setZone(timezone.id).toFormat('t')}`
+              : daylight === 'day' ? 'No sunset today' : 'No sunrise today'}
+          </span>
+        )}
         <span>
           {zonedTime.toFormat('ZZZZ')}
         </span>
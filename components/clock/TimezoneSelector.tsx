@@ -6,7 +6,13 @@ import { getAllTimezones } from '@/lib/utils/timezone';
 // Using react-use for IntersectionObserver hook for simplicity
 // Ensure you have installed it: npm install react-use
 import { useIntersection } from 'react-use'; 
-import { sortTimezonesByRelevance, getTimezoneContext } from '@/lib/utils/timezoneSearch';
+import {
+  buildTimezoneSearchIndex,
+  describeSearchMatch,
+  getTimezoneContext,
+  type TimezoneSearchResult
+} from '@/lib/utils/timezoneSearch';
+import { getTimeSystem, isEarthZone } from '@/lib/utils/timeSystems';
 import { Timezone } from '@/store/timezoneStore';
 import * as Dialog from '@radix-ui/react-dialog';
 import { AnimatePresence, motion } from 'framer-motion';
@@ -83,7 +89,7 @@ export default function TimezoneSelector({
   const [searchResultsCount, setSearchResultsCount] = useState(0); // Total count or search result count
   const [isLoading, setIsLoading] = useState(true); // Initial loading state
   const [error, setError] = useState<string | null>(null);
-  const searchCache = useRef(new Map<string, Timezone[]>()); // Cache for search results
+  const searchCache = useRef(new Map<string, TimezoneSearchResult[]>()); // Cache for search results
 
   // Check for reduced motion preference
   const [prefersReducedMotion, setPrefersReducedMotion] = useState(false);
@@ -158,11 +164,11 @@ export default function TimezoneSelector({
 
       // Sort the initial list (e.g., Mars first)
       fetchedTimezones.sort((a, b) => {
-        const aIsMars = a.id.startsWith('Mars/');
-        const bIsMars = b.id.startsWith('Mars/');
-        if (aIsMars && !bIsMars) return -1; // a (Mars) comes before b
-        if (!aIsMars && bIsMars) return 1;  // b (Mars) comes before a
-        // Keep original alphabetical/regional order for non-Mars timezones (or apply another sort if needed)
+        const aIsEarth = isEarthZone(a.id);
+        const bIsEarth = isEarthZone(b.id);
+        if (!aIsEarth && bIsEarth) return -1; // a (e.g. Mars) comes before b
+        if (aIsEarth && !bIsEarth) return 1;  // b (e.g. Mars) comes before a
+        // Keep original alphabetical/regional order for Earth timezones (or apply another sort if needed)
         // For now, let's assume the original `getAllTimezones` provides a reasonable default sort
         return 0;
       });
@@ -183,8 +189,11 @@ export default function TimezoneSelector({
     }
   }, [excludeTimezones]); // Dependency array
 
+  // Index abbreviations, aliases, nicknames and countries once per timezone list
+  const searchIndex = useMemo(() => buildTimezoneSearchIndex(allTimezones), [allTimezones]);
+
   // Memoize search results (only runs when searching)
-  const memoizedFilteredTimezones = useMemo(() => {
+  const memoizedSearchResults = useMemo(() => {
     const searchTerm = debouncedSearch.trim();
     
     // Only perform search/cache logic if there's a search term
@@ -194,43 +203,33 @@ export default function TimezoneSelector({
 
     // Check cache first
     if (searchCache.current.has(searchTerm)) {
-      return searchCache.current.get(searchTerm) as Timezone[];
+      return searchCache.current.get(searchTerm) as TimezoneSearchResult[];
     }
 
-    // If not in cache, perform filtering and sorting on the *full* list
+    // If not in cache, search the index built from the *full* list
     try {
-      const searchLower = searchTerm.toLowerCase();
-      const filtered = allTimezones.filter(tz => // Use allTimezones here
-        tz.name.toLowerCase().includes(searchLower) ||
-        tz.id.toLowerCase().includes(searchLower) ||
-        (tz.city && tz.city.toLowerCase().includes(searchLower)) ||
-        (tz.country && tz.country.toLowerCase().includes(searchLower)) ||
-        (tz.abbreviation && tz.abbreviation.toLowerCase().includes(searchLower))
-      );
-
-      // Boost Mars timezones
-      const boostedFiltered = filtered.sort((a, b) => {
-        const aIsMars = a.id.startsWith('Mars/');
-        const bIsMars = b.id.startsWith('Mars/');
-        if (aIsMars && !bIsMars) return -1; // a comes first
-        if (!aIsMars && bIsMars) return 1;  // b comes first
-        return 0; // Keep original relative order otherwise
-      });
-
-      // Apply relevance sorting
-      const result = sortTimezonesByRelevance(boostedFiltered, searchTerm, recentTimezones);
+      const result = searchIndex.search(searchTerm, { recentTimezones });
 
       // Store result in cache
       searchCache.current.set(searchTerm, result);
 
       return result;
     } catch (err) {
-      console.error('Error filtering or sorting timezones:', err);
-      // Optionally clear cache on error or handle differently
-      // searchCache.current.delete(searchTerm);
+      console.error('Error searching timezones:', err);
       return []; // Return empty on error
     }
-  }, [debouncedSearch, allTimezones, recentTimezones]); // Use allTimezones
+  }, [debouncedSearch, searchIndex, recentTimezones]);
+
+  const memoizedFilteredTimezones = useMemo(
+    () => memoizedSearchResults.map(result => result.timezone),
+    [memoizedSearchResults]
+  );
+
+  // Why each result matched, for rows found by something other than their name
+  const searchMatchesById = useMemo(
+    () => new Map(memoizedSearchResults.map(result => [result.timezone.id, result])),
+    [memoizedSearchResults]
+  );
 
   // Effect to update displayed list based on search term or progressive loading
   useEffect(() => {
@@ -305,6 +304,8 @@ export default function TimezoneSelector({
       if (!timezone) return null;
       
       const context = getTimezoneContext(timezone, userTimezone);
+      const timeSystem = getTimeSystem(timezone.id);
+      const matchNote = describeSearchMatch(searchMatchesById.get(timezone.id));
 
       return (
         <div style={style}>
@@ -346,36 +347,40 @@ export default function TimezoneSelector({
               <span className="text-sm text-gray-500 flex-shrink-0 ml-2">{context.offset}</span>
             </div>
             <div className="text-sm text-gray-500 dark:text-gray-400 flex flex-wrap items-center justify-between mt-1 gap-2">
-              <span className="truncate max-w-[160px]">{timezone.id}</span>
+              <span className="truncate min-w-0 flex-1" title={matchNote ? `${timezone.id} · ${matchNote}` : timezone.id}>
+                {matchNote ? (
+                  <span className="text-primary-600 dark:text-primary-400">{matchNote}</span>
+                ) : timezone.id}
+              </span>
               <div className="flex items-center gap-3 flex-shrink-0">
                 <div className="flex items-center space-x-1">
                   <Clock className="w-4 h-4 flex-shrink-0" />
                   <span className="whitespace-nowrap">{context.currentTime}</span>
                 </div>
-                {/* Hide Business Hours for Mars timezones */}
-                {context.isBusinessHours && !timezone.id.startsWith('Mars/') && (
+                {/* Hide Business Hours for zones without working hours (e.g. Mars) */}
+                {context.isBusinessHours && timeSystem.usesEarthCalendar && (
                   <div className="flex items-center space-x-1 text-green-600 dark:text-green-400">
                     <Briefcase className="w-4 h-4 flex-shrink-0" />
                     <span className="text-xs whitespace-nowrap">Business hours</span>
                   </div>
                 )}
-                {timezone.id.startsWith('Mars/') && (
+                {!timeSystem.usesEarthCalendar && (
                   <div className="flex items-center space-x-1">
-                    {context.isMarsDaytime ? (
+                    {context.isDaytime ? (
                                       <div className="flex items-center space-x-1 text-amber-500 dark:text-amber-400">
                                         <span className="flex items-center">
-                                          <Image src="/mars.png" alt="Mars" width={16} height={16} className="inline-block w-4 h-4 mr-1 align-middle" />
+                                          {timeSystem.iconSrc && <Image src={timeSystem.iconSrc} alt={timeSystem.name} width={16} height={16} className="inline-block w-4 h-4 mr-1 align-middle" />}
                                           <span className="text-xs">☀️</span>
                                         </span>
-                                        <span className="text-xs whitespace-nowrap">Mars Daytime</span>
+                                        <span className="text-xs whitespace-nowrap">{timeSystem.name} Daytime</span>
                       </div>
                     ) : (
                                       <div className="flex items-center space-x-1 text-indigo-500 dark:text-indigo-400">
                                         <span className="flex items-center">
-                                          <Image src="/mars.png" alt="Mars" width={16} height={16} className="inline-block w-4 h-4 mr-1 align-middle" />
+                                          {timeSystem.iconSrc && <Image src={timeSystem.iconSrc} alt={timeSystem.name} width={16} height={16} className="inline-block w-4 h-4 mr-1 align-middle" />}
                                           <span className="text-xs">🌙</span>
                                         </span>
-                                        <span className="text-xs whitespace-nowrap">Mars Night</span>
+                                        <span className="text-xs whitespace-nowrap">{timeSystem.name} Night</span>
                       </div>
                     )}
                   </div>
@@ -383,6 +388,11 @@ export default function TimezoneSelector({
               </div>
             </div>
             
+            {/* Calendar date in the zone's own system (e.g. the Martian date) */}
+            {context.calendarSummary && (
+              <p className="mt-1 text-xs text-red-600/70 dark:text-red-400/70">{context.calendarSummary}</p>
+            )}
+
             {/* Add Perseverance rover information */}
             {context.isRoverLocation && context.roverInfo && (
               <div className="mt-2 text-xs bg-red-50 dark:bg-red-900/10 p-2 rounded border border-red-100 dark:border-red-900/20">
@@ -398,7 +408,7 @@ export default function TimezoneSelector({
       console.error('Error rendering timezone item:', err);
       return <div style={style}>Error rendering timezone</div>;
     }
-  }, [filteredTimezones, handleSelect, userTimezone]);
+  }, [filteredTimezones, handleSelect, userTimezone, searchMatchesById]);
 
   return (
     <Dialog.Root open={isOpen} onOpenChange={open => !open && onClose()}>
@@ -540,23 +550,20 @@ export default function TimezoneSelector({
                   aria-label="Available timezone regions"
                 >
                   {/* Group the *currently displayed* timezones */}
-                  {Array.from(new Set(filteredTimezones.map(tz => { 
-                    const parts = tz.id.split('/');
-                    return parts[0] || 'Other';
-                  }))).map(continent => (
+                  {Array.from(new Set(filteredTimezones.map(tz => 
+                    tz.region || tz.id.split('/')[0] || 'Other'
+                  ))).map(continent => (
                     <div key={continent} className="mb-4">
                       <h3 className="text-sm font-medium text-gray-500 dark:text-gray-400 px-4 py-1 sticky top-0 bg-white dark:bg-gray-800 border-b border-gray-200 dark:border-gray-700 z-10">
                         {continent}
                       </h3>
                       <div>
                         {filteredTimezones
-                          .filter(tz => {
-                            const parts = tz.id.split('/');
-                            return (parts[0] || 'Other') === continent;
-                          })
+                          .filter(tz => (tz.region || tz.id.split('/')[0] || 'Other') === continent)
                           .map(timezone => {
                             try {
                               const context = getTimezoneContext(timezone, userTimezone);
+                              const timeSystem = getTimeSystem(timezone.id);
                               return (
                                 <button
                                   key={timezone.id}
@@ -603,30 +610,30 @@ export default function TimezoneSelector({
                                         <Clock className="w-4 h-4 flex-shrink-0" />
                                         <span className="whitespace-nowrap">{context.currentTime}</span>
                                       </div>
-                                      {/* Hide Business Hours for Mars timezones */}
-                                      {context.isBusinessHours && !timezone.id.startsWith('Mars/') && (
+                                      {/* Hide Business Hours for zones without working hours (e.g. Mars) */}
+                                      {context.isBusinessHours && timeSystem.usesEarthCalendar && (
                                         <div className="flex items-center space-x-1 text-green-600 dark:text-green-400">
                                           <Briefcase className="w-4 h-4 flex-shrink-0" />
                                           <span className="text-xs whitespace-nowrap">Business hours</span>
                                         </div>
                                       )}
-                                      {timezone.id.startsWith('Mars/') && (
+                                      {!timeSystem.usesEarthCalendar && (
                                         <div className="flex items-center space-x-1">
-                                          {context.isMarsDaytime ? (
+                                          {context.isDaytime ? (
                                             <div className="flex items-center space-x-1 text-amber-500 dark:text-amber-400">
                                               <span className="flex items-center">
-                                                <Image src="/mars.png" alt="Mars" width={16} height={16} className="inline-block w-4 h-4 mr-1 align-middle" />
+                                                {timeSystem.iconSrc && <Image src={timeSystem.iconSrc} alt={timeSystem.name} width={16} height={16} className="inline-block w-4 h-4 mr-1 align-middle" />}
                                                 <span className="text-xs">☀️</span>
                                               </span>
-                                              <span className="text-xs whitespace-nowrap">Mars Daytime</span>
+                                              <span className="text-xs whitespace-nowrap">{timeSystem.name} Daytime</span>
                                             </div>
                                           ) : (
                                             <div className="flex items-center space-x-1 text-indigo-500 dark:text-indigo-400">
                                               <span className="flex items-center">
-                                                <Image src="/mars.png" alt="Mars" width={16} height={16} className="inline-block w-4 h-4 mr-1 align-middle" />
+                                                {timeSystem.iconSrc && <Image src={timeSystem.iconSrc} alt={timeSystem.name} width={16} height={16} className="inline-block w-4 h-4 mr-1 align-middle" />}
                                                 <span className="text-xs">🌙</span>
                                               </span>
-                                              <span className="text-xs whitespace-nowrap">Mars Night</span>
+                                              <span className="text-xs whitespace-nowrap">{timeSystem.name} Night</span>
                                             </div>
                                           )}
                                         </div>
@@ -634,6 +641,11 @@ export default function TimezoneSelector({
                                     </div>
                                   </div>
                                   
+                                  {/* Calendar date in the zone's own system (e.g. the Martian date) */}
+                                  {context.calendarSummary && (
+                                    <p className="mt-1 text-xs text-red-600/70 dark:text-red-400/70">{context.calendarSummary}</p>
+                                  )}
+
                                   {/* Add Perseverance rover information */}
                                   {context.isRoverLocation && context.roverInfo && (
                                     <div className="mt-2 text-xs bg-red-50 dark:bg-red-900/10 p-2 rounded border border-red-100 dark:border-red-900/20">
@@ -0,0 +1,188 @@
+'use client';
+
+import React, { useState } from 'react';
+import * as Dialog from '@radix-ui/react-dialog';
+import { Briefcase, X } from 'lucide-react';
+import { Info } from 'luxon';
+import { Timezone, useTimezoneStore } from '@/store/timezoneStore';
+import {
+  DEFAULT_WORKING_HOURS,
+  WorkingHours,
+  formatWorkingHours,
+  parseTimeOfDay
+} from '@/lib/utils/dateTimeFormatter';
+
+interface WorkingHoursEditorProps {
+  timezone: Timezone;
+  className?: string;
+  compact?: boolean; // Smaller trigger for dense column headers
+}
+
+// Luxon weekday numbers in display order (Monday first)
+const WEEKDAYS = [1, 2, 3, 4, 5, 6, 7];
+
+/**
+ * Button + dialog for editing a timezone's working hours and workweek.
+ * Changes are saved on the timezone entry in the store.
+ */
+export default function WorkingHoursEditor({ timezone, className = '', compact = false }: WorkingHoursEditorProps) {
+  const setTimezoneWorkingHours = useTimezoneStore((state) => state.setTimezoneWorkingHours);
+  const current = timezone.workingHours ?? DEFAULT_WORKING_HOURS;
+
+  const [isOpen, setIsOpen] = useState(false);
+  const [draft, setDraft] = useState<WorkingHours>(current);
+  const [error, setError] = useState<string | null>(null);
+
+  const dayNames = Info.weekdays('short');
+  const cityName = timezone.city || timezone.name;
+
+  const handleOpenChange = (open: boolean) => {
+    if (open) {
+      // Start each edit from the saved value
+      setDraft(current);
+      setError(null);
+    }
+    setIsOpen(open);
+  };
+
+  const toggleDay = (day: number) => {
+    setDraft((prev) => ({
+      ...prev,
+      workdays: prev.workdays.includes(day)
+        ? prev.workdays.filter((d) => d !== day)
+        : [...prev.workdays, day].sort((a, b) => a - b)
+    }));
+  };
+
+  const handleSave = () => {
+    const start = parseTimeOfDay(draft.start);
+    const end = parseTimeOfDay(draft.end);
+    if (start === null || end === null) {
+      setError('Enter start and end times as HH:mm.');
+      return;
+    }
+    if (start === end) {
+      setError('Start and end times must be different.');
+      return;
+    }
+    if (draft.workdays.length === 0) {
+      setError('Pick at least one workday.');
+      return;
+    }
+    setTimezoneWorkingHours(timezone.id, draft);
+    setIsOpen(false);
+  };
+
+  const handleReset = () => {
+    setTimezoneWorkingHours(timezone.id, null);
+    setIsOpen(false);
+  };
+
+  return (
+    // Stop clicks (including ones bubbling from the portal) from reaching the column header
+    <div data-working-hours-editor onClick={(e) => e.stopPropagation()} className={className}>
+      <Dialog.Root open={isOpen} onOpenChange={handleOpenChange}>
+        <Dialog.Trigger asChild>
+          <button
+            type="button"
+            className={`${compact
+              ? 'p-1.5 rounded-full hover:bg-gray-200 dark:hover:bg-gray-700 focus:outline-none opacity-50 hover:opacity-100'
+              : 'p-3 rounded-full bg-gray-100 dark:bg-gray-700 hover:bg-primary-100 dark:hover:bg-primary-900/30 focus:outline-none focus:ring-2 focus:ring-primary-500 transition-colors z-10'}
+              ${timezone.workingHours ? 'text-primary-600 dark:text-primary-400' : ''}`}
+            aria-label={`Edit working hours for ${cityName}`}
+            title={`Working hours: ${formatWorkingHours(current)}`}
+          >
+            <Briefcase className={compact ? 'h-3.5 w-3.5' : 'h-5 w-5'} />
+          </button>
+        </Dialog.Trigger>
+        <Dialog.Portal>
+          <Dialog.Overlay className="fixed inset-0 bg-black/50 z-40 backdrop-blur-sm" />
+          <Dialog.Content
+            className="fixed left-1/2 top-1/2 z-50 w-full max-w-sm -translate-x-1/2 -translate-y-1/2 p-6 rounded-lg shadow-xl
+                      bg-white/80 dark:bg-gray-800/80 backdrop-blur-lg border border-white/20 dark:border-gray-700/50"
+          >
+            <div className="flex justify-between items-center mb-4">
+              <Dialog.Title className="text-lg font-semibold text-gray-900 dark:text-white">
+                Working hours · {cityName}
+              </Dialog.Title>
+              <Dialog.Close
+                className="p-1.5 rounded-full hover:bg-gray-100 dark:hover:bg-gray-700 text-gray-400 hover:text-gray-500"
+                aria-label="Close working hours editor"
+              >
+                <X className="w-5 h-5" />
+              </Dialog.Close>
+            </div>
+            <Dialog.Description className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+              Times are local to {timezone.id}. An end time before the start time means the shift runs past midnight.
+            </Dialog.Description>
+
+            <div className="grid grid-cols-2 gap-3 mb-4">
+              <label className="text-sm text-gray-700 dark:text-gray-300">
+                Start
+                <input
+                  type="time"
+                  value={draft.start}
+                  onChange={(e) => setDraft((prev) => ({ ...prev, start: e.target.value }))}
+                  className="mt-1 w-full p-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                />
+              </label>
+              <label className="text-sm text-gray-700 dark:text-gray-300">
+                End
+                <input
+                  type="time"
+                  value={draft.end}
+                  onChange={(e) => setDraft((prev) => ({ ...prev, end: e.target.value }))}
+                  className="mt-1 w-full p-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                />
+              </label>
+            </div>
+
+            <fieldset className="mb-4">
+              <legend className="text-sm text-gray-700 dark:text-gray-300 mb-2">Workdays</legend>
+              <div className="flex flex-wrap gap-1.5">
+                {WEEKDAYS.map((day) => {
+                  const isSelected = draft.workdays.includes(day);
+                  return (
+                    <button
+                      key={day}
+                      type="button"
+                      onClick={() => toggleDay(day)}
+                      className={`px-2.5 py-1 rounded-md text-sm border transition-colors
+                        ${isSelected
+                          ? 'bg-primary-500 text-white border-primary-500'
+                          : 'border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700'}`}
+                      aria-pressed={isSelected}
+                    >
+                      {dayNames[day - 1]}
+                    </button>
+                  );
+                })}
+              </div>
+            </fieldset>
+
+            {error && (
+              <p className="text-sm text-red-600 dark:text-red-400 mb-3" role="alert">{error}</p>
+            )}
+
+            <div className="flex justify-between items-center gap-2">
+              <button
+                type="button"
+                onClick={handleReset}
+                className="text-sm text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+              >
+                Reset to 9–17, Mon–Fri
+              </button>
+              <button
+                type="button"
+                onClick={handleSave}
+                className="px-4 py-2 rounded-md bg-primary-500 text-white font-medium hover:bg-primary-600 focus:outline-none focus:ring-2 focus:ring-primary-500"
+              >
+                Save
+              </button>
+            </div>
+          </Dialog.Content>
+        </Dialog.Portal>
+      </Dialog.Root>
+    </div>
+  );
+}
@@ -13,11 +13,14 @@ import { getLocalTimezone } from '@/lib/utils/timezone';
 import { useWebVitals, optimizeLayoutStability } from '@/lib/utils/performance';
 import { trackPerformance } from '@/app/sentry';
 import { MobileMenu } from '@/components/MobileMenu'; // Import MobileMenu for the header
-import { ArrowLeftCircle, Plus, Calendar, X } from 'lucide-react'; // Removed CalendarDays, Menu icon
+import { ArrowLeftCircle, Plus, Calendar, X, Users, Rocket, Command } from 'lucide-react'; // Removed CalendarDays, Menu icon
 // Removed unused imports
 // import AnalogClock from './AnalogClock'; // Removed missing AnalogClock import
 import { createPortal } from 'react-dom';
 import { Calendar as CalendarUI } from '../ui/calendar';
+import { SharedLinkBanner } from '../ui/SharedLinkBanner';
+import { useSettingsStore } from '@/store/settingsStore';
+import { generateTimeSlots } from '@/lib/utils/timeSlots';
 
 
 /**
@@ -33,6 +36,11 @@ const MobileV2ListView = dynamic(() => import('../views/MobileV2ListView'), {
 // Dynamically import less critical components to reduce initial load
 // Removed ViewSwitcher dynamic import
 const TimezoneSelector = dynamic(() => import('./TimezoneSelector'), { ssr: false }); // Keep TimezoneSelector import
+const MeetingPlanner = dynamic(() => import('./MeetingPlanner'), { ssr: false });
+const CalendarImport = dynamic(() => import('./CalendarImport'), { ssr: false });
+const MarsLocationManager = dynamic(() => import('./MarsLocationManager'), { ssr: false });
+const MarsTimeConverter = dynamic(() => import('./MarsTimeConverter'), { ssr: false });
+const CommandPalette = dynamic(() => import('./CommandPalette'), { ssr: false });
 
 // Import the DatePicker (Dynamic import remains) - Keep for mobile modal
 const DatePicker = dynamic(() => import('../ui/date-picker').then(mod => mod.DatePicker), {
@@ -124,6 +132,16 @@ export default function TimeZonePulse({ skipHeading = false, disableMobileDetect
   // New state for calendar modal
   const [showCalendarModal, setShowCalendarModal] = useState(false);
 
+  // Meeting planner mode (best slots strip)
+  const [showMeetingPlanner, setShowMeetingPlanner] = useState(false);
+  const [showMarsConverter, setShowMarsConverter] = useState(false);
+
+  // Command palette (also opened with Cmd/Ctrl+K)
+  const [showCommandPalette, setShowCommandPalette] = useState(false);
+
+  // Minutes per row in the time grid
+  const slotGranularity = useSettingsStore((state) => state.slotGranularity);
+
   // Hydration safe initialization
   useEffect(() => {
     setIsClient(true);
@@ -200,21 +218,11 @@ export default function TimeZonePulse({ skipHeading = false, disableMobileDetect
     return !selected.equals(today);
   }, [selectedDate]);
 
-  // Generate time slots for the selected date at 30-minute intervals
+  // Generate time slots for the selected date at the configured interval
   const timeSlots = useMemo(() => {
     if (!currentTime) return [];
-    
-    const slots = [];
-    const dateToUse = selectedDate || currentTime;
-    const date = DateTime.fromJSDate(dateToUse);
-    const startOfDay = date.startOf('day');
-
-    for (let i = 0; i < 48; i++) { // Keep time slot generation
-      slots.push(startOfDay.plus({ minutes: i * 30 }).toJSDate());
-    }
-
-    return slots;
-  }, [currentTime, selectedDate]);
+    return generateTimeSlots(selectedDate || currentTime, slotGranularity);
+  }, [currentTime, selectedDate, slotGranularity]);
 
   // Handle time selection for highlighting with optimized callback
   const handleTimeSelection = useCallback((time: Date | null) => {
@@ -257,6 +265,9 @@ export default function TimeZonePulse({ skipHeading = false, disableMobileDetect
 
   return (
     <div className="clock-container w-full max-w-screen-xl mx-auto px-4 py-6">
+      {/* Shown while viewing zones from a shared link */}
+      <SharedLinkBanner />
+
       {/* --- Mobile/Simplified Header Controls --- */}
       <div className="flex justify-between items-center mb-4 px-2 py-1 bg-card rounded-lg shadow-sm border border-border">
         <div className="flex items-center gap-2">
@@ -268,6 +279,34 @@ export default function TimeZonePulse({ skipHeading = false, disableMobileDetect
           >
             <Plus size={20} />
           </button>
+          <button 
+            onClick={() => setShowMeetingPlanner(prev => !prev)} 
+            className={`p-2 rounded-md hover:bg-muted transition-colors ${showMeetingPlanner ? 'text-primary-500' : 'text-muted-foreground'}`}
+            aria-label="Toggle meeting planner"
+            aria-pressed={showMeetingPlanner}
+            title="Meeting Planner"
+          >
+            <Users size={20} />
+          </button>
+          <button 
+            onClick={() => setShowMarsConverter(prev => !prev)} 
+            className={`p-2 rounded-md hover:bg-muted transition-colors ${showMarsConverter ? 'text-primary-500' : 'text-muted-foreground'}`}
+            aria-label="Toggle Mars time converter"
+            aria-pressed={showMarsConverter}
+            title="Mars Time Converter"
+          >
+            <Rocket size={20} />
+          </button>
+          <CalendarImport />
+          <MarsLocationManager />
+          <button 
+            onClick={() => setShowCommandPalette(true)} 
+            className="p-2 rounded-md hover:bg-muted transition-colors text-muted-foreground"
+            aria-label="Open command palette"
+            title="Command Palette (Ctrl+K / ⌘K)"
+          >
+            <Command size={20} />
+          </button>
         </div>
 
         <div className="flex items-center gap-2">
@@ -293,6 +332,16 @@ export default function TimeZonePulse({ skipHeading = false, disableMobileDetect
         </div>
       </div>
       {/* --- End Header Controls --- */}
+
+      {/* Meeting planner: best overlapping slots for the selected date */}
+      <AnimatePresence>
+        {showMeetingPlanner && <MeetingPlanner key="meeting-planner" />}
+      </AnimatePresence>
+
+      {/* Mars time converter: highlight the Earth time for a sol and Mars local time */}
+      <AnimatePresence>
+        {showMarsConverter && <MarsTimeConverter key="mars-time-converter" />}
+      </AnimatePresence>
       
       {/* Calendar Modal (portal, matches sidebar) */}
       {showCalendarModal && typeof window !== 'undefined' && createPortal(
@@ -333,6 +382,7 @@ export default function TimeZonePulse({ skipHeading = false, disableMobileDetect
                 highlightedTime={highlightedTime}
                 handleTimeSelection={handleTimeSelection}
                 roundToNearestIncrement={roundToNearestIncrement}
+                slotIncrement={slotGranularity}
                 removeTimezone={removeTimezone}
                 currentDate={currentDate}
               />
@@ -341,6 +391,9 @@ export default function TimeZonePulse({ skipHeading = false, disableMobileDetect
         </Suspense>
       </div>
 
+      {/* Keyboard command palette */}
+      <CommandPalette open={showCommandPalette} onOpenChange={setShowCommandPalette} />
+
       {/* Timezone Selection Modal (using global state) */}
       <AnimatePresence>
         {isTimezoneSelectorOpen && (
@@ -0,0 +1,90 @@
+'use client';
+
+import React from 'react';
+import { Download } from 'lucide-react';
+import { DateTime } from 'luxon';
+import { useTimezoneStore } from '@/store/timezoneStore';
+import {
+  CalendarEvent,
+  createICalEvent,
+  describeTimeAcrossZones,
+  getGoogleCalendarUrl,
+  getOutlookCalendarUrl
+} from '@/lib/utils/icalendar';
+
+interface CalendarExportPanelProps {
+  start: Date;
+}
+
+const DURATIONS = [15, 30, 45, 60, 90, 120];
+
+const linkClasses = 'flex-1 text-center px-2 py-1 rounded-md text-xs font-medium bg-gray-100 hover:bg-gray-200 dark:bg-gray-700 dark:hover:bg-gray-600 text-gray-800 dark:text-gray-100 transition-colors';
+
+/**
+ * Export controls for a highlighted time: .ics download and Google/Outlook links.
+ * The event uses the organizer's local timezone and lists the time in every selected zone.
+ */
+export function CalendarExportPanel({ start }: CalendarExportPanelProps) {
+  const timezones = useTimezoneStore((state) => state.timezones);
+  const localTimezone = useTimezoneStore((state) => state.localTimezone);
+  const [title, setTitle] = React.useState('Meeting');
+  const [durationMinutes, setDurationMinutes] = React.useState(30);
+
+  const event: CalendarEvent = React.useMemo(() => ({
+    title: title.trim() || 'Meeting',
+    description: describeTimeAcrossZones(start, timezones),
+    start,
+    durationMinutes,
+    timezone: localTimezone
+  }), [title, start, timezones, durationMinutes, localTimezone]);
+
+  const handleDownload = () => {
+    const blob = new Blob([createICalEvent(event)], { type: 'text/calendar;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `meeting-${DateTime.fromJSDate(start).toFormat('yyyyMMdd-HHmm')}.ics`;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="mt-2 space-y-2 relative z-[2]" data-reset-timer="true">
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+          className="flex-1 min-w-0 px-2 py-1 text-xs rounded-md border border-gray-300 dark:border-gray-600 bg-white/70 dark:bg-gray-800/70 text-gray-900 dark:text-white"
+          aria-label="Event title"
+        />
+        <select
+          value={durationMinutes}
+          onChange={(e) => setDurationMinutes(Number(e.target.value))}
+          className="px-1 py-1 text-xs rounded-md border border-gray-300 dark:border-gray-600 bg-white/70 dark:bg-gray-800/70 text-gray-900 dark:text-white"
+          aria-label="Event duration"
+        >
+          {DURATIONS.map((minutes) => (
+            <option key={minutes} value={minutes}>
+              {minutes < 60 ? `${minutes} min` : `${minutes / 60} h`}
+            </option>
+          ))}
+        </select>
+      </div>
+      <div className="flex gap-2">
+        <button type="button" onClick={handleDownload} className={`${linkClasses} flex items-center justify-center gap-1`}>
+          <Download className="h-3 w-3" />
+          .ics
+        </button>
+        <a href={getGoogleCalendarUrl(event)} target="_blank" rel="noopener noreferrer" className={linkClasses}>
+          Google
+        </a>
+        <a href={getOutlookCalendarUrl(event)} target="_blank" rel="noopener noreferrer" className={linkClasses}>
+          Outlook
+        </a>
+      </div>
+    </div>
+  );
+}
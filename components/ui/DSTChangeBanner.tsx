@@ -0,0 +1,85 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import { DateTime } from 'luxon';
+import { CalendarClock, X } from 'lucide-react';
+import type { Timezone } from '@/store/timezoneStore';
+import { describeTransition, formatOffsetGap, getUpcomingOffsetChanges } from '@/lib/utils/dst';
+import { getDateFormatPattern } from '@/lib/utils/dateTimeFormatter';
+import { useSettingsStore } from '@/store/settingsStore';
+
+// How far ahead to warn about offset changes
+const LOOKAHEAD_DAYS = 14;
+
+interface DSTChangeBannerProps {
+  timezones: Timezone[];
+  now: Date;
+}
+
+const getZoneLabel = (timezone: Timezone | undefined, id: string) =>
+  timezone?.city || id.split('/').pop()?.replace(/_/g, ' ') || id;
+
+/**
+ * Banner listing offset changes in the selected zones over the next two weeks,
+ * and how each one shifts the gap between zones
+ */
+export function DSTChangeBanner({ timezones, now }: DSTChangeBannerProps) {
+  const [dismissedKey, setDismissedKey] = useState<string | null>(null);
+  const dateFormat = useSettingsStore((state) => state.dateFormat);
+
+  const zoneIds = timezones.map(tz => tz.id).join(',');
+  // Recheck hourly rather than on every clock tick
+  const hourKey = Math.floor(now.getTime() / (60 * 60 * 1000));
+
+  const changes = useMemo(
+    () => getUpcomingOffsetChanges(zoneIds ? zoneIds.split(',') : [], new Date(hourKey * 60 * 60 * 1000), LOOKAHEAD_DAYS),
+    [zoneIds, hourKey]
+  );
+
+  const changesKey = changes.map(change => `${change.transition.zone}@${change.transition.at}`).join('|');
+  if (changes.length === 0 || dismissedKey === changesKey) {
+    return null;
+  }
+
+  const byId = new Map(timezones.map(tz => [tz.id, tz]));
+
+  return (
+    <div
+      className="flex justify-between items-start gap-2 mb-4 px-3 py-2 bg-card rounded-lg shadow-sm border border-amber-500/40 text-sm"
+      role="status"
+    >
+      <div className="flex items-start gap-2 text-muted-foreground">
+        <CalendarClock size={16} className="mt-0.5 shrink-0 text-amber-500" />
+        <ul className="space-y-1">
+          {changes.map(({ transition, gapChanges }) => {
+            const label = getZoneLabel(byId.get(transition.zone), transition.zone);
+            // The date as the zone sees it just before the change
+            const date = DateTime.fromMillis(transition.at - 60 * 1000, { zone: transition.zone }).toFormat(getDateFormatPattern(dateFormat, { year: false }));
+            return (
+              <li key={`${transition.zone}@${transition.at}`}>
+                <span className="font-medium text-foreground">{label}, {date}:</span>{' '}
+                {transition.abbreviationBefore && transition.abbreviationAfter && (
+                  <>{transition.abbreviationBefore} → {transition.abbreviationAfter}. </>
+                )}
+                {describeTransition(transition, transition.zone)}
+                {gapChanges.map(gap => (
+                  <span key={gap.otherZone} className="block text-xs">
+                    {label}–{getZoneLabel(byId.get(gap.otherZone), gap.otherZone)} goes from {formatOffsetGap(gap.gapBefore)} to {formatOffsetGap(gap.gapAfter)} on {date}
+                  </span>
+                ))}
+              </li>
+            );
+          })}
+        </ul>
+      </div>
+      <button
+        type="button"
+        onClick={() => setDismissedKey(changesKey)}
+        className="p-1 rounded-md hover:bg-muted transition-colors"
+        aria-label="Dismiss clock change notice"
+      >
+        <X size={14} />
+      </button>
+    </div>
+  );
+}
@@ -3,8 +3,13 @@
 import React from 'react';
 import { motion } from 'framer-motion';
 import { DateTime } from 'luxon';
-import { X, Clock } from 'lucide-react';
+import { X, Clock, Link2, CalendarPlus } from 'lucide-react';
 import { createPortal } from 'react-dom';
+import { toast } from 'sonner';
+import { formatDate, formatTime } from '@/lib/utils/dateTimeFormatter';
+import { buildShareLink } from '@/lib/utils/shareLink';
+import { useTimezoneStore } from '@/store/timezoneStore';
+import { CalendarExportPanel } from './CalendarExportPanel';
 
 interface SelectedTimeNotificationProps {
   highlightedTime: Date | null;
@@ -28,6 +33,9 @@ const SelectedTimeNotification: React.FC<SelectedTimeNotificationProps> = ({
   // Hooks must be called at the top level
   const [isMounted, setIsMounted] = React.useState(false);
   const [timeAgo, setTimeAgo] = React.useState('');
+  const [showExport, setShowExport] = React.useState(false);
+  const timezones = useTimezoneStore((state) => state.timezones);
+  const selectedDate = useTimezoneStore((state) => state.selectedDate);
   
   React.useEffect(() => {
     setIsMounted(true);
@@ -63,6 +71,19 @@ const SelectedTimeNotification: React.FC<SelectedTimeNotificationProps> = ({
     return () => clearInterval(interval);
   }, [highlightedTime]);
 
+  // Copy a link that opens the same zones, date and highlighted time
+  const handleCopyLink = async () => {
+    if (!highlightedTime) return;
+    const link = buildShareLink(window.location.href, { timezones, selectedDate, highlightedTime });
+    try {
+      await navigator.clipboard.writeText(link);
+      toast.success('Link copied to clipboard');
+    } catch (error) {
+      console.error('Failed to copy link:', error);
+      toast.error('Could not copy link');
+    }
+  };
+
   // Early return if no time is highlighted
   if (!highlightedTime) {
     return null;
@@ -93,18 +114,44 @@ const SelectedTimeNotification: React.FC<SelectedTimeNotificationProps> = ({
         <div className="flex items-center">
           <span className="inline-block w-3 h-3 bg-primary-500 rounded-full mr-2"></span>
           <span className="text-sm font-medium text-gray-900 dark:text-white">
-            {DateTime.fromJSDate(highlightedTime).toFormat('h:mm a')}
+            {formatTime(highlightedTime, false)}
+          </span>
+          <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">
+            {formatDate(highlightedTime)}
           </span>
         </div>
-        <button
-          onClick={() => handleTimeSelection(null)}
-          className="text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-300 p-1 rounded focus:outline-none focus:ring-2 focus:ring-primary-500"
-          aria-label="Clear time selection"
-        >
-          <X className="h-4 w-4" />
-        </button>
+        <div className="flex items-center">
+          <button
+            onClick={() => setShowExport(prev => !prev)}
+            className={`${showExport ? 'text-primary-500' : 'text-gray-500 dark:text-gray-400'} hover:text-gray-700 dark:hover:text-gray-300 p-1 rounded focus:outline-none focus:ring-2 focus:ring-primary-500`}
+            aria-label="Add to calendar"
+            aria-expanded={showExport}
+            title="Add to calendar"
+            data-reset-timer="true"
+          >
+            <CalendarPlus className="h-4 w-4" />
+          </button>
+          <button
+            onClick={handleCopyLink}
+            className="text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-300 p-1 rounded focus:outline-none focus:ring-2 focus:ring-primary-500"
+            aria-label="Copy link to this time"
+            title="Copy link"
+            data-reset-timer="true"
+          >
+            <Link2 className="h-4 w-4" />
+          </button>
+          <button
+            onClick={() => handleTimeSelection(null)}
+            className="text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-300 p-1 rounded focus:outline-none focus:ring-2 focus:ring-primary-500"
+            aria-label="Clear time selection"
+          >
+            <X className="h-4 w-4" />
+          </button>
+        </div>
       </div>
 
+      {showExport && <CalendarExportPanel start={highlightedTime} />}
+
       {/* Time ago indicator */}
       <motion.div 
         initial={{ opacity: 0, y: 5 }}
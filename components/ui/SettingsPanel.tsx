@@ -0,0 +1,260 @@
+'use client';
+
+import * as React from 'react';
+import { X } from 'lucide-react';
+import {
+  useSettingsStore,
+  WEEKEND_HIGHLIGHT_COLORS,
+  SLOT_GRANULARITIES,
+  type DateFormat,
+  type TimeFormat
+} from '@/store/settingsStore';
+import { formatDate, formatTime } from '@/lib/utils/dateTimeFormatter';
+
+interface SettingsPanelProps {
+  onClose: () => void;
+}
+
+const DATE_FORMATS: DateFormat[] = ['MM/DD/YYYY', 'DD/MM/YYYY', 'YYYY-MM-DD'];
+const TIME_FORMATS: { value: TimeFormat; label: string }[] = [
+  { value: '12h', label: '12-hour' },
+  { value: '24h', label: '24-hour' },
+];
+const HIGHLIGHT_DURATIONS = [15, 30, 60, 120, 300];
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+
+// Swatch colors (static class names so Tailwind keeps them)
+const SWATCH_CLASSES: Record<string, string> = {
+  red: 'bg-red-400',
+  orange: 'bg-orange-400',
+  amber: 'bg-amber-400',
+  green: 'bg-green-400',
+  blue: 'bg-blue-400',
+  purple: 'bg-purple-400',
+  pink: 'bg-pink-400',
+  gray: 'bg-gray-400',
+};
+
+const selectClasses = 'rounded-md px-2 py-1 bg-slate-800/80 border border-white/10 text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+/**
+ * Panel for editing the persisted display preferences
+ */
+export function SettingsPanel({ onClose }: SettingsPanelProps) {
+  const settings = useSettingsStore();
+  const { updateSettings, resetSettings } = settings;
+  const now = new Date();
+
+  return (
+    <div
+      className="w-[22rem] max-w-[calc(100vw-2rem)] rounded-2xl px-6 py-5 shadow-2xl border border-white/10 bg-gradient-to-br from-slate-900/80 to-slate-800/70 backdrop-blur-2xl text-white"
+      style={{ backgroundColor: 'rgba(30, 41, 59, 0.7)', boxShadow: '0 8px 32px 0 rgba(31, 38, 135, 0.25)' }}
+      role="dialog"
+      aria-label="Settings"
+    >
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-semibold">Settings</h2>
+        <button
+          type="button"
+          onClick={onClose}
+          className="p-1.5 rounded-full hover:bg-blue-800/40 transition-colors"
+          aria-label="Close settings"
+        >
+          <X className="h-5 w-5" />
+        </button>
+      </div>
+
+      <div className="space-y-4 text-sm">
+        {/* Time format */}
+        <div className="flex items-center justify-between">
+          <span>Time format</span>
+          <div className="flex rounded-md overflow-hidden border border-white/10">
+            {TIME_FORMATS.map(option => (
+              <button
+                key={option.value}
+                type="button"
+                onClick={() => updateSettings({ timeFormat: option.value })}
+                className={`px-3 py-1 transition-colors ${settings.timeFormat === option.value ? 'bg-blue-600' : 'hover:bg-blue-800/40'}`}
+                aria-pressed={settings.timeFormat === option.value}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {/* Seconds */}
+        <label className="flex items-center justify-between">
+          <span>Show seconds</span>
+          <input
+            type="checkbox"
+            checked={settings.showSeconds}
+            onChange={e => updateSettings({ showSeconds: e.target.checked })}
+            className="h-4 w-4 accent-blue-500"
+          />
+        </label>
+
+        {/* Date format */}
+        <label className="flex items-center justify-between">
+          <span>Date format</span>
+          <select
+            value={settings.dateFormat}
+            onChange={e => updateSettings({ dateFormat: e.target.value as DateFormat })}
+            className={selectClasses}
+          >
+            {DATE_FORMATS.map(format => (
+              <option key={format} value={format}>{format}</option>
+            ))}
+          </select>
+        </label>
+
+        <p className="text-xs text-gray-400">
+          Preview: {formatDate(now)} {formatTime(now)}
+        </p>
+
+        {/* Time slot size */}
+        <div className="flex items-center justify-between">
+          <span>Time slots</span>
+          <div className="flex rounded-md overflow-hidden border border-white/10">
+            {SLOT_GRANULARITIES.map(minutes => (
+              <button
+                key={minutes}
+                type="button"
+                onClick={() => updateSettings({ slotGranularity: minutes })}
+                className={`px-3 py-1 transition-colors ${settings.slotGranularity === minutes ? 'bg-blue-600' : 'hover:bg-blue-800/40'}`}
+                aria-pressed={settings.slotGranularity === minutes}
+              >
+                {minutes === 60 ? '1 hr' : `${minutes} min`}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {/* Mars clock */}
+        <div className="flex items-center justify-between">
+          <span title="Mean solar time keeps an even pace; true solar time follows the Sun">Mars time</span>
+          <div className="flex rounded-md overflow-hidden border border-white/10">
+            {(['lmst', 'ltst'] as const).map(scale => (
+              <button
+                key={scale}
+                type="button"
+                onClick={() => updateSettings({ marsTimeScale: scale })}
+                className={`px-3 py-1 transition-colors ${settings.marsTimeScale === scale ? 'bg-blue-600' : 'hover:bg-blue-800/40'}`}
+                aria-pressed={settings.marsTimeScale === scale}
+              >
+                {scale === 'lmst' ? 'Mean (LMST)' : 'True (LTST)'}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {/* Mars time grid */}
+        <div className="flex items-center justify-between">
+          <span title="Mars hours run 1h 1m 39s; the timeslip clock uses Earth hours and pauses 39m 35s at midnight">Mars slots</span>
+          <div className="flex rounded-md overflow-hidden border border-white/10">
+            {(['earth', 'mars', 'timeslip'] as const).map(grid => (
+              <button
+                key={grid}
+                type="button"
+                onClick={() => updateSettings({ marsSlotGrid: grid })}
+                className={`px-3 py-1 transition-colors ${settings.marsSlotGrid === grid ? 'bg-blue-600' : 'hover:bg-blue-800/40'}`}
+                aria-pressed={settings.marsSlotGrid === grid}
+              >
+                {grid === 'earth' ? 'Earth' : grid === 'mars' ? 'Mars hours' : 'Timeslip'}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {/* Night hours */}
+        <div className="flex items-center justify-between">
+          <span>Night hours</span>
+          <div className="flex items-center gap-2">
+            <select
+              value={settings.nightHoursStart}
+              onChange={e => updateSettings({ nightHoursStart: Number(e.target.value) })}
+              className={selectClasses}
+              aria-label="Night starts at"
+            >
+              {HOURS.map(hour => (
+                <option key={hour} value={hour}>{hour.toString().padStart(2, '0')}:00</option>
+              ))}
+            </select>
+            <span className="text-gray-400">to</span>
+            <select
+              value={settings.nightHoursEnd}
+              onChange={e => updateSettings({ nightHoursEnd: Number(e.target.value) })}
+              className={selectClasses}
+              aria-label="Night ends at"
+            >
+              {HOURS.map(hour => (
+                <option key={hour} value={hour}>{hour.toString().padStart(2, '0')}:00</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        {/* Highlight auto-clear */}
+        <label className="flex items-center justify-between">
+          <span>Auto-clear highlighted time</span>
+          <input
+            type="checkbox"
+            checked={settings.highlightAutoClear}
+            onChange={e => updateSettings({ highlightAutoClear: e.target.checked })}
+            className="h-4 w-4 accent-blue-500"
+          />
+        </label>
+
+        <label className={`flex items-center justify-between ${settings.highlightAutoClear ? '' : 'opacity-50'}`}>
+          <span>Clear after</span>
+          <select
+            value={settings.highlightDuration}
+            onChange={e => updateSettings({ highlightDuration: Number(e.target.value) })}
+            disabled={!settings.highlightAutoClear}
+            className={selectClasses}
+          >
+            {HIGHLIGHT_DURATIONS.map(seconds => (
+              <option key={seconds} value={seconds}>
+                {seconds < 60 ? `${seconds} seconds` : `${seconds / 60} minute${seconds === 60 ? '' : 's'}`}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        {/* Weekend color */}
+        <div className="flex items-center justify-between">
+          <span>Weekend color</span>
+          <div className="flex gap-1.5">
+            {WEEKEND_HIGHLIGHT_COLORS.map(color => (
+              <button
+                key={color}
+                type="button"
+                onClick={() => updateSettings({ weekendHighlightColor: color })}
+                className={`h-5 w-5 rounded-full ${SWATCH_CLASSES[color]} ${settings.weekendHighlightColor === color ? 'ring-2 ring-white ring-offset-2 ring-offset-slate-800' : ''}`}
+                aria-label={`Highlight weekends in ${color}`}
+                aria-pressed={settings.weekendHighlightColor === color}
+              />
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <div className="flex justify-between items-center mt-6">
+        <button
+          type="button"
+          onClick={resetSettings}
+          className="text-sm text-gray-300 hover:text-white"
+        >
+          Reset to defaults
+        </button>
+        <button
+          type="button"
+          onClick={onClose}
+          className="px-4 py-1.5 rounded-md bg-blue-600 hover:bg-blue-700 transition-colors"
+        >
+          Done
+        </button>
+      </div>
+    </div>
+  );
+}
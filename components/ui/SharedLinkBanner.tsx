@@ -0,0 +1,47 @@
+'use client';
+
+import React from 'react';
+import { Link2 } from 'lucide-react';
+import { useTimezoneStore } from '@/store/timezoneStore';
+
+/**
+ * Banner shown while viewing timezones from a shared link.
+ * Lets the visitor keep the shared zones or return to their saved list.
+ */
+export function SharedLinkBanner() {
+  const savedTimezones = useTimezoneStore((state) => state.savedTimezones);
+  const keepSharedTimezones = useTimezoneStore((state) => state.keepSharedTimezones);
+  const restoreSavedTimezones = useTimezoneStore((state) => state.restoreSavedTimezones);
+
+  if (!savedTimezones) {
+    return null;
+  }
+
+  return (
+    <div
+      className="flex flex-wrap justify-between items-center gap-2 mb-4 px-3 py-2 bg-card rounded-lg shadow-sm border border-primary-500/40 text-sm"
+      role="status"
+    >
+      <div className="flex items-center gap-2 text-muted-foreground">
+        <Link2 size={16} className="text-primary-500" />
+        <span>You&apos;re viewing timezones from a shared link. Your saved list hasn&apos;t changed.</span>
+      </div>
+      <div className="flex items-center gap-2">
+        <button
+          type="button"
+          onClick={restoreSavedTimezones}
+          className="px-3 py-1 rounded-md hover:bg-muted transition-colors"
+        >
+          Back to my timezones
+        </button>
+        <button
+          type="button"
+          onClick={keepSharedTimezones}
+          className="px-3 py-1 rounded-md bg-primary-500 text-white hover:bg-primary-600 transition-colors"
+        >
+          Keep these timezones
+        </button>
+      </div>
+    </div>
+  );
+}
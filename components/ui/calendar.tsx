@@ -3,6 +3,10 @@
 import * as React from 'react';
 import { ChevronLeft, ChevronRight } from 'lucide-react';
 import { DateTime } from 'luxon';
+import { useTimezoneStore } from '@/store/timezoneStore';
+import { getPublicHolidaysOn, getZoneCountryCode } from '@/lib/utils/holidays';
+import { getDateFormatPattern } from '@/lib/utils/dateTimeFormatter';
+import { useSettingsStore } from '@/store/settingsStore';
 
 export type CalendarProps = {
   selectedDate: Date | null;
@@ -41,6 +45,26 @@ export function Calendar({
     return days;
   }, [currentMonth]);
 
+  // Day labels for screen readers, in the user's date format
+  const dateFormat = useSettingsStore(state => state.dateFormat);
+  const datePattern = getDateFormatPattern(dateFormat, { weekday: true });
+
+  // Public holidays in the countries of the local and selected timezones
+  const timezones = useTimezoneStore(state => state.timezones);
+  const localTimezone = useTimezoneStore(state => state.localTimezone);
+  const holidayCountries = React.useMemo(() => Array.from(new Set(
+    [localTimezone, ...timezones.map(tz => tz.id)]
+      .map(getZoneCountryCode)
+      .filter((code): code is string => !!code)
+  )), [localTimezone, timezones]);
+
+  const holidaysByDay = React.useMemo(() => new Map(
+    calendarDays.map(day => {
+      const isoDate = day.toISODate() as string;
+      return [isoDate, getPublicHolidaysOn(isoDate, holidayCountries)];
+    })
+  ), [calendarDays, holidayCountries]);
+
   // Handle navigation between months
   const goToPreviousMonth = () => {
     setCurrentMonth(prev => prev.minus({ months: 1 }));
@@ -113,6 +137,9 @@ export function Calendar({
           const isToday = day.hasSame(DateTime.local(), 'day');
           const isSelected = selectedDate ? day.hasSame(DateTime.fromJSDate(selectedDate), 'day') : false;
           const isSelectable = isDateSelectable(day);
+          const holidays = holidaysByDay.get(day.toISODate() as string) ?? [];
+          const holidayLabel = holidays.map(holiday => `${holiday.name} (${holiday.countryCode})`).join(', ');
+          const dayLabel = day.toFormat(datePattern);
           
           return (
             <button
@@ -120,8 +147,10 @@ export function Calendar({
               type="button"
               onClick={() => isSelectable && handleDateClick(day)}
               disabled={!isSelectable}
+              title={holidayLabel || undefined}
+              aria-label={holidayLabel ? `${dayLabel}, ${holidayLabel}` : dayLabel}
               className={[
-                'h-9 w-9 rounded-full flex items-center justify-center text-sm font-medium transition-colors',
+                'relative h-9 w-9 rounded-full flex items-center justify-center text-sm font-medium transition-colors',
                 isCurrentMonth ? 'text-white' : 'text-white/40',
                 isToday ? 'border border-blue-400' : '',
                 isSelected ? 'bg-blue-700 text-white shadow' : '',
@@ -130,6 +159,9 @@ export function Calendar({
               ].join(' ')}
             >
               {day.day}
+              {holidays.length > 0 && (
+                <span className="absolute bottom-1 h-1 w-1 rounded-full bg-emerald-400" aria-hidden="true" />
+              )}
             </button>
           );
         })}
@@ -9,6 +9,7 @@ import { motion, AnimatePresence } from 'framer-motion'; // Added framer-motion
 
 // Types
 import { Timezone } from '@/store/timezoneStore';
+import { getTimeSystem } from '@/lib/utils/timeSystems';
 
 // WeatherCard and NewsList will be created below as stubs for now
 function WeatherCard({ weather }: { weather: any }) {
@@ -85,7 +86,7 @@ const CurrentEventsCard: React.FC<CurrentEventsCardProps> = ({ timezone, userLoc
   const [now, setNow] = useState(() => DateTime.now().setZone(timezone.id));
   const intervalRef = useRef<NodeJS.Timeout | null>(null);
   const offset = now.toFormat('ZZ');
-  const isMars = timezone.id.startsWith('Mars/');
+  const timeSystem = getTimeSystem(timezone.id);
 
   // Emoji flag fallback (simple country code to flag emoji)
   function getFlagEmoji(country?: string) {
@@ -122,7 +123,7 @@ const CurrentEventsCard: React.FC<CurrentEventsCardProps> = ({ timezone, userLoc
         "min-w-[280px] group hover:-translate-y-1 hover:shadow-[0_8px_32px_rgba(0,0,0,0.25)]"
       )}
       style={{
-        backgroundImage: isMars
+        backgroundImage: !timeSystem.usesEarthCalendar
           ? 'linear-gradient(to bottom right, rgba(239, 68, 68, 0.12), rgba(239, 68, 68, 0.03))'
           : 'linear-gradient(to bottom right, rgba(59, 130, 246, 0.13), rgba(59, 130, 246, 0.03))'
       }}
@@ -133,17 +134,17 @@ const CurrentEventsCard: React.FC<CurrentEventsCardProps> = ({ timezone, userLoc
       <div className="p-4 border-b-2 border-primary-100/30 dark:border-primary-900/30 flex justify-between items-center relative overflow-hidden">
         <div>
           <div className="flex items-center gap-2">
-            {/* Flag or Mars icon */}
-            {isMars ? (
-              <span className="inline-block" title="Mars Time">
-                <Image src="/mars.png" alt="Mars" width={20} height={20} className="inline-block w-5 h-5 align-text-bottom" />
+            {/* Flag or the time system's icon (e.g. Mars) */}
+            {timeSystem.iconSrc ? (
+              <span className="inline-block" title={`${timeSystem.name} Time`}>
+                <Image src={timeSystem.iconSrc} alt={timeSystem.name} width={20} height={20} className="inline-block w-5 h-5 align-text-bottom" />
               </span>
             ) : (
               <span className="text-2xl mr-1" aria-label="Country flag">{getFlagEmoji(timezone.country)}</span>
             )}
             <h3 className={clsx(
               "text-lg font-semibold flex items-center",
-              isMars ? "text-red-600 dark:text-red-400" : "text-primary-700 dark:text-primary-300"
+              !timeSystem.usesEarthCalendar ? "text-red-600 dark:text-red-400" : "text-primary-700 dark:text-primary-300"
             )}>
               <span className="truncate">{(timezone.name.split('/').pop()?.replace('_', ' ') || timezone.name).replace(/[()]/g, '').replace(/[-+]\d{2}:\d{2}/, '')}</span>
             </h3>
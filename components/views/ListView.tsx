@@ -5,22 +5,36 @@ import Image from 'next/image';
 import { DateTime } from 'luxon';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Timezone, useTimezoneStore } from '@/store/timezoneStore';
-import { isNightHours, isWeekend } from '@/lib/utils/dateTimeFormatter';
+import { getDateFormatPattern, getTimeFormatPattern, isWeekend } from '@/lib/utils/dateTimeFormatter';
+import { getWeekendHighlightClass, useSettingsStore } from '@/store/settingsStore';
+import { useMeetingBlocks } from '@/lib/hooks/useMeetingBlocks';
+import { useDebounce } from '@/lib/hooks/useDebounce';
+import { findSlotIndex, isTimeInSlot } from '@/lib/utils/timeSlots';
+import { describeTransition, getSlotDSTInfo, SlotDSTInfo } from '@/lib/utils/dst';
+import { getZoneHoliday, type PublicHoliday } from '@/lib/utils/holidays';
 import { FixedSizeList, ListChildComponentProps } from 'react-window';
 // Removed AutoSizer import
 // import AutoSizer from 'react-virtualized-auto-sizer'; 
-import { ChevronUp, ChevronDown, Sun, Moon, Clock, Plus, X, Edit2, Settings, CalendarDays } from 'lucide-react';
+import { ChevronUp, ChevronDown, Sun, Moon, Clock, Plus, X, Edit2, Settings, CalendarDays, Search } from 'lucide-react';
 import { getAllTimezones, isInDST } from '@/lib/utils/timezone';
 import SelectedTimeNotification from '../ui/SelectedTimeNotification';
 import DateNotification from '../ui/DateNotification';
+import { DSTChangeBanner } from '../ui/DSTChangeBanner';
 import * as Dialog from '@radix-ui/react-dialog';
 import * as DropdownMenu from '@radix-ui/react-dropdown-menu';
 import TimezoneSelector from '../clock/TimezoneSelector';
+import WorkingHoursEditor from '../clock/WorkingHoursEditor';
+import CoordinatesEditor from '../clock/CoordinatesEditor';
 import { useTheme } from 'next-themes';
 import clsx from 'clsx';
-// Removed settings store import
 import { formatTimeForTimezone } from '@/lib/timezone-utils';
-import { convertEarthToMarsTime, formatMarsTime } from '@/lib/utils/mars-timezone';
+import { findTimeSystemSlotIndex, getTimeSystem, type TimeSystemSlot } from '@/lib/utils/timeSystems';
+import { getTimezoneCoordinates, type DaylightPhase } from '@/lib/utils/solar';
+import { parseNaturalTime, type NaturalTimeMatch } from '@/lib/utils/naturalTime';
+
+// Map an Earth slot index to the row to scroll to in a list, which differs for columns on their own grid
+const toListIndex = (nativeListIndexes: Record<string, number[]>, timezoneId: string, index: number) =>
+  nativeListIndexes[timezoneId]?.[index] ?? index;
 
 const useConsolidatedTimerHook = (
   mounted: boolean,
@@ -80,6 +94,7 @@ interface ListViewProps {
   highlightedTime: Date | null;
   handleTimeSelection: (time: Date | null) => void;
   roundToNearestIncrement: (date: Date, increment: number) => Date;
+  slotIncrement?: number; // Minutes between time slots (default 30)
   removeTimezone?: (id: string) => void;
   currentDate?: Date | null;
 }
@@ -93,25 +108,36 @@ interface TimeItemProps {
   time: Date;
   timezone: string;
   isHighlightedFn: (time: Date) => boolean;
-  isNightTimeFn: (time: Date, timezone: string) => boolean;
+  getDaylightPhaseFn: (time: Date, timezone: string) => DaylightPhase;
   isDateBoundaryFn: (time: Date, timezone: string) => boolean;
-  isDSTTransitionFn: (time: Date, timezone: string) => boolean;
+  getDSTInfoFn: (time: Date, timezone: string) => SlotDSTInfo;
+  getHolidayFn: (time: Date, timezone: string) => PublicHoliday | null;
+  dateBadgePattern: string; // Luxon format for the date shown where a new day starts
   isCurrentTimeFn: (time: Date) => boolean;
   isWeekendFn: (time: Date, timezone: string) => boolean;
   getHighlightAnimationClassFn: (isHighlight: boolean) => string;
   handleTimeSelectionFn: (time: Date) => void;
   getHighlightClass: (isWeekend: boolean) => string;
   formattedTimeStr: string;
+  hasMeetingFn: (time: Date, timezone: string) => boolean;
+  getMeetingTitleFn: (time: Date, timezone: string) => string;
 }
 
-const TimeItem = memo(function TimeItem({ style, time, timezone, isHighlightedFn, isNightTimeFn, isDateBoundaryFn, isDSTTransitionFn, isCurrentTimeFn, isWeekendFn, getHighlightAnimationClassFn, handleTimeSelectionFn, getHighlightClass, formattedTimeStr }: TimeItemProps) {
+const TimeItem = memo(function TimeItem({ style, time, timezone, isHighlightedFn, getDaylightPhaseFn, isDateBoundaryFn, getDSTInfoFn, getHolidayFn, dateBadgePattern, isCurrentTimeFn, isWeekendFn, getHighlightAnimationClassFn, handleTimeSelectionFn, getHighlightClass, formattedTimeStr, hasMeetingFn, getMeetingTitleFn }: TimeItemProps) {
   const isHighlight = isHighlightedFn(time);
-  const isNight = isNightTimeFn(time, timezone);
-  const isDay = !isNight;
+  const daylight = getDaylightPhaseFn(time, timezone);
+  const isNight = daylight === 'night';
+  const isTwilight = daylight === 'civil-twilight' || daylight === 'nautical-twilight';
+  const isDay = daylight === 'day';
   const isBoundary = isDateBoundaryFn(time, timezone);
-  const isDST = isDSTTransitionFn(time, timezone);
+  const dstInfo = getDSTInfoFn(time, timezone);
+  const timeSystem = getTimeSystem(timezone);
+  const dstNote = dstInfo.transition ? describeTransition(dstInfo.transition, timezone) : '';
   const isCurrent = isCurrentTimeFn(time);
   const isWknd = isWeekendFn(time, timezone);
+  const holiday = getHolidayFn(time, timezone);
+  const isBusy = hasMeetingFn(time, timezone);
+  const meetingTitle = isBusy ? getMeetingTitleFn(time, timezone) : '';
   const formatted = formattedTimeStr;
   const animClass = getHighlightAnimationClassFn(isHighlight);
   
@@ -122,6 +148,8 @@ const TimeItem = memo(function TimeItem({ style, time, timezone, isHighlightedFn
     isHighlight ? 'bg-primary-500/90 text-white font-medium' : 'text-foreground font-normal',
     isCurrent && !isHighlight ? 'border-l-2 border-primary-400 bg-primary-100/10 dark:bg-primary-900/10' : '',
     isDay && !isHighlight && !isCurrent ? 'border-l border-amber-300/50 dark:border-amber-500/30 bg-amber-50/10 dark:bg-amber-900/5' : '',
+    daylight === 'civil-twilight' && !isHighlight && !isCurrent ? 'border-l border-orange-300/50 dark:border-orange-500/30 bg-orange-50/10 dark:bg-orange-900/5' : '',
+    daylight === 'nautical-twilight' && !isHighlight && !isCurrent ? 'border-l border-violet-300/50 dark:border-violet-500/30 bg-violet-50/10 dark:bg-violet-900/5' : '',
     isNight && !isHighlight && !isCurrent ? 'border-l border-indigo-300/50 dark:border-indigo-500/30 bg-indigo-50/5 dark:bg-indigo-900/5' : '',
     isBoundary && !isHighlight ? 'border-t border-t-border/30' : '',
     animClass
@@ -145,36 +173,49 @@ const TimeItem = memo(function TimeItem({ style, time, timezone, isHighlightedFn
       {isBoundary && (
         <div className="absolute top-0 left-0 w-full flex items-center justify-center">
           <div className="bg-primary-100 dark:bg-primary-900/80 text-primary-800 dark:text-primary-200 text-xs rounded-b-md px-3 py-1 font-medium shadow-sm border-t-0 border-x border-b border-primary-200 dark:border-primary-700/50">
-            {DateTime.fromJSDate(time).setZone(timezone).toFormat('EEE, MMM d')}
+            {DateTime.fromJSDate(time).setZone(timezone).toFormat(dateBadgePattern)}
+            {holiday && ` · ${holiday.name}`}
           </div>
         </div>
       )}
       
+      {/* Busy block from an imported calendar event */}
+      {isBusy && (
+        <span className="absolute inset-y-0 right-0 w-1 bg-rose-500/70 dark:bg-rose-400/60" aria-hidden="true" />
+      )}
+
       {/* Time display with minimal styling */}
       <span className={clsx(
         'font-mono text-sm tracking-tight', 
         isHighlight ? 'text-white' : isCurrent ? 'text-primary-700 dark:text-primary-300 font-medium' : 'text-foreground',
-        timezone.startsWith('Mars/') && !isHighlight ? 'text-red-600/90 dark:text-red-400/90' : ''
+        !timeSystem.usesEarthCalendar && !isHighlight ? 'text-red-600/90 dark:text-red-400/90' : ''
       )}>
-        {timezone.startsWith('Mars/') && !isHighlight && (
-          <span className="mr-1 text-red-600/80 dark:text-red-400/80 inline-flex items-center opacity-80" title="Mars Time">
-            <span className="text-xs">♂︎</span>
+        {timeSystem.symbol && !isHighlight && (
+          <span className="mr-1 text-red-600/80 dark:text-red-400/80 inline-flex items-center opacity-80" title={`${timeSystem.name} Time`}>
+            <span className="text-xs">{timeSystem.symbol}</span>
           </span>
         )}
         {formatted}
+        {/* A wall-clock time that happens twice when the clocks go back */}
+        {dstInfo.repeated && <span className="ml-1 text-xs opacity-75">({dstInfo.repeated})</span>}
       </span>
       
       {/* Simplified indicators */}
       <div className="flex items-center space-x-1.5 opacity-70">
-        {isNight && !isHighlight && <span title="Night hours">●</span>}
-        {isDay && !isHighlight && <span title="Day hours">○</span>}
+        {isNight && !isHighlight && <span title="Night">●</span>}
+        {isTwilight && !isHighlight && <span title={daylight === 'civil-twilight' ? 'Civil twilight' : 'Nautical twilight'}>◐</span>}
+        {isDay && !isHighlight && <span title="Daylight">○</span>}
         {isCurrent && !isHighlight && <span className="text-xs font-medium text-primary-500">now</span>}
-        {isDST && !isHighlight && <span className="text-xs text-amber-500/80" title="DST transition">⊙</span>}
+        {dstInfo.transition && !isHighlight && <span className="text-xs text-amber-500/80" title={dstNote} aria-label={dstNote}>⊙</span>}
         {isWknd && !isHighlight && <span className="text-xs text-purple-500/80" title="Weekend">⌇</span>}
+        {holiday && !isHighlight && <span className="text-xs text-emerald-600/80 dark:text-emerald-400/80" title={`Public holiday: ${holiday.name}`}>✱</span>}
+        {isBusy && !isHighlight && (
+          <span className="max-w-[7rem] truncate text-xs text-rose-600 dark:text-rose-400" title={meetingTitle}>{meetingTitle}</span>
+        )}
       </div>
     </div>
   );
-}, (prevProps, nextProps) => prevProps.time.getTime() === nextProps.time.getTime() && prevProps.timezone === nextProps.timezone && prevProps.isHighlightedFn(prevProps.time) === nextProps.isHighlightedFn(nextProps.time) && prevProps.isCurrentTimeFn(prevProps.time) === nextProps.isCurrentTimeFn(nextProps.time));
+}, (prevProps, nextProps) => prevProps.time.getTime() === nextProps.time.getTime() && prevProps.timezone === nextProps.timezone && prevProps.isHighlightedFn(prevProps.time) === nextProps.isHighlightedFn(nextProps.time) && prevProps.isCurrentTimeFn(prevProps.time) === nextProps.isCurrentTimeFn(nextProps.time) && prevProps.hasMeetingFn === nextProps.hasMeetingFn && prevProps.getMeetingTitleFn === nextProps.getMeetingTitleFn && prevProps.getHolidayFn === nextProps.getHolidayFn && prevProps.isDateBoundaryFn === nextProps.isDateBoundaryFn && prevProps.getDSTInfoFn === nextProps.getDSTInfoFn && prevProps.getDaylightPhaseFn === nextProps.getDaylightPhaseFn && prevProps.formattedTimeStr === nextProps.formattedTimeStr && prevProps.dateBadgePattern === nextProps.dateBadgePattern);
 TimeItem.displayName = 'TimeItem';
 
 const Row = ({ index, style, data }: ListChildComponentProps) => {
@@ -188,10 +229,8 @@ const Row = ({ index, style, data }: ListChildComponentProps) => {
 
   let formattedTimeStr: string;
 
-  if (currentItemData.isMars && currentItemData.marsSlotsData && currentItemData.marsSlotsData[index]) {
-    const marsData = currentItemData.marsSlotsData[index];
-    const marsDateTime = { hours: marsData.hours, minutes: marsData.minutes, seconds: 0, sol: marsData.sol };
-    formattedTimeStr = formatMarsTime(marsDateTime);
+  if (currentItemData.nativeSlots && currentItemData.nativeSlots[index]) {
+    formattedTimeStr = currentItemData.nativeSlots[index].label;
   } else {
     formattedTimeStr = currentItemData.formatTimeFn(time, currentItemData.timezoneId);
   }
@@ -202,15 +241,19 @@ const Row = ({ index, style, data }: ListChildComponentProps) => {
       time={time}
       timezone={currentItemData.timezoneId}
       isHighlightedFn={currentItemData.isHighlightedFn}
-      isNightTimeFn={currentItemData.isNightTimeFn}
+      getDaylightPhaseFn={currentItemData.getDaylightPhaseFn}
       isDateBoundaryFn={currentItemData.isDateBoundaryFn}
-      isDSTTransitionFn={currentItemData.isDSTTransitionFn}
+      getDSTInfoFn={currentItemData.getDSTInfoFn}
+      getHolidayFn={currentItemData.getHolidayFn}
+      dateBadgePattern={currentItemData.dateBadgePattern}
       isCurrentTimeFn={currentItemData.isCurrentTimeFn}
       isWeekendFn={currentItemData.isWeekendFn}
       getHighlightAnimationClassFn={currentItemData.getHighlightAnimationClassFn}
       handleTimeSelectionFn={currentItemData.handleTimeSelectionFn}
       getHighlightClass={currentItemData.getHighlightClass}
       formattedTimeStr={formattedTimeStr}
+      hasMeetingFn={currentItemData.hasMeetingFn}
+      getMeetingTitleFn={currentItemData.getMeetingTitleFn}
     />
   );
 };
@@ -223,6 +266,7 @@ const ListView = forwardRef<ListViewHandle, ListViewProps>(({
   highlightedTime,
   handleTimeSelection,
   roundToNearestIncrement,
+  slotIncrement = 30,
   removeTimezone: externalRemoveTimezone,
   currentDate
 }, ref) => {
@@ -236,17 +280,22 @@ const ListView = forwardRef<ListViewHandle, ListViewProps>(({
   const scrollSyncTimeoutRef = useRef<NodeJS.Timeout | null>(null);
 
   const { resolvedTheme } = useTheme();
-  // Removed settings store usage
-  const weekendHighlightColor = 'red'; // Hardcoded default
-  const highlightAutoClear = true; // Hardcoded default
-  const highlightDuration = 60; // Hardcoded default (seconds)
-  // Hardcoded weekend highlight class function
-  const getWeekendHighlightClass = (color: string) => `bg-${color}-100 dark:bg-${color}-900/20`;
+  const {
+    weekendHighlightColor,
+    highlightAutoClear,
+    highlightDuration,
+    timeFormat,
+    nightHoursStart,
+    nightHoursEnd,
+    marsTimeScale,
+    marsSlotGrid,
+    dateFormat
+  } = useSettingsStore();
 
   const [selectorOpen, setSelectorOpen] = useState(false);
   const [editingTimezoneId, setEditingTimezoneId] = useState<string | null>(null);
 
-  const { addTimezone, removeTimezone: storeRemoveTimezone, timezones: storeTimezones } = useTimezoneStore();
+  const { addTimezone, removeTimezone: storeRemoveTimezone, timezones: storeTimezones, setSelectedDate } = useTimezoneStore();
   const removeTimezone = externalRemoveTimezone || storeRemoveTimezone;
 
   const timeRemainingRef = useRef<number>(highlightDuration);
@@ -258,7 +307,7 @@ const ListView = forwardRef<ListViewHandle, ListViewProps>(({
   const lastScrollTimeRef = useRef<number>(0);
   const [currentScrollOffset, setCurrentScrollOffset] = useState(0);
 
-  const [selectedDateInfo, setSelectedDateInfo] = useState<string | null>(null);
+  const [selectedDay, setSelectedDay] = useState<DateTime | null>(null); // Day shown when it isn't today
   const [isSearching, setIsSearching] = useState(false);
   const [searchTerm, setSearchTerm] = useState('');
   const [filteredTimeSlots, setFilteredTimeSlots] = useState<Date[]>([]);
@@ -277,9 +326,9 @@ const ListView = forwardRef<ListViewHandle, ListViewProps>(({
       const firstSlotDate = DateTime.fromJSDate(firstSlot);
       const currentDateTime = currentDate ? DateTime.fromJSDate(currentDate).startOf('day') : DateTime.local().startOf('day');
       if (!firstSlotDate.hasSame(currentDateTime, 'day')) {
-        setSelectedDateInfo(firstSlotDate.toFormat('EEEE, MMMM d, yyyy'));
+        setSelectedDay(firstSlotDate);
       } else {
-        setSelectedDateInfo(null);
+        setSelectedDay(null);
       }
     }
     // Copy refs for cleanup
@@ -381,12 +430,33 @@ const ListView = forwardRef<ListViewHandle, ListViewProps>(({
     }
   }, [resetInactivityTimer]);
 
+  // Zones whose time system has its own grid turned on (e.g. Mars hours) get their own slots over the same Earth range
+  const nativeSlotsByZone = useMemo(() => {
+    const slotsByZone: Record<string, TimeSystemSlot[]> = {};
+    // Search results are filtered Earth slots, so every column shows those instead
+    if (!timeSlots.length || (isSearching && filteredTimeSlots.length > 0)) return slotsByZone;
+    const from = timeSlots[0];
+    const to = new Date(timeSlots[timeSlots.length - 1].getTime() + slotIncrement * 60 * 1000);
+    storeTimezones.forEach(tz => {
+      const slots = getTimeSystem(tz.id).generateSlots?.(from, to, tz.id, slotIncrement, { marsSlotGrid, marsTimeScale });
+      if (slots) slotsByZone[tz.id] = slots;
+    });
+    return slotsByZone;
+  }, [marsSlotGrid, marsTimeScale, timeSlots, slotIncrement, storeTimezones, isSearching, filteredTimeSlots]);
+
+  // For each column on its own grid, the row holding each Earth slot's start
+  const nativeListIndexesRef = useRef<Record<string, number[]>>({});
+  useEffect(() => {
+    nativeListIndexesRef.current = Object.fromEntries(Object.entries(nativeSlotsByZone).map(([id, slots]) =>
+      [id, timeSlots.map(slot => Math.max(0, findTimeSystemSlotIndex(slots, slot)))]));
+  }, [nativeSlotsByZone, timeSlots]);
+
   const getCurrentTimeIndex = useCallback(() => {
     if (!localTime || !timeSlots.length) return 0;
-    const roundedLocalTime = roundToNearestIncrement(localTime, 30);
-    const index = timeSlots.findIndex(t => DateTime.fromJSDate(t).hasSame(DateTime.fromJSDate(roundedLocalTime), 'minute'));
+    const roundedLocalTime = roundToNearestIncrement(localTime, slotIncrement);
+    const index = findSlotIndex(timeSlots, roundedLocalTime, slotIncrement);
     return index > -1 ? index : 0;
-  }, [localTime, timeSlots, roundToNearestIncrement]);
+  }, [localTime, timeSlots, roundToNearestIncrement, slotIncrement]);
 
   const scrollToIndex = useCallback((index: number, alignment: 'start' | 'center' | 'end' | 'smart' | 'auto' = 'center') => {
     if (userIsScrollingRef.current) return;
@@ -396,9 +466,9 @@ const ListView = forwardRef<ListViewHandle, ListViewProps>(({
     // we still want to synchronize all timezones for the first view
     // But after that, each timezone scrolls independently
     requestAnimationFrame(() => {
-      Object.values(listRefs.current).forEach(listRef => {
+      Object.entries(listRefs.current).forEach(([timezoneId, listRef]) => {
         if (listRef) {
-          listRef.scrollToItem(index, prefersReducedMotion ? 'start' : alignment);
+          listRef.scrollToItem(toListIndex(nativeListIndexesRef.current, timezoneId, index), prefersReducedMotion ? 'start' : alignment);
         }
       });
     });
@@ -407,24 +477,20 @@ const ListView = forwardRef<ListViewHandle, ListViewProps>(({
   useImperativeHandle(ref, () => ({
     scrollToTime: (time: Date, alignment: 'start' | 'center' | 'end' | 'smart' | 'auto' = 'center') => {
       if (!time || !timeSlots.length) return;
-      const targetTimeUTC = DateTime.fromJSDate(time).toUTC();
-      const targetIndex = timeSlots.findIndex(t => {
-        const slotTimeUTC = DateTime.fromJSDate(t).toUTC();
-        return slotTimeUTC.hasSame(targetTimeUTC, 'minute');
-      });
+      const targetIndex = findSlotIndex(timeSlots, time, slotIncrement);
       if (targetIndex !== -1) {
         // Restore original requestAnimationFrame here
         requestAnimationFrame(() => {
           const prefersReducedMotion = window.matchMedia('(prefers-reduced-motion: reduce)').matches;
-          Object.values(listRefs.current).forEach(listRef => {
+          Object.entries(listRefs.current).forEach(([timezoneId, listRef]) => {
             if (listRef) {
-              listRef.scrollToItem(targetIndex, prefersReducedMotion ? 'start' : alignment);
+              listRef.scrollToItem(toListIndex(nativeListIndexesRef.current, timezoneId, targetIndex), prefersReducedMotion ? 'start' : alignment);
             }
           });
         });
       }
     }
-  }), [timeSlots]);
+  }), [timeSlots, slotIncrement]);
 
   const throttledUserInteraction = useCallback((event: Event) => {
     const now = Date.now();
@@ -457,12 +523,12 @@ const ListView = forwardRef<ListViewHandle, ListViewProps>(({
     };
   }, [mounted, highlightedTime, throttledUserInteraction]);
 
-  const formatTimeFunction = useMemo(() => (date: Date, timezone: string) => {
-    return formatTimeForTimezone(date, timezone, 'h:mm a');
-  }, []);
-  const formatTime = useCallback((date: Date, timezone: string) => formatTimeFunction(date, timezone), [formatTimeFunction]);
+  const formatTimeFunction = useMemo(() => (date: Date, timezone: string, includeSeconds = false) => {
+    return formatTimeForTimezone(date, timezone, getTimeFormatPattern(timeFormat, includeSeconds), marsTimeScale);
+  }, [timeFormat, marsTimeScale]);
+  const formatTime = useCallback((date: Date, timezone: string, includeSeconds = false) => formatTimeFunction(date, timezone, includeSeconds), [formatTimeFunction]);
 
-  const isHighlighted = useCallback((time: Date) => highlightedTime ? time.getTime() === highlightedTime.getTime() : false, [highlightedTime]);
+  const isHighlighted = useCallback((time: Date) => highlightedTime ? isTimeInSlot(time, highlightedTime, slotIncrement) : false, [highlightedTime, slotIncrement]);
   const getHighlightAnimationClass = useCallback((isHighlight: boolean) => isHighlight ? 'highlight-item-optimized highlight-pulse-effect' : '', []);
 
   useEffect(() => {
@@ -503,34 +569,33 @@ const ListView = forwardRef<ListViewHandle, ListViewProps>(({
     }
   }, [mounted]);
 
-  const checkNightHours = useCallback((time: Date, timezone: string) => isNightHours(time, timezone), []);
+  // Each zone's saved coordinates (bundled city or set by the user) for sunrise/sunset shading
+  const coordinatesByZone = useMemo(
+    () => new Map(storeTimezones.map(tz => [tz.id, getTimezoneCoordinates(tz)])),
+    [storeTimezones]
+  );
+  const getDaylightPhase = useCallback((time: Date, timezone: string) =>
+    getTimeSystem(timezone).getDaylightPhase(time, timezone, {
+      nightHours: { start: nightHoursStart, end: nightHoursEnd },
+      marsTimeScale,
+      coordinates: coordinatesByZone.get(timezone) ?? undefined
+    }), [nightHoursStart, nightHoursEnd, marsTimeScale, coordinatesByZone]);
   const isDateBoundary = useCallback((time: Date, timezone: string) => {
     const timeInTimezone = DateTime.fromJSDate(time).setZone(timezone);
     return timeInTimezone.hour === 0 && timeInTimezone.minute === 0;
   }, []);
-  const isDSTTransition = useCallback((time: Date, timezone: string) => {
-    const timeInTimezone = DateTime.fromJSDate(time).setZone(timezone);
-    const oneDayLater = timeInTimezone.plus({ days: 1 });
-    return timeInTimezone.offset !== oneDayLater.offset;
-  }, []);
+  const getDSTInfo = useCallback((time: Date, timezone: string) => getSlotDSTInfo(time, timezone, slotIncrement), [slotIncrement]);
   const timeCalculationCache = useRef(new Map<string, boolean>());
   useEffect(() => { timeCalculationCache.current.clear(); }, [localTime, highlightedTime]);
-  const isCurrentTime = useCallback((time: Date): boolean => {
-    if (!localTime) return false;
-    const timeDateTime = DateTime.fromJSDate(time);
-    const localDateTime = DateTime.fromJSDate(localTime);
-    const roundedLocalTime = Math.floor(localDateTime.minute / 30) * 30;
-    const roundedLocalDateTime = localDateTime.set({ minute: roundedLocalTime, second: 0, millisecond: 0 });
-    return timeDateTime.hasSame(roundedLocalDateTime, 'hour') && timeDateTime.minute === roundedLocalDateTime.minute;
-  }, [localTime]);
+  // Compare instants rather than wall-clock fields so a repeated hour isn't "now" twice
+  const isCurrentTime = useCallback((time: Date): boolean => localTime ? isTimeInSlot(time, localTime, slotIncrement) : false, [localTime, slotIncrement]);
   const getWeekdayName = useCallback((time: Date, timezone: string) => DateTime.fromJSDate(time).setZone(timezone).toFormat('cccc'), []);
   const isWeekend = useCallback((time: Date, timezone: string) => {
     const weekday = DateTime.fromJSDate(time).setZone(timezone).weekday;
     return weekday === 6 || weekday === 7;
   }, []);
-  const getTimezoneOffset = useCallback((timezone: string) => DateTime.now().setZone(timezone).toFormat('ZZ'), []);
-  const hasMeetingAt = useCallback((time: Date, timezone: string): boolean => false, []);
-  const getMeetingTitle = useCallback((time: Date, timezone: string): string => "", []);
+  const getTimezoneOffset = useCallback((timezone: string) => getTimeSystem(timezone).getOffsetLabel(timezone), []);
+  const { hasMeetingAt, getMeetingTitle } = useMeetingBlocks(timeSlots, userLocalTimezone);
 
   const handleAddTimezone = useCallback((timezone: Timezone) => { addTimezone(timezone); setSelectorOpen(false); }, [addTimezone]);
   const handleReplaceTimezone = useCallback((timezone: Timezone) => {
@@ -552,13 +617,29 @@ const ListView = forwardRef<ListViewHandle, ListViewProps>(({
     }
   }, [removeTimezone, userLocalTimezone, selectedTimezones]);
 
-  const getHighlightClass = useCallback((isWeekend: boolean) => isWeekend ? getWeekendHighlightClass(weekendHighlightColor) : '', [weekendHighlightColor]); // Uses hardcoded function now
+  const getHighlightClass = useCallback((isWeekend: boolean) => isWeekend ? getWeekendHighlightClass(weekendHighlightColor) : '', [weekendHighlightColor]);
+
+  // Typed times such as "3pm Tokyo tomorrow", resolved against the selected zones once typing pauses
+  const debouncedSearchTerm = useDebounce(searchTerm, 200);
+  const naturalTimeResult = useMemo(
+    () => debouncedSearchTerm.trim() ? parseNaturalTime(debouncedSearchTerm, { timezones: storeTimezones, localTimezone: userLocalTimezone }) : null,
+    [debouncedSearchTerm, storeTimezones, userLocalTimezone]
+  );
 
   const handleSearch = useCallback((term: string) => {
     if (!term.trim()) {
       scrollToIndex(getCurrentTimeIndex(), 'center');
       return;
     }
+    // Preview a recognised time by scrolling to it when it's on the day shown
+    if (naturalTimeResult?.status === 'resolved') {
+      const index = findSlotIndex(timeSlots, naturalTimeResult.match.instant, slotIncrement);
+      if (index !== -1) {
+        scrollToIndex(index, 'center');
+        return;
+      }
+    }
+    // Otherwise match plain hours such as "9" or "14:00" against local slots
     const searchLower = term.toLowerCase().trim();
     const filtered = timeSlots.filter(timeSlot => {
       const timeInLocalZone = DateTime.fromJSDate(timeSlot).setZone(userLocalTimezone);
@@ -570,14 +651,38 @@ const ListView = forwardRef<ListViewHandle, ListViewProps>(({
       else return hour12 === searchLower || hour24 === searchLower;
     });
     scrollToIndex(filtered.length > 0 ? timeSlots.findIndex(t => t.getTime() === filtered[0].getTime()) : getCurrentTimeIndex(), 'center');
-  }, [timeSlots, userLocalTimezone, scrollToIndex, getCurrentTimeIndex]);
+  }, [timeSlots, userLocalTimezone, scrollToIndex, getCurrentTimeIndex, naturalTimeResult, slotIncrement]);
 
   useEffect(() => { if (searchTerm) handleSearch(searchTerm); }, [timeSlots, searchTerm, handleSearch]);
 
   const handleClearSearch = useCallback(() => {
+    setSearchTerm('');
     scrollToIndex(getCurrentTimeIndex(), 'center');
   }, [scrollToIndex, getCurrentTimeIndex]);
 
+  // Move to the typed time's date and highlight it; the highlight effect scrolls every column there
+  const applyNaturalTime = useCallback((match: NaturalTimeMatch) => {
+    setSelectedDate(match.instant);
+    handleTimeSelection(match.instant);
+    setSearchTerm('');
+  }, [setSelectedDate, handleTimeSelection]);
+
+  const handleSearchKeyDown = useCallback((event: React.KeyboardEvent<HTMLInputElement>) => {
+    // Only apply a result parsed from what's in the box, not from an earlier keystroke
+    if (event.key === 'Enter' && debouncedSearchTerm === searchTerm && naturalTimeResult?.status === 'resolved') {
+      event.preventDefault();
+      applyNaturalTime(naturalTimeResult.match);
+    } else if (event.key === 'Escape') {
+      handleClearSearch();
+    }
+  }, [naturalTimeResult, debouncedSearchTerm, searchTerm, applyNaturalTime, handleClearSearch]);
+
+  const describeInLocalTime = useCallback((match: NaturalTimeMatch) =>
+    match.zone === userLocalTimezone
+      ? ''
+      : `${DateTime.fromJSDate(match.instant).setZone(userLocalTimezone).toFormat(`${getDateFormatPattern(dateFormat, { weekday: true, year: false })} ${getTimeFormatPattern(timeFormat)}`)} your time`,
+  [userLocalTimezone, dateFormat, timeFormat]);
+
   const renderTimeColumns = useCallback(() => {
     if (!mounted) return null;
 
@@ -619,9 +724,9 @@ const ListView = forwardRef<ListViewHandle, ListViewProps>(({
               filteredTimeSlots={filteredTimeSlots}
               timeSlots={timeSlots}
               isHighlighted={isHighlighted}
-              checkNightHours={checkNightHours}
+              getDaylightPhase={getDaylightPhase}
               isDateBoundary={isDateBoundary}
-              isDSTTransition={isDSTTransition}
+              getDSTInfo={getDSTInfo}
               isCurrentTime={isCurrentTime}
               isWeekend={isWeekend}
               formatTime={formatTime}
@@ -636,7 +741,11 @@ const ListView = forwardRef<ListViewHandle, ListViewProps>(({
               setSelectorOpen={setSelectorOpen}
               userLocalTimezone={userLocalTimezone}
               localTime={localTime}
+              highlightedTime={highlightedTime}
+              nativeSlots={nativeSlotsByZone[timezone.id]}
               getHighlightClass={getHighlightClass}
+              hasMeetingAt={hasMeetingAt}
+              getMeetingTitle={getMeetingTitle}
             />
           ))}
         </div>
@@ -647,25 +756,29 @@ const ListView = forwardRef<ListViewHandle, ListViewProps>(({
     userLocalTimezone, 
     storeTimezones,
     timeSlots,
+    nativeSlotsByZone,
     isHighlighted,
-    checkNightHours, 
+    getDaylightPhase, 
     isDateBoundary,
-    isDSTTransition,
+    getDSTInfo,
     isCurrentTime,
     isWeekend,
     getTimezoneOffset,
     formatTime,
     handleTimeSelection,
-    getCurrentTimeIndex,
     handleRemoveTimezone,
     setSelectorOpen,
     setEditingTimezoneId,
     resolvedTheme,
     getHighlightClass,
+    hasMeetingAt,
+    getMeetingTitle,
     getHighlightAnimationClass,
     handleUserScroll,
     filteredTimeSlots,
-    isSearching
+    isSearching,
+    localTime,
+    highlightedTime
   ]);
 
   useEffect(() => {
@@ -673,16 +786,12 @@ const ListView = forwardRef<ListViewHandle, ListViewProps>(({
     if (userIsScrollingRef.current) {
       const syncAfterScrolling = () => {
         if (!highlightedTime) return;
-        const targetIndex = timeSlots.findIndex(slot => {
-          const slotDateTime = DateTime.fromJSDate(slot).toUTC();
-          const highlightedDateTime = DateTime.fromJSDate(highlightedTime).toUTC();
-          return slotDateTime.hasSame(highlightedDateTime, 'minute');
-        });
+        const targetIndex = findSlotIndex(timeSlots, highlightedTime, slotIncrement);
         if (targetIndex !== -1) {
-          Object.values(listRefs.current).forEach(listRef => {
+          Object.entries(listRefs.current).forEach(([timezoneId, listRef]) => {
             if (listRef) {
               // Revert syncAfterScrolling to 'center' for desktop
-              listRef.scrollToItem(targetIndex, 'center');
+              listRef.scrollToItem(toListIndex(nativeListIndexesRef.current, timezoneId, targetIndex), 'center');
             }
           });
         }
@@ -691,22 +800,18 @@ const ListView = forwardRef<ListViewHandle, ListViewProps>(({
       scrollTimeoutRef.current = setTimeout(syncAfterScrolling, 500);
       return;
     }
-    const highlightedDateTime = DateTime.fromJSDate(highlightedTime).toUTC();
-    const targetIndex = timeSlots.findIndex(slot => {
-      const slotDateTime = DateTime.fromJSDate(slot).toUTC();
-      return slotDateTime.hasSame(highlightedDateTime, 'minute');
-    });
+    const targetIndex = findSlotIndex(timeSlots, highlightedTime, slotIncrement);
     if (targetIndex !== -1) {
       // Remove requestAnimationFrame to attempt more immediate scrolling
-      Object.values(listRefs.current).forEach(listRef => {
+      Object.entries(listRefs.current).forEach(([timezoneId, listRef]) => {
         if (listRef) {
           // Revert highlight scroll to 'center' (or 'start' for reduced motion) for desktop
           const prefersReducedMotion = typeof window !== 'undefined' && window.matchMedia('(prefers-reduced-motion: reduce)').matches;
-          listRef.scrollToItem(targetIndex, prefersReducedMotion ? 'start' : 'center');
+          listRef.scrollToItem(toListIndex(nativeListIndexesRef.current, timezoneId, targetIndex), prefersReducedMotion ? 'start' : 'center');
         }
       });
     }
-  }, [highlightedTime, timeSlots, mounted]); // Ensure dependencies are correct
+  }, [highlightedTime, timeSlots, mounted, slotIncrement]); // Ensure dependencies are correct
 
   useEffect(() => {
     if (!mounted || !localTime || highlightedTime || !timeSlots.length) return;
@@ -744,7 +849,7 @@ const ListView = forwardRef<ListViewHandle, ListViewProps>(({
     timeCalculationCache.current.clear();
     const localDateTime = DateTime.fromJSDate(localTime);
     const minute = localDateTime.minute;
-    if ((minute === 0 || minute === 30) && localDateTime.second < 10) {
+    if (minute % slotIncrement === 0 && localDateTime.second < 10) {
       Object.values(listRefs.current).forEach(listRef => {
         if (listRef) {
           listRef.forceUpdate();
@@ -754,7 +859,7 @@ const ListView = forwardRef<ListViewHandle, ListViewProps>(({
         scrollToIndex(getCurrentTimeIndex(), 'center');
       }
     }
-  }, [localTime, mounted, highlightedTime, scrollToIndex, getCurrentTimeIndex]);
+  }, [localTime, mounted, highlightedTime, scrollToIndex, getCurrentTimeIndex, slotIncrement]);
 
   const currentTimeLineTop = useMemo(() => {
     if (!localTime || !timeSlots.length || !mounted) return null;
@@ -762,9 +867,9 @@ const ListView = forwardRef<ListViewHandle, ListViewProps>(({
     const listStartTime = DateTime.fromJSDate(timeSlots[0]);
     const currentLocalTime = DateTime.fromJSDate(localTime);
     const diffInMinutes = currentLocalTime.diff(listStartTime, 'minutes').minutes;
-    const pixelOffset = (diffInMinutes / 30) * itemSize;
+    const pixelOffset = (diffInMinutes / slotIncrement) * itemSize;
     return pixelOffset - currentScrollOffset;
-  }, [localTime, timeSlots, mounted, currentScrollOffset]);
+  }, [localTime, timeSlots, mounted, currentScrollOffset, slotIncrement]);
 
   return (
     <motion.div
@@ -780,10 +885,76 @@ const ListView = forwardRef<ListViewHandle, ListViewProps>(({
       }}
     >
       <DateNotification 
-        selectedDateInfo={selectedDateInfo}
+        selectedDateInfo={selectedDay ? selectedDay.toFormat(`EEEE, ${getDateFormatPattern(dateFormat)}`) : null}
         resolvedTheme={resolvedTheme}
       />
 
+      {mounted && localTime && <DSTChangeBanner timezones={storeTimezones} now={localTime} />}
+
+      {/* Time search: "3pm Tokyo tomorrow", "next Tue 17:00 PST", "in 3 hours" */}
+      <div className="mb-4 max-w-xl mx-auto">
+        <div className="flex items-center gap-2 px-3 py-2 rounded-lg border border-border bg-card shadow-sm">
+          <Search size={16} className="text-muted-foreground flex-shrink-0" />
+          <input
+            type="text"
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            onKeyDown={handleSearchKeyDown}
+            placeholder='Jump to a time, e.g. "3pm Tokyo tomorrow" or "in 3 hours"'
+            aria-label="Search for a time"
+            className="w-full bg-transparent text-sm outline-none placeholder:text-muted-foreground"
+          />
+          {searchTerm && (
+            <button type="button" onClick={handleClearSearch} className="text-muted-foreground hover:text-foreground" aria-label="Clear time search">
+              <X size={16} />
+            </button>
+          )}
+        </div>
+        {naturalTimeResult?.status === 'resolved' && (
+          <button
+            type="button"
+            onClick={() => applyNaturalTime(naturalTimeResult.match)}
+            className="mt-1 w-full text-left px-3 py-1.5 rounded-md text-sm hover:bg-muted transition-colors"
+          >
+            <span className="font-medium">{naturalTimeResult.match.description}</span>
+            {describeInLocalTime(naturalTimeResult.match) && (
+              <span className="ml-2 text-xs text-muted-foreground">= {describeInLocalTime(naturalTimeResult.match)}</span>
+            )}
+            <span className="ml-2 text-xs text-muted-foreground">(Enter)</span>
+            {naturalTimeResult.match.warning && (
+              <span className="block text-xs text-amber-600 dark:text-amber-400">{naturalTimeResult.match.warning}</span>
+            )}
+          </button>
+        )}
+        {naturalTimeResult?.status === 'ambiguous' && (
+          <div className="mt-1 px-3 py-1.5 text-sm" role="group" aria-label="Which time did you mean?">
+            <div className="text-xs text-muted-foreground mb-1">Which one did you mean?</div>
+            <div className="flex flex-col gap-1">
+              {naturalTimeResult.matches.map(match => (
+                <button
+                  key={match.zone}
+                  type="button"
+                  onClick={() => applyNaturalTime(match)}
+                  className="text-left px-2 py-1 rounded-md border border-border hover:bg-muted transition-colors"
+                >
+                  <span className="font-medium">{match.description}</span>
+                  {describeInLocalTime(match) && (
+                    <span className="ml-2 text-xs text-muted-foreground">= {describeInLocalTime(match)}</span>
+                  )}
+                  {match.warning && (
+                    <span className="block text-xs text-amber-600 dark:text-amber-400">{match.warning}</span>
+                  )}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+        {/* Plain hours such as "9" still scroll to the matching slot, so don't flag them */}
+        {naturalTimeResult?.status === 'unrecognized' && !/^\d{1,2}:?$/.test(searchTerm.trim()) && (
+          <p className="mt-1 px-3 text-xs text-muted-foreground">{naturalTimeResult.reason}</p>
+        )}
+      </div>
+
       {renderTimeColumns()}
 
       <AnimatePresence>
@@ -816,7 +987,7 @@ ListView.displayName = 'ListView';
 const TimezoneColumn = memo(({
   timezone,
   isLocal,
-  isSearching, filteredTimeSlots, timeSlots, isHighlighted, checkNightHours, isDateBoundary, isDSTTransition, isCurrentTime, isWeekend, formatTime, getHighlightAnimationClass, handleTimeSelection, listRefs, handleUserScroll, resolvedTheme, getTimezoneOffset, handleRemoveTimezone, setEditingTimezoneId, setSelectorOpen, userLocalTimezone, localTime, getHighlightClass
+  isSearching, filteredTimeSlots, timeSlots, isHighlighted, getDaylightPhase, isDateBoundary, getDSTInfo, isCurrentTime, isWeekend, formatTime, getHighlightAnimationClass, handleTimeSelection, listRefs, handleUserScroll, resolvedTheme, getTimezoneOffset, handleRemoveTimezone, setEditingTimezoneId, setSelectorOpen, userLocalTimezone, localTime, highlightedTime, nativeSlots, getHighlightClass, hasMeetingAt, getMeetingTitle
 }: {
   timezone: Timezone;
   isLocal: boolean;
@@ -824,12 +995,12 @@ const TimezoneColumn = memo(({
   filteredTimeSlots: Date[];
   timeSlots: Date[];
   isHighlighted: (time: Date) => boolean;
-  checkNightHours: (time: Date, timezone: string) => boolean;
+  getDaylightPhase: (time: Date, timezone: string) => DaylightPhase;
   isDateBoundary: (time: Date, timezone: string) => boolean;
-  isDSTTransition: (time: Date, timezone: string) => boolean;
+  getDSTInfo: (time: Date, timezone: string) => SlotDSTInfo;
   isCurrentTime: (time: Date) => boolean;
   isWeekend: (time: Date, timezone: string) => boolean;
-  formatTime: (date: Date, timezone: string) => string;
+  formatTime: (date: Date, timezone: string, includeSeconds?: boolean) => string;
   getHighlightAnimationClass: (isHighlight: boolean) => string;
   handleTimeSelection: (time: Date | null) => void;
   listRefs: React.MutableRefObject<Record<string, FixedSizeList | null>>;
@@ -841,56 +1012,55 @@ const TimezoneColumn = memo(({
   setSelectorOpen: React.Dispatch<React.SetStateAction<boolean>>;
   userLocalTimezone: string;
   localTime: Date | null;
+  highlightedTime: Date | null;
+  nativeSlots?: TimeSystemSlot[]; // Set when the zone's time system has its own grid turned on
   getHighlightClass: (isWeekend: boolean) => string;
+  hasMeetingAt: (time: Date, timezone: string) => boolean;
+  getMeetingTitle: (time: Date, timezone: string) => string;
 }) => {
   const isDST = isInDST(timezone.id);
-  const isMars = timezone.id.startsWith('Mars/');
-
-  const marsTimeSlotsData = useMemo(() => {
-    if (!isMars || !timeSlots.length) return null;
-    const MARS_SOL_TO_EARTH_DAY_RATIO = 1.0274912517;
-    const EARTH_INCREMENT_SECONDS = 30 * 60;
-    const MARS_INCREMENT_SECONDS = EARTH_INCREMENT_SECONDS / MARS_SOL_TO_EARTH_DAY_RATIO;
-    const MARS_SECONDS_IN_SOL = 86400;
-    const referenceEarthTime = DateTime.fromJSDate(timeSlots[0]);
-    const referenceMarsData = convertEarthToMarsTime(referenceEarthTime, timezone.id);
-    let currentTotalMarsSeconds = (referenceMarsData.hours * 3600) + (referenceMarsData.minutes * 60) + referenceMarsData.seconds;
-    let currentSol = referenceMarsData.sol;
-    const slotsData: { hours: number; minutes: number; sol: number }[] = [];
-    for (let i = 0; i < timeSlots.length; i++) {
-      if (i > 0) {
-        currentTotalMarsSeconds += MARS_INCREMENT_SECONDS;
-        if (currentTotalMarsSeconds >= MARS_SECONDS_IN_SOL) {
-           currentSol += Math.floor(currentTotalMarsSeconds / MARS_SECONDS_IN_SOL);
-           currentTotalMarsSeconds %= MARS_SECONDS_IN_SOL;
-        }
-      }
-      const positiveTotalSeconds = (currentTotalMarsSeconds % MARS_SECONDS_IN_SOL + MARS_SECONDS_IN_SOL) % MARS_SECONDS_IN_SOL;
-      const hours = Math.floor(positiveTotalSeconds / 3600);
-      const minutes = Math.floor((positiveTotalSeconds % 3600) / 60);
-      slotsData.push({ hours, minutes, sol: currentSol });
-    }
-    return slotsData;
-  }, [isMars, timeSlots, timezone.id]);
+  const timeSystem = getTimeSystem(timezone.id);
+  const showSeconds = useSettingsStore((state) => state.showSeconds);
+  const marsTimeScale = useSettingsStore((state) => state.marsTimeScale);
+  const dateFormat = useSettingsStore((state) => state.dateFormat);
+
+  // The system's own slots replace the Earth ones, except while filtering by search
+  const isNativeGrid = !!nativeSlots?.length && !(isSearching && filteredTimeSlots.length > 0);
+  const nativeGridSlots = useMemo(() => nativeSlots?.map(slot => slot.start) ?? [], [nativeSlots]);
+  const nativeSlotEnds = useMemo(
+    () => new Map<number, number>(nativeSlots?.map(slot => [slot.start.getTime(), slot.end.getTime()])),
+    [nativeSlots]
+  );
+  // Native slots aren't slotIncrement long, so check against each slot's own end
+  const isInNativeSlot = useCallback((time: Date, instant: Date | null) => {
+    const end = nativeSlotEnds.get(time.getTime());
+    return !!instant && end !== undefined && time.getTime() <= instant.getTime() && instant.getTime() < end;
+  }, [nativeSlotEnds]);
+  const isCurrentNativeSlot = useCallback((time: Date) => isInNativeSlot(time, localTime), [isInNativeSlot, localTime]);
+  const isHighlightedNativeSlot = useCallback((time: Date) => isInNativeSlot(time, highlightedTime), [isInNativeSlot, highlightedTime]);
+
 
   const itemData = {
-    slots: isSearching && filteredTimeSlots.length > 0 ? filteredTimeSlots : timeSlots,
-    marsSlotsData: marsTimeSlotsData,
+    slots: isNativeGrid ? nativeGridSlots : isSearching && filteredTimeSlots.length > 0 ? filteredTimeSlots : timeSlots,
+    nativeSlots: isNativeGrid ? nativeSlots : null,
     timezoneId: timezone.id,
-    isHighlightedFn: isHighlighted,
-    isNightTimeFn: checkNightHours,
+    isHighlightedFn: isNativeGrid ? isHighlightedNativeSlot : isHighlighted,
+    getDaylightPhaseFn: getDaylightPhase,
     isDateBoundaryFn: isDateBoundary,
-    isDSTTransitionFn: isDSTTransition,
-    isCurrentTimeFn: isCurrentTime,
+    getDSTInfoFn: getDSTInfo,
+    getHolidayFn: getZoneHoliday,
+    dateBadgePattern: getDateFormatPattern(dateFormat, { weekday: true, year: false }),
+    isCurrentTimeFn: isNativeGrid ? isCurrentNativeSlot : isCurrentTime,
     isWeekendFn: isWeekend,
     formatTimeFn: formatTime,
     getHighlightAnimationClassFn: getHighlightAnimationClass,
     handleTimeSelectionFn: handleTimeSelection,
     getHighlightClass: getHighlightClass,
-    isMars: isMars,
+    hasMeetingFn: hasMeetingAt,
+    getMeetingTitleFn: getMeetingTitle,
   };
 
-  const displaySlots = isSearching && filteredTimeSlots.length > 0 ? filteredTimeSlots : timeSlots;
+  const displaySlots = itemData.slots;
 
   return (
     <motion.div
@@ -903,7 +1073,7 @@ const TimezoneColumn = memo(({
         isolation: 'isolate', 
         // Removed minWidth: '280px', 
         transition: 'all 0.3s ease',
-        backgroundImage: timezone.id.startsWith('Mars/') ? 
+        backgroundImage: !timeSystem.usesEarthCalendar ? 
           'linear-gradient(to bottom right, rgba(239, 68, 68, 0.03), transparent)' : 
           'linear-gradient(to bottom right, rgba(var(--color-primary-500), 0.03), transparent)'
       }}
@@ -924,14 +1094,14 @@ const TimezoneColumn = memo(({
         {localTime && (
           <div className="absolute inset-0 -z-10 opacity-10">
             {(() => {
-              const dt = DateTime.fromJSDate(localTime).setZone(timezone.id);
-              const hour = dt.hour;
+              const phase = getDaylightPhase(localTime, timezone.id);
+              const hour = timeSystem.convert(localTime, timezone.id, { marsTimeScale }).hours;
               
-              if (hour >= 5 && hour < 8) {
-                return <div className="absolute inset-0 bg-gradient-to-r from-amber-300/20 to-blue-300/20" />; // Dawn
-              } else if (hour >= 8 && hour < 16) {
+              if (phase === 'day') {
                 return <div className="absolute inset-0 bg-gradient-to-r from-yellow-300/20 to-sky-300/20" />; // Day
-              } else if (hour >= 16 && hour < 19) {
+              } else if (phase !== 'night' && hour < 12) {
+                return <div className="absolute inset-0 bg-gradient-to-r from-amber-300/20 to-blue-300/20" />; // Dawn
+              } else if (phase !== 'night') {
                 return <div className="absolute inset-0 bg-gradient-to-r from-orange-300/20 to-purple-300/20" />; // Dusk
               } else {
                 return <div className="absolute inset-0 bg-gradient-to-r from-blue-900/20 to-indigo-900/20" />; // Night
@@ -943,24 +1113,23 @@ const TimezoneColumn = memo(({
         <div>
           <div className="flex items-baseline">
             <h3 className={`text-base font-medium ${timezone.id === 'Mars/Jezero' ? 'text-red-600 dark:text-red-400' : 'text-foreground'} flex items-center`}>
-              {timezone.id.startsWith('Mars/') && (<span className="inline-block mr-1.5" title="Mars Time"><Image src="/mars.png" alt="Mars" width={16} height={16} className="inline-block w-4 h-4 align-text-bottom" /></span>)}
+              {timeSystem.iconSrc && (<span className="inline-block mr-1.5" title={`${timeSystem.name} Time`}><Image src={timeSystem.iconSrc} alt={timeSystem.name} width={16} height={16} className="inline-block w-4 h-4 align-text-bottom" /></span>)}
               <span className="truncate">{timezone.name.split('/').pop()?.replace('_', ' ') || timezone.name}</span>
             </h3>
             <span className="ml-2 text-xs text-muted-foreground">
-              {timezone.id.startsWith('Mars/') ? timezone.id === 'Mars/Jezero' ? '(MTC+05:10)' : '(MTC)' : `(${getTimezoneOffset(timezone.id)})`}
+              ({getTimezoneOffset(timezone.id)})
             </span>
           </div>
-          <div className={`text-xl font-mono tracking-tight ${timezone.id.startsWith('Mars/') ? 'text-red-600 dark:text-red-400' : 'text-primary-600 dark:text-primary-400'}`}>
-            {localTime && formatTime(localTime, timezone.id)}
+          <div className={`text-xl font-mono tracking-tight ${!timeSystem.usesEarthCalendar ? 'text-red-600 dark:text-red-400' : 'text-primary-600 dark:text-primary-400'}`}>
+            {localTime && formatTime(localTime, timezone.id, showSeconds)}
           </div>
           
           {/* Time of day visual indicator */}
           {localTime && (
             <div className="mt-1 flex items-center">
               {(() => {
-                const dt = DateTime.fromJSDate(localTime).setZone(timezone.id);
-                const hour = dt.hour;
-                const minutePercentage = dt.minute / 60;
+                const { hours: hour, minutes } = timeSystem.convert(localTime, timezone.id, { marsTimeScale });
+                const minutePercentage = minutes / 60;
                 const dayProgress = ((hour + minutePercentage) / 24) * 100;
                 
                 return (
@@ -991,20 +1160,29 @@ const TimezoneColumn = memo(({
           {/* Mars mini info - simplified */}
           {timezone.id === 'Mars/Jezero' && (
             <div className="text-xs text-red-600/80 dark:text-red-400/80 mt-1">
-              Perseverance • Jezero Crater • {localTime && formatTime(localTime, timezone.id).includes('Sol') ? formatTime(localTime, timezone.id).split('MTC')[1].trim() : 'Sol'}
+              Perseverance • Jezero Crater • {localTime && formatTime(localTime, timezone.id).includes('Sol') ? formatTime(localTime, timezone.id).match(/Sol -?\d+/)?.[0] : 'Sol'}
+            </div>
+          )}
+          {timeSystem.getCalendarSummary && localTime && (
+            <div className="text-xs text-red-600/70 dark:text-red-400/70 mt-0.5" title={`${timeSystem.name} calendar date`}>
+              {timeSystem.getCalendarSummary(localTime, timezone.id, { marsTimeScale })}
             </div>
           )}
         </div>
         
-        {!isLocal && (
-          <button 
-            onClick={() => handleRemoveTimezone(timezone.id)} 
-            className="p-1.5 rounded-full hover:bg-gray-200 dark:hover:bg-gray-700 focus:outline-none opacity-50 hover:opacity-100" 
-            aria-label="Remove timezone"
-          >
-            <X className="h-3.5 w-3.5 text-gray-500 dark:text-gray-400" />
-          </button>
-        )}
+        <div className="flex items-center gap-1">
+          {timeSystem.usesEarthCalendar && <WorkingHoursEditor timezone={timezone} compact />}
+          {timeSystem.usesEarthCalendar && <CoordinatesEditor timezone={timezone} compact />}
+          {!isLocal && (
+            <button 
+              onClick={() => handleRemoveTimezone(timezone.id)} 
+              className="p-1.5 rounded-full hover:bg-gray-200 dark:hover:bg-gray-700 focus:outline-none opacity-50 hover:opacity-100" 
+              aria-label="Remove timezone"
+            >
+              <X className="h-3.5 w-3.5 text-gray-500 dark:text-gray-400" />
+            </button>
+          )}
+        </div>
       </div>
       
       <div 
@@ -5,21 +5,33 @@ import Image from 'next/image';
 import { DateTime } from 'luxon';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Timezone, useTimezoneStore } from '@/store/timezoneStore';
-import { isNightHours, isWeekend } from '@/lib/utils/dateTimeFormatter';
+import { getDateFormatPattern, getTimeFormatPattern, isWeekend } from '@/lib/utils/dateTimeFormatter';
+import { getWeekendHighlightClass, useSettingsStore } from '@/store/settingsStore';
+import { useMeetingBlocks } from '@/lib/hooks/useMeetingBlocks';
+import { findSlotIndex, isTimeInSlot } from '@/lib/utils/timeSlots';
+import { describeTransition, getSlotDSTInfo, SlotDSTInfo } from '@/lib/utils/dst';
+import { getZoneHoliday, type PublicHoliday } from '@/lib/utils/holidays';
 import { FixedSizeList, ListChildComponentProps } from 'react-window';
 import AutoSizer from 'react-virtualized-auto-sizer';
 import { ChevronUp, ChevronDown, Sun, Moon, Clock, Plus, X, Edit2, Settings, CalendarDays } from 'lucide-react';
 import { getAllTimezones, isInDST } from '@/lib/utils/timezone';
 import SelectedTimeNotification from '../ui/SelectedTimeNotification';
 import DateNotification from '../ui/DateNotification';
+import { DSTChangeBanner } from '../ui/DSTChangeBanner';
 import * as Dialog from '@radix-ui/react-dialog';
 import * as DropdownMenu from '@radix-ui/react-dropdown-menu';
 import TimezoneSelector from '../clock/TimezoneSelector';
+import WorkingHoursEditor from '../clock/WorkingHoursEditor';
+import CoordinatesEditor from '../clock/CoordinatesEditor';
 import { useTheme } from 'next-themes';
 import clsx from 'clsx';
-// Removed settings store import
 import { formatTimeForTimezone } from '@/lib/timezone-utils';
-import { convertEarthToMarsTime, formatMarsTime } from '@/lib/utils/mars-timezone';
+import { findTimeSystemSlotIndex, getTimeSystem, type TimeSystemSlot } from '@/lib/utils/timeSystems';
+import { getTimezoneCoordinates, type DaylightPhase } from '@/lib/utils/solar';
+
+// Map an Earth slot index to the row to scroll to in a list, which differs for columns on their own grid
+const toListIndex = (nativeListIndexes: Record<string, number[]>, timezoneId: string, index: number) =>
+  nativeListIndexes[timezoneId]?.[index] ?? index;
 
 const useConsolidatedTimerHook = (
   mounted: boolean,
@@ -80,6 +92,7 @@ interface MobileV2ListViewProps {
   highlightedTime: Date | null;
   handleTimeSelection: (time: Date | null) => void;
   roundToNearestIncrement: (date: Date, increment: number) => Date;
+  slotIncrement?: number; // Minutes between time slots (default 30)
   removeTimezone?: (id: string) => void;
   currentDate?: Date | null;
   showBackground?: boolean; // optional prop to toggle background overlay
@@ -95,25 +108,36 @@ interface TimeItemProps {
   time: Date;
   timezone: string;
   isHighlightedFn: (time: Date) => boolean;
-  isNightTimeFn: (time: Date, timezone: string) => boolean;
+  getDaylightPhaseFn: (time: Date, timezone: string) => DaylightPhase;
   isDateBoundaryFn: (time: Date, timezone: string) => boolean;
-  isDSTTransitionFn: (time: Date, timezone: string) => boolean;
+  getDSTInfoFn: (time: Date, timezone: string) => SlotDSTInfo;
+  getHolidayFn: (time: Date, timezone: string) => PublicHoliday | null;
+  dateBadgePattern: string; // Luxon format for the date shown where a new day starts
   isCurrentTimeFn: (time: Date) => boolean;
   isWeekendFn: (time: Date, timezone: string) => boolean;
   getHighlightAnimationClassFn: (isHighlight: boolean) => string;
   handleTimeSelectionFn: (time: Date) => void;
   getHighlightClass: (isWeekend: boolean) => string;
   formattedTimeStr: string;
+  hasMeetingFn: (time: Date, timezone: string) => boolean;
+  getMeetingTitleFn: (time: Date, timezone: string) => string;
 }
 
-const TimeItem = memo(function TimeItem({ style, time, timezone, isHighlightedFn, isNightTimeFn, isDateBoundaryFn, isDSTTransitionFn, isCurrentTimeFn, isWeekendFn, getHighlightAnimationClassFn, handleTimeSelectionFn, getHighlightClass, formattedTimeStr }: TimeItemProps) {
+const TimeItem = memo(function TimeItem({ style, time, timezone, isHighlightedFn, getDaylightPhaseFn, isDateBoundaryFn, getDSTInfoFn, getHolidayFn, dateBadgePattern, isCurrentTimeFn, isWeekendFn, getHighlightAnimationClassFn, handleTimeSelectionFn, getHighlightClass, formattedTimeStr, hasMeetingFn, getMeetingTitleFn }: TimeItemProps) {
   const isHighlight = isHighlightedFn(time);
-  const isNight = isNightTimeFn(time, timezone);
-  const isDay = !isNight;
+  const daylight = getDaylightPhaseFn(time, timezone);
+  const isNight = daylight === 'night';
+  const isTwilight = daylight === 'civil-twilight' || daylight === 'nautical-twilight';
+  const isDay = daylight === 'day';
   const isBoundary = isDateBoundaryFn(time, timezone);
-  const isDST = isDSTTransitionFn(time, timezone);
+  const dstInfo = getDSTInfoFn(time, timezone);
+  const timeSystem = getTimeSystem(timezone);
+  const dstNote = dstInfo.transition ? describeTransition(dstInfo.transition, timezone) : '';
   const isCurrent = isCurrentTimeFn(time);
   const isWknd = isWeekendFn(time, timezone);
+  const holiday = getHolidayFn(time, timezone);
+  const isBusy = hasMeetingFn(time, timezone);
+  const meetingTitle = isBusy ? getMeetingTitleFn(time, timezone) : '';
   const formatted = formattedTimeStr;
   const animClass = getHighlightAnimationClassFn(isHighlight);
   
@@ -128,6 +152,8 @@ const TimeItem = memo(function TimeItem({ style, time, timezone, isHighlightedFn
     'text-foreground font-normal',
     // Keep day/night/boundary borders only if not current or highlighted
     isDay && !isHighlight && !isCurrent ? 'border-l border-amber-300/50 dark:border-amber-500/30 bg-amber-50/10 dark:bg-amber-900/5' : '',
+    daylight === 'civil-twilight' && !isHighlight && !isCurrent ? 'border-l border-orange-300/50 dark:border-orange-500/30 bg-orange-50/10 dark:bg-orange-900/5' : '',
+    daylight === 'nautical-twilight' && !isHighlight && !isCurrent ? 'border-l border-violet-300/50 dark:border-violet-500/30 bg-violet-50/10 dark:bg-violet-900/5' : '',
     isNight && !isHighlight && !isCurrent ? 'border-l border-indigo-300/50 dark:border-indigo-500/30 bg-indigo-50/5 dark:bg-indigo-900/5' : '',
     isBoundary && !isHighlight && !isCurrent ? 'border-t border-t-border/30' : '', // Also hide border if current
     animClass // This applies highlight animation if selected (isHighlight is true)
@@ -151,24 +177,32 @@ const TimeItem = memo(function TimeItem({ style, time, timezone, isHighlightedFn
       {isBoundary && (
         <div className="absolute top-0 left-0 w-full flex items-center justify-center">
           <div className="bg-primary-100 dark:bg-primary-900/80 text-primary-800 dark:text-primary-200 text-xs rounded-b-md px-3 py-1 font-medium shadow-sm border-t-0 border-x border-b border-primary-200 dark:border-primary-700/50">
-            {DateTime.fromJSDate(time).setZone(timezone).toFormat('EEE, MMM d')}
+            {DateTime.fromJSDate(time).setZone(timezone).toFormat(dateBadgePattern)}
+            {holiday && ` · ${holiday.name}`}
           </div>
         </div>
       )}
       
+      {/* Busy block from an imported calendar event */}
+      {isBusy && (
+        <span className="absolute inset-y-0 right-0 w-1 bg-rose-500/70 dark:bg-rose-400/60" aria-hidden="true" />
+      )}
+
       {/* Time display with minimal styling */}
       <span className={clsx(
         'font-mono text-sm tracking-tight',
         // Make text white if highlighted OR current time
         isHighlight || isCurrent ? 'text-white' : 'text-foreground', 
-        timezone.startsWith('Mars/') && !isHighlight && !isCurrent ? 'text-red-600/90 dark:text-red-400/90' : '' // Keep Mars red only if not highlighted/current
+        !timeSystem.usesEarthCalendar && !isHighlight && !isCurrent ? 'text-red-600/90 dark:text-red-400/90' : '' // Keep other systems (e.g. Mars) red only if not highlighted/current
       )}>
-        {timezone.startsWith('Mars/') && !isHighlight && !isCurrent && ( // Keep Mars icon only if not highlighted/current
-          <span className="mr-1 text-red-600/80 dark:text-red-400/80 inline-flex items-center opacity-80" title="Mars Time">
-            <span className="text-xs">♂︎</span>
+        {timeSystem.symbol && !isHighlight && !isCurrent && ( // Keep the system's symbol only if not highlighted/current
+          <span className="mr-1 text-red-600/80 dark:text-red-400/80 inline-flex items-center opacity-80" title={`${timeSystem.name} Time`}>
+            <span className="text-xs">{timeSystem.symbol}</span>
           </span>
         )}
         {formatted}
+        {/* A wall-clock time that happens twice when the clocks go back */}
+        {dstInfo.repeated && <span className="ml-1 text-xs opacity-75">({dstInfo.repeated})</span>}
       </span>
       
       {/* Simplified indicators */}
@@ -177,16 +211,21 @@ const TimeItem = memo(function TimeItem({ style, time, timezone, isHighlightedFn
         {isHighlight && <span className="text-xs font-medium text-white">Selected</span>}
         
         {/* Keep other indicators, but ensure they don't show when highlighted OR current */}
-        {isNight && !isHighlight && !isCurrent && <span title="Night hours">●</span>}
-        {isDay && !isHighlight && !isCurrent && <span title="Day hours">○</span>}
+        {isNight && !isHighlight && !isCurrent && <span title="Night">●</span>}
+        {isTwilight && !isHighlight && <span title={daylight === 'civil-twilight' ? 'Civil twilight' : 'Nautical twilight'}>◐</span>}
+        {isDay && !isHighlight && !isCurrent && <span title="Daylight">○</span>}
         {/* Make "now" indicator white */}
         {isCurrent && !isHighlight && <span className="text-xs font-medium text-white">now</span>} 
-        {isDST && !isHighlight && !isCurrent && <span className="text-xs text-amber-500/80" title="DST transition">⊙</span>}
+        {dstInfo.transition && !isHighlight && !isCurrent && <span className="text-xs text-amber-500/80" title={dstNote} aria-label={dstNote}>⊙</span>}
         {isWknd && !isHighlight && !isCurrent && <span className="text-xs text-purple-500/80" title="Weekend">⌇</span>}
+        {holiday && !isHighlight && !isCurrent && <span className="text-xs text-emerald-600/80 dark:text-emerald-400/80" title={`Public holiday: ${holiday.name}`}>✱</span>}
+        {isBusy && !isHighlight && !isCurrent && (
+          <span className="max-w-[7rem] truncate text-xs text-rose-600 dark:text-rose-400" title={meetingTitle}>{meetingTitle}</span>
+        )}
       </div>
     </div>
   );
-}, (prevProps, nextProps) => prevProps.time.getTime() === nextProps.time.getTime() && prevProps.timezone === nextProps.timezone && prevProps.isHighlightedFn(prevProps.time) === nextProps.isHighlightedFn(nextProps.time) && prevProps.isCurrentTimeFn(prevProps.time) === nextProps.isCurrentTimeFn(nextProps.time));
+}, (prevProps, nextProps) => prevProps.time.getTime() === nextProps.time.getTime() && prevProps.timezone === nextProps.timezone && prevProps.isHighlightedFn(prevProps.time) === nextProps.isHighlightedFn(nextProps.time) && prevProps.isCurrentTimeFn(prevProps.time) === nextProps.isCurrentTimeFn(nextProps.time) && prevProps.hasMeetingFn === nextProps.hasMeetingFn && prevProps.getMeetingTitleFn === nextProps.getMeetingTitleFn && prevProps.getHolidayFn === nextProps.getHolidayFn && prevProps.isDateBoundaryFn === nextProps.isDateBoundaryFn && prevProps.getDSTInfoFn === nextProps.getDSTInfoFn && prevProps.getDaylightPhaseFn === nextProps.getDaylightPhaseFn && prevProps.formattedTimeStr === nextProps.formattedTimeStr && prevProps.dateBadgePattern === nextProps.dateBadgePattern);
 TimeItem.displayName = 'TimeItem';
 
 const Row = ({ index, style, data }: ListChildComponentProps) => {
@@ -200,10 +239,8 @@ const Row = ({ index, style, data }: ListChildComponentProps) => {
 
   let formattedTimeStr: string;
 
-  if (currentItemData.isMars && currentItemData.marsSlotsData && currentItemData.marsSlotsData[index]) {
-    const marsData = currentItemData.marsSlotsData[index];
-    const marsDateTime = { hours: marsData.hours, minutes: marsData.minutes, seconds: 0, sol: marsData.sol };
-    formattedTimeStr = formatMarsTime(marsDateTime);
+  if (currentItemData.nativeSlots && currentItemData.nativeSlots[index]) {
+    formattedTimeStr = currentItemData.nativeSlots[index].label;
   } else {
     formattedTimeStr = currentItemData.formatTimeFn(time, currentItemData.timezoneId);
   }
@@ -214,15 +251,19 @@ const Row = ({ index, style, data }: ListChildComponentProps) => {
       time={time}
       timezone={currentItemData.timezoneId}
       isHighlightedFn={currentItemData.isHighlightedFn}
-      isNightTimeFn={currentItemData.isNightTimeFn}
+      getDaylightPhaseFn={currentItemData.getDaylightPhaseFn}
       isDateBoundaryFn={currentItemData.isDateBoundaryFn}
-      isDSTTransitionFn={currentItemData.isDSTTransitionFn}
+      getDSTInfoFn={currentItemData.getDSTInfoFn}
+      getHolidayFn={currentItemData.getHolidayFn}
+      dateBadgePattern={currentItemData.dateBadgePattern}
       isCurrentTimeFn={currentItemData.isCurrentTimeFn}
       isWeekendFn={currentItemData.isWeekendFn}
       getHighlightAnimationClassFn={currentItemData.getHighlightAnimationClassFn}
       handleTimeSelectionFn={currentItemData.handleTimeSelectionFn}
       getHighlightClass={currentItemData.getHighlightClass}
       formattedTimeStr={formattedTimeStr}
+      hasMeetingFn={currentItemData.hasMeetingFn}
+      getMeetingTitleFn={currentItemData.getMeetingTitleFn}
     />
   );
 };
@@ -236,6 +277,7 @@ const MobileV2ListView = forwardRef<MobileV2ListViewHandle, MobileV2ListViewProp
   highlightedTime,
   handleTimeSelection,
   roundToNearestIncrement,
+  slotIncrement = 30,
   removeTimezone: externalRemoveTimezone,
   currentDate,
   showBackground = true
@@ -252,12 +294,17 @@ const MobileV2ListView = forwardRef<MobileV2ListViewHandle, MobileV2ListViewProp
   const touchEndTimeoutRef = useRef<NodeJS.Timeout | null>(null); // Ref for short delay after touch ends
 
   const { resolvedTheme } = useTheme();
-  // Removed settings store usage
-  const weekendHighlightColor = 'red'; // Hardcoded default
-  const highlightAutoClear = true; // Hardcoded default
-  const highlightDuration = 60; // Hardcoded default (seconds)
-  // Hardcoded weekend highlight class function
-  const getWeekendHighlightClass = (color: string) => `bg-${color}-100 dark:bg-${color}-900/20`;
+  const {
+    weekendHighlightColor,
+    highlightAutoClear,
+    highlightDuration,
+    timeFormat,
+    nightHoursStart,
+    nightHoursEnd,
+    marsTimeScale,
+    marsSlotGrid,
+    dateFormat
+  } = useSettingsStore();
 
   const [selectorOpen, setSelectorOpen] = useState(false);
   const [editingTimezoneId, setEditingTimezoneId] = useState<string | null>(null);
@@ -274,7 +321,7 @@ const MobileV2ListView = forwardRef<MobileV2ListViewHandle, MobileV2ListViewProp
   const lastScrollTimeRef = useRef<number>(0);
   const [currentScrollOffset, setCurrentScrollOffset] = useState(0);
 
-  const [selectedDateInfo, setSelectedDateInfo] = useState<string | null>(null);
+  const [selectedDay, setSelectedDay] = useState<DateTime | null>(null); // Day shown when it isn't today
 
   const markRender = useCallback((name: string) => {
     if (typeof performance !== 'undefined' && process.env.NODE_ENV === 'development') {
@@ -290,9 +337,9 @@ const MobileV2ListView = forwardRef<MobileV2ListViewHandle, MobileV2ListViewProp
       const firstSlotDate = DateTime.fromJSDate(firstSlot);
       const currentDateTime = currentDate ? DateTime.fromJSDate(currentDate).startOf('day') : DateTime.local().startOf('day');
       if (!firstSlotDate.hasSame(currentDateTime, 'day')) {
-        setSelectedDateInfo(firstSlotDate.toFormat('EEEE, MMMM d, yyyy'));
+        setSelectedDay(firstSlotDate);
       } else {
-        setSelectedDateInfo(null);
+        setSelectedDay(null);
       }
     }
     // Copy refs for cleanup
@@ -378,13 +425,33 @@ const MobileV2ListView = forwardRef<MobileV2ListViewHandle, MobileV2ListViewProp
     return () => document.removeEventListener('mousedown', handleClickOutside);
   }, [mounted, highlightedTime, handleTimeSelection]);
 
+  // Zones whose time system has its own grid turned on (e.g. Mars hours) get their own slots over the same Earth range
+  const nativeSlotsByZone = useMemo(() => {
+    const slotsByZone: Record<string, TimeSystemSlot[]> = {};
+    if (!timeSlots.length) return slotsByZone;
+    const from = timeSlots[0];
+    const to = new Date(timeSlots[timeSlots.length - 1].getTime() + slotIncrement * 60 * 1000);
+    storeTimezones.forEach(tz => {
+      const slots = getTimeSystem(tz.id).generateSlots?.(from, to, tz.id, slotIncrement, { marsSlotGrid, marsTimeScale });
+      if (slots) slotsByZone[tz.id] = slots;
+    });
+    return slotsByZone;
+  }, [marsSlotGrid, marsTimeScale, timeSlots, slotIncrement, storeTimezones]);
+
+  // For each column on its own grid, the row holding each Earth slot's start
+  const nativeListIndexesRef = useRef<Record<string, number[]>>({});
+  useEffect(() => {
+    nativeListIndexesRef.current = Object.fromEntries(Object.entries(nativeSlotsByZone).map(([id, slots]) =>
+      [id, timeSlots.map(slot => Math.max(0, findTimeSystemSlotIndex(slots, slot)))]));
+  }, [nativeSlotsByZone, timeSlots]);
+
   // Define these earlier to fix TS errors related to declaration order
   const getCurrentTimeIndex = useCallback(() => {
     if (!localTime || !timeSlots.length) return 0;
-    const roundedLocalTime = roundToNearestIncrement(localTime, 30);
-    const index = timeSlots.findIndex(t => DateTime.fromJSDate(t).hasSame(DateTime.fromJSDate(roundedLocalTime), 'minute'));
+    const roundedLocalTime = roundToNearestIncrement(localTime, slotIncrement);
+    const index = findSlotIndex(timeSlots, roundedLocalTime, slotIncrement);
     return index > -1 ? index : 0;
-  }, [localTime, timeSlots, roundToNearestIncrement]);
+  }, [localTime, timeSlots, roundToNearestIncrement, slotIncrement]);
 
   const scrollToIndex = useCallback((index: number, alignment: 'start' | 'center' | 'end' | 'smart' | 'auto' = 'center') => {
     if (userIsScrollingRef.current) return;
@@ -394,9 +461,9 @@ const MobileV2ListView = forwardRef<MobileV2ListViewHandle, MobileV2ListViewProp
     // we still want to synchronize all timezones for the first view
     // But after that, each timezone scrolls independently
     requestAnimationFrame(() => {
-      Object.values(listRefs.current).forEach(listRef => {
+      Object.entries(listRefs.current).forEach(([timezoneId, listRef]) => {
         if (listRef) {
-          listRef.scrollToItem(index, prefersReducedMotion ? 'start' : alignment);
+          listRef.scrollToItem(toListIndex(nativeListIndexesRef.current, timezoneId, index), prefersReducedMotion ? 'start' : alignment);
         }
       });
     });
@@ -431,11 +498,7 @@ const MobileV2ListView = forwardRef<MobileV2ListViewHandle, MobileV2ListViewProp
                 let targetIndex = -1;
 
                 if (targetTime && timeSlots.length > 0) {
-                    const targetTimeUTC = DateTime.fromJSDate(targetTime).toUTC();
-                    targetIndex = timeSlots.findIndex(t => {
-                        const slotTimeUTC = DateTime.fromJSDate(t).toUTC();
-                        return slotTimeUTC.hasSame(targetTimeUTC, 'minute');
-                    });
+                    targetIndex = findSlotIndex(timeSlots, targetTime, slotIncrement);
                 } else if (timeSlots.length > 0) {
                     targetIndex = getCurrentTimeIndex();
                 }
@@ -452,7 +515,7 @@ const MobileV2ListView = forwardRef<MobileV2ListViewHandle, MobileV2ListViewProp
 
     if (highlightedTimeRef.current) resetInactivityTimer();
 
-  }, [resetInactivityTimer, timeSlots, getCurrentTimeIndex, scrollToIndex]); // Added dependencies back
+  }, [resetInactivityTimer, timeSlots, getCurrentTimeIndex, scrollToIndex, slotIncrement]); // Added dependencies back
 
   // --- Touch Event Handlers ---
   const handleTouchStart = useCallback(() => {
@@ -485,11 +548,7 @@ const MobileV2ListView = forwardRef<MobileV2ListViewHandle, MobileV2ListViewProp
             let targetIndex = -1;
 
             if (targetTime && timeSlots.length > 0) {
-                const targetTimeUTC = DateTime.fromJSDate(targetTime).toUTC();
-                targetIndex = timeSlots.findIndex(t => {
-                    const slotTimeUTC = DateTime.fromJSDate(t).toUTC();
-                    return slotTimeUTC.hasSame(targetTimeUTC, 'minute');
-                });
+                targetIndex = findSlotIndex(timeSlots, targetTime, slotIncrement);
             } else if (timeSlots.length > 0) {
                 targetIndex = getCurrentTimeIndex();
             }
@@ -499,29 +558,25 @@ const MobileV2ListView = forwardRef<MobileV2ListViewHandle, MobileV2ListViewProp
             }
         }, 5000); // 5 seconds delay
     }, 100); // 100ms delay after touch ends
-  }, [timeSlots, getCurrentTimeIndex, scrollToIndex]); // Added dependencies
+  }, [timeSlots, getCurrentTimeIndex, scrollToIndex, slotIncrement]); // Added dependencies
 
   useImperativeHandle(ref, () => ({
     scrollToTime: (time: Date, alignment: 'start' | 'center' | 'end' | 'smart' | 'auto' = 'center') => {
       if (!time || !timeSlots.length) return;
-      const targetTimeUTC = DateTime.fromJSDate(time).toUTC();
-      const targetIndex = timeSlots.findIndex(t => {
-        const slotTimeUTC = DateTime.fromJSDate(t).toUTC();
-        return slotTimeUTC.hasSame(targetTimeUTC, 'minute');
-      });
+      const targetIndex = findSlotIndex(timeSlots, time, slotIncrement);
       if (targetIndex !== -1) {
         // Restore original requestAnimationFrame here
         requestAnimationFrame(() => {
           const prefersReducedMotion = window.matchMedia('(prefers-reduced-motion: reduce)').matches;
-          Object.values(listRefs.current).forEach(listRef => {
+          Object.entries(listRefs.current).forEach(([timezoneId, listRef]) => {
             if (listRef) {
-              listRef.scrollToItem(targetIndex, prefersReducedMotion ? 'start' : alignment);
+              listRef.scrollToItem(toListIndex(nativeListIndexesRef.current, timezoneId, targetIndex), prefersReducedMotion ? 'start' : alignment);
             }
           });
         });
       }
     }
-  }), [timeSlots]);
+  }), [timeSlots, slotIncrement]);
 
   const throttledUserInteraction = useCallback((event: Event) => {
     const now = Date.now();
@@ -554,12 +609,12 @@ const MobileV2ListView = forwardRef<MobileV2ListViewHandle, MobileV2ListViewProp
     };
   }, [mounted, highlightedTime, throttledUserInteraction]);
 
-  const formatTimeFunction = useMemo(() => (date: Date, timezone: string) => {
-    return formatTimeForTimezone(date, timezone, 'h:mm a');
-  }, []);
-  const formatTime = useCallback((date: Date, timezone: string) => formatTimeFunction(date, timezone), [formatTimeFunction]);
+  const formatTimeFunction = useMemo(() => (date: Date, timezone: string, includeSeconds = false) => {
+    return formatTimeForTimezone(date, timezone, getTimeFormatPattern(timeFormat, includeSeconds), marsTimeScale);
+  }, [timeFormat, marsTimeScale]);
+  const formatTime = useCallback((date: Date, timezone: string, includeSeconds = false) => formatTimeFunction(date, timezone, includeSeconds), [formatTimeFunction]);
 
-  const isHighlighted = useCallback((time: Date) => highlightedTime ? time.getTime() === highlightedTime.getTime() : false, [highlightedTime]);
+  const isHighlighted = useCallback((time: Date) => highlightedTime ? isTimeInSlot(time, highlightedTime, slotIncrement) : false, [highlightedTime, slotIncrement]);
   const getHighlightAnimationClass = useCallback((isHighlight: boolean) => isHighlight ? 'highlight-item-optimized highlight-pulse-effect' : '', []);
 
   useEffect(() => {
@@ -600,34 +655,33 @@ const MobileV2ListView = forwardRef<MobileV2ListViewHandle, MobileV2ListViewProp
     }
   }, [mounted]);
 
-  const checkNightHours = useCallback((time: Date, timezone: string) => isNightHours(time, timezone), []);
+  // Each zone's saved coordinates (bundled city or set by the user) for sunrise/sunset shading
+  const coordinatesByZone = useMemo(
+    () => new Map(storeTimezones.map(tz => [tz.id, getTimezoneCoordinates(tz)])),
+    [storeTimezones]
+  );
+  const getDaylightPhase = useCallback((time: Date, timezone: string) =>
+    getTimeSystem(timezone).getDaylightPhase(time, timezone, {
+      nightHours: { start: nightHoursStart, end: nightHoursEnd },
+      marsTimeScale,
+      coordinates: coordinatesByZone.get(timezone) ?? undefined
+    }), [nightHoursStart, nightHoursEnd, marsTimeScale, coordinatesByZone]);
   const isDateBoundary = useCallback((time: Date, timezone: string) => {
     const timeInTimezone = DateTime.fromJSDate(time).setZone(timezone);
     return timeInTimezone.hour === 0 && timeInTimezone.minute === 0;
   }, []);
-  const isDSTTransition = useCallback((time: Date, timezone: string) => {
-    const timeInTimezone = DateTime.fromJSDate(time).setZone(timezone);
-    const oneDayLater = timeInTimezone.plus({ days: 1 });
-    return timeInTimezone.offset !== oneDayLater.offset;
-  }, []);
+  const getDSTInfo = useCallback((time: Date, timezone: string) => getSlotDSTInfo(time, timezone, slotIncrement), [slotIncrement]);
   const timeCalculationCache = useRef(new Map<string, boolean>());
   useEffect(() => { timeCalculationCache.current.clear(); }, [localTime, highlightedTime]);
-  const isCurrentTime = useCallback((time: Date): boolean => {
-    if (!localTime) return false;
-    const timeDateTime = DateTime.fromJSDate(time);
-    const localDateTime = DateTime.fromJSDate(localTime);
-    const roundedLocalTime = Math.floor(localDateTime.minute / 30) * 30;
-    const roundedLocalDateTime = localDateTime.set({ minute: roundedLocalTime, second: 0, millisecond: 0 });
-    return timeDateTime.hasSame(roundedLocalDateTime, 'hour') && timeDateTime.minute === roundedLocalDateTime.minute;
-  }, [localTime]);
+  // Compare instants rather than wall-clock fields so a repeated hour isn't "now" twice
+  const isCurrentTime = useCallback((time: Date): boolean => localTime ? isTimeInSlot(time, localTime, slotIncrement) : false, [localTime, slotIncrement]);
   const getWeekdayName = useCallback((time: Date, timezone: string) => DateTime.fromJSDate(time).setZone(timezone).toFormat('cccc'), []);
   const isWeekend = useCallback((time: Date, timezone: string) => {
     const weekday = DateTime.fromJSDate(time).setZone(timezone).weekday;
     return weekday === 6 || weekday === 7;
   }, []);
-  const getTimezoneOffset = useCallback((timezone: string) => DateTime.now().setZone(timezone).toFormat('ZZ'), []);
-  const hasMeetingAt = useCallback((time: Date, timezone: string): boolean => false, []);
-  const getMeetingTitle = useCallback((time: Date, timezone: string): string => "", []);
+  const getTimezoneOffset = useCallback((timezone: string) => getTimeSystem(timezone).getOffsetLabel(timezone), []);
+  const { hasMeetingAt, getMeetingTitle } = useMeetingBlocks(timeSlots, userLocalTimezone);
 
   const handleAddTimezone = useCallback((timezone: Timezone) => { addTimezone(timezone); setSelectorOpen(false); }, [addTimezone]);
   const handleReplaceTimezone = useCallback((timezone: Timezone) => {
@@ -645,7 +699,7 @@ const MobileV2ListView = forwardRef<MobileV2ListViewHandle, MobileV2ListViewProp
     }
   }, [removeTimezone, userLocalTimezone]);
 
-  const getHighlightClass = useCallback((isWeekend: boolean) => isWeekend ? getWeekendHighlightClass(weekendHighlightColor) : '', [weekendHighlightColor]); // Uses hardcoded function now
+  const getHighlightClass = useCallback((isWeekend: boolean) => isWeekend ? getWeekendHighlightClass(weekendHighlightColor) : '', [weekendHighlightColor]);
 
   const renderTimeColumns = useCallback(() => {
     if (!mounted) return null;
@@ -698,9 +752,9 @@ const MobileV2ListView = forwardRef<MobileV2ListViewHandle, MobileV2ListViewProp
               filteredTimeSlots={[]}
               timeSlots={timeSlots}
               isHighlighted={isHighlighted}
-              checkNightHours={checkNightHours}
+              getDaylightPhase={getDaylightPhase}
               isDateBoundary={isDateBoundary}
-              isDSTTransition={isDSTTransition}
+              getDSTInfo={getDSTInfo}
               isCurrentTime={isCurrentTime}
               isWeekend={isWeekend}
               formatTime={formatTime}
@@ -715,7 +769,11 @@ const MobileV2ListView = forwardRef<MobileV2ListViewHandle, MobileV2ListViewProp
               setSelectorOpen={setSelectorOpen}
               userLocalTimezone={userLocalTimezone}
               localTime={localTime}
+              highlightedTime={highlightedTime}
+              nativeSlots={nativeSlotsByZone[timezone.id]}
               getHighlightClass={getHighlightClass}
+              hasMeetingAt={hasMeetingAt}
+              getMeetingTitle={getMeetingTitle}
               handleTouchStart={() => {}}
               handleTouchEnd={() => {}}
               handleTouchCancel={() => {}}
@@ -744,25 +802,27 @@ const MobileV2ListView = forwardRef<MobileV2ListViewHandle, MobileV2ListViewProp
     userLocalTimezone, 
     storeTimezones, 
     timeSlots,
+    nativeSlotsByZone,
     isHighlighted,
-    checkNightHours,
+    getDaylightPhase,
     isDateBoundary,
-    isDSTTransition,
+    getDSTInfo,
     isCurrentTime,
     isWeekend,
     getTimezoneOffset,
     formatTime,
     handleTimeSelection,
-    getCurrentTimeIndex,
     handleRemoveTimezone,
     setSelectorOpen,
     setEditingTimezoneId,
     resolvedTheme,
     getHighlightClass,
-    handleTouchStart,
-    handleTouchEndOrCancel,
+    hasMeetingAt,
+    getMeetingTitle,
     getHighlightAnimationClass,
-    handleUserScroll
+    handleUserScroll,
+    localTime,
+    highlightedTime
   ]);
 
   useEffect(() => {
@@ -770,16 +830,12 @@ const MobileV2ListView = forwardRef<MobileV2ListViewHandle, MobileV2ListViewProp
     if (userIsScrollingRef.current) {
       const syncAfterScrolling = () => {
         if (!highlightedTime) return;
-        const targetIndex = timeSlots.findIndex(slot => {
-          const slotDateTime = DateTime.fromJSDate(slot).toUTC();
-          const highlightedDateTime = DateTime.fromJSDate(highlightedTime).toUTC();
-          return slotDateTime.hasSame(highlightedDateTime, 'minute');
-        });
+        const targetIndex = findSlotIndex(timeSlots, highlightedTime, slotIncrement);
         if (targetIndex !== -1) {
-          Object.values(listRefs.current).forEach(listRef => {
+          Object.entries(listRefs.current).forEach(([timezoneId, listRef]) => {
             if (listRef) {
               // Apply the 'start' alignment change here in syncAfterScrolling
-              listRef.scrollToItem(targetIndex, 'start');
+              listRef.scrollToItem(toListIndex(nativeListIndexesRef.current, timezoneId, targetIndex), 'start');
             }
           });
         }
@@ -788,21 +844,17 @@ const MobileV2ListView = forwardRef<MobileV2ListViewHandle, MobileV2ListViewProp
       scrollTimeoutRef.current = setTimeout(syncAfterScrolling, 500);
       return;
     }
-    const highlightedDateTime = DateTime.fromJSDate(highlightedTime).toUTC();
-    const targetIndex = timeSlots.findIndex(slot => {
-      const slotDateTime = DateTime.fromJSDate(slot).toUTC();
-      return slotDateTime.hasSame(highlightedDateTime, 'minute');
-    });
+    const targetIndex = findSlotIndex(timeSlots, highlightedTime, slotIncrement);
     if (targetIndex !== -1) {
       // Remove requestAnimationFrame to attempt more immediate scrolling
-      Object.values(listRefs.current).forEach(listRef => {
+      Object.entries(listRefs.current).forEach(([timezoneId, listRef]) => {
         if (listRef) {
           // Always scroll to the start (top) when a time is highlighted
-          listRef.scrollToItem(targetIndex, 'start');
+          listRef.scrollToItem(toListIndex(nativeListIndexesRef.current, timezoneId, targetIndex), 'start');
         }
       });
     }
-  }, [highlightedTime, timeSlots, mounted]); // Ensure dependencies are correct
+  }, [highlightedTime, timeSlots, mounted, slotIncrement]); // Ensure dependencies are correct
 
   useEffect(() => {
     if (!mounted || !localTime || highlightedTime || !timeSlots.length) return;
@@ -841,7 +893,7 @@ const MobileV2ListView = forwardRef<MobileV2ListViewHandle, MobileV2ListViewProp
     timeCalculationCache.current.clear();
     const localDateTime = DateTime.fromJSDate(localTime);
     const minute = localDateTime.minute;
-    if ((minute === 0 || minute === 30) && localDateTime.second < 10) {
+    if (minute % slotIncrement === 0 && localDateTime.second < 10) {
       Object.values(listRefs.current).forEach(listRef => {
         if (listRef) {
           listRef.forceUpdate();
@@ -852,7 +904,7 @@ const MobileV2ListView = forwardRef<MobileV2ListViewHandle, MobileV2ListViewProp
         scrollToIndex(getCurrentTimeIndex(), 'start');
       }
     }
-  }, [localTime, mounted, highlightedTime, scrollToIndex, getCurrentTimeIndex]);
+  }, [localTime, mounted, highlightedTime, scrollToIndex, getCurrentTimeIndex, slotIncrement]);
 
   const currentTimeLineTop = useMemo(() => {
     if (!localTime || !timeSlots.length || !mounted) return null;
@@ -860,9 +912,9 @@ const MobileV2ListView = forwardRef<MobileV2ListViewHandle, MobileV2ListViewProp
     const listStartTime = DateTime.fromJSDate(timeSlots[0]);
     const currentLocalTime = DateTime.fromJSDate(localTime);
     const diffInMinutes = currentLocalTime.diff(listStartTime, 'minutes').minutes;
-    const pixelOffset = (diffInMinutes / 30) * itemSize;
+    const pixelOffset = (diffInMinutes / slotIncrement) * itemSize;
     return pixelOffset - currentScrollOffset;
-  }, [localTime, timeSlots, mounted, currentScrollOffset]);
+  }, [localTime, timeSlots, mounted, currentScrollOffset, slotIncrement]);
 
   return (
     <motion.div
@@ -879,10 +931,12 @@ const MobileV2ListView = forwardRef<MobileV2ListViewHandle, MobileV2ListViewProp
     >
 
       <DateNotification 
-        selectedDateInfo={selectedDateInfo}
+        selectedDateInfo={selectedDay ? selectedDay.toFormat(`EEEE, ${getDateFormatPattern(dateFormat)}`) : null}
         resolvedTheme={resolvedTheme}
       />
 
+      {mounted && localTime && <DSTChangeBanner timezones={storeTimezones} now={localTime} />}
+
       {renderTimeColumns()}
 
       <AnimatePresence>
@@ -936,7 +990,7 @@ const SPORTS_LEAGUES = [
 const TimezoneColumn = memo(({
   timezone,
   isLocal,
-  isSearching, filteredTimeSlots, timeSlots, isHighlighted, checkNightHours, isDateBoundary, isDSTTransition, isCurrentTime, isWeekend, formatTime, getHighlightAnimationClass, handleTimeSelection, listRefs, handleUserScroll, resolvedTheme, getTimezoneOffset, handleRemoveTimezone, setEditingTimezoneId, setSelectorOpen, userLocalTimezone, localTime, getHighlightClass,
+  isSearching, filteredTimeSlots, timeSlots, isHighlighted, getDaylightPhase, isDateBoundary, getDSTInfo, isCurrentTime, isWeekend, formatTime, getHighlightAnimationClass, handleTimeSelection, listRefs, handleUserScroll, resolvedTheme, getTimezoneOffset, handleRemoveTimezone, setEditingTimezoneId, setSelectorOpen, userLocalTimezone, localTime, highlightedTime, nativeSlots, getHighlightClass, hasMeetingAt, getMeetingTitle,
   handleTouchStart, handleTouchEnd, handleTouchCancel
 }: {
   timezone: Timezone;
@@ -945,12 +999,12 @@ const TimezoneColumn = memo(({
   filteredTimeSlots: Date[];
   timeSlots: Date[];
   isHighlighted: (time: Date) => boolean;
-  checkNightHours: (time: Date, timezone: string) => boolean;
+  getDaylightPhase: (time: Date, timezone: string) => DaylightPhase;
   isDateBoundary: (time: Date, timezone: string) => boolean;
-  isDSTTransition: (time: Date, timezone: string) => boolean;
+  getDSTInfo: (time: Date, timezone: string) => SlotDSTInfo;
   isCurrentTime: (time: Date) => boolean;
   isWeekend: (time: Date, timezone: string) => boolean;
-  formatTime: (date: Date, timezone: string) => string;
+  formatTime: (date: Date, timezone: string, includeSeconds?: boolean) => string;
   getHighlightAnimationClass: (isHighlight: boolean) => string;
   handleTimeSelection: (time: Date | null) => void;
   listRefs: React.MutableRefObject<Record<string, FixedSizeList | null>>;
@@ -962,60 +1016,59 @@ const TimezoneColumn = memo(({
   setSelectorOpen: React.Dispatch<React.SetStateAction<boolean>>;
   userLocalTimezone: string;
   localTime: Date | null;
+  highlightedTime: Date | null;
+  nativeSlots?: TimeSystemSlot[]; // Set when the zone's time system has its own grid turned on
   getHighlightClass: (isWeekend: boolean) => string;
+  hasMeetingAt: (time: Date, timezone: string) => boolean;
+  getMeetingTitle: (time: Date, timezone: string) => string;
   handleTouchStart: () => void;
   handleTouchEnd: () => void;
   handleTouchCancel: () => void;
 }) => {
   const itemSize = 40; // Define item size for height calculation
   const isDST = isInDST(timezone.id);
-  const isMars = timezone.id.startsWith('Mars/');
-
-  const marsTimeSlotsData = useMemo(() => {
-    if (!isMars || !timeSlots.length) return null;
-    const MARS_SOL_TO_EARTH_DAY_RATIO = 1.0274912517;
-    const EARTH_INCREMENT_SECONDS = 30 * 60;
-    const MARS_INCREMENT_SECONDS = EARTH_INCREMENT_SECONDS / MARS_SOL_TO_EARTH_DAY_RATIO;
-    const MARS_SECONDS_IN_SOL = 86400;
-    const referenceEarthTime = DateTime.fromJSDate(timeSlots[0]);
-    const referenceMarsData = convertEarthToMarsTime(referenceEarthTime, timezone.id);
-    let currentTotalMarsSeconds = (referenceMarsData.hours * 3600) + (referenceMarsData.minutes * 60) + referenceMarsData.seconds;
-    let currentSol = referenceMarsData.sol;
-    const slotsData: { hours: number; minutes: number; sol: number }[] = [];
-    for (let i = 0; i < timeSlots.length; i++) {
-      if (i > 0) {
-        currentTotalMarsSeconds += MARS_INCREMENT_SECONDS;
-        if (currentTotalMarsSeconds >= MARS_SECONDS_IN_SOL) {
-           currentSol += Math.floor(currentTotalMarsSeconds / MARS_SECONDS_IN_SOL);
-           currentTotalMarsSeconds %= MARS_SECONDS_IN_SOL;
-        }
-      }
-      const positiveTotalSeconds = (currentTotalMarsSeconds % MARS_SECONDS_IN_SOL + MARS_SECONDS_IN_SOL) % MARS_SECONDS_IN_SOL;
-      const hours = Math.floor(positiveTotalSeconds / 3600);
-      const minutes = Math.floor((positiveTotalSeconds % 3600) / 60);
-      slotsData.push({ hours, minutes, sol: currentSol });
-    }
-    return slotsData;
-  }, [isMars, timeSlots, timezone.id]);
+  const timeSystem = getTimeSystem(timezone.id);
+  const showSeconds = useSettingsStore((state) => state.showSeconds);
+  const marsTimeScale = useSettingsStore((state) => state.marsTimeScale);
+  const dateFormat = useSettingsStore((state) => state.dateFormat);
+
+  // The system's own slots replace the Earth ones, except while filtering by search
+  const isNativeGrid = !!nativeSlots?.length && !(isSearching && filteredTimeSlots.length > 0);
+  const nativeGridSlots = useMemo(() => nativeSlots?.map(slot => slot.start) ?? [], [nativeSlots]);
+  const nativeSlotEnds = useMemo(
+    () => new Map<number, number>(nativeSlots?.map(slot => [slot.start.getTime(), slot.end.getTime()])),
+    [nativeSlots]
+  );
+  // Native slots aren't slotIncrement long, so check against each slot's own end
+  const isInNativeSlot = useCallback((time: Date, instant: Date | null) => {
+    const end = nativeSlotEnds.get(time.getTime());
+    return !!instant && end !== undefined && time.getTime() <= instant.getTime() && instant.getTime() < end;
+  }, [nativeSlotEnds]);
+  const isCurrentNativeSlot = useCallback((time: Date) => isInNativeSlot(time, localTime), [isInNativeSlot, localTime]);
+  const isHighlightedNativeSlot = useCallback((time: Date) => isInNativeSlot(time, highlightedTime), [isInNativeSlot, highlightedTime]);
+
 
   const itemData = {
-    slots: isSearching && filteredTimeSlots.length > 0 ? filteredTimeSlots : timeSlots,
-    marsSlotsData: marsTimeSlotsData,
+    slots: isNativeGrid ? nativeGridSlots : isSearching && filteredTimeSlots.length > 0 ? filteredTimeSlots : timeSlots,
+    nativeSlots: isNativeGrid ? nativeSlots : null,
     timezoneId: timezone.id,
-    isHighlightedFn: isHighlighted,
-    isNightTimeFn: checkNightHours,
+    isHighlightedFn: isNativeGrid ? isHighlightedNativeSlot : isHighlighted,
+    getDaylightPhaseFn: getDaylightPhase,
     isDateBoundaryFn: isDateBoundary,
-    isDSTTransitionFn: isDSTTransition,
-    isCurrentTimeFn: isCurrentTime,
+    getDSTInfoFn: getDSTInfo,
+    getHolidayFn: getZoneHoliday,
+    dateBadgePattern: getDateFormatPattern(dateFormat, { weekday: true, year: false }),
+    isCurrentTimeFn: isNativeGrid ? isCurrentNativeSlot : isCurrentTime,
     isWeekendFn: isWeekend,
     formatTimeFn: formatTime,
     getHighlightAnimationClassFn: getHighlightAnimationClass,
     handleTimeSelectionFn: handleTimeSelection,
     getHighlightClass: getHighlightClass,
-    isMars: isMars,
+    hasMeetingFn: hasMeetingAt,
+    getMeetingTitleFn: getMeetingTitle,
   };
 
-  const displaySlots = isSearching && filteredTimeSlots.length > 0 ? filteredTimeSlots : timeSlots;
+  const displaySlots = itemData.slots;
   const listHeight = displaySlots.length * itemSize; // Calculate height based on filtered items
   const listRef = useRef<FixedSizeList | null>(null); // Create a ref for this specific list
 
@@ -1048,13 +1101,14 @@ const TimezoneColumn = memo(({
     }
   }, [activeTab]);
 
-  // Fetch weather data
+  // Fetch weather data at the zone's saved coordinates, or its bundled city's
+  const { lat, lon } = getTimezoneCoordinates(timezone) ?? {};
   useEffect(() => {
-    if (showEvents && activeTab === 'weather' && timezone.lat && timezone.lon) {
+    if (showEvents && activeTab === 'weather' && lat !== undefined && lon !== undefined) {
       setWeatherLoading(true);
       setWeatherError(null);
       fetch(
-        `https://api.open-meteo.com/v1/forecast?latitude=${timezone.lat}&longitude=${timezone.lon}&current_weather=true`
+        `https://api.open-meteo.com/v1/forecast?latitude=${lat}&longitude=${lon}&current_weather=true`
       )
         .then((res) => res.json())
         .then((data) => {
@@ -1073,7 +1127,7 @@ const TimezoneColumn = memo(({
         .catch(() => setWeatherError('Failed to fetch weather data.'))
         .finally(() => setWeatherLoading(false));
     }
-  }, [showEvents, activeTab, timezone.lat, timezone.lon]);
+  }, [showEvents, activeTab, lat, lon]);
 
   // Fetch news data
   useEffect(() => {
@@ -1214,7 +1268,7 @@ const TimezoneColumn = memo(({
         isolation: 'isolate', 
         minWidth: '280px',
         transition: 'all 0.3s ease',
-        backgroundImage: timezone.id.startsWith('Mars/') ? 
+        backgroundImage: !timeSystem.usesEarthCalendar ? 
           'linear-gradient(to bottom right, rgba(239, 68, 68, 0.1), rgba(239, 68, 68, 0.01))' : 
           'linear-gradient(to bottom right, rgba(59, 130, 246, 0.1), rgba(59, 130, 246, 0.01))'
       }}
@@ -1222,8 +1276,8 @@ const TimezoneColumn = memo(({
       onMouseOver={(e) => {
         e.currentTarget.style.transform = 'translateY(-5px)';
         e.currentTarget.style.boxShadow = '0 15px 30px rgba(0, 0, 0, 0.15)';
-        e.currentTarget.style.borderColor = timezone.id.startsWith('Mars/') ? 
-          'rgba(239, 68, 68, 0.5)' : // Red for Mars
+        e.currentTarget.style.borderColor = !timeSystem.usesEarthCalendar ? 
+          'rgba(239, 68, 68, 0.5)' : // Red for other systems (e.g. Mars)
           'rgba(59, 130, 246, 0.5)'; // Blue for Earth
       }}
       onMouseOut={(e) => {
@@ -1243,13 +1297,13 @@ const TimezoneColumn = memo(({
         {localTime && (
           <div className="absolute inset-0 -z-10 opacity-20 pointer-events-none">
             {(() => {
-              const dt = DateTime.fromJSDate(localTime).setZone(timezone.id);
-              const hour = dt.hour;
-              if (hour >= 5 && hour < 8) {
-                return <div className="absolute inset-0 bg-gradient-to-r from-amber-300/30 to-blue-300/30" />; // Dawn
-              } else if (hour >= 8 && hour < 16) {
+              const phase = getDaylightPhase(localTime, timezone.id);
+              const hour = timeSystem.convert(localTime, timezone.id, { marsTimeScale }).hours;
+              if (phase === 'day') {
                 return <div className="absolute inset-0 bg-gradient-to-r from-yellow-300/30 to-sky-300/30" />; // Day
-              } else if (hour >= 16 && hour < 19) {
+              } else if (phase !== 'night' && hour < 12) {
+                return <div className="absolute inset-0 bg-gradient-to-r from-amber-300/30 to-blue-300/30" />; // Dawn
+              } else if (phase !== 'night') {
                 return <div className="absolute inset-0 bg-gradient-to-r from-orange-300/30 to-purple-300/30" />; // Dusk
               } else {
                 return <div className="absolute inset-0 bg-gradient-to-r from-blue-900/30 to-indigo-900/30" />; // Night
@@ -1260,12 +1314,12 @@ const TimezoneColumn = memo(({
         <div>
           <div className="flex items-baseline">
             <h3 className={`text-lg font-semibold ${timezone.id === 'Mars/Jezero' ? 'text-red-600 dark:text-red-400' : 'text-primary-700 dark:text-primary-300'} flex items-center`}>
-              {timezone.id.startsWith('Mars/') && (<span className="inline-block mr-2" title="Mars Time"><Image src="/mars.png" alt="Mars" width={20} height={20} className="inline-block w-5 h-5 align-text-bottom" /></span>)}
+              {timeSystem.iconSrc && (<span className="inline-block mr-2" title={`${timeSystem.name} Time`}><Image src={timeSystem.iconSrc} alt={timeSystem.name} width={20} height={20} className="inline-block w-5 h-5 align-text-bottom" /></span>)}
               <span className="truncate">{(timezone.name.split('/').pop()?.replace('_', ' ') || timezone.name).replace(/[()]/g, '').replace(/[-+]\d{2}:\d{2}/, '')}</span>
             </h3>
             <span className="ml-2 text-xs font-medium text-muted-foreground bg-gray-100 dark:bg-gray-700 px-2 py-0.5 rounded-full">
-              {timezone.id.startsWith('Mars/') 
-                ? timezone.id === 'Mars/Jezero' ? 'MTC+05:10' : 'MTC' 
+              {!timeSystem.usesEarthCalendar
+                ? timeSystem.getOffsetLabel(timezone.id)
                 : (() => {
                     const localOffset = DateTime.now().setZone(userLocalTimezone).offset;
                     const tzOffset = DateTime.now().setZone(timezone.id).offset;
@@ -1278,16 +1332,15 @@ const TimezoneColumn = memo(({
                   })()}
             </span>
           </div>
-          <div className={`text-2xl font-mono font-semibold mt-2 tracking-tight ${timezone.id.startsWith('Mars/') ? 'text-red-600 dark:text-red-400' : 'text-primary-600 dark:text-primary-400'}`}>
-            {localTime && formatTime(localTime, timezone.id)}
+          <div className={`text-2xl font-mono font-semibold mt-2 tracking-tight ${!timeSystem.usesEarthCalendar ? 'text-red-600 dark:text-red-400' : 'text-primary-600 dark:text-primary-400'}`}>
+            {localTime && formatTime(localTime, timezone.id, showSeconds)}
           </div>
           {/* Time of day visual indicator */}
           {localTime && (
             <div className="mt-2 flex items-center">
               {(() => {
-                const dt = DateTime.fromJSDate(localTime).setZone(timezone.id);
-                const hour = dt.hour;
-                const minutePercentage = dt.minute / 60;
+                const { hours: hour, minutes } = timeSystem.convert(localTime, timezone.id, { marsTimeScale });
+                const minutePercentage = minutes / 60;
                 const dayProgress = ((hour + minutePercentage) / 24) * 100;
                 return (
                   <>
@@ -1316,22 +1369,33 @@ const TimezoneColumn = memo(({
           {/* Mars mini info - simplified */}
           {timezone.id === 'Mars/Jezero' && (
             <div className="text-xs text-red-600/80 dark:text-red-400/80 mt-1">
-              Perseverance • Jezero Crater • {localTime && formatTime(localTime, timezone.id).includes('Sol') ? formatTime(localTime, timezone.id).split('MTC')[1].trim() : 'Sol'}
+              Perseverance • Jezero Crater • {localTime && formatTime(localTime, timezone.id).includes('Sol') ? formatTime(localTime, timezone.id).match(/Sol -?\d+/)?.[0] : 'Sol'}
+            </div>
+          )}
+          {timeSystem.getCalendarSummary && localTime && (
+            <div className="text-xs text-red-600/70 dark:text-red-400/70 mt-0.5" title={`${timeSystem.name} calendar date`}>
+              {timeSystem.getCalendarSummary(localTime, timezone.id, { marsTimeScale })}
             </div>
           )}
         </div>
-        {/* Remove button (excluded from header click) */}
-        {!isLocal && timezone.id !== userLocalTimezone && (
-          <button 
-            onClick={() => handleRemoveTimezone(timezone.id)} 
-            className="p-3 rounded-full bg-gray-100 dark:bg-gray-700 hover:bg-red-100 dark:hover:bg-red-900/30 hover:text-red-500 dark:hover:text-red-400 focus:outline-none focus:ring-2 focus:ring-red-500 dark:focus:ring-red-400 transition-colors z-10"
-            aria-label={`Remove timezone ${(timezone.name.split('/').pop()?.replace('_', ' ') || timezone.name).replace(/[()]/g, '')}`}
-            data-remove-timezone
-            tabIndex={0}
-          >
-            <X className="h-5 w-5" />
-          </button>
-        )}
+        <div className="flex items-center gap-2">
+          {/* Working hours editor (Earth timezones only) */}
+          {timeSystem.usesEarthCalendar && <WorkingHoursEditor timezone={timezone} />}
+          {/* Location for sunrise/sunset (Earth timezones only) */}
+          {timeSystem.usesEarthCalendar && <CoordinatesEditor timezone={timezone} />}
+          {/* Remove button (excluded from header click) */}
+          {!isLocal && timezone.id !== userLocalTimezone && (
+            <button 
+              onClick={() => handleRemoveTimezone(timezone.id)} 
+              className="p-3 rounded-full bg-gray-100 dark:bg-gray-700 hover:bg-red-100 dark:hover:bg-red-900/30 hover:text-red-500 dark:hover:text-red-400 focus:outline-none focus:ring-2 focus:ring-red-500 dark:focus:ring-red-400 transition-colors z-10"
+              aria-label={`Remove timezone ${(timezone.name.split('/').pop()?.replace('_', ' ') || timezone.name).replace(/[()]/g, '')}`}
+              data-remove-timezone
+              tabIndex={0}
+            >
+              <X className="h-5 w-5" />
+            </button>
+          )}
+        </div>
       </div>
       
       {/* Time increments list (only show when not showing events) */}
@@ -5,4 +5,7 @@
 
 export * from './useDebounce';
 export * from './useTimeUpdate';
-export * from './useMediaQuery'; 
\ No newline at end of file
+export * from './useMediaQuery';
+export * from './useShareLink';
+export * from './useMeetingBlocks';
+export * from './useTimezoneSync';
\ No newline at end of file
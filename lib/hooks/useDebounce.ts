@@ -0,0 +1,27 @@
+import { useState, useEffect } from 'react';
+
+/**
+ * useDebounce hook
+ * 
+ * Returns a copy of a value that only updates once it has stopped changing
+ * for the given delay. Useful for deferring expensive work on typed input.
+ * 
+ * @param value - The value to debounce
+ * @param delay - Delay in milliseconds
+ * @returns The latest value, once it has been stable for `delay` ms
+ */
+export function useDebounce<T>(value: T, delay: number): T {
+  const [debouncedValue, setDebouncedValue] = useState<T>(value);
+
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setDebouncedValue(value);
+    }, delay);
+
+    return () => {
+      clearTimeout(timer);
+    };
+  }, [value, delay]);
+
+  return debouncedValue;
+}
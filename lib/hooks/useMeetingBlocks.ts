@@ -0,0 +1,44 @@
+import { useCallback, useMemo } from 'react';
+import { useImportedEventsStore } from '@/store/importedEventsStore';
+import { expandImportedEvents, EventOccurrence } from '@/lib/utils/icalendarParser';
+
+const DEFAULT_SLOT_MS = 30 * 60 * 1000;
+
+/**
+ * useMeetingBlocks hook
+ *
+ * Expands imported calendar events over the visible time slots and reports which
+ * slots are busy. Occurrences are absolute instants, so a meeting blocks the same
+ * slots in every timezone column; floating and all-day events use the local timezone.
+ *
+ * @param timeSlots - The visible slots (evenly spaced, in chronological order)
+ * @param localTimezone - Zone used for events without a timezone
+ * @returns Callbacks for checking a slot and getting the titles of its meetings
+ */
+export function useMeetingBlocks(timeSlots: Date[], localTimezone: string) {
+  const events = useImportedEventsStore((state) => state.events);
+
+  const slotMs = timeSlots.length > 1
+    ? timeSlots[1].getTime() - timeSlots[0].getTime()
+    : DEFAULT_SLOT_MS;
+
+  const occurrences = useMemo((): EventOccurrence[] => {
+    if (events.length === 0 || timeSlots.length === 0) return [];
+    const rangeStart = timeSlots[0];
+    const rangeEnd = new Date(timeSlots[timeSlots.length - 1].getTime() + slotMs);
+    return expandImportedEvents(events, rangeStart, rangeEnd, localTimezone);
+  }, [events, timeSlots, slotMs, localTimezone]);
+
+  const getMeetingsAt = useCallback((time: Date) => {
+    const slotStart = time.getTime();
+    const slotEnd = slotStart + slotMs;
+    return occurrences.filter(o => o.start.getTime() < slotEnd && o.end.getTime() > slotStart);
+  }, [occurrences, slotMs]);
+
+  const hasMeetingAt = useCallback((time: Date): boolean => getMeetingsAt(time).length > 0, [getMeetingsAt]);
+
+  const getMeetingTitle = useCallback((time: Date): string =>
+    getMeetingsAt(time).map(o => o.title).join(', '), [getMeetingsAt]);
+
+  return { hasMeetingAt, getMeetingTitle };
+}
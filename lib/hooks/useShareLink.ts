@@ -0,0 +1,43 @@
+import { useEffect } from 'react';
+import { useTimezoneStore } from '@/store/timezoneStore';
+import { hasShareLinkParams, parseShareLink, SHARE_LINK_PARAMS } from '@/lib/utils/shareLink';
+
+/**
+ * useShareLink hook
+ *
+ * Applies state from a shareable link (?z=...&d=...&t=...) to the timezone store once on mount,
+ * and handles the `?action=add` manifest shortcut by opening the timezone selector.
+ * Shared zones are shown without replacing the visitor's saved list; the handled
+ * parameters are then removed from the address bar.
+ *
+ * @param enabled - Set to false to skip handling (e.g. until the store has hydrated)
+ */
+export function useShareLink(enabled = true): void {
+  useEffect(() => {
+    if (!enabled || typeof window === 'undefined') {
+      return;
+    }
+
+    const params = new URLSearchParams(window.location.search);
+    if (!hasShareLinkParams(params)) {
+      return;
+    }
+
+    const { timezones, selectedDate, highlightedTime, action } = parseShareLink(params);
+    const store = useTimezoneStore.getState();
+    store.applySharedLink({ timezones, selectedDate, highlightedTime });
+
+    if (action === 'add') {
+      store.openTimezoneSelector();
+    }
+
+    // Clean the URL so a reload shows the visitor's own view
+    Object.values(SHARE_LINK_PARAMS).forEach(param => params.delete(param));
+    const query = params.toString();
+    window.history.replaceState(
+      window.history.state,
+      '',
+      `${window.location.pathname}${query ? `?${query}` : ''}${window.location.hash}`
+    );
+  }, [enabled]);
+}
@@ -0,0 +1,114 @@
+import { useEffect } from 'react';
+import { useAuthStore } from '@/store/authStore';
+import { Timezone, useTimezoneStore } from '@/store/timezoneStore';
+
+// Wait for edits to settle before saving to the server
+const SYNC_DEBOUNCE_MS = 1000;
+
+// The user's own list (not the zones of a shared link being viewed)
+const getOwnTimezones = (): Timezone[] => {
+  const { savedTimezones, timezones } = useTimezoneStore.getState();
+  return savedTimezones ?? timezones;
+};
+
+/**
+ * useTimezoneSync hook
+ *
+ * Keeps the timezone list in step with the logged-in user's account via /api/me/timezones.
+ * On login (or load with a session) the server copy replaces the local list, unless the
+ * account has never saved one, in which case the local list is uploaded. Later edits are
+ * saved after a short debounce.
+ *
+ * @param enabled - Set to false to skip syncing (e.g. until the store has hydrated)
+ */
+export function useTimezoneSync(enabled = true): void {
+  useEffect(() => {
+    if (!enabled || typeof window === 'undefined') {
+      return;
+    }
+
+    let isActive = true;
+    let isReady = false;           // Local changes are only saved after the initial pull
+    let lastSynced: string | null = null;
+    let saveTimer: ReturnType<typeof setTimeout> | null = null;
+
+    const save = async (timezones: Timezone[]) => {
+      const serialized = JSON.stringify(timezones);
+      if (serialized === lastSynced) return;
+      try {
+        const res = await fetch('/api/me/timezones', {
+          method: 'PUT',
+          headers: {
+            'Content-Type': 'application/json',
+            'x-csrf-token': useAuthStore.getState().csrfToken || '',
+          },
+          body: JSON.stringify({ timezones }),
+        });
+        if (res.status === 401) {
+          // The session expired on the server
+          await useAuthStore.getState().refreshSession();
+          return;
+        }
+        if (!res.ok) throw new Error(`Sync responded with status: ${res.status}`);
+        lastSynced = serialized;
+      } catch (error) {
+        console.error('Failed to save timezones to account:', error);
+      }
+    };
+
+    const pull = async () => {
+      isReady = false;
+      try {
+        const res = await fetch('/api/me/timezones');
+        if (!res.ok) throw new Error(`Sync responded with status: ${res.status}`);
+        const data: { timezones: Timezone[]; updatedAt: number | null } = await res.json();
+        if (!isActive) return;
+
+        if (data.updatedAt === null) {
+          // New account: start from this device's list
+          await save(getOwnTimezones());
+        } else {
+          lastSynced = JSON.stringify(data.timezones);
+          useTimezoneStore.getState().applySyncedTimezones(data.timezones);
+        }
+        isReady = true;
+      } catch (error) {
+        console.error('Failed to load timezones from account:', error);
+      }
+    };
+
+    const unsubscribeAuth = useAuthStore.subscribe((state, previous) => {
+      if (state.status === 'authenticated' && state.user?.id !== previous.user?.id) {
+        pull();
+      } else if (state.status !== 'authenticated') {
+        isReady = false;
+        lastSynced = null;
+      }
+    });
+
+    let previousOwn = getOwnTimezones();
+    const unsubscribeTimezones = useTimezoneStore.subscribe(() => {
+      const own = getOwnTimezones();
+      if (own === previousOwn) return;
+      previousOwn = own;
+      if (!isReady || useAuthStore.getState().status !== 'authenticated') return;
+
+      if (saveTimer) clearTimeout(saveTimer);
+      saveTimer = setTimeout(() => save(own), SYNC_DEBOUNCE_MS);
+    });
+
+    const { status } = useAuthStore.getState();
+    if (status === 'authenticated') {
+      pull();
+    } else if (status === 'unknown') {
+      useAuthStore.getState().refreshSession();
+    }
+
+    return () => {
+      isActive = false;
+      if (saveTimer) clearTimeout(saveTimer);
+      unsubscribeAuth();
+      unsubscribeTimezones();
+    };
+  }, [enabled]);
+}
@@ -8,26 +8,21 @@
 
 import { DateTime } from 'luxon';
 import type { Timezone } from '@/store/timezoneStore';
-import { convertEarthToMarsTime, formatMarsTime, getMarsTimezoneOffset } from './utils/mars-timezone'; // Added convertEarthToMarsTime
+import type { MarsTimeScale } from './utils/mars-timezone';
+import { getTimeSystem } from './utils/timeSystems';
+import { DEFAULT_WORKING_HOURS, isBusinessHours as checkBusinessHours, type WorkingHours } from './utils/dateTimeFormatter';
 
 /**
  * Format a time for a specific timezone
  * @param time Time to format (defaults to now)
- * @param timezone IANA timezone name (e.g., 'America/New_York')
- * @param format Format string
+ * @param timezone IANA timezone name (e.g., 'America/New_York') or a prefixed ID such as 'Mars/Jezero'
+ * @param format Format string for Earth zones
+ * @param marsTimeScale Solar time to use for Mars locations
  */
-export function formatTimeForTimezone(time = new Date(), timezone: string, format = 'hh:mm a'): string {
+export function formatTimeForTimezone(time = new Date(), timezone: string, format = 'hh:mm a', marsTimeScale: MarsTimeScale = 'lmst'): string {
   try {
-    // Handle Mars timezones
-    if (timezone.startsWith('Mars/')) {
-      // Convert the specific Earth time slot to its equivalent Mars time components
-      const marsTimeData = convertEarthToMarsTime(DateTime.fromJSDate(time), timezone);
-      // Format the resulting Mars time using the components object (includes Sol count)
-      return formatMarsTime(marsTimeData);
-    }
-    
-    // Normal Earth timezone
-    return DateTime.fromJSDate(time).setZone(timezone).toFormat(format);
+    // Earth zones use the format; other systems (e.g. Mars) use their own clock format
+    return getTimeSystem(timezone).format(time, timezone, { format, marsTimeScale });
   } catch (error) {
     console.error(`Error formatting time for timezone ${timezone}:`, error);
     return '';
@@ -48,15 +43,18 @@ export function getCurrentTimeInTimezone(timezone: string): Date {
 }
 
 /**
- * Check if a time is within business hours (9 AM - 5 PM) in a specific timezone
+ * Check if a time is within business hours in a specific timezone
  * @param time Time to check (defaults to now)
  * @param timezone IANA timezone name
+ * @param workingHours Optional per-timezone working hours (defaults to 9 AM - 5 PM, Mon-Fri)
  */
-export function isWithinBusinessHours(time = new Date(), timezone: string): boolean {
+export function isWithinBusinessHours(
+  time = new Date(),
+  timezone: string,
+  workingHours: WorkingHours = DEFAULT_WORKING_HOURS
+): boolean {
   try {
-    const localTime = DateTime.fromJSDate(time).setZone(timezone);
-    const hour = localTime.hour;
-    return hour >= 9 && hour < 17;
+    return checkBusinessHours(time, timezone, workingHours);
   } catch (error) {
     console.error(`Error checking business hours for timezone ${timezone}:`, error);
     return false;
@@ -78,26 +76,12 @@ export function getTimezoneAbbreviation(timezone: string): string {
 
 /**
  * Get timezone offset in hours (e.g., +5, -8)
- * @param timezone IANA timezone name
+ * @param timezone IANA timezone name or a prefixed ID such as 'Mars/Jezero'
  */
 export function getTimezoneOffset(timezone: string): number {
   try {
-    // Handle Mars timezones differently
-    if (timezone.startsWith('Mars/')) {
-      // Extract the numeric offset from MTC+XX:XX format
-      const marsOffset = getMarsTimezoneOffset(timezone);
-      const match = marsOffset.match(/MTC([+-])(\d+):(\d+)/);
-      if (match) {
-        const sign = match[1] === '+' ? 1 : -1;
-        const hours = parseInt(match[2], 10);
-        const minutes = parseInt(match[3], 10);
-        return sign * (hours + minutes / 60);
-      }
-      return 0;
-    }
-    
-    // Normal Earth timezone
-    return DateTime.now().setZone(timezone).offset / 60;
+    // Mars sites give their offset from Coordinated Mars Time instead
+    return getTimeSystem(timezone).getOffsetHours(timezone);
   } catch (error) {
     console.error(`Error getting offset for timezone ${timezone}:`, error);
     return 0;
@@ -127,12 +111,13 @@ export function convertTime(time = new Date(), fromTimezone: string, toTimezone:
 
 /**
  * Checks if the current time is within business hours for a given timezone
- * Business hours are defined as 9:00 to 17:00 local time
+ * Business hours default to 9:00 to 17:00 local time, Monday to Friday
  */
-export const isBusinessHours = (timezone: string): boolean => {
-  const now = DateTime.now().setZone(timezone);
-  const hour = now.hour;
-  return hour >= 9 && hour < 17;
+export const isBusinessHours = (
+  timezone: string,
+  workingHours: WorkingHours = DEFAULT_WORKING_HOURS
+): boolean => {
+  return checkBusinessHours(DateTime.now(), timezone, workingHours);
 };
 
 /**
@@ -1,6 +1,8 @@
 import { headers } from 'next/headers';
 import { NextResponse } from 'next/server';
 import { createSecureHash } from './security';
+import { getSession, validateSession } from './sessionConfig';
+import { checkRateLimit, getRateLimitHeaders, getRateLimitKey, RateLimitEndpoint } from './rateLimiter';
 
 /**
  * Authentication types for API endpoints
@@ -19,6 +21,15 @@ interface AuthOptions {
   type: AuthType;
   message?: string;        // Custom error message
   status?: number;         // Custom status code
+  rateLimit?: RateLimitEndpoint; // Rate limit policy (RATE_LIMITED uses 'default' unless set)
+}
+
+/**
+ * Outcome of authenticateApi
+ */
+export interface AuthResult {
+  response: NextResponse | null;           // Error response to return as-is, or null if the request may proceed
+  rateLimitHeaders: Record<string, string>; // RateLimit-* headers to add to the handler's own responses
 }
 
 /**
@@ -52,45 +63,75 @@ export const secureApiHeaders = {
 
 /**
  * Apply consistent authentication to API handlers
- * @returns NextResponse with error if authentication fails, null if authentication succeeds
+ * @returns An error response if authentication fails (null if it succeeds), and the
+ * rate limit headers for the handler to send on its own responses
  */
-export async function authenticateApi(options: AuthOptions = { type: AuthType.RATE_LIMITED }): Promise<NextResponse | null> {
+export async function authenticateApi(options: AuthOptions = { type: AuthType.RATE_LIMITED }): Promise<AuthResult> {
   // Allow all access in development unless specifically requiring admin/session
   if (process.env.NODE_ENV === 'development' && 
       options.type !== AuthType.ADMIN && 
       options.type !== AuthType.SESSION) {
-    return null; // Authentication successful
+    return { response: null, rateLimitHeaders: {} }; // Authentication successful
   }
   
+  // Rate limit check - applied before credentials are checked so tokens can't be brute forced
+  let rateLimitHeaders: Record<string, string> = {};
+  if (options.type === AuthType.RATE_LIMITED || options.rateLimit) {
+    const headersList = await headers();
+    const result = await checkRateLimit(await getRateLimitKey(headersList), options.rateLimit || 'default');
+    rateLimitHeaders = getRateLimitHeaders(result);
+
+    if (!result.success) {
+      return {
+        response: NextResponse.json({
+          success: false,
+          message: 'Too many requests, please try again later'
+        }, {
+          status: 429,
+          headers: { ...secureApiHeaders, ...rateLimitHeaders }
+        }),
+        rateLimitHeaders
+      };
+    }
+  }
+
   // ADMIN auth check
   if (options.type === AuthType.ADMIN) {
     const headersList = await headers();
     const authToken = headersList.get('x-admin-token');
     
     if (!await validateAdminToken(authToken)) {
-      return NextResponse.json({
-        success: false,
-        message: options.message || 'Unauthorized access'
-      }, { 
-        status: options.status || 401,
-        headers: secureApiHeaders
-      });
+      return {
+        response: NextResponse.json({
+          success: false,
+          message: options.message || 'Unauthorized access'
+        }, { 
+          status: options.status || 401,
+          headers: { ...secureApiHeaders, ...rateLimitHeaders }
+        }),
+        rateLimitHeaders
+      };
     }
   }
   
-  // SESSION auth check - would typically use iron-session or similar here
+  // SESSION auth check - requires a logged-in, unexpired iron-session
   if (options.type === AuthType.SESSION) {
-    // Session validation logic should be implemented here
-    // For now, return unauthorized as it's not implemented
-    return NextResponse.json({
-      success: false,
-      message: options.message || 'Session authentication not implemented'
-    }, { 
-      status: options.status || 401,
-      headers: secureApiHeaders
-    });
+    const session = await getSession();
+
+    if (!session.isLoggedIn || !session.userId || !validateSession(session)) {
+      return {
+        response: NextResponse.json({
+          success: false,
+          message: options.message || 'Authentication required'
+        }, { 
+          status: options.status || 401,
+          headers: { ...secureApiHeaders, ...rateLimitHeaders }
+        }),
+        rateLimitHeaders
+      };
+    }
   }
   
   // If we get here, authentication was successful
-  return null;
+  return { response: null, rateLimitHeaders };
 }
\ No newline at end of file
@@ -1,11 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getIronSession } from 'iron-session';
-import { sessionConfig, SessionData, validateSession } from './sessionConfig';
+import { IronSession } from 'iron-session';
+import { getSession, SessionData, validateSession } from './sessionConfig';
 import { generateNonce } from './security';
 
 type ApiHandler = (
   req: NextRequest,
-  session: SessionData,
+  session: IronSession<SessionData>,
   nonce: string
 ) => Promise<NextResponse> | NextResponse;
 
@@ -19,14 +19,15 @@ type ApiHandler = (
 export function withSecureApi(handler: ApiHandler) {
   return async function secureHandler(req: NextRequest) {
     try {
-      // Get session
-      const session = await getIronSession<SessionData>(req, NextResponse.next(), sessionConfig);
+      // Get session (read from and written to the request's cookies)
+      const session = await getSession();
 
       // Generate nonce for this request
       const nonce = generateNonce();
 
       // Validate session if it exists
       if (session.isLoggedIn && !validateSession(session)) {
+        session.destroy();
         return new NextResponse(JSON.stringify({ error: 'Session expired' }), {
           status: 401,
           headers: {
@@ -51,6 +52,11 @@ export function withSecureApi(handler: ApiHandler) {
       // Call the handler with session and nonce
       const response = await handler(req, session, nonce);
 
+      // Persist the refreshed activity time so active sessions don't expire
+      if (session.isLoggedIn) {
+        await session.save();
+      }
+
       // Add security headers
       response.headers.set('X-Content-Type-Options', 'nosniff');
       response.headers.set('Cache-Control', 'no-store, no-cache, must-revalidate, proxy-revalidate');
@@ -0,0 +1,180 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { randomBytes, randomUUID, scrypt, timingSafeEqual } from 'crypto';
+import { z } from 'zod';
+import type { Timezone } from '@/store/timezoneStore';
+
+/**
+ * Local credential store for user accounts.
+ *
+ * Accounts live in a JSON file (CREDENTIAL_STORE_PATH, default .data/credentials.json)
+ * with scrypt password hashes. Writes are serialized and replace the file atomically.
+ * Server-only: uses Node's fs and crypto modules.
+ */
+
+const SCRYPT_KEY_LENGTH = 64;
+const SALT_BYTES = 16;
+
+/**
+ * Username/password validation shared by the login and register routes
+ */
+export const CredentialsSchema = z.object({
+  username: z.string()
+    .trim()
+    .toLowerCase()
+    .min(3, 'Username must be at least 3 characters')
+    .max(32, 'Username must be at most 32 characters')
+    .regex(/^[a-z0-9._-]+$/, 'Username may only contain letters, numbers, dots, dashes and underscores'),
+  password: z.string()
+    .min(8, 'Password must be at least 8 characters')
+    .max(200, 'Password is too long'),
+});
+
+/**
+ * A stored user account
+ */
+interface StoredUser {
+  id: string;
+  username: string;
+  passwordHash: string; // hex scrypt key
+  salt: string;         // hex
+  createdAt: number;
+  timezones: Timezone[];
+  timezonesUpdatedAt: number | null;
+}
+
+interface CredentialFile {
+  users: StoredUser[];
+}
+
+/**
+ * Public view of a user account
+ */
+export interface UserAccount {
+  id: string;
+  username: string;
+}
+
+/**
+ * Error raised when creating an account whose username is taken
+ */
+export class UsernameTakenError extends Error {
+  constructor(username: string) {
+    super(`Username "${username}" is already taken`);
+    this.name = 'UsernameTakenError';
+  }
+}
+
+const getStorePath = () =>
+  process.env.CREDENTIAL_STORE_PATH || path.join(process.cwd(), '.data', 'credentials.json');
+
+// Queue of pending writes so concurrent requests don't overwrite each other
+let writeQueue: Promise<unknown> = Promise.resolve();
+
+async function readStore(): Promise<CredentialFile> {
+  try {
+    const data = JSON.parse(await fs.readFile(getStorePath(), 'utf8'));
+    return { users: Array.isArray(data.users) ? data.users : [] };
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return { users: [] };
+    }
+    throw error;
+  }
+}
+
+/**
+ * Read-modify-write the store; the update runs after any pending writes
+ */
+function updateStore<T>(update: (store: CredentialFile) => T): Promise<T> {
+  const run = writeQueue.then(async () => {
+    const store = await readStore();
+    const result = update(store);
+    const storePath = getStorePath();
+    await fs.mkdir(path.dirname(storePath), { recursive: true });
+    // Write to a temp file and rename so a crash never leaves a half-written store
+    const tempPath = `${storePath}.${process.pid}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(store, null, 2), { encoding: 'utf8', mode: 0o600 });
+    await fs.rename(tempPath, storePath);
+    return result;
+  });
+  writeQueue = run.catch(() => undefined);
+  return run;
+}
+
+function hashPassword(password: string, salt: string): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(password, Buffer.from(salt, 'hex'), SCRYPT_KEY_LENGTH, (error, key) => {
+      if (error) reject(error);
+      else resolve(key);
+    });
+  });
+}
+
+/**
+ * Create a user account
+ * @throws UsernameTakenError if the username exists
+ */
+export async function createUser(username: string, password: string): Promise<UserAccount> {
+  const salt = randomBytes(SALT_BYTES).toString('hex');
+  const passwordHash = (await hashPassword(password, salt)).toString('hex');
+
+  return updateStore((store) => {
+    if (store.users.some(user => user.username === username)) {
+      throw new UsernameTakenError(username);
+    }
+    const user: StoredUser = {
+      id: randomUUID(),
+      username,
+      passwordHash,
+      salt,
+      createdAt: Date.now(),
+      timezones: [],
+      timezonesUpdatedAt: null,
+    };
+    store.users.push(user);
+    return { id: user.id, username: user.username };
+  });
+}
+
+/**
+ * Check a username and password
+ * @returns The account, or null if the credentials don't match
+ */
+export async function verifyCredentials(username: string, password: string): Promise<UserAccount | null> {
+  const { users } = await readStore();
+  const user = users.find(candidate => candidate.username === username);
+
+  // Hash even for unknown users so response times don't reveal which usernames exist
+  const key = await hashPassword(password, user?.salt ?? randomBytes(SALT_BYTES).toString('hex'));
+  if (!user) return null;
+
+  const expected = Buffer.from(user.passwordHash, 'hex');
+  return expected.length === key.length && timingSafeEqual(expected, key)
+    ? { id: user.id, username: user.username }
+    : null;
+}
+
+/**
+ * Get a user's synced timezone list
+ * @returns The list and when it was last saved, or null if the user doesn't exist
+ */
+export async function getUserTimezones(userId: string): Promise<{ timezones: Timezone[]; updatedAt: number | null } | null> {
+  const { users } = await readStore();
+  const user = users.find(candidate => candidate.id === userId);
+  return user ? { timezones: user.timezones, updatedAt: user.timezonesUpdatedAt } : null;
+}
+
+/**
+ * Replace a user's synced timezone list
+ * @returns The save time, or null if the user doesn't exist
+ */
+export function setUserTimezones(userId: string, timezones: Timezone[]): Promise<number | null> {
+  return updateStore((store) => {
+    const user = store.users.find(candidate => candidate.id === userId);
+    if (!user) return null;
+    user.timezones = timezones;
+    user.timezonesUpdatedAt = Date.now();
+    return user.timezonesUpdatedAt;
+  });
+}
@@ -1,5 +1,76 @@
-import { DateTime } from 'luxon';
-// Removed settings store import
+import { DateTime, Info } from 'luxon';
+import { useSettingsStore, type DateFormat, type TimeFormat } from '@/store/settingsStore';
+import { getZoneHoliday } from './holidays';
+
+/**
+ * Working hours for a timezone. Times are "HH:mm" in the zone's local time and
+ * workdays use Luxon weekday numbers (1 = Monday ... 7 = Sunday).
+ * An end time at or before the start time means the shift runs past midnight.
+ */
+export interface WorkingHours {
+  start: string;
+  end: string;
+  workdays: number[];
+}
+
+/**
+ * Default working hours: 9 AM to 5 PM, Monday to Friday
+ */
+export const DEFAULT_WORKING_HOURS: WorkingHours = {
+  start: '09:00',
+  end: '17:00',
+  workdays: [1, 2, 3, 4, 5]
+};
+
+/**
+ * Parse an "HH:mm" time of day into minutes since midnight
+ * 
+ * @param value Time string such as "09:30"
+ * @returns Minutes since midnight, or null if the value is not a valid time
+ */
+export function parseTimeOfDay(value: string): number | null {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value.trim());
+  if (!match) return null;
+  
+  const hours = parseInt(match[1], 10);
+  const minutes = parseInt(match[2], 10);
+  // Allow 24:00 as an end-of-day marker
+  if (hours > 24 || minutes > 59 || (hours === 24 && minutes !== 0)) return null;
+  
+  return hours * 60 + minutes;
+}
+
+/**
+ * Format working hours for display, e.g. "10:00–19:00, Sun–Thu"
+ * 
+ * @param workingHours Working hours to describe
+ * @returns Human readable summary
+ */
+export function formatWorkingHours(workingHours: WorkingHours): string {
+  const dayNames = Info.weekdays('short');
+  const days = [...workingHours.workdays].sort((a, b) => a - b);
+  
+  let dayLabel: string;
+  if (days.length === 0) {
+    dayLabel = 'No workdays';
+  } else if (days.length === 7) {
+    dayLabel = 'Every day';
+  } else {
+    // Collapse a consecutive run (wrapping past Sunday) into "Start–End"
+    const startIndex = days.findIndex(day => !days.includes(day === 1 ? 7 : day - 1));
+    const isRun = startIndex !== -1 &&
+      days.every((_, i) => days.includes(((days[startIndex] - 1 + i) % 7) + 1));
+    if (isRun && days.length > 2) {
+      const first = days[startIndex];
+      const last = ((first - 1 + days.length - 1) % 7) + 1;
+      dayLabel = `${dayNames[first - 1]}–${dayNames[last - 1]}`;
+    } else {
+      dayLabel = days.map(day => dayNames[day - 1]).join(', ');
+    }
+  }
+  
+  return `${workingHours.start}–${workingHours.end}, ${dayLabel}`;
+}
 
 /**
  * Format date according to the user's date format preference
@@ -8,26 +79,40 @@ import { DateTime } from 'luxon';
  * @param format Optional override for the date format 
  * @returns Formatted date string
  */
-export function formatDate(date: Date | DateTime, format?: string): string {
-  // Removed settings store usage
+export function formatDate(date: Date | DateTime, format?: DateFormat): string {
+  const settings = useSettingsStore.getState();
   
   // Convert to Luxon DateTime if needed
   const dateTime = date instanceof DateTime ? date : DateTime.fromJSDate(date);
   
-  // Use provided format or hardcoded default
-  const dateFormat = format || 'MM/DD/YYYY'; // Hardcoded default
-  
-  // Format the date
+  // Use provided format or the user's preference
+  return dateTime.toFormat(getDateFormatPattern(format || settings.dateFormat));
+}
+
+/**
+ * Get the Luxon format pattern for a date format preference
+ * 
+ * @param dateFormat 'MM/DD/YYYY', 'DD/MM/YYYY' or 'YYYY-MM-DD'
+ * @param options weekday prefixes the short day name; year: false leaves out the year for compact labels
+ * @returns Luxon format string, e.g. 'EEE, MM/dd'
+ */
+export function getDateFormatPattern(
+  dateFormat: DateFormat,
+  { weekday = false, year = true }: { weekday?: boolean; year?: boolean } = {}
+): string {
+  let pattern: string;
   switch (dateFormat) {
-    case 'MM/DD/YYYY':
-      return dateTime.toFormat('MM/dd/yyyy');
     case 'DD/MM/YYYY':
-      return dateTime.toFormat('dd/MM/yyyy');
+      pattern = year ? 'dd/MM/yyyy' : 'dd/MM';
+      break;
     case 'YYYY-MM-DD':
-      return dateTime.toFormat('yyyy-MM-dd');
+      pattern = year ? 'yyyy-MM-dd' : 'MM-dd';
+      break;
+    case 'MM/DD/YYYY':
     default:
-      return dateTime.toFormat('MM/dd/yyyy');
+      pattern = year ? 'MM/dd/yyyy' : 'MM/dd';
   }
+  return weekday ? `EEE, ${pattern}` : pattern;
 }
 
 /**
@@ -41,23 +126,33 @@ export function formatDate(date: Date | DateTime, format?: string): string {
 export function formatTime(
   date: Date | DateTime, 
   includeSeconds?: boolean, 
-  format?: '12h' | '24h'
+  format?: TimeFormat
 ): string {
-  // Removed settings store usage
+  const settings = useSettingsStore.getState();
   
   // Convert to Luxon DateTime if needed
   const dateTime = date instanceof DateTime ? date : DateTime.fromJSDate(date);
   
-  // Use provided values or hardcoded defaults
-  const timeFormat = format || '12h'; // Hardcoded default
-  const showSeconds = includeSeconds !== undefined ? includeSeconds : false; // Hardcoded default
+  // Use provided values or the user's preferences
+  const timeFormat = format || settings.timeFormat;
+  const showSeconds = includeSeconds !== undefined ? includeSeconds : settings.showSeconds;
   
   // Format the time
+  return dateTime.toFormat(getTimeFormatPattern(timeFormat, showSeconds));
+}
+
+/**
+ * Get the Luxon format pattern for a time format preference
+ * 
+ * @param timeFormat '12h' or '24h'
+ * @param includeSeconds Whether to include seconds
+ * @returns Luxon format string, e.g. 'h:mm a'
+ */
+export function getTimeFormatPattern(timeFormat: TimeFormat, includeSeconds = false): string {
   if (timeFormat === '12h') {
-    return dateTime.toFormat(showSeconds ? 'h:mm:ss a' : 'h:mm a');
-  } else {
-    return dateTime.toFormat(showSeconds ? 'HH:mm:ss' : 'HH:mm');
+    return includeSeconds ? 'h:mm:ss a' : 'h:mm a';
   }
+  return includeSeconds ? 'HH:mm:ss' : 'HH:mm';
 }
 
 /**
@@ -68,8 +163,6 @@ export function formatTime(
  * @returns Formatted date and time string
  */
 export function formatDateTime(date: Date | DateTime, includeSeconds?: boolean): string {
-  // Removed settings store usage
-  
   // Convert to Luxon DateTime if needed
   const dateTime = date instanceof DateTime ? date : DateTime.fromJSDate(date);
   
@@ -82,32 +175,43 @@ export function formatDateTime(date: Date | DateTime, includeSeconds?: boolean):
 }
 
 /**
- * Check if a time is within business hours
+ * Check if a time is within business hours. Public holidays in the timezone's
+ * country are days off.
  * 
  * @param date JavaScript Date object or Luxon DateTime
  * @param timezone Optional timezone
+ * @param workingHours Optional per-timezone working hours (defaults to 9–17, Mon–Fri)
  * @returns Boolean indicating if time is within business hours
  */
-export function isBusinessHours(date: Date | DateTime, timezone?: string): boolean {
-  // Removed settings store usage
-  const businessHoursStart = 9; // Hardcoded default
-  const businessHoursEnd = 17; // Hardcoded default
+export function isBusinessHours(
+  date: Date | DateTime, 
+  timezone?: string, 
+  workingHours: WorkingHours = DEFAULT_WORKING_HOURS
+): boolean {
+  const businessHoursStart = parseTimeOfDay(workingHours.start) ?? 9 * 60;
+  const businessHoursEnd = parseTimeOfDay(workingHours.end) ?? 17 * 60;
   
   // Convert to Luxon DateTime with the specified timezone
   const dateTime = date instanceof DateTime 
     ? (timezone ? date.setZone(timezone) : date)
     : (timezone ? DateTime.fromJSDate(date).setZone(timezone) : DateTime.fromJSDate(date));
   
-  // Get the hour of the day (0-23)
-  const hour = dateTime.hour;
+  // Minutes since local midnight
+  const minute = dateTime.hour * 60 + dateTime.minute;
   
-  // Check if it's a weekday (1-5 in Luxon is Monday to Friday)
-  const isWeekday = dateTime.weekday >= 1 && dateTime.weekday <= 5;
+  // Check against the configured workdays (Luxon weekday: 1 = Monday ... 7 = Sunday)
+  const isWorkday = (day: DateTime) =>
+    workingHours.workdays.includes(day.weekday) && !(timezone && getZoneHoliday(day, timezone));
   
-  // Check if the time is within business hours (hardcoded) and on a weekday
-  return isWeekday && 
-    hour >= businessHoursStart && 
-    hour < businessHoursEnd;
+  if (businessHoursStart < businessHoursEnd) {
+    return isWorkday(dateTime) && 
+      minute >= businessHoursStart && 
+      minute < businessHoursEnd;
+  }
+  
+  // Shift runs past midnight: the early-morning part belongs to the previous day's shift
+  return (isWorkday(dateTime) && minute >= businessHoursStart) ||
+    (isWorkday(dateTime.minus({ days: 1 })) && minute < businessHoursEnd);
 }
 
 /**
@@ -115,12 +219,17 @@ export function isBusinessHours(date: Date | DateTime, timezone?: string): boole
  * 
  * @param date JavaScript Date object or Luxon DateTime
  * @param timezone Optional timezone
+ * @param nightWindow Optional override for the night window (hours of day); defaults to the user's settings
  * @returns Boolean indicating if time is within night hours
  */
-export function isNightHours(date: Date | DateTime, timezone?: string): boolean {
-  // Removed settings store usage
-  const nightHoursStart = 20; // Hardcoded default
-  const nightHoursEnd = 6; // Hardcoded default (spans midnight)
+export function isNightHours(
+  date: Date | DateTime, 
+  timezone?: string, 
+  nightWindow?: { start: number; end: number }
+): boolean {
+  const settings = useSettingsStore.getState();
+  const nightHoursStart = nightWindow?.start ?? settings.nightHoursStart;
+  const nightHoursEnd = nightWindow?.end ?? settings.nightHoursEnd;
   
   // Convert to Luxon DateTime with the specified timezone
   const dateTime = date instanceof DateTime 
@@ -130,7 +239,7 @@ export function isNightHours(date: Date | DateTime, timezone?: string): boolean
   // Get the hour of the day (0-23)
   const hour = dateTime.hour;
 
-  // Night hours can span across midnight (using hardcoded values)
+  // Night hours can span across midnight
   if (nightHoursStart > nightHoursEnd) {
     // Example: 20:00 - 06:00 
     return hour >= nightHoursStart || hour < nightHoursEnd;
@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { describeTransition, findOffsetTransitions, getSlotDSTInfo } from './dst';
+
+const utc = (iso: string) => Date.parse(iso);
+
+describe('findOffsetTransitions', () => {
+  it('finds New York transitions at the exact instant', () => {
+    // Start at an odd second so a finder that keeps the window's phase would be off
+    const transitions = findOffsetTransitions('America/New_York', utc('2026-01-01T00:00:56.789Z'), utc('2026-12-31T00:00:00Z'));
+    expect(transitions).toEqual([
+      { at: utc('2026-03-08T07:00:00Z'), offsetBefore: -300, offsetAfter: -240 },
+      { at: utc('2026-11-01T06:00:00Z'), offsetBefore: -240, offsetAfter: -300 }
+    ]);
+  });
+
+  it('finds Sydney transitions at the exact instant', () => {
+    const transitions = findOffsetTransitions('Australia/Sydney', utc('2026-01-01T00:00:27.5Z'), utc('2026-12-31T00:00:00Z'));
+    expect(transitions).toEqual([
+      { at: utc('2026-04-04T16:00:00Z'), offsetBefore: 660, offsetAfter: 600 },
+      { at: utc('2026-10-03T16:00:00Z'), offsetBefore: 600, offsetAfter: 660 }
+    ]);
+  });
+
+  it('returns nothing for zones without DST', () => {
+    expect(findOffsetTransitions('Asia/Tokyo', utc('2026-01-01T00:00:00Z'), utc('2026-12-31T00:00:00Z'))).toEqual([]);
+  });
+
+  it('leaves out changes outside the window', () => {
+    const transitions = findOffsetTransitions('America/New_York', utc('2026-03-08T07:00:30Z'), utc('2026-11-01T06:00:00Z'));
+    expect(transitions.map(transition => transition.at)).toEqual([utc('2026-11-01T06:00:00Z')]);
+  });
+});
+
+describe('describeTransition', () => {
+  it('describes spring-forward and fall-back in wall-clock terms', () => {
+    const [spring, fall] = findOffsetTransitions('America/New_York', utc('2026-01-01T00:00:00Z'), utc('2026-12-31T00:00:00Z'));
+    expect(describeTransition(spring, 'America/New_York')).toBe('Clocks go forward 1 hour at 2:00 AM (2:00 AM–2:59 AM is skipped)');
+    expect(describeTransition(fall, 'America/New_York')).toBe('Clocks go back 1 hour at 2:00 AM (1:00 AM–1:59 AM happens twice)');
+  });
+});
+
+describe('getSlotDSTInfo', () => {
+  const slotInfo = (iso: string, zone: string) => getSlotDSTInfo(new Date(iso), zone, 30);
+
+  it('marks the slot where clocks go forward', () => {
+    // 1:30 AM EST, then 3:00 AM EDT
+    expect(slotInfo('2026-03-08T06:30:00Z', 'America/New_York')).toEqual({ transition: null, repeated: null });
+    expect(slotInfo('2026-03-08T07:00:00Z', 'America/New_York')).toEqual({
+      transition: { at: utc('2026-03-08T07:00:00Z'), offsetBefore: -300, offsetAfter: -240 },
+      repeated: null
+    });
+  });
+
+  it('labels both runs of a repeated hour in New York', () => {
+    expect(slotInfo('2026-11-01T05:00:00Z', 'America/New_York')).toEqual({ transition: null, repeated: 'first' });
+    expect(slotInfo('2026-11-01T05:30:00Z', 'America/New_York')).toEqual({ transition: null, repeated: 'first' });
+    expect(slotInfo('2026-11-01T06:00:00Z', 'America/New_York')).toEqual({
+      transition: { at: utc('2026-11-01T06:00:00Z'), offsetBefore: -240, offsetAfter: -300 },
+      repeated: 'second'
+    });
+    expect(slotInfo('2026-11-01T06:30:00Z', 'America/New_York')).toEqual({ transition: null, repeated: 'second' });
+    expect(slotInfo('2026-11-01T07:00:00Z', 'America/New_York')).toEqual({ transition: null, repeated: null });
+  });
+
+  it('labels both runs of a repeated hour in Sydney', () => {
+    // 2:00 AM AEDT, then 2:00 AM AEST
+    expect(slotInfo('2026-04-04T15:00:00Z', 'Australia/Sydney')).toEqual({ transition: null, repeated: 'first' });
+    expect(slotInfo('2026-04-04T16:00:00Z', 'Australia/Sydney')).toEqual({
+      transition: { at: utc('2026-04-04T16:00:00Z'), offsetBefore: 660, offsetAfter: 600 },
+      repeated: 'second'
+    });
+  });
+
+  it('finds a change inside a longer slot', () => {
+    expect(getSlotDSTInfo(new Date('2026-03-08T06:00:00Z'), 'America/New_York', 60).transition).toBeNull();
+    expect(getSlotDSTInfo(new Date('2026-10-03T15:30:00Z'), 'Australia/Sydney', 60).transition?.at).toBe(utc('2026-10-03T16:00:00Z'));
+  });
+
+  it('leaves ordinary slots and zones without DST unlabelled', () => {
+    expect(slotInfo('2026-06-15T12:00:00Z', 'America/New_York')).toEqual({ transition: null, repeated: null });
+    expect(slotInfo('2026-11-01T06:00:00Z', 'Asia/Tokyo')).toEqual({ transition: null, repeated: null });
+  });
+});
@@ -0,0 +1,227 @@
+import { DateTime, IANAZone } from 'luxon';
+import { resolveLocalTime } from './timeConversion';
+import { isEarthZone } from './timeSystems';
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+/**
+ * A change in a zone's UTC offset
+ */
+export interface OffsetTransition {
+  at: number;           // First instant (ms) with the new offset, to the minute
+  offsetBefore: number; // Minutes
+  offsetAfter: number;  // Minutes
+}
+
+/**
+ * DST details for one slot in one zone
+ */
+export interface SlotDSTInfo {
+  transition: OffsetTransition | null;    // Offset change inside the slot
+  repeated: 'first' | 'second' | null;    // The slot's wall time happens twice on this day
+}
+
+const NO_DST_INFO: SlotDSTInfo = { transition: null, repeated: null };
+
+/**
+ * Get the UTC offset (minutes) of a zone at an instant
+ */
+export function getOffsetAt(zone: string, millis: number): number {
+  const ianaZone = IANAZone.create(zone);
+  return ianaZone.isValid ? ianaZone.offset(millis) : DateTime.fromMillis(millis, { zone }).offset;
+}
+
+/**
+ * Find the instants (to the minute) at which a zone's UTC offset changes
+ * @param zone IANA zone
+ * @param from Start of the search window (ms)
+ * @param to End of the search window (ms)
+ * @param stepMs Scan interval; two changes closer together than this are missed
+ * @returns Transitions in chronological order
+ */
+export function findOffsetTransitions(zone: string, from: number, to: number, stepMs = DAY_MS): OffsetTransition[] {
+  const transitions: OffsetTransition[] = [];
+  // Scan and bisect on whole minutes so the instants found are the real change times,
+  // not shifted by the seconds of `from`
+  const start = Math.floor(from / MINUTE_MS) * MINUTE_MS;
+  const step = Math.max(MINUTE_MS, Math.ceil(stepMs / MINUTE_MS) * MINUTE_MS);
+  let previous = start;
+  let previousOffset = getOffsetAt(zone, start);
+
+  for (let time = start + step; time <= to + step; time += step) {
+    const offset = getOffsetAt(zone, time);
+    if (offset !== previousOffset) {
+      // Narrow down to the first minute with the new offset
+      let low = previous;
+      let high = time;
+      while (high - low > MINUTE_MS) {
+        const mid = low + Math.floor((high - low) / 2 / MINUTE_MS) * MINUTE_MS;
+        if (getOffsetAt(zone, mid) === previousOffset) {
+          low = mid;
+        } else {
+          high = mid;
+        }
+      }
+      if (high > from && high <= to) {
+        transitions.push({ at: high, offsetBefore: previousOffset, offsetAfter: offset });
+      }
+      previousOffset = offset;
+    }
+    previous = time;
+  }
+
+  return transitions;
+}
+
+/**
+ * Work out how DST affects a time slot in a zone: whether the offset changes
+ * during the slot, and whether its wall-clock time is one that happens twice
+ * @param slot Slot start
+ * @param zone IANA zone
+ * @param incrementMinutes Slot length in minutes
+ */
+export function getSlotDSTInfo(slot: Date, zone: string, incrementMinutes: number): SlotDSTInfo {
+  if (!isEarthZone(zone)) return NO_DST_INFO;
+
+  const start = slot.getTime();
+  const end = start + incrementMinutes * MINUTE_MS;
+
+  // Fast path: the offset is the same a day either side, so nothing changes nearby
+  const offset = getOffsetAt(zone, start);
+  if (getOffsetAt(zone, start - DAY_MS) === offset && getOffsetAt(zone, end + DAY_MS) === offset) {
+    return NO_DST_INFO;
+  }
+
+  // A change exactly at the slot start belongs to this slot, one at its end to the next
+  const transition = findOffsetTransitions(zone, start - MINUTE_MS, end - MINUTE_MS, HOUR_MS)[0] ?? null;
+
+  const local = DateTime.fromMillis(start, { zone });
+  const resolution = resolveLocalTime(
+    { year: local.year, month: local.month, day: local.day, hour: local.hour, minute: local.minute, second: local.second },
+    zone
+  );
+  const repeated = resolution?.status === 'ambiguous'
+    ? (resolution.candidates[0].toMillis() === start ? 'first' : 'second')
+    : null;
+
+  return transition || repeated ? { transition, repeated } : NO_DST_INFO;
+}
+
+/**
+ * Describe an offset change in plain words, e.g.
+ * "Clocks go forward 1 hour at 2:00 AM (2:00–2:59 AM is skipped)"
+ * @param transition The offset change
+ * @param zone IANA zone
+ * @param timeFormat Luxon format for wall-clock times
+ */
+export function describeTransition(transition: OffsetTransition, zone: string, timeFormat = 'h:mm a'): string {
+  const shift = transition.offsetAfter - transition.offsetBefore;
+  const amount = Math.abs(shift);
+  const amountText = amount % 60 === 0
+    ? `${amount / 60} hour${amount === 60 ? '' : 's'}`
+    : `${amount} minutes`;
+
+  // Wall-clock time just before the change, in the old offset
+  const before = DateTime.fromMillis(transition.at, { zone: 'utc' }).plus({ minutes: transition.offsetBefore });
+  const format = (value: DateTime) => value.toFormat(timeFormat);
+
+  if (shift > 0) {
+    const lastSkipped = before.plus({ minutes: amount - 1 });
+    return `Clocks go forward ${amountText} at ${format(before)} (${format(before)}–${format(lastSkipped)} is skipped)`;
+  }
+
+  const repeatedStart = before.minus({ minutes: amount });
+  const repeatedEnd = before.minus({ minutes: 1 });
+  return `Clocks go back ${amountText} at ${format(before)} (${format(repeatedStart)}–${format(repeatedEnd)} happens twice)`;
+}
+
+/**
+ * An offset change in a zone, with the abbreviations either side of it
+ */
+export interface ZoneTransition extends OffsetTransition {
+  zone: string;
+  abbreviationBefore: string; // e.g. "EST"; falls back to "GMT-5" style names
+  abbreviationAfter: string;
+}
+
+/**
+ * How the gap between two zones changes at a transition
+ */
+export interface OffsetGapChange {
+  otherZone: string;
+  gapBefore: number; // Minutes between the zones' offsets before the change (absolute)
+  gapAfter: number;
+}
+
+/**
+ * An upcoming offset change in one of a set of zones
+ */
+export interface UpcomingOffsetChange {
+  transition: ZoneTransition;
+  gapChanges: OffsetGapChange[];
+}
+
+/**
+ * Find every offset change (DST or otherwise) in a zone over a date range.
+ * Works the same for either hemisphere since it makes no assumption about
+ * which change comes first.
+ * @param zone IANA zone
+ * @param from Start of the range
+ * @param to End of the range
+ * @returns Transitions in chronological order
+ */
+export function getZoneTransitions(zone: string, from: Date, to: Date): ZoneTransition[] {
+  if (!isEarthZone(zone)) return [];
+
+  return findOffsetTransitions(zone, from.getTime(), to.getTime()).map(transition => ({
+    ...transition,
+    zone,
+    abbreviationBefore: DateTime.fromMillis(transition.at - MINUTE_MS, { zone }).offsetNameShort || '',
+    abbreviationAfter: DateTime.fromMillis(transition.at, { zone }).offsetNameShort || ''
+  }));
+}
+
+/**
+ * Find offset changes coming up in any of a set of zones, and how each one
+ * shifts the gap to the other zones
+ * @param zones IANA zones
+ * @param from Start of the look-ahead
+ * @param days Length of the look-ahead in days
+ * @returns Changes in chronological order
+ */
+export function getUpcomingOffsetChanges(zones: string[], from: Date, days = 14): UpcomingOffsetChange[] {
+  const earthZones = Array.from(new Set(zones)).filter(isEarthZone);
+  const to = new Date(from.getTime() + days * DAY_MS);
+  const transitions = earthZones
+    .flatMap(zone => getZoneTransitions(zone, from, to))
+    .sort((a, b) => a.at - b.at || earthZones.indexOf(a.zone) - earthZones.indexOf(b.zone));
+
+  return transitions.map(transition => {
+    const gapChanges = earthZones
+      .filter(otherZone => otherZone !== transition.zone)
+      // Zones changing at the same instant are reported once, under the first of them
+      .filter(otherZone => !transitions.some(other =>
+        other.zone === otherZone && other.at === transition.at &&
+        earthZones.indexOf(otherZone) < earthZones.indexOf(transition.zone)))
+      .map(otherZone => ({
+        otherZone,
+        gapBefore: Math.abs(transition.offsetBefore - getOffsetAt(otherZone, transition.at - MINUTE_MS)),
+        gapAfter: Math.abs(transition.offsetAfter - getOffsetAt(otherZone, transition.at))
+      }))
+      .filter(change => change.gapBefore !== change.gapAfter);
+
+    return { transition, gapChanges };
+  });
+}
+
+/**
+ * Format a gap between offsets, e.g. 330 -> "5h 30m"
+ * @param minutes Gap in minutes
+ */
+export function formatOffsetGap(minutes: number): string {
+  const hours = Math.floor(Math.abs(minutes) / 60);
+  const rest = Math.abs(minutes) % 60;
+  return rest === 0 ? `${hours}h` : `${hours}h ${rest}m`;
+}
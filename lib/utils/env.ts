@@ -10,6 +10,7 @@ const envSchema = z.object({
   ADMIN_API_SECRET: z.string().min(32),
   CSP_REPORT_URL: z.string().url().optional(),
   REDIS_URL: z.string().url().optional().default('redis://localhost:6379'),
+  CREDENTIAL_STORE_PATH: z.string().optional(), // Defaults to .data/credentials.json
   
   // Rate limiting configuration
   RATE_LIMIT_WINDOW: z.coerce.number().positive().default(60),
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { getPublicHolidays, getPublicHolidaysOn, getZoneHoliday } from './holidays';
+
+/**
+ * Dates of the named holidays in a country's year
+ */
+const datesOf = (countryCode: string, year: number, ...names: string[]) =>
+  getPublicHolidays(countryCode, year).filter(holiday => names.includes(holiday.name)).map(holiday => holiday.date);
+
+describe('Easter-based holidays', () => {
+  it('places Good Friday and Easter Monday around Easter Sunday', () => {
+    expect(datesOf('GB', 2026, 'Good Friday', 'Easter Monday')).toEqual(['2026-04-03', '2026-04-06']);
+    // Early and late Easters: March 31st 2024 and April 25th 2038
+    expect(datesOf('GB', 2024, 'Good Friday', 'Easter Monday')).toEqual(['2024-03-29', '2024-04-01']);
+    expect(datesOf('GB', 2038, 'Good Friday', 'Easter Monday')).toEqual(['2038-04-23', '2038-04-26']);
+  });
+
+  it('counts later and earlier feasts from Easter Sunday', () => {
+    expect(datesOf('DE', 2026, 'Christi Himmelfahrt', 'Pfingstmontag')).toEqual(['2026-05-14', '2026-05-25']);
+    expect(datesOf('BR', 2026, 'Carnaval')).toEqual(['2026-02-16', '2026-02-17']);
+  });
+});
+
+describe('weekend holidays', () => {
+  it('moves UK holidays to the next free weekday', () => {
+    // Christmas on Saturday and Boxing Day on Sunday
+    expect(getPublicHolidaysOn('2021-12-27', ['GB']).map(holiday => holiday.name)).toEqual(['Christmas Day (observed)']);
+    expect(getPublicHolidaysOn('2021-12-28', ['GB']).map(holiday => holiday.name)).toEqual(['Boxing Day (observed)']);
+    // Christmas on Sunday skips Boxing Day on Monday
+    expect(getPublicHolidaysOn('2022-12-27', ['GB'])).toEqual([
+      { date: '2022-12-27', name: 'Christmas Day (observed)', countryCode: 'GB', observed: true }
+    ]);
+  });
+
+  it('moves US holidays to the nearest weekday', () => {
+    expect(getPublicHolidaysOn('2026-07-03', ['US']).map(holiday => holiday.name)).toEqual(['Independence Day (observed)']);
+    expect(getPublicHolidaysOn('2027-07-05', ['US']).map(holiday => holiday.name)).toEqual(['Independence Day (observed)']);
+  });
+
+  it('includes days made up in the previous year', () => {
+    // New Year's Day 2022 was a Saturday
+    expect(getPublicHolidays('US', 2021).at(-1)).toEqual({
+      date: '2021-12-31', name: "New Year's Day (observed)", countryCode: 'US', observed: true
+    });
+    expect(getPublicHolidays('US', 2022).some(holiday => holiday.date === '2021-12-31')).toBe(false);
+  });
+
+  it('only moves Sunday holidays under the Sunday-to-Monday rule', () => {
+    // Human Rights Day 2027 is a Sunday; Workers' Day 2027 is a Saturday
+    expect(getPublicHolidaysOn('2027-03-22', ['ZA']).map(holiday => holiday.name)).toEqual(['Human Rights Day (observed)']);
+    expect(getPublicHolidaysOn('2027-05-03', ['ZA'])).toEqual([]);
+  });
+});
+
+describe('getZoneHoliday', () => {
+  it('uses the local date in the zone', () => {
+    expect(getZoneHoliday(new Date('2026-07-03T12:00:00Z'), 'America/New_York')?.name).toBe('Independence Day (observed)');
+    // Still July 2nd in New York
+    expect(getZoneHoliday(new Date('2026-07-03T03:00:00Z'), 'America/New_York')).toBeNull();
+  });
+
+  it('follows renamed zones to their country', () => {
+    expect(getZoneHoliday(new Date('2026-07-03T16:00:00Z'), 'America/Indianapolis')?.name).toBe('Independence Day (observed)');
+    expect(getZoneHoliday(new Date('2026-08-15T06:00:00Z'), 'Asia/Calcutta')?.name).toBe('Independence Day');
+  });
+
+  it('has no holidays for zones outside a country', () => {
+    expect(getZoneHoliday(new Date('2026-12-25T12:00:00Z'), 'UTC')).toBeNull();
+  });
+});
@@ -0,0 +1,370 @@
+import { DateTime } from 'luxon';
+import { ZONE_LINKS, ZONE_METADATA } from './timezoneMetadata';
+
+/**
+ * A public holiday on a country's calendar
+ */
+export interface PublicHoliday {
+  date: string; // ISO date, e.g. "2026-12-25"
+  name: string;
+  countryCode: string;
+  observed: boolean; // A weekday off in place of a holiday that fell on a weekend
+}
+
+/**
+ * How a holiday that falls on a weekend is made up:
+ * - monday: the next weekday that isn't already a holiday (UK bank holidays)
+ * - nearest-weekday: Saturday moves to Friday, Sunday to Monday (US federal holidays)
+ * - sunday-to-monday: only Sunday moves, to Monday
+ */
+type ObservedRule = 'monday' | 'nearest-weekday' | 'sunday-to-monday';
+
+type HolidayRule =
+  | { kind: 'fixed'; name: string; month: number; day: number; observed?: ObservedRule }
+  // nth weekday of the month (Luxon weekday, 1 = Monday); negative counts from the end,
+  // or back from `before` (e.g. "last Monday before May 25")
+  | { kind: 'nth-weekday'; name: string; month: number; weekday: number; nth: number; before?: number }
+  | { kind: 'easter'; name: string; offset: number }; // Days from Easter Sunday
+
+const fixed = (name: string, month: number, day: number, observed?: ObservedRule): HolidayRule =>
+  ({ kind: 'fixed', name, month, day, observed });
+const nthWeekday = (name: string, month: number, weekday: number, nth: number, before?: number): HolidayRule =>
+  ({ kind: 'nth-weekday', name, month, weekday, nth, before });
+const easter = (name: string, offset: number): HolidayRule => ({ kind: 'easter', name, offset });
+
+const MONDAY = 1;
+const THURSDAY = 4;
+
+/**
+ * National public holidays, keyed by ISO 3166-1 alpha-2 code. Regional holidays and
+ * those set by lunar calendars aren't covered.
+ */
+const HOLIDAY_RULES: Record<string, HolidayRule[]> = {
+  US: [
+    fixed("New Year's Day", 1, 1, 'nearest-weekday'),
+    nthWeekday('Martin Luther King Jr. Day', 1, MONDAY, 3),
+    nthWeekday("Presidents' Day", 2, MONDAY, 3),
+    nthWeekday('Memorial Day', 5, MONDAY, -1),
+    fixed('Juneteenth', 6, 19, 'nearest-weekday'),
+    fixed('Independence Day', 7, 4, 'nearest-weekday'),
+    nthWeekday('Labor Day', 9, MONDAY, 1),
+    nthWeekday('Columbus Day', 10, MONDAY, 2),
+    fixed('Veterans Day', 11, 11, 'nearest-weekday'),
+    nthWeekday('Thanksgiving', 11, THURSDAY, 4),
+    fixed('Christmas Day', 12, 25, 'nearest-weekday'),
+  ],
+  CA: [
+    fixed("New Year's Day", 1, 1, 'monday'),
+    easter('Good Friday', -2),
+    nthWeekday('Victoria Day', 5, MONDAY, -1, 25),
+    fixed('Canada Day', 7, 1, 'monday'),
+    nthWeekday('Labour Day', 9, MONDAY, 1),
+    nthWeekday('Thanksgiving', 10, MONDAY, 2),
+    fixed('Christmas Day', 12, 25, 'monday'),
+    fixed('Boxing Day', 12, 26, 'monday'),
+  ],
+  MX: [
+    fixed('Año Nuevo', 1, 1),
+    nthWeekday('Día de la Constitución', 2, MONDAY, 1),
+    nthWeekday('Natalicio de Benito Juárez', 3, MONDAY, 3),
+    fixed('Día del Trabajo', 5, 1),
+    fixed('Día de la Independencia', 9, 16),
+    nthWeekday('Día de la Revolución', 11, MONDAY, 3),
+    fixed('Navidad', 12, 25),
+  ],
+  BR: [
+    fixed('Confraternização Universal', 1, 1),
+    easter('Carnaval', -48),
+    easter('Carnaval', -47),
+    easter('Sexta-feira Santa', -2),
+    fixed('Tiradentes', 4, 21),
+    fixed('Dia do Trabalho', 5, 1),
+    fixed('Independência do Brasil', 9, 7),
+    fixed('Nossa Senhora Aparecida', 10, 12),
+    fixed('Finados', 11, 2),
+    fixed('Proclamação da República', 11, 15),
+    fixed('Dia da Consciência Negra', 11, 20),
+    fixed('Natal', 12, 25),
+  ],
+  GB: [
+    fixed("New Year's Day", 1, 1, 'monday'),
+    easter('Good Friday', -2),
+    easter('Easter Monday', 1),
+    nthWeekday('Early May Bank Holiday', 5, MONDAY, 1),
+    nthWeekday('Spring Bank Holiday', 5, MONDAY, -1),
+    nthWeekday('Summer Bank Holiday', 8, MONDAY, -1),
+    fixed('Christmas Day', 12, 25, 'monday'),
+    fixed('Boxing Day', 12, 26, 'monday'),
+  ],
+  IE: [
+    fixed("New Year's Day", 1, 1, 'monday'),
+    fixed("St Patrick's Day", 3, 17, 'monday'),
+    easter('Easter Monday', 1),
+    nthWeekday('May Bank Holiday', 5, MONDAY, 1),
+    nthWeekday('June Bank Holiday', 6, MONDAY, 1),
+    nthWeekday('August Bank Holiday', 8, MONDAY, 1),
+    nthWeekday('October Bank Holiday', 10, MONDAY, -1),
+    fixed('Christmas Day', 12, 25, 'monday'),
+    fixed("St Stephen's Day", 12, 26, 'monday'),
+  ],
+  DE: [
+    fixed('Neujahr', 1, 1),
+    easter('Karfreitag', -2),
+    easter('Ostermontag', 1),
+    fixed('Tag der Arbeit', 5, 1),
+    easter('Christi Himmelfahrt', 39),
+    easter('Pfingstmontag', 50),
+    fixed('Tag der Deutschen Einheit', 10, 3),
+    fixed('1. Weihnachtstag', 12, 25),
+    fixed('2. Weihnachtstag', 12, 26),
+  ],
+  AT: [
+    fixed('Neujahr', 1, 1),
+    fixed('Heilige Drei Könige', 1, 6),
+    easter('Ostermontag', 1),
+    fixed('Staatsfeiertag', 5, 1),
+    easter('Christi Himmelfahrt', 39),
+    easter('Pfingstmontag', 50),
+    easter('Fronleichnam', 60),
+    fixed('Mariä Himmelfahrt', 8, 15),
+    fixed('Nationalfeiertag', 10, 26),
+    fixed('Allerheiligen', 11, 1),
+    fixed('Mariä Empfängnis', 12, 8),
+    fixed('Christtag', 12, 25),
+    fixed('Stefanitag', 12, 26),
+  ],
+  FR: [
+    fixed("Jour de l'an", 1, 1),
+    easter('Lundi de Pâques', 1),
+    fixed('Fête du Travail', 5, 1),
+    fixed('Victoire 1945', 5, 8),
+    easter('Ascension', 39),
+    easter('Lundi de Pentecôte', 50),
+    fixed('Fête nationale', 7, 14),
+    fixed('Assomption', 8, 15),
+    fixed('Toussaint', 11, 1),
+    fixed('Armistice 1918', 11, 11),
+    fixed('Noël', 12, 25),
+  ],
+  ES: [
+    fixed('Año Nuevo', 1, 1),
+    fixed('Epifanía del Señor', 1, 6),
+    easter('Viernes Santo', -2),
+    fixed('Fiesta del Trabajo', 5, 1),
+    fixed('Asunción de la Virgen', 8, 15),
+    fixed('Fiesta Nacional de España', 10, 12),
+    fixed('Todos los Santos', 11, 1),
+    fixed('Día de la Constitución', 12, 6),
+    fixed('Inmaculada Concepción', 12, 8),
+    fixed('Navidad', 12, 25),
+  ],
+  IT: [
+    fixed('Capodanno', 1, 1),
+    fixed('Epifania', 1, 6),
+    easter('Lunedì dell\'Angelo', 1),
+    fixed('Festa della Liberazione', 4, 25),
+    fixed('Festa del Lavoro', 5, 1),
+    fixed('Festa della Repubblica', 6, 2),
+    fixed('Ferragosto', 8, 15),
+    fixed('Ognissanti', 11, 1),
+    fixed('Immacolata Concezione', 12, 8),
+    fixed('Natale', 12, 25),
+    fixed('Santo Stefano', 12, 26),
+  ],
+  NL: [
+    fixed('Nieuwjaarsdag', 1, 1),
+    easter('Tweede paasdag', 1),
+    fixed('Koningsdag', 4, 27),
+    easter('Hemelvaartsdag', 39),
+    easter('Tweede pinksterdag', 50),
+    fixed('Eerste kerstdag', 12, 25),
+    fixed('Tweede kerstdag', 12, 26),
+  ],
+  AU: [
+    fixed("New Year's Day", 1, 1, 'monday'),
+    fixed('Australia Day', 1, 26, 'monday'),
+    easter('Good Friday', -2),
+    easter('Easter Monday', 1),
+    fixed('Anzac Day', 4, 25),
+    nthWeekday("King's Birthday", 6, MONDAY, 2),
+    fixed('Christmas Day', 12, 25, 'monday'),
+    fixed('Boxing Day', 12, 26, 'monday'),
+  ],
+  NZ: [
+    fixed("New Year's Day", 1, 1, 'monday'),
+    fixed("Day after New Year's Day", 1, 2, 'monday'),
+    fixed('Waitangi Day', 2, 6, 'monday'),
+    easter('Good Friday', -2),
+    easter('Easter Monday', 1),
+    fixed('Anzac Day', 4, 25, 'monday'),
+    nthWeekday("King's Birthday", 6, MONDAY, 1),
+    nthWeekday('Labour Day', 10, MONDAY, 4),
+    fixed('Christmas Day', 12, 25, 'monday'),
+    fixed('Boxing Day', 12, 26, 'monday'),
+  ],
+  ZA: [
+    fixed("New Year's Day", 1, 1, 'sunday-to-monday'),
+    fixed('Human Rights Day', 3, 21, 'sunday-to-monday'),
+    easter('Good Friday', -2),
+    easter('Family Day', 1),
+    fixed('Freedom Day', 4, 27, 'sunday-to-monday'),
+    fixed("Workers' Day", 5, 1, 'sunday-to-monday'),
+    fixed('Youth Day', 6, 16, 'sunday-to-monday'),
+    fixed("National Women's Day", 8, 9, 'sunday-to-monday'),
+    fixed('Heritage Day', 9, 24, 'sunday-to-monday'),
+    fixed('Day of Reconciliation', 12, 16, 'sunday-to-monday'),
+    fixed('Christmas Day', 12, 25, 'sunday-to-monday'),
+    fixed('Day of Goodwill', 12, 26, 'sunday-to-monday'),
+  ],
+  IN: [
+    fixed('Republic Day', 1, 26),
+    fixed('Independence Day', 8, 15),
+    fixed('Gandhi Jayanti', 10, 2),
+  ],
+};
+
+/**
+ * Countries with holiday rules
+ */
+export const HOLIDAY_COUNTRIES = Object.keys(HOLIDAY_RULES);
+
+/**
+ * Easter Sunday (Gregorian) via the anonymous Gregorian algorithm
+ */
+function getEasterSunday(year: number): DateTime {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return DateTime.utc(year, month, day);
+}
+
+function resolveRuleDate(rule: HolidayRule, year: number): DateTime {
+  switch (rule.kind) {
+    case 'fixed':
+      return DateTime.utc(year, rule.month, rule.day);
+    case 'easter':
+      return getEasterSunday(year).plus({ days: rule.offset });
+    case 'nth-weekday': {
+      if (rule.nth > 0) {
+        const first = DateTime.utc(year, rule.month, 1);
+        return first.plus({ days: (rule.weekday - first.weekday + 7) % 7 + (rule.nth - 1) * 7 });
+      }
+      // Count back from the end of the month, or from the day before `before`
+      const last = rule.before
+        ? DateTime.utc(year, rule.month, rule.before - 1)
+        : DateTime.utc(year, rule.month, 1).endOf('month').startOf('day');
+      return last.minus({ days: (last.weekday - rule.weekday + 7) % 7 + (-rule.nth - 1) * 7 });
+    }
+  }
+}
+
+const isWeekendDay = (date: DateTime) => date.weekday >= 6;
+
+/**
+ * Holidays produced by one year's rules, with weekend holidays made up on weekdays.
+ * Made-up days skip dates that are already holidays (e.g. Christmas on Saturday
+ * and Boxing Day on Sunday become Monday and Tuesday).
+ */
+function buildHolidaysForRuleYear(countryCode: string, year: number): PublicHoliday[] {
+  const rules = HOLIDAY_RULES[countryCode] ?? [];
+  const actual = rules.map(rule => ({ rule, date: resolveRuleDate(rule, year) }));
+  const taken = new Set(actual.map(({ date }) => date.toISODate()));
+
+  const holidays: PublicHoliday[] = actual.map(({ rule, date }) => ({
+    date: date.toISODate() as string,
+    name: rule.name,
+    countryCode,
+    observed: false
+  }));
+
+  actual.forEach(({ rule, date }) => {
+    if (rule.kind !== 'fixed' || !rule.observed || !isWeekendDay(date)) return;
+
+    let observedDate: DateTime;
+    if (rule.observed === 'nearest-weekday') {
+      observedDate = date.weekday === 6 ? date.minus({ days: 1 }) : date.plus({ days: 1 });
+    } else if (rule.observed === 'sunday-to-monday') {
+      if (date.weekday !== 7) return;
+      observedDate = date.plus({ days: 1 });
+    } else {
+      observedDate = date.plus({ days: 8 - date.weekday });
+      while (taken.has(observedDate.toISODate()) || isWeekendDay(observedDate)) {
+        observedDate = observedDate.plus({ days: 1 });
+      }
+    }
+
+    taken.add(observedDate.toISODate());
+    holidays.push({ date: observedDate.toISODate() as string, name: `${rule.name} (observed)`, countryCode, observed: true });
+  });
+
+  return holidays;
+}
+
+// Holidays per country and year, built on first use
+const holidayCache = new Map<string, PublicHoliday[]>();
+
+/**
+ * Public holidays in a country for a calendar year, in date order. Includes days made
+ * up in this year for holidays from next year (e.g. a Saturday New Year's Day observed
+ * on December 31st).
+ */
+export function getPublicHolidays(countryCode: string, year: number): PublicHoliday[] {
+  const key = `${countryCode}:${year}`;
+  const cached = holidayCache.get(key);
+  if (cached) return cached;
+
+  const prefix = `${year}-`;
+  const holidays = [...buildHolidaysForRuleYear(countryCode, year), ...buildHolidaysForRuleYear(countryCode, year + 1)]
+    .filter(holiday => holiday.date.startsWith(prefix))
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  holidayCache.set(key, holidays);
+  return holidays;
+}
+
+/**
+ * Country whose holidays apply in a zone, following renamed zones
+ */
+export function getZoneCountryCode(zone: string): string | undefined {
+  return (ZONE_METADATA[zone] ?? ZONE_METADATA[ZONE_LINKS[zone]])?.countryCode;
+}
+
+/**
+ * Public holidays in one or more countries on an ISO date
+ */
+export function getPublicHolidaysOn(date: string, countryCodes: string[]): PublicHoliday[] {
+  const year = parseInt(date.slice(0, 4), 10);
+  return countryCodes.flatMap(countryCode =>
+    getPublicHolidays(countryCode, year).filter(holiday => holiday.date === date)
+  );
+}
+
+/**
+ * The public holiday on the local date of an instant in a zone, if any
+ *
+ * @param date The instant to check
+ * @param zone IANA zone; its country's holidays apply (none for zones outside a country, e.g. UTC or Mars)
+ * @returns The holiday, or null on a regular day
+ */
+export function getZoneHoliday(date: Date | DateTime, zone: string): PublicHoliday | null {
+  const countryCode = getZoneCountryCode(zone);
+  if (!countryCode || !HOLIDAY_RULES[countryCode]) return null;
+
+  const local = (date instanceof DateTime ? date : DateTime.fromJSDate(date)).setZone(zone);
+  if (!local.isValid) return null;
+  const isoDate = local.toISODate() as string;
+  // Prefer the day off itself over a weekend holiday it stands in for
+  const holidays = getPublicHolidays(countryCode, local.year).filter(holiday => holiday.date === isoDate);
+  return holidays.find(holiday => holiday.observed) ?? holidays[0] ?? null;
+}
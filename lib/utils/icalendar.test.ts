@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { createICalEvent, escapeICalText, foldICalLine } from './icalendar';
+
+const utc = (iso: string) => new Date(iso);
+
+/**
+ * Unfold a document and return the lines of its VTIMEZONE component
+ */
+function vtimezoneLines(ics: string): string[] {
+  const lines = ics.replace(/\r\n /g, '').split('\r\n');
+  return lines.slice(lines.indexOf('BEGIN:VTIMEZONE'), lines.indexOf('END:VTIMEZONE') + 1);
+}
+
+describe('escapeICalText', () => {
+  it('escapes backslashes, separators and newlines', () => {
+    expect(escapeICalText('a\\b; c, d\ne')).toBe('a\\\\b\\; c\\, d\\ne');
+  });
+});
+
+describe('foldICalLine', () => {
+  it('leaves short lines alone', () => {
+    expect(foldICalLine('SUMMARY:Standup')).toBe('SUMMARY:Standup');
+  });
+
+  it('folds at 75 octets without splitting multi-byte characters', () => {
+    const line = `SUMMARY:${'é'.repeat(80)}`;
+    const physical = foldICalLine(line).split('\r\n');
+    expect(physical.length).toBeGreaterThan(1);
+    physical.forEach((part, index) => {
+      expect(Buffer.byteLength(part, 'utf8')).toBeLessThanOrEqual(75);
+      if (index > 0) expect(part.startsWith(' ')).toBe(true);
+    });
+    expect(physical.map((part, index) => (index > 0 ? part.slice(1) : part)).join('')).toBe(line);
+  });
+});
+
+describe('createICalEvent', () => {
+  const event = {
+    title: 'Planning, Q3',
+    start: utc('2026-06-15T14:00:27Z'),
+    durationMinutes: 30,
+    timezone: 'America/New_York'
+  };
+
+  it('writes a CRLF-delimited document with local start and end times', () => {
+    const ics = createICalEvent(event);
+    expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    expect(ics.replace(/\r\n/g, '')).not.toMatch(/\n/);
+    expect(ics).toContain('DTSTART;TZID=America/New_York:20260615T100027\r\n');
+    expect(ics).toContain('DTEND;TZID=America/New_York:20260615T103027\r\n');
+    expect(ics).toContain('SUMMARY:Planning\\, Q3\r\n');
+  });
+
+  it('starts observances at the transition minute, not the event second', () => {
+    const lines = vtimezoneLines(createICalEvent(event));
+    expect(lines.filter(line => line.startsWith('DTSTART:'))).toEqual([
+      'DTSTART:20251102T020000',
+      'DTSTART:20260308T020000',
+      'DTSTART:20261101T020000',
+      'DTSTART:20270314T020000'
+    ]);
+    expect(lines).toContain('TZOFFSETFROM:-0500');
+    expect(lines).toContain('TZOFFSETTO:-0400');
+  });
+
+  it('gives zones without DST a single whole-minute observance', () => {
+    const lines = vtimezoneLines(createICalEvent({ ...event, timezone: 'Asia/Tokyo' }));
+    expect(lines.filter(line => line.startsWith('DTSTART:'))).toEqual(['DTSTART:20250615T230000']);
+    expect(lines).toContain('TZOFFSETFROM:+0900');
+    expect(lines).toContain('TZOFFSETTO:+0900');
+  });
+});
@@ -0,0 +1,226 @@
+import { DateTime } from 'luxon';
+import type { Timezone } from '@/store/timezoneStore';
+import { findOffsetTransitions, getOffsetAt } from './dst';
+import { getTimeSystem } from './timeSystems';
+
+/**
+ * A calendar event built from a highlighted time
+ */
+export interface CalendarEvent {
+  title: string;
+  description?: string;
+  start: Date;
+  durationMinutes: number;
+  timezone: string; // Organizer's IANA zone, used for TZID
+  url?: string;
+}
+
+// RFC 5545 section 3.1: lines are delimited by CRLF and folded at 75 octets
+const CRLF = '\r\n';
+const MAX_LINE_OCTETS = 75;
+const PRODID = '-//TimezonePulse//Meeting Export//EN';
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * Escape a TEXT property value (RFC 5545 section 3.3.11)
+ * @param value Raw text
+ * @returns Escaped text
+ */
+export function escapeICalText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r\n|\r|\n/g, '\\n');
+}
+
+/**
+ * Get the UTF-8 length of a single code point
+ */
+function utf8Length(char: string): number {
+  const code = char.codePointAt(0) ?? 0;
+  if (code < 0x80) return 1;
+  if (code < 0x800) return 2;
+  if (code < 0x10000) return 3;
+  return 4;
+}
+
+/**
+ * Fold a content line so no physical line exceeds 75 octets (RFC 5545 section 3.1).
+ * Multi-byte characters are never split.
+ * @param line Unfolded content line
+ * @returns Folded line (continuation lines start with a space)
+ */
+export function foldICalLine(line: string): string {
+  const chunks: string[] = [];
+  let current = '';
+  let currentOctets = 0;
+
+  for (const char of Array.from(line)) {
+    const octets = utf8Length(char);
+    // Continuation lines lose one octet to the leading space
+    const limit = chunks.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (currentOctets + octets > limit) {
+      chunks.push(current);
+      current = '';
+      currentOctets = 0;
+    }
+    current += char;
+    currentOctets += octets;
+  }
+  chunks.push(current);
+
+  return chunks.join(`${CRLF} `);
+}
+
+/**
+ * Format a UTC offset in minutes as ±HHMM
+ */
+function formatUtcOffset(minutes: number): string {
+  const sign = minutes < 0 ? '-' : '+';
+  const abs = Math.abs(minutes);
+  return `${sign}${Math.floor(abs / 60).toString().padStart(2, '0')}${(abs % 60).toString().padStart(2, '0')}`;
+}
+
+/**
+ * Build a VTIMEZONE component covering the event, with one observance per offset change
+ * from a year before the event to a year after it
+ * @param timezone IANA zone
+ * @param start Event start
+ * @param end Event end
+ * @returns Content lines (unfolded)
+ */
+function buildVTimezone(timezone: string, start: Date, end: Date): string[] {
+  // Whole minutes, so observance onsets are real transition times rather than carrying the event's seconds
+  const windowStart = DateTime.fromJSDate(start).minus({ years: 1 }).startOf('minute').toMillis();
+  const windowEnd = DateTime.fromJSDate(end).plus({ years: 1 }).toMillis();
+  const transitions = findOffsetTransitions(timezone, windowStart, windowEnd).map(transition => transition.at);
+
+  const observance = (millis: number, offsetFrom: number): string[] => {
+    const local = DateTime.fromMillis(millis, { zone: timezone });
+    // DTSTART is the onset expressed as local time in the offset in effect before it
+    const onset = DateTime.fromMillis(millis + offsetFrom * MINUTE_MS, { zone: 'utc' });
+    const type = local.isInDST ? 'DAYLIGHT' : 'STANDARD';
+    return [
+      `BEGIN:${type}`,
+      `DTSTART:${onset.toFormat("yyyyMMdd'T'HHmmss")}`,
+      `TZOFFSETFROM:${formatUtcOffset(offsetFrom)}`,
+      `TZOFFSETTO:${formatUtcOffset(local.offset)}`,
+      `TZNAME:${escapeICalText(local.offsetNameShort || formatUtcOffset(local.offset))}`,
+      `END:${type}`
+    ];
+  };
+
+  const lines = ['BEGIN:VTIMEZONE', `TZID:${timezone}`];
+  // Zones without a change before the event still need an observance that covers it
+  if (transitions.length === 0 || transitions[0] > start.getTime()) {
+    lines.push(...observance(windowStart, getOffsetAt(timezone, windowStart)));
+  }
+  transitions.forEach(millis => {
+    lines.push(...observance(millis, getOffsetAt(timezone, millis - MINUTE_MS)));
+  });
+  lines.push('END:VTIMEZONE');
+  return lines;
+}
+
+/**
+ * Format an instant as an iCalendar UTC date-time (yyyyMMddTHHmmssZ)
+ */
+function formatUtcDateTime(date: Date): string {
+  return DateTime.fromJSDate(date).toUTC().toFormat("yyyyMMdd'T'HHmmss'Z'");
+}
+
+/**
+ * Get the event end time
+ */
+function getEventEnd(event: CalendarEvent): Date {
+  return new Date(event.start.getTime() + event.durationMinutes * MINUTE_MS);
+}
+
+/**
+ * Describe an instant in each of the given zones, one line per zone
+ * @param start The instant
+ * @param timezones Zones to list (zones outside Earth's calendar, e.g. Mars sites, use their own clock)
+ * @returns Multi-line description
+ */
+export function describeTimeAcrossZones(start: Date, timezones: Timezone[]): string {
+  const instant = DateTime.fromJSDate(start);
+  return timezones
+    .map(tz => {
+      const label = tz.city || tz.name;
+      const system = getTimeSystem(tz.id);
+      if (!system.usesEarthCalendar) {
+        return `${label}: ${system.format(start, tz.id)}`;
+      }
+      const local = instant.setZone(tz.id);
+      return `${label}: ${local.toFormat('ccc d LLL yyyy, HH:mm')} ${local.offsetNameShort || local.toFormat('ZZ')}`;
+    })
+    .join('\n');
+}
+
+/**
+ * Generate an iCalendar (.ics) document containing a single VEVENT
+ * @param event The event to export
+ * @returns The document, CRLF-delimited and folded
+ */
+export function createICalEvent(event: CalendarEvent): string {
+  const end = getEventEnd(event);
+  const start = DateTime.fromJSDate(event.start).setZone(event.timezone);
+  const localEnd = DateTime.fromJSDate(end).setZone(event.timezone);
+  const uid = `${event.start.getTime()}-${Math.random().toString(36).slice(2, 10)}@timezonepulse.com`;
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    ...buildVTimezone(event.timezone, event.start, end),
+    'BEGIN:VEVENT',
+    `UID:${uid}`,
+    `DTSTAMP:${formatUtcDateTime(new Date())}`,
+    `DTSTART;TZID=${event.timezone}:${start.toFormat("yyyyMMdd'T'HHmmss")}`,
+    `DTEND;TZID=${event.timezone}:${localEnd.toFormat("yyyyMMdd'T'HHmmss")}`,
+    `SUMMARY:${escapeICalText(event.title)}`,
+    ...(event.description ? [`DESCRIPTION:${escapeICalText(event.description)}`] : []),
+    ...(event.url ? [`URL:${event.url}`] : []),
+    'END:VEVENT',
+    'END:VCALENDAR'
+  ];
+
+  return lines.map(foldICalLine).join(CRLF) + CRLF;
+}
+
+/**
+ * Build a Google Calendar "add event" URL
+ * @param event The event to add
+ * @returns The URL
+ */
+export function getGoogleCalendarUrl(event: CalendarEvent): string {
+  const params = new URLSearchParams({
+    action: 'TEMPLATE',
+    text: event.title,
+    dates: `${formatUtcDateTime(event.start)}/${formatUtcDateTime(getEventEnd(event))}`,
+    ctz: event.timezone
+  });
+  if (event.description) params.set('details', event.description);
+  return `https://calendar.google.com/calendar/render?${params.toString()}`;
+}
+
+/**
+ * Build an Outlook.com "add event" URL
+ * @param event The event to add
+ * @returns The URL
+ */
+export function getOutlookCalendarUrl(event: CalendarEvent): string {
+  const params = new URLSearchParams({
+    path: '/calendar/action/compose',
+    rru: 'addevent',
+    subject: event.title,
+    startdt: DateTime.fromJSDate(event.start).toUTC().toISO({ suppressMilliseconds: true }) || '',
+    enddt: DateTime.fromJSDate(getEventEnd(event)).toUTC().toISO({ suppressMilliseconds: true }) || ''
+  });
+  if (event.description) params.set('body', event.description);
+  return `https://outlook.live.com/calendar/0/deeplink/compose?${params.toString()}`;
+}
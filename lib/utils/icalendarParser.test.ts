@@ -0,0 +1,135 @@
+import { describe, expect, it } from 'vitest';
+import { expandImportedEvents, parseICalendar } from './icalendarParser';
+
+/**
+ * Wrap VEVENT bodies in a CRLF-delimited VCALENDAR
+ */
+function calendar(...events: string[][]): string {
+  const lines = ['BEGIN:VCALENDAR', 'VERSION:2.0'];
+  events.forEach(event => lines.push('BEGIN:VEVENT', ...event, 'END:VEVENT'));
+  lines.push('END:VCALENDAR');
+  return lines.join('\r\n') + '\r\n';
+}
+
+const utc = (iso: string) => new Date(iso);
+const starts = (occurrences: { start: Date }[]) => occurrences.map(occurrence => occurrence.start.toISOString());
+
+describe('parseICalendar', () => {
+  it('reads timed events with folded, escaped text and nested components', () => {
+    const [event] = parseICalendar(calendar([
+      'UID:standup@example.com',
+      'SUMMARY:Standup\\, then',
+      '  planning',
+      'DTSTART;TZID=America/New_York:20261019T093000',
+      'DTEND;TZID=America/New_York:20261019T100000',
+      'BEGIN:VALARM',
+      'TRIGGER:-PT15M',
+      'SUMMARY:Reminder',
+      'END:VALARM'
+    ]), 'work');
+
+    expect(event).toMatchObject({
+      id: 'work:standup@example.com:master',
+      title: 'Standup, then planning',
+      allDay: false,
+      start: { local: '2026-10-19T09:30:00', zone: 'America/New_York' },
+      duration: { days: 0, milliseconds: 30 * 60 * 1000 }
+    });
+  });
+
+  it('reads all-day events and maps Windows zone names', () => {
+    const events = parseICalendar(calendar(
+      ['UID:offsite', 'SUMMARY:Offsite', 'DTSTART;VALUE=DATE:20261020', 'DTEND;VALUE=DATE:20261022'],
+      ['UID:review', 'SUMMARY:Review', 'DTSTART;TZID="Eastern Standard Time":20261021T140000', 'DURATION:PT1H']
+    ), 'work');
+
+    expect(events[0]).toMatchObject({ allDay: true, start: { local: '2026-10-20' }, duration: { days: 2, milliseconds: 0 } });
+    expect(events[1]).toMatchObject({ start: { zone: 'America/New_York' }, duration: { days: 0, milliseconds: 60 * 60 * 1000 } });
+  });
+
+  it('skips cancelled events', () => {
+    const events = parseICalendar(calendar(
+      ['UID:a', 'SUMMARY:Kept', 'DTSTART:20261019T120000Z'],
+      ['UID:b', 'SUMMARY:Dropped', 'STATUS:CANCELLED', 'DTSTART:20261019T130000Z']
+    ), 'work');
+    expect(events.map(event => event.title)).toEqual(['Kept']);
+  });
+});
+
+describe('expandImportedEvents', () => {
+  it('expands weekly rules with BYDAY and COUNT', () => {
+    const events = parseICalendar(calendar([
+      'UID:sync',
+      'SUMMARY:Sync',
+      'DTSTART;TZID=Europe/London:20261019T090000',
+      'DURATION:PT30M',
+      'RRULE:FREQ=WEEKLY;BYDAY=MO,WE;COUNT=3'
+    ]), 'work');
+
+    const occurrences = expandImportedEvents(events, utc('2026-10-01T00:00:00Z'), utc('2026-12-01T00:00:00Z'), 'UTC');
+    expect(starts(occurrences)).toEqual(['2026-10-19T08:00:00.000Z', '2026-10-21T08:00:00.000Z', '2026-10-26T09:00:00.000Z']);
+    expect(occurrences[0].end.toISOString()).toBe('2026-10-19T08:30:00.000Z');
+  });
+
+  it('keeps the wall time when a series crosses a DST change', () => {
+    const events = parseICalendar(calendar([
+      'UID:weekly',
+      'DTSTART;TZID=America/New_York:20261025T090000',
+      'RRULE:FREQ=WEEKLY;UNTIL=20261108T235959Z'
+    ]), 'work');
+
+    const occurrences = expandImportedEvents(events, utc('2026-10-01T00:00:00Z'), utc('2026-12-01T00:00:00Z'), 'UTC');
+    expect(starts(occurrences)).toEqual(['2026-10-25T13:00:00.000Z', '2026-11-01T14:00:00.000Z', '2026-11-08T14:00:00.000Z']);
+  });
+
+  it('resolves ordinal weekdays in monthly rules', () => {
+    const events = parseICalendar(calendar([
+      'UID:retro',
+      'DTSTART:20260130T160000Z',
+      'RRULE:FREQ=MONTHLY;BYDAY=-1FR;COUNT=3'
+    ]), 'work');
+
+    const occurrences = expandImportedEvents(events, utc('2026-01-01T00:00:00Z'), utc('2027-01-01T00:00:00Z'), 'UTC');
+    expect(starts(occurrences)).toEqual(['2026-01-30T16:00:00.000Z', '2026-02-27T16:00:00.000Z', '2026-03-27T16:00:00.000Z']);
+  });
+
+  it('applies EXDATE, RDATE and modified instances', () => {
+    const events = parseICalendar(calendar(
+      [
+        'UID:daily',
+        'SUMMARY:Daily',
+        'DTSTART;TZID=Asia/Tokyo:20261019T100000',
+        'RRULE:FREQ=DAILY;COUNT=4',
+        'EXDATE;TZID=Asia/Tokyo:20261020T100000',
+        'RDATE;TZID=Asia/Tokyo:20261025T150000'
+      ],
+      [
+        'UID:daily',
+        'SUMMARY:Daily (moved)',
+        'RECURRENCE-ID;TZID=Asia/Tokyo:20261021T100000',
+        'DTSTART;TZID=Asia/Tokyo:20261021T140000'
+      ]
+    ), 'work');
+
+    const occurrences = expandImportedEvents(events, utc('2026-10-18T00:00:00Z'), utc('2026-10-31T00:00:00Z'), 'UTC');
+    expect(occurrences.map(occurrence => [occurrence.start.toISOString(), occurrence.title])).toEqual([
+      ['2026-10-19T01:00:00.000Z', 'Daily'],
+      ['2026-10-21T05:00:00.000Z', 'Daily (moved)'],
+      ['2026-10-22T01:00:00.000Z', 'Daily'],
+      ['2026-10-25T06:00:00.000Z', 'Daily']
+    ]);
+  });
+
+  it('places all-day and floating events in the viewer zone', () => {
+    const events = parseICalendar(calendar(
+      ['UID:holiday', 'DTSTART;VALUE=DATE:20261026'],
+      ['UID:lunch', 'DTSTART:20261026T120000', 'DURATION:PT1H']
+    ), 'home');
+
+    const occurrences = expandImportedEvents(events, utc('2026-10-25T00:00:00Z'), utc('2026-10-28T00:00:00Z'), 'Asia/Kolkata');
+    expect(occurrences.map(occurrence => [occurrence.start.toISOString(), occurrence.end.toISOString(), occurrence.allDay])).toEqual([
+      ['2026-10-25T18:30:00.000Z', '2026-10-26T18:30:00.000Z', true],
+      ['2026-10-26T06:30:00.000Z', '2026-10-26T07:30:00.000Z', false]
+    ]);
+  });
+});
@@ -0,0 +1,574 @@
+import { DateTime } from 'luxon';
+import { getCanonicalTimezoneId, isValidTimezone } from './timezone';
+
+/**
+ * A date or date-time value from an iCalendar file.
+ * `local` is the wall time (yyyy-MM-dd for dates, yyyy-MM-ddTHH:mm:ss otherwise);
+ * `zone` is an IANA zone, 'UTC', or null for floating values.
+ */
+export interface ICalDateValue {
+  local: string;
+  zone: string | null;
+}
+
+/**
+ * Supported subset of an RRULE (RFC 5545 section 3.3.10)
+ */
+export interface RecurrenceRule {
+  freq: 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+  interval: number;
+  count?: number;
+  until?: ICalDateValue;
+  byDay?: { weekday: number; ordinal?: number }[]; // Luxon weekday (1=Mon..7=Sun)
+  byMonthDay?: number[];
+  byMonth?: number[];
+  bySetPos?: number[];
+  weekStart: number;
+}
+
+/**
+ * An event imported from an .ics file (recurring events are stored once, unexpanded)
+ */
+export interface ImportedEvent {
+  id: string;
+  uid: string;
+  calendarId: string;
+  title: string;
+  allDay: boolean;
+  start: ICalDateValue;
+  duration: { days: number; milliseconds: number };
+  rrule?: RecurrenceRule;
+  rdates?: ICalDateValue[];
+  exdates?: ICalDateValue[];
+}
+
+/**
+ * A single concrete occurrence of an imported event
+ */
+export interface EventOccurrence {
+  eventId: string;
+  title: string;
+  start: Date;
+  end: Date;
+  allDay: boolean;
+}
+
+interface ContentLine {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+// Stop runaway expansion of rules without COUNT/UNTIL that started long ago
+const MAX_RECURRENCE_PERIODS = 20000;
+
+const WEEKDAY_CODES: Record<string, number> = { MO: 1, TU: 2, WE: 3, TH: 4, FR: 5, SA: 6, SU: 7 };
+
+// Windows zone names used by Outlook/Exchange exports
+const WINDOWS_ZONES: Record<string, string> = {
+  'Dateline Standard Time': 'Etc/GMT+12',
+  'Hawaiian Standard Time': 'Pacific/Honolulu',
+  'Alaskan Standard Time': 'America/Anchorage',
+  'Pacific Standard Time': 'America/Los_Angeles',
+  'Mountain Standard Time': 'America/Denver',
+  'US Mountain Standard Time': 'America/Phoenix',
+  'Central Standard Time': 'America/Chicago',
+  'Central Standard Time (Mexico)': 'America/Mexico_City',
+  'Eastern Standard Time': 'America/New_York',
+  'Atlantic Standard Time': 'America/Halifax',
+  'Newfoundland Standard Time': 'America/St_Johns',
+  'E. South America Standard Time': 'America/Sao_Paulo',
+  'Argentina Standard Time': 'America/Argentina/Buenos_Aires',
+  'UTC': 'Etc/UTC',
+  'GMT Standard Time': 'Europe/London',
+  'Greenwich Standard Time': 'Atlantic/Reykjavik',
+  'W. Europe Standard Time': 'Europe/Berlin',
+  'Romance Standard Time': 'Europe/Paris',
+  'Central Europe Standard Time': 'Europe/Budapest',
+  'Central European Standard Time': 'Europe/Warsaw',
+  'E. Europe Standard Time': 'Europe/Chisinau',
+  'FLE Standard Time': 'Europe/Kiev',
+  'GTB Standard Time': 'Europe/Bucharest',
+  'Russian Standard Time': 'Europe/Moscow',
+  'Israel Standard Time': 'Asia/Jerusalem',
+  'South Africa Standard Time': 'Africa/Johannesburg',
+  'Egypt Standard Time': 'Africa/Cairo',
+  'Arabian Standard Time': 'Asia/Dubai',
+  'India Standard Time': 'Asia/Kolkata',
+  'China Standard Time': 'Asia/Shanghai',
+  'Singapore Standard Time': 'Asia/Singapore',
+  'Tokyo Standard Time': 'Asia/Tokyo',
+  'Korea Standard Time': 'Asia/Seoul',
+  'AUS Eastern Standard Time': 'Australia/Sydney',
+  'E. Australia Standard Time': 'Australia/Brisbane',
+  'New Zealand Standard Time': 'Pacific/Auckland'
+};
+
+/**
+ * Unfold content lines (RFC 5545 section 3.1)
+ */
+function unfoldLines(text: string): string[] {
+  return text
+    .replace(/\r\n|\r/g, '\n')
+    .replace(/\n[ \t]/g, '')
+    .split('\n')
+    .filter(line => line.trim() !== '');
+}
+
+/**
+ * Split a content line into name, parameters and value, honouring quoted parameter values
+ */
+function parseContentLine(line: string): ContentLine | null {
+  let inQuotes = false;
+  let nameEnd = -1;
+  let valueStart = -1;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"') inQuotes = !inQuotes;
+    if (inQuotes) continue;
+    if (char === ';' && nameEnd === -1) nameEnd = i;
+    if (char === ':') {
+      valueStart = i + 1;
+      if (nameEnd === -1) nameEnd = i;
+      break;
+    }
+  }
+  if (valueStart === -1) return null;
+
+  const params: Record<string, string> = {};
+  const paramText = line.slice(nameEnd, valueStart - 1);
+  const paramPattern = /;([^=;:]+)=("[^"]*"|[^;:]*)/g;
+  let match: RegExpExecArray | null;
+  while ((match = paramPattern.exec(paramText)) !== null) {
+    params[match[1].toUpperCase()] = match[2].replace(/^"|"$/g, '');
+  }
+
+  return {
+    name: line.slice(0, nameEnd).toUpperCase(),
+    params,
+    value: line.slice(valueStart)
+  };
+}
+
+/**
+ * Unescape a TEXT value (RFC 5545 section 3.3.11)
+ */
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, char: string) => (char === 'n' || char === 'N' ? '\n' : char));
+}
+
+/**
+ * Map a TZID parameter to an IANA zone.
+ * Handles IANA names, legacy aliases, Windows names and prefixed ids such as
+ * "/mozilla.org/20050126_1/America/New_York".
+ */
+function resolveTzid(tzid: string | undefined): string | null {
+  if (!tzid) return null;
+  const trimmed = tzid.trim();
+  if (WINDOWS_ZONES[trimmed]) return WINDOWS_ZONES[trimmed];
+
+  const parts = trimmed.split('/').filter(Boolean);
+  for (let i = 0; i < parts.length; i++) {
+    const candidate = getCanonicalTimezoneId(parts.slice(i).join('/'));
+    if (isValidTimezone(candidate)) return candidate;
+  }
+  return null;
+}
+
+/**
+ * Parse a DATE or DATE-TIME value
+ * @returns The value, or null if it can't be parsed
+ */
+function parseDateValue(value: string, params: Record<string, string>): ICalDateValue | null {
+  const match = value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/i);
+  if (!match) return null;
+  const [, year, month, day, hour, minute, second, utc] = match;
+
+  if (params.VALUE === 'DATE' || hour === undefined) {
+    return { local: `${year}-${month}-${day}`, zone: null };
+  }
+  return {
+    local: `${year}-${month}-${day}T${hour}:${minute}:${second}`,
+    zone: utc ? 'UTC' : resolveTzid(params.TZID)
+  };
+}
+
+/**
+ * Parse a comma-separated list of DATE/DATE-TIME values (EXDATE, RDATE)
+ */
+function parseDateList(value: string, params: Record<string, string>): ICalDateValue[] {
+  return value
+    .split(',')
+    .map(part => parseDateValue(part, params))
+    .filter((date): date is ICalDateValue => date !== null);
+}
+
+/**
+ * Parse a DURATION value (e.g. P1D, PT1H30M, -PT15M)
+ */
+function parseDuration(value: string): { days: number; milliseconds: number } | null {
+  const match = value.trim().match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/i);
+  if (!match) return null;
+  const sign = match[1] === '-' ? -1 : 1;
+  const [weeks, days, hours, minutes, seconds] = match.slice(2).map(part => (part ? parseInt(part, 10) : 0));
+  return {
+    days: sign * (weeks * 7 + days),
+    milliseconds: sign * ((hours * 60 + minutes) * 60 + seconds) * 1000
+  };
+}
+
+/**
+ * Parse the supported RRULE parts
+ */
+function parseRecurrenceRule(value: string, startParams: Record<string, string>): RecurrenceRule | null {
+  const parts: Record<string, string> = {};
+  value.split(';').forEach(part => {
+    const [key, partValue] = part.split('=');
+    if (key && partValue) parts[key.toUpperCase()] = partValue.toUpperCase();
+  });
+
+  const freq = parts.FREQ;
+  if (freq !== 'DAILY' && freq !== 'WEEKLY' && freq !== 'MONTHLY' && freq !== 'YEARLY') {
+    return null;
+  }
+
+  const numberList = (list?: string) => list
+    ? list.split(',').map(n => parseInt(n, 10)).filter(n => !isNaN(n) && n !== 0)
+    : undefined;
+
+  const byDay = parts.BYDAY
+    ? parts.BYDAY.split(',')
+        .map(entry => entry.match(/^([+-]?\d{1,2})?(MO|TU|WE|TH|FR|SA|SU)$/))
+        .filter((entry): entry is RegExpMatchArray => entry !== null)
+        .map(entry => ({
+          weekday: WEEKDAY_CODES[entry[2]],
+          ...(entry[1] ? { ordinal: parseInt(entry[1], 10) } : {})
+        }))
+    : undefined;
+
+  // UNTIL is a UTC date-time when DTSTART has a zone, otherwise it matches DTSTART
+  const until = parts.UNTIL ? parseDateValue(parts.UNTIL, startParams.TZID && !parts.UNTIL.endsWith('Z') ? startParams : {}) : null;
+
+  return {
+    freq,
+    interval: Math.max(1, parseInt(parts.INTERVAL || '1', 10) || 1),
+    ...(parts.COUNT ? { count: Math.max(0, parseInt(parts.COUNT, 10) || 0) } : {}),
+    ...(until ? { until } : {}),
+    ...(byDay && byDay.length > 0 ? { byDay } : {}),
+    ...(parts.BYMONTHDAY ? { byMonthDay: numberList(parts.BYMONTHDAY) } : {}),
+    ...(parts.BYMONTH ? { byMonth: numberList(parts.BYMONTH) } : {}),
+    ...(parts.BYSETPOS ? { bySetPos: numberList(parts.BYSETPOS) } : {}),
+    weekStart: WEEKDAY_CODES[parts.WKST] || 1
+  };
+}
+
+/**
+ * Parse the VEVENTs in an iCalendar document.
+ * Modified instances (RECURRENCE-ID) become standalone events and are excluded from their series;
+ * cancelled events are skipped.
+ * @param text Contents of an .ics file
+ * @param calendarId Identifier of the import the events belong to
+ * @returns The events, unexpanded
+ */
+export function parseICalendar(text: string, calendarId: string): ImportedEvent[] {
+  const events: ImportedEvent[] = [];
+  const overrides: { uid: string; recurrenceId: ICalDateValue }[] = [];
+  let current: ContentLine[] | null = null;
+  let nestedDepth = 0;
+
+  const finishEvent = (lines: ContentLine[]) => {
+    const get = (name: string) => lines.find(line => line.name === name);
+    const startLine = get('DTSTART');
+    const start = startLine ? parseDateValue(startLine.value, startLine.params) : null;
+    if (!start || get('STATUS')?.value.toUpperCase() === 'CANCELLED') return;
+
+    const uid = get('UID')?.value || `${calendarId}-${events.length}`;
+    const allDay = !start.local.includes('T');
+    const endLine = get('DTEND');
+    const end = endLine ? parseDateValue(endLine.value, endLine.params) : null;
+    const durationLine = get('DURATION');
+
+    let duration = { days: allDay ? 1 : 0, milliseconds: 0 };
+    if (end) {
+      if (allDay) {
+        const days = DateTime.fromISO(end.local).diff(DateTime.fromISO(start.local), 'days').days;
+        duration = { days: Math.max(1, Math.round(days)), milliseconds: 0 };
+      } else {
+        const startMs = DateTime.fromISO(start.local, { zone: start.zone || 'utc' }).toMillis();
+        const endMs = DateTime.fromISO(end.local, { zone: end.zone || start.zone || 'utc' }).toMillis();
+        duration = { days: 0, milliseconds: Math.max(0, endMs - startMs) };
+      }
+    } else if (durationLine) {
+      duration = parseDuration(durationLine.value) || duration;
+    }
+
+    const recurrenceIdLine = get('RECURRENCE-ID');
+    if (recurrenceIdLine) {
+      const recurrenceId = parseDateValue(recurrenceIdLine.value, recurrenceIdLine.params);
+      if (recurrenceId) overrides.push({ uid, recurrenceId });
+    }
+
+    const rruleLine = get('RRULE');
+    const rrule = rruleLine && !recurrenceIdLine ? parseRecurrenceRule(rruleLine.value, startLine!.params) : null;
+    const rdates = lines.filter(line => line.name === 'RDATE').flatMap(line => parseDateList(line.value, line.params));
+    const exdates = lines.filter(line => line.name === 'EXDATE').flatMap(line => parseDateList(line.value, line.params));
+    const summary = get('SUMMARY');
+
+    events.push({
+      id: `${calendarId}:${uid}:${recurrenceIdLine ? recurrenceIdLine.value : 'master'}`,
+      uid,
+      calendarId,
+      title: summary ? unescapeText(summary.value) : 'Busy',
+      allDay,
+      start,
+      duration,
+      ...(rrule ? { rrule } : {}),
+      ...(rdates.length > 0 ? { rdates } : {}),
+      ...(exdates.length > 0 ? { exdates } : {})
+    });
+  };
+
+  for (const rawLine of unfoldLines(text)) {
+    const line = parseContentLine(rawLine);
+    if (!line) continue;
+    const value = line.value.trim().toUpperCase();
+
+    if (line.name === 'BEGIN' && value === 'VEVENT') {
+      current = [];
+      nestedDepth = 0;
+    } else if (current && line.name === 'BEGIN') {
+      nestedDepth++; // e.g. VALARM inside the event
+    } else if (current && line.name === 'END' && nestedDepth > 0) {
+      nestedDepth--;
+    } else if (current && line.name === 'END' && value === 'VEVENT') {
+      finishEvent(current);
+      current = null;
+    } else if (current && nestedDepth === 0) {
+      current.push(line);
+    }
+  }
+
+  // Modified instances replace the generated occurrence of their series
+  overrides.forEach(({ uid, recurrenceId }) => {
+    const master = events.find(event => event.uid === uid && event.rrule);
+    if (master) {
+      master.exdates = [...(master.exdates || []), recurrenceId];
+    }
+  });
+
+  return events;
+}
+
+/**
+ * Resolve a value to a DateTime; floating values use the given zone
+ */
+function toDateTime(value: ICalDateValue, floatingZone: string): DateTime {
+  return DateTime.fromISO(value.local, { zone: value.zone || floatingZone });
+}
+
+/**
+ * Get the dates within a month that match BYMONTHDAY/BYDAY
+ */
+function getMonthCandidates(month: DateTime, rule: RecurrenceRule, defaultDay: number): DateTime[] {
+  const daysInMonth = month.daysInMonth || 31;
+  let days: number[];
+
+  if (rule.byMonthDay) {
+    days = rule.byMonthDay
+      .map(day => (day > 0 ? day : daysInMonth + day + 1))
+      .filter(day => day >= 1 && day <= daysInMonth);
+  } else if (rule.byDay) {
+    days = [];
+  } else {
+    days = defaultDay <= daysInMonth ? [defaultDay] : [];
+  }
+
+  if (rule.byDay) {
+    const weekdayMatches: number[] = [];
+    rule.byDay.forEach(({ weekday, ordinal }) => {
+      const matching: number[] = [];
+      for (let day = 1; day <= daysInMonth; day++) {
+        if (month.set({ day }).weekday === weekday) matching.push(day);
+      }
+      if (ordinal === undefined) {
+        weekdayMatches.push(...matching);
+      } else {
+        const pick = ordinal > 0 ? matching[ordinal - 1] : matching[matching.length + ordinal];
+        if (pick !== undefined) weekdayMatches.push(pick);
+      }
+    });
+    // BYDAY limits BYMONTHDAY when both are present
+    days = rule.byMonthDay ? days.filter(day => weekdayMatches.includes(day)) : weekdayMatches;
+  }
+
+  return days.map(day => month.set({ day }));
+}
+
+/**
+ * Generate the candidate start times for one recurrence period
+ * @param dtstart Series start (wall time in the event's zone)
+ * @param rule The recurrence rule
+ * @param period Index of the period (0 is the period containing DTSTART)
+ */
+function getPeriodCandidates(dtstart: DateTime, rule: RecurrenceRule, period: number): DateTime[] {
+  const time = { hour: dtstart.hour, minute: dtstart.minute, second: dtstart.second, millisecond: 0 };
+  let candidates: DateTime[];
+
+  switch (rule.freq) {
+    case 'DAILY': {
+      const day = dtstart.plus({ days: period * rule.interval });
+      candidates = [day];
+      if (rule.byDay) candidates = candidates.filter(c => rule.byDay!.some(d => d.weekday === c.weekday));
+      if (rule.byMonthDay) candidates = candidates.filter(c => rule.byMonthDay!.includes(c.day) || rule.byMonthDay!.includes(c.day - (c.daysInMonth || 31) - 1));
+      break;
+    }
+    case 'WEEKLY': {
+      // Weeks begin on WKST
+      const offset = (dtstart.weekday - rule.weekStart + 7) % 7;
+      const weekStart = dtstart.minus({ days: offset }).plus({ weeks: period * rule.interval });
+      const weekdays = rule.byDay ? rule.byDay.map(d => d.weekday) : [dtstart.weekday];
+      candidates = weekdays.map(weekday => weekStart.plus({ days: (weekday - rule.weekStart + 7) % 7 }));
+      break;
+    }
+    case 'MONTHLY': {
+      const month = dtstart.startOf('month').plus({ months: period * rule.interval });
+      candidates = getMonthCandidates(month, rule, dtstart.day);
+      break;
+    }
+    case 'YEARLY': {
+      const year = dtstart.startOf('year').plus({ years: period * rule.interval });
+      const months = rule.byMonth || [dtstart.month];
+      candidates = months.flatMap(month => {
+        const monthStart = year.set({ month });
+        // Without BYMONTH/BYMONTHDAY/BYDAY the series repeats on DTSTART's date
+        return getMonthCandidates(monthStart, rule, dtstart.day);
+      });
+      break;
+    }
+  }
+
+  if (rule.byMonth && rule.freq !== 'YEARLY') {
+    candidates = candidates.filter(c => rule.byMonth!.includes(c.month));
+  }
+
+  candidates = candidates
+    .map(c => c.set(time))
+    .sort((a, b) => a.toMillis() - b.toMillis());
+
+  if (rule.bySetPos) {
+    const positioned = rule.bySetPos
+      .map(pos => (pos > 0 ? candidates[pos - 1] : candidates[candidates.length + pos]))
+      .filter((c): c is DateTime => c !== undefined);
+    candidates = positioned.sort((a, b) => a.toMillis() - b.toMillis());
+  }
+
+  return candidates;
+}
+
+/**
+ * Get the end of an occurrence from its start
+ */
+function getOccurrenceEnd(start: DateTime, event: ImportedEvent): DateTime {
+  return start.plus({ days: event.duration.days }).plus({ milliseconds: event.duration.milliseconds });
+}
+
+/**
+ * Expand imported events into the occurrences that overlap a time range.
+ * Floating times and all-day events are placed in `floatingZone` (the viewer's timezone).
+ * @param events Imported events
+ * @param rangeStart Start of the range
+ * @param rangeEnd End of the range
+ * @param floatingZone Zone used for values without a timezone
+ * @returns Occurrences sorted by start time
+ */
+export function expandImportedEvents(
+  events: ImportedEvent[],
+  rangeStart: Date,
+  rangeEnd: Date,
+  floatingZone: string
+): EventOccurrence[] {
+  const occurrences: EventOccurrence[] = [];
+  const rangeStartMs = rangeStart.getTime();
+  const rangeEndMs = rangeEnd.getTime();
+
+  events.forEach(event => {
+    const dtstart = toDateTime(event.start, floatingZone);
+    if (!dtstart.isValid) return;
+
+    const excluded = new Set((event.exdates || []).map(date => {
+      const dt = toDateTime(date, dtstart.zoneName || floatingZone);
+      // EXDATE as a DATE excludes the whole day of the series time
+      return date.local.includes('T') ? dt.toMillis() : dt.set({ hour: dtstart.hour, minute: dtstart.minute, second: dtstart.second }).toMillis();
+    }));
+
+    const addOccurrence = (start: DateTime) => {
+      if (excluded.has(start.toMillis())) return;
+      const end = getOccurrenceEnd(start, event);
+      // Zero-length events still block the slot they start in
+      const endMs = Math.max(end.toMillis(), start.toMillis() + 1);
+      if (endMs > rangeStartMs && start.toMillis() < rangeEndMs) {
+        occurrences.push({
+          eventId: event.id,
+          title: event.title,
+          start: start.toJSDate(),
+          end: new Date(endMs),
+          allDay: event.allDay
+        });
+      }
+    };
+
+    const starts = new Map<number, DateTime>();
+    starts.set(dtstart.toMillis(), dtstart);
+    (event.rdates || []).forEach(date => {
+      const rdate = toDateTime(date, dtstart.zoneName || floatingZone);
+      if (rdate.isValid) starts.set(rdate.toMillis(), rdate);
+    });
+
+    const rule = event.rrule;
+    if (rule) {
+      const untilMs = rule.until
+        ? (rule.until.local.includes('T')
+            ? toDateTime(rule.until, dtstart.zoneName || floatingZone)
+            : toDateTime(rule.until, dtstart.zoneName || floatingZone).endOf('day')
+          ).toMillis()
+        : Infinity;
+      // Longest gap between occurrence starts that could still overlap the range
+      const lookBehindMs = (event.duration.days + 1) * 24 * 60 * 60 * 1000 + event.duration.milliseconds;
+      let generated = 0;
+
+      // Without COUNT, earlier periods don't affect the result, so skip straight to the range
+      let firstPeriod = 0;
+      if (rule.count === undefined) {
+        const unit = ({ DAILY: 'days', WEEKLY: 'weeks', MONTHLY: 'months', YEARLY: 'years' } as const)[rule.freq];
+        const elapsed = DateTime.fromMillis(rangeStartMs - lookBehindMs, { zone: dtstart.zone }).diff(dtstart, unit).get(unit);
+        firstPeriod = Math.max(0, Math.floor(elapsed / rule.interval) - 1);
+      }
+
+      for (let period = firstPeriod; period < firstPeriod + MAX_RECURRENCE_PERIODS; period++) {
+        const candidates = getPeriodCandidates(dtstart, rule, period);
+        let pastRange = false;
+
+        for (const candidate of candidates) {
+          const ms = candidate.toMillis();
+          if (ms < dtstart.toMillis()) continue;
+          if (ms > untilMs || (rule.count !== undefined && generated >= rule.count)) {
+            pastRange = true;
+            break;
+          }
+          generated++;
+          if (ms >= rangeEndMs) {
+            pastRange = true;
+            break;
+          }
+          if (ms + lookBehindMs >= rangeStartMs) starts.set(ms, candidate);
+        }
+
+        if (pastRange) break;
+      }
+    }
+
+    starts.forEach(addOccurrence);
+  });
+
+  return occurrences.sort((a, b) => a.start.getTime() - b.start.getTime());
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { DateTime } from 'luxon';
+import {
+  convertEarthToMarsTime,
+  convertMarsToEarthTime,
+  getMarsSolarData,
+  getTerrestrialTimeOffset,
+  type MarsTimeScale
+} from './mars-timezone';
+
+describe('getMarsSolarData', () => {
+  // Worked examples from the Mars24 algorithm page (Allison & McEwen 2000)
+  it('matches Mars24 example A (2000-01-06 00:00 UTC)', () => {
+    const solar = getMarsSolarData(DateTime.fromISO('2000-01-06T00:00:00Z'));
+    expect(solar.jdTT).toBeCloseTo(2451549.50074, 5);
+    expect(solar.solarLongitude).toBeCloseTo(277.18759, 4);
+    expect(solar.equationOfTime).toBeCloseTo(-5.18775, 4);
+    expect(solar.marsSolDate).toBeCloseTo(44795.99976, 5);
+    expect(solar.marsYear).toBe(24);
+  });
+
+  it('matches Mars24 example B (2004-01-03 13:46:31 UTC)', () => {
+    const solar = getMarsSolarData(DateTime.fromISO('2004-01-03T13:46:31Z'));
+    expect(solar.solarLongitude).toBeCloseTo(327.32, 2);
+    expect(solar.equationOfTime).toBeCloseTo(-12.7755, 3);
+  });
+});
+
+describe('getTerrestrialTimeOffset', () => {
+  it('adds the leap second at the start of 2017', () => {
+    expect(getTerrestrialTimeOffset(Date.UTC(2016, 11, 31, 23, 59, 59, 999))).toBeCloseTo(68.184, 6);
+    expect(getTerrestrialTimeOffset(Date.UTC(2017, 0, 1))).toBeCloseTo(69.184, 6);
+  });
+});
+
+describe('convertMarsToEarthTime', () => {
+  const instants = ['2021-02-18T20:55:00Z', '2026-10-18T12:00:00Z', '2030-06-01T03:30:15Z'];
+  const scales: MarsTimeScale[] = ['lmst', 'ltst'];
+
+  for (const scale of scales) {
+    it(`inverts convertEarthToMarsTime in ${scale.toUpperCase()}`, () => {
+      for (const iso of instants) {
+        const earthTime = DateTime.fromISO(iso);
+        const mars = convertEarthToMarsTime(earthTime, 'Mars/Jezero', scale);
+        const roundTrip = convertMarsToEarthTime({ location: 'Mars/Jezero', ...mars, scale });
+
+        // Mars clocks truncate to the second, and a Mars second is ~1.027 Earth seconds
+        const difference = earthTime.toMillis() - roundTrip!.toMillis();
+        expect(difference).toBeGreaterThanOrEqual(-1);
+        expect(difference).toBeLessThan(1100);
+      }
+    });
+  }
+});
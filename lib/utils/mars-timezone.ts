@@ -7,14 +7,21 @@ const MARS_HOUR_IN_EARTH_SECONDS = 3699.37; // Mars hour = 1h 1m 39.37s
 const MARS_MINUTE_IN_EARTH_SECONDS = 61.6562; // Mars minute = 61.6562 Earth seconds
 const MARS_SECOND_IN_EARTH_SECONDS = 1.0276; // Mars second = 1.0276 Earth seconds
 
-// Add constants for calculating Mars Sol count
-const PERSEVERANCE_LANDING_DATE = DateTime.fromISO('2021-02-18T20:55:00Z'); // Landing time in UTC
 const SOL_DURATION_MS = MARS_SOL_TO_EARTH_DAY_RATIO * 24 * 60 * 60 * 1000; // Duration of one Mars sol in milliseconds
 
+/**
+ * A landed mission whose sols a location counts
+ */
+export interface MarsMission {
+  name: string;       // Shown with the sol number, e.g. "Curiosity Sol 4000"
+  epoch: string;      // Landing time (ISO 8601, UTC)
+  landingSol: 0 | 1;  // Number of the landing sol: Pathfinder and the MER rovers started at 1, later missions at 0
+}
+
 /**
  * Mars settlement/location information
  */
-interface MarsLocation {
+export interface MarsLocation {
   id: string;
   name: string;
   city: string;
@@ -25,6 +32,8 @@ interface MarsLocation {
   roverName?: string; // Name of rover if present
   roverMission?: string; // Mission details if rover present
   roverLandingDate?: string; // When the rover landed
+  mission?: MarsMission; // Sols are counted from this mission's landing; otherwise the Mars Sol Date is shown
+  isCustom?: boolean; // Defined by the user rather than built in
 }
 
 /**
@@ -41,7 +50,8 @@ const MARS_LOCATIONS: MarsLocation[] = [
     roverPresent: false,
     roverName: 'Perseverance',
     roverMission: 'NASA Mars 2020 Mission',
-    roverLandingDate: 'February 18, 2021'
+    roverLandingDate: 'February 18, 2021',
+    mission: { name: 'Perseverance', epoch: '2021-02-18T20:55:00Z', landingSol: 0 }
   },
   {
     id: 'Mars/Elysium',
@@ -49,7 +59,8 @@ const MARS_LOCATIONS: MarsLocation[] = [
     city: 'Elysium Planitia',
     longitude: 135.97, // East longitude
     latitude: 4.5, // North latitude
-    description: 'InSight landing site (2018)'
+    description: 'InSight landing site (2018)',
+    mission: { name: 'InSight', epoch: '2018-11-26T19:52:59Z', landingSol: 0 }
   },
   {
     id: 'Mars/Gale',
@@ -57,7 +68,8 @@ const MARS_LOCATIONS: MarsLocation[] = [
     city: 'Gale Crater',
     longitude: 137.44, // East longitude
     latitude: -5.08, // South latitude
-    description: 'Curiosity Rover landing site (2012)'
+    description: 'Curiosity Rover landing site (2012)',
+    mission: { name: 'Curiosity', epoch: '2012-08-06T05:17:57Z', landingSol: 0 }
   },
   {
     id: 'Mars/Olympus',
@@ -85,6 +97,40 @@ const MARS_LOCATIONS: MarsLocation[] = [
   }
 ];
 
+// User-defined locations, kept in sync by the Mars locations store
+let customMarsLocations: MarsLocation[] = [];
+
+/**
+ * Replace the user-defined Mars locations
+ * @param locations Custom locations (ids must start with "Mars/")
+ */
+export function setCustomMarsLocations(locations: MarsLocation[]): void {
+  customMarsLocations = locations
+    .filter(location => !MARS_LOCATIONS.some(builtIn => builtIn.id === location.id))
+    .map(location => ({ ...location, isCustom: true }));
+}
+
+/**
+ * Check whether a Mars location was defined by the user
+ */
+export function isCustomMarsLocation(id: string): boolean {
+  return customMarsLocations.some(location => location.id === id);
+}
+
+/**
+ * Get all Mars locations, built-in and custom
+ */
+export function getMarsLocations(): MarsLocation[] {
+  return [...MARS_LOCATIONS, ...customMarsLocations];
+}
+
+/**
+ * Look up a Mars location by id
+ */
+export function getMarsLocation(id: string): MarsLocation | undefined {
+  return getMarsLocations().find(location => location.id === id);
+}
+
 /**
  * Calculate the current Mars time for a specific Mars location
  * @param location The Mars location ID
@@ -92,7 +138,7 @@ const MARS_LOCATIONS: MarsLocation[] = [
  */
 export function getCurrentMarsTime(location: string): DateTime {
   // Find the location info
-  const marsLocation = MARS_LOCATIONS.find(loc => loc.id === location);
+  const marsLocation = getMarsLocation(location);
   if (!marsLocation) {
     console.error(`Unknown Mars location: ${location}`);
     return DateTime.now();
@@ -128,130 +174,499 @@ export function getCurrentMarsTime(location: string): DateTime {
   return DateTime.fromMillis(0); // Return epoch or handle error
 }
 
-/** Helper function to calculate Julian Date from UTC DateTime */
-function getJulianDate(dt: DateTime): number {
-  const utcDt = dt.toUTC();
-  const year = utcDt.year;
-  const month = utcDt.month;
-  const day = utcDt.day;
-  const hour = utcDt.hour;
-  const minute = utcDt.minute;
-  const second = utcDt.second;
-
-  // Formula for Julian Date calculation
-  const a = Math.floor((14 - month) / 12);
-  const y = year + 4800 - a;
-  const m = month + 12 * a - 3;
-
-  const julianDayNumber = day + Math.floor((153 * m + 2) / 5) + 365 * y + Math.floor(y / 4) - Math.floor(y / 100) + Math.floor(y / 400) - 32045;
-  const fractionOfDay = (hour - 12) / 24 + minute / 1440 + second / 86400;
-
-  return julianDayNumber + fractionOfDay;
+/**
+ * TAI-UTC (seconds) from each leap second onwards (IERS Bulletin C).
+ * Add new entries here when a leap second is announced.
+ */
+const LEAP_SECONDS: ReadonlyArray<readonly [number, number]> = [
+  [Date.UTC(1972, 0, 1), 10], [Date.UTC(1972, 6, 1), 11], [Date.UTC(1973, 0, 1), 12],
+  [Date.UTC(1974, 0, 1), 13], [Date.UTC(1975, 0, 1), 14], [Date.UTC(1976, 0, 1), 15],
+  [Date.UTC(1977, 0, 1), 16], [Date.UTC(1978, 0, 1), 17], [Date.UTC(1979, 0, 1), 18],
+  [Date.UTC(1980, 0, 1), 19], [Date.UTC(1981, 6, 1), 20], [Date.UTC(1982, 6, 1), 21],
+  [Date.UTC(1983, 6, 1), 22], [Date.UTC(1985, 6, 1), 23], [Date.UTC(1988, 0, 1), 24],
+  [Date.UTC(1990, 0, 1), 25], [Date.UTC(1991, 0, 1), 26], [Date.UTC(1992, 6, 1), 27],
+  [Date.UTC(1993, 6, 1), 28], [Date.UTC(1994, 6, 1), 29], [Date.UTC(1996, 0, 1), 30],
+  [Date.UTC(1997, 6, 1), 31], [Date.UTC(1999, 0, 1), 32], [Date.UTC(2006, 0, 1), 33],
+  [Date.UTC(2009, 0, 1), 34], [Date.UTC(2012, 6, 1), 35], [Date.UTC(2015, 6, 1), 36],
+  [Date.UTC(2017, 0, 1), 37]
+];
+
+// TT-TAI (seconds)
+const TT_TAI_SECONDS = 32.184;
+
+// Julian Date of the Unix epoch, and of the J2000 epoch (TT)
+const JD_UNIX_EPOCH = 2440587.5;
+const JD_J2000 = 2451545.0;
+
+// Perturbations by the other planets (Mars24 table B-3): amplitude (deg), period (Julian years), phase (deg)
+const PLANETARY_PERTURBERS: ReadonlyArray<readonly [number, number, number]> = [
+  [0.0071, 2.2353, 49.409],
+  [0.0057, 2.7543, 168.173],
+  [0.0039, 1.1177, 191.837],
+  [0.0037, 15.7866, 21.736],
+  [0.0021, 2.1354, 15.704],
+  [0.0020, 2.4694, 95.528],
+  [0.0018, 32.8493, 49.095]
+];
+
+const toRadians = (degrees: number) => degrees * Math.PI / 180;
+const normalizeDegrees = (degrees: number) => ((degrees % 360) + 360) % 360;
+const normalizeHours = (hours: number) => ((hours % 24) + 24) % 24;
+
+/**
+ * Get TT-UTC (seconds) at an instant. Dates before 1972 use the 1972 value.
+ * @param utcMillis Unix time in milliseconds
+ */
+export function getTerrestrialTimeOffset(utcMillis: number): number {
+  let taiMinusUtc = LEAP_SECONDS[0][1];
+  for (const [from, seconds] of LEAP_SECONDS) {
+    if (utcMillis < from) break;
+    taiMinusUtc = seconds;
+  }
+  return taiMinusUtc + TT_TAI_SECONDS;
+}
+
+/**
+ * Which solar time to show for Mars locations:
+ * - lmst: Local Mean Solar Time (the even-paced clock missions schedule by)
+ * - ltst: Local True Solar Time (follows the actual Sun, like a sundial)
+ */
+export type MarsTimeScale = 'lmst' | 'ltst';
+
+/**
+ * Intermediate values of the Mars24 algorithm (Allison & McEwen 2000) for an instant
+ */
+export interface MarsSolarData {
+  jdTT: number;              // Julian Date, Terrestrial Time
+  deltaJ2000: number;        // Days since J2000 (TT)
+  meanAnomaly: number;       // M (deg)
+  fictitiousMeanSun: number; // Angle of the Fictitious Mean Sun, alpha FMS (deg)
+  perturbers: number;        // PBS (deg)
+  equationOfCenter: number;  // nu - M (deg)
+  solarLongitude: number;    // Areocentric solar longitude Ls (deg)
+  equationOfTime: number;    // EOT (deg); LTST = LMST + EOT / 15
+  marsSolDate: number;       // MSD
+  coordinatedMarsTime: number; // MTC: mean solar time at the prime meridian (hours)
+  marsYear: number;          // Clancy numbering: MY 1 began at Ls 0 on 1955-04-11
+}
+
+/**
+ * Run the Mars24 algorithm for an Earth instant.
+ * Matches the Mars24 worked examples: 2000-01-06 00:00 UTC gives Ls 277.18758°,
+ * MSD 44795.99976; 2004-01-03 13:46:31 UTC gives Ls 327.32416°, EOT -12.7755°.
+ * @param earthDateTime The Earth instant
+ * @returns Solar longitude, equation of time, Mars Sol Date and the steps in between
+ */
+export function getMarsSolarData(earthDateTime: DateTime): MarsSolarData {
+  const utcMillis = earthDateTime.toMillis();
+
+  // A-1 to A-6: Julian Dates and time since J2000
+  const jdUT = JD_UNIX_EPOCH + utcMillis / 86400000;
+  const jdTT = jdUT + getTerrestrialTimeOffset(utcMillis) / 86400;
+  const deltaJ2000 = jdTT - JD_J2000;
+
+  // B-1 to B-5: position of Mars in its orbit
+  const meanAnomaly = normalizeDegrees(19.3871 + 0.52402073 * deltaJ2000);
+  const fictitiousMeanSun = normalizeDegrees(270.3871 + 0.524038496 * deltaJ2000);
+  const perturbers = PLANETARY_PERTURBERS.reduce(
+    (sum, [amplitude, period, phase]) => sum + amplitude * Math.cos(toRadians(0.985626 * deltaJ2000 / period + phase)),
+    0
+  );
+  const m = toRadians(meanAnomaly);
+  const equationOfCenter =
+    (10.691 + 3.0e-7 * deltaJ2000) * Math.sin(m) +
+    0.623 * Math.sin(2 * m) +
+    0.050 * Math.sin(3 * m) +
+    0.005 * Math.sin(4 * m) +
+    0.0005 * Math.sin(5 * m) +
+    perturbers;
+  const solarLongitude = normalizeDegrees(fictitiousMeanSun + equationOfCenter);
+
+  // Count the Ls 0 crossings since J2000 (which fell in MY 24) using the unwrapped longitude
+  const unwrappedLongitude = 270.3871 + 0.524038496 * deltaJ2000 + equationOfCenter;
+  const marsYear = 24 + Math.floor(unwrappedLongitude / 360);
+
+  // C-1 to C-3: equation of time and Mars mean time
+  const ls = toRadians(solarLongitude);
+  const equationOfTime = 2.861 * Math.sin(2 * ls) - 0.071 * Math.sin(4 * ls) + 0.002 * Math.sin(6 * ls) - equationOfCenter;
+  const marsSolDate = (deltaJ2000 - 4.5) / MARS_SOL_TO_EARTH_DAY_RATIO + 44796.0 - 0.0009626;
+  const coordinatedMarsTime = normalizeHours(24 * marsSolDate);
+
+  return {
+    jdTT,
+    deltaJ2000,
+    meanAnomaly,
+    fictitiousMeanSun,
+    perturbers,
+    equationOfCenter,
+    solarLongitude,
+    equationOfTime,
+    marsSolDate,
+    coordinatedMarsTime,
+    marsYear
+  };
 }
 
-// Constants for MSD calculation
-const JD_TT_OFFSET_SECONDS = 69.184; // Approximate leap seconds + 32.184s (TAI-UTC + TT-TAI) for recent dates
-const MSD_EPOCH_OFFSET = 44796.0; // Offset for MSD epoch relative to JD
-const MSD_CONSTANT = 0.00096; // Small constant in MSD formula
+// Local Mars Sol Date of each mission's landing, by epoch and longitude
+const landingSolDates = new Map<string, number>();
 
-// Calculate MSD for Perseverance Landing Date once
-const PERSEVERANCE_LANDING_JD_UT = getJulianDate(PERSEVERANCE_LANDING_DATE);
-const PERSEVERANCE_LANDING_JD_TT = PERSEVERANCE_LANDING_JD_UT + (JD_TT_OFFSET_SECONDS / 86400.0);
-const PERSEVERANCE_LANDING_MSD = (PERSEVERANCE_LANDING_JD_TT - 2451549.5) / MARS_SOL_TO_EARTH_DAY_RATIO + MSD_EPOCH_OFFSET - MSD_CONSTANT;
+/**
+ * Get the offset between a location's sol numbers and its whole local Mars Sol Dates
+ * (sol = floor(local MSD) - offset). Zero for locations without a mission.
+ */
+function getSolNumberOffset(location: MarsLocation): number {
+  if (!location.mission) {
+    return 0;
+  }
 
+  const { epoch, landingSol } = location.mission;
+  const key = `${epoch}@${location.longitude}`;
+  let landingSolDate = landingSolDates.get(key);
+  if (landingSolDate === undefined) {
+    landingSolDate = getMarsSolarData(DateTime.fromISO(epoch, { zone: 'utc' })).marsSolDate + location.longitude / 360;
+    landingSolDates.set(key, landingSolDate);
+  }
+  return Math.floor(landingSolDate) - landingSol;
+}
 
 /**
- * Convert an Earth DateTime object to its equivalent Mars Local Mean Solar Time (LMST) components and Sol number.
- * Uses Julian Date calculation for higher accuracy.
- * @param earthDateTime The Earth DateTime object to convert
- * @param location The Mars location ID
- * @returns An object containing Mars hours, minutes, seconds, and the Sol number relative to Perseverance landing.
+ * Number the sol at a location: by the location's mission if it has one,
+ * otherwise by the local Mars Sol Date. A sol runs from local mean midnight.
  */
-interface MarsTimeData {
+function getSolNumber(marsSolDate: number, location: MarsLocation): number {
+  return Math.floor(marsSolDate + location.longitude / 360) - getSolNumberOffset(location);
+}
+
+/**
+ * Convert a Mars Sol Date back to the Earth instant (inverse of Mars24 steps A-1 to C-2)
+ * @param marsSolDate MSD
+ */
+function marsSolDateToEarthTime(marsSolDate: number): DateTime {
+  const jdTT = (marsSolDate - 44796.0 + 0.0009626) * MARS_SOL_TO_EARTH_DAY_RATIO + 4.5 + JD_J2000;
+  // TT-UTC depends on the UTC instant; a second pass settles it across leap seconds
+  let utcMillis = (jdTT - JD_UNIX_EPOCH) * 86400000 - getTerrestrialTimeOffset((jdTT - JD_UNIX_EPOCH) * 86400000) * 1000;
+  utcMillis = (jdTT - JD_UNIX_EPOCH) * 86400000 - getTerrestrialTimeOffset(utcMillis) * 1000;
+  return DateTime.fromMillis(Math.round(utcMillis), { zone: 'utc' });
+}
+
+/**
+ * Season names, in order from Ls 0 in the northern hemisphere
+ */
+export type MarsSeason = 'spring' | 'summer' | 'autumn' | 'winter';
+const MARS_SEASONS: MarsSeason[] = ['spring', 'summer', 'autumn', 'winter'];
+
+/**
+ * Month names of the Darian calendar (Gangale), alternating Latin and Sanskrit zodiac names
+ */
+export const DARIAN_MONTHS = [
+  'Sagittarius', 'Dhanus', 'Capricornus', 'Makara', 'Aquarius', 'Kumbha',
+  'Pisces', 'Mina', 'Aries', 'Mesha', 'Taurus', 'Rishabha',
+  'Gemini', 'Mithuna', 'Cancer', 'Karka', 'Leo', 'Simha',
+  'Virgo', 'Kanya', 'Libra', 'Tula', 'Scorpius', 'Vrishika'
+] as const;
+
+// Mars Sol Date on which Darian year 0 began (the telescopic epoch, 1609)
+const DARIAN_EPOCH_MSD = -94129;
+
+/**
+ * A date in the Darian calendar
+ */
+export interface DarianDate {
+  year: number;
+  month: number; // 1-24
+  monthName: typeof DARIAN_MONTHS[number];
+  sol: number;   // 1-28
+}
+
+/**
+ * Mars clock time at a location, the Sol number and the Martian date
+ */
+export interface MarsTimeData {
   hours: number;
   minutes: number;
   seconds: number;
-  sol: number; // Sol number relative to Perseverance landing (Sol 0)
+  sol: number; // Mission sol number, or the Mars Sol Date for locations without a mission
+  mission?: string; // Mission the sol is counted from (e.g. "Curiosity")
+  scale?: MarsTimeScale; // Which solar time the clock fields are in (LMST when unset)
+  marsYear: number; // Clancy numbering
+  solarLongitude: number; // Ls (deg)
+  season: { north: MarsSeason; south: MarsSeason };
+  darian: DarianDate; // Local calendar date
+}
+
+/**
+ * Get the season in each hemisphere for a solar longitude
+ * @param solarLongitude Ls in degrees
+ */
+export function getMarsSeasons(solarLongitude: number): { north: MarsSeason; south: MarsSeason } {
+  const quarter = Math.floor(normalizeDegrees(solarLongitude) / 90);
+  return { north: MARS_SEASONS[quarter], south: MARS_SEASONS[(quarter + 2) % 4] };
+}
+
+// Darian years are 669 sols if odd or divisible by 10, except centuries not divisible by 500
+const isDarianLeapYear = (year: number) =>
+  (year % 2 !== 0 || year % 10 === 0) && !(year % 100 === 0 && year % 500 !== 0);
+
+// Sols from the epoch to the start of a Darian year (year >= 0)
+const solsBeforeDarianYear = (year: number) => {
+  const leapYears = Math.floor(year / 2) +              // Odd years
+    Math.floor((year + 9) / 10) -                        // Multiples of 10
+    (Math.floor((year + 99) / 100) - Math.floor((year + 499) / 500)); // Centuries not divisible by 500
+  return 668 * year + leapYears;
+};
+
+/**
+ * Convert a Mars Sol Date to a Darian calendar date
+ * @param marsSolDate MSD (use the local sol date for a location's calendar date)
+ */
+export function getDarianDate(marsSolDate: number): DarianDate {
+  const solsSinceEpoch = Math.floor(marsSolDate) - DARIAN_EPOCH_MSD;
+
+  // Estimate the year from the mean year length, then correct it
+  let year = Math.floor(solsSinceEpoch / 668.5921);
+  while (year > 0 && solsBeforeDarianYear(year) > solsSinceEpoch) year--;
+  while (solsBeforeDarianYear(year + 1) <= solsSinceEpoch) year++;
+
+  // Each quarter has five 28-sol months and a 27-sol month; the last month has 28 sols in leap years
+  let solOfYear = solsSinceEpoch - solsBeforeDarianYear(year);
+  let month = 0;
+  for (; month < DARIAN_MONTHS.length - 1; month++) {
+    const length = month % 6 === 5 ? 27 : 28;
+    if (solOfYear < length) break;
+    solOfYear -= length;
+  }
+
+  return { year, month: month + 1, monthName: DARIAN_MONTHS[month], sol: solOfYear + 1 };
+}
+
+/**
+ * Format a Darian date, e.g. "12 Mina 220"
+ */
+export function formatDarianDate(darian: DarianDate): string {
+  return `${darian.sol} ${darian.monthName} ${darian.year}`;
 }
 
-export function convertEarthToMarsTime(earthDateTime: DateTime, location: string): MarsTimeData {
-  const marsLocation = MARS_LOCATIONS.find(loc => loc.id === location);
+/**
+ * Format the Martian date details, e.g. "MY 38 · Ls 123.4° · Northern summer · 12 Leo 220"
+ * @param marsTimeData Converted Mars time
+ * @param latitude Location latitude; picks the hemisphere for the season (north when unknown)
+ */
+export function formatMarsDate(marsTimeData: MarsTimeData, latitude = 0): string {
+  const { marsYear, solarLongitude, season, darian } = marsTimeData;
+  const seasonName = latitude < 0 ? `Southern ${season.south}` : `Northern ${season.north}`;
+  return `MY ${marsYear} · Ls ${solarLongitude.toFixed(1)}° · ${seasonName} · ${formatDarianDate(darian)}`;
+}
+
+/**
+ * Convert an Earth DateTime object to Mars local solar time and Sol number.
+ * @param earthDateTime The Earth DateTime object to convert
+ * @param location The Mars location ID
+ * @param scale Mean (LMST) or true (LTST) solar time
+ * @returns Mars hours, minutes, seconds, and the location's Sol number.
+ */
+export function convertEarthToMarsTime(earthDateTime: DateTime, location: string, scale: MarsTimeScale = 'lmst'): MarsTimeData {
+  const solar = getMarsSolarData(earthDateTime);
+  const marsLocation = getMarsLocation(location);
+  const calendar = {
+    marsYear: solar.marsYear,
+    solarLongitude: solar.solarLongitude,
+    season: getMarsSeasons(solar.solarLongitude),
+    darian: getDarianDate(solar.marsSolDate + (marsLocation?.longitude ?? 0) / 360)
+  };
   if (!marsLocation) {
     console.error(`Unknown Mars location: ${location}`);
-    return { hours: 0, minutes: 0, seconds: 0, sol: -1 }; // Return default/error state
+    return { hours: 0, minutes: 0, seconds: 0, sol: -1, scale, ...calendar }; // Return default/error state
   }
 
-  // 1. Calculate Julian Date (JD_UT)
-  const jd_ut = getJulianDate(earthDateTime);
-
-  // 2. Calculate Julian Date (JD_TT)
-  const jd_tt = jd_ut + (JD_TT_OFFSET_SECONDS / 86400.0);
-
-  // 3. Calculate Mars Sol Date (MSD)
-  const msd = (jd_tt - 2451549.5) / MARS_SOL_TO_EARTH_DAY_RATIO + MSD_EPOCH_OFFSET - MSD_CONSTANT;
-
-  // 4. Calculate Coordinated Mars Time (MTC) - fractional hours
-  const mtc_hours = (msd * 24) % 24;
-
-  // 5. Calculate Local Mean Solar Time (LMST) - fractional hours
-  // Longitude is degrees East. LMST = MTC - (longitude_east / 15.0)
-  let lmst_hours = mtc_hours - (marsLocation.longitude / 15.0);
-  // Ensure LMST is within 0-24 range
-  lmst_hours = (lmst_hours + 24) % 24;
-
-  // 6. Extract H:M:S from LMST - Alternative extraction focusing on fractional parts
-  let hours_calc = Math.floor(lmst_hours);
-  const fractional_hour = lmst_hours - hours_calc;
-  const total_minutes_fractional = fractional_hour * 60;
-  let minutes_calc = Math.floor(total_minutes_fractional);
-  const fractional_minute = total_minutes_fractional - minutes_calc;
-  // Add epsilon before rounding seconds
-  let seconds_calc = Math.round(fractional_minute * 60 + 1e-9); 
-
-  // Handle rounding up seconds to 60
-  if (seconds_calc >= 60) {
-    minutes_calc += 1;
-    seconds_calc = 0; // Reset seconds
-    if (minutes_calc >= 60) {
-      hours_calc = (hours_calc + 1) % 24; // Handle hour rollover
-      minutes_calc = 0; // Reset minutes
-    }
-  }
-  
-  // Assign final values
-  const hours = hours_calc;
-  const minutes = minutes_calc;
-  const seconds = seconds_calc;
+  // C-4: LMST. Longitudes here are degrees East, so places east of Airy-0 are ahead of MTC
+  const lmstHours = normalizeHours(solar.coordinatedMarsTime + marsLocation.longitude / 15);
+  // C-5: LTST
+  const localHours = scale === 'ltst' ? normalizeHours(lmstHours + solar.equationOfTime / 15) : lmstHours;
+
+  // Truncate to the second like a clock, so 23:59:59.6 doesn't show as midnight of the same sol
+  const totalSeconds = Math.floor(localHours * 3600 + 1e-9) % 86400;
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
 
-  // 7. Calculate Sol Number relative to Perseverance landing
-  const sol = Math.floor(msd - PERSEVERANCE_LANDING_MSD);
+  const sol = getSolNumber(solar.marsSolDate, marsLocation);
 
   return {
     hours,
     minutes,
     seconds,
-    sol
+    sol,
+    mission: marsLocation.mission?.name,
+    scale,
+    ...calendar
   };
 }
 
 
+/**
+ * A local time on a given sol at a Mars location
+ */
+export interface MarsLocalTime {
+  location: string; // Mars location ID
+  sol: number;      // In the location's numbering (mission sol, or MSD without a mission)
+  hours: number;
+  minutes: number;
+  seconds?: number;
+  scale?: MarsTimeScale; // Whether the time is LMST (default) or LTST
+}
+
+/**
+ * Convert a Mars local time back to the Earth instant (the inverse of convertEarthToMarsTime)
+ * @param marsTime Location, sol and local time
+ * @returns The Earth instant in UTC, or null for an unknown location
+ */
+export function convertMarsToEarthTime(marsTime: MarsLocalTime): DateTime | null {
+  const { location, sol, hours, minutes, seconds = 0, scale = 'lmst' } = marsTime;
+  const marsLocation = getMarsLocation(location);
+  if (!marsLocation) {
+    console.error(`Unknown Mars location: ${location}`);
+    return null;
+  }
+
+  // LMST is the fraction of the local sol date, so the mean time inverts directly
+  const localSolDate = sol + getSolNumberOffset(marsLocation);
+  const clockHours = hours + minutes / 60 + seconds / 3600;
+  const toEarthTime = (lmstHours: number) =>
+    marsSolDateToEarthTime(localSolDate + lmstHours / 24 - marsLocation.longitude / 360);
+
+  if (scale === 'lmst') {
+    return toEarthTime(clockHours);
+  }
+
+  // LTST = LMST + EOT / 15, and the EOT depends on the instant: iterate until it settles.
+  // Sols are numbered by mean time, so LMST is wrapped to stay on the requested sol.
+  let earthTime = toEarthTime(clockHours);
+  for (let i = 0; i < 4; i++) {
+    earthTime = toEarthTime(normalizeHours(clockHours - getMarsSolarData(earthTime).equationOfTime / 15));
+  }
+  return earthTime;
+}
+
+/**
+ * How Mars columns lay out their time slots:
+ * - 'earth': the Earth slots, each converted to Mars time
+ * - 'mars': slots on Mars clock boundaries (Mars hours, 1h 1m 39s long)
+ * - 'timeslip': Earth-length hours from local mean midnight, then the sol's
+ *   leftover 39m 35s as a "timeslip" before the next midnight
+ */
+export type MarsSlotGrid = 'earth' | 'mars' | 'timeslip';
+
+/**
+ * A time slot on a Mars clock, with the Earth instants it covers
+ */
+export interface MarsTimeSlot {
+  start: Date;
+  end: Date;
+  marsTime: MarsTimeData; // Clock reading at the start of the slot
+  clock: Exclude<MarsSlotGrid, 'earth'>;
+  isTimeslip: boolean;
+}
+
+const TIMESLIP_START_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Generate time slots aligned to a Mars location's clock, covering an Earth time range
+ * @param from Start of the range; the first slot may start before it
+ * @param to End of the range (exclusive)
+ * @param location Mars location ID
+ * @param incrementMinutes Slot length in clock minutes (Mars minutes for the 'mars' grid)
+ * @param grid Mars hours or the timeslip clock
+ * @param scale Solar time for the 'mars' grid; the timeslip clock always runs on mean time
+ * @returns Slots in chronological order, or [] for an unknown location
+ */
+export function generateMarsTimeSlots(
+  from: Date,
+  to: Date,
+  location: string,
+  incrementMinutes: number,
+  grid: Exclude<MarsSlotGrid, 'earth'>,
+  scale: MarsTimeScale = 'lmst'
+): MarsTimeSlot[] {
+  if (!getMarsLocation(location)) return [];
+
+  const clockScale = grid === 'timeslip' ? 'lmst' : scale;
+  const firstSol = convertEarthToMarsTime(DateTime.fromJSDate(from), location, clockScale).sol - 1;
+  const lastSol = convertEarthToMarsTime(DateTime.fromJSDate(to), location, clockScale).sol + 1;
+  const starts: { at: number; sol: number; minuteOfSol: number; isTimeslip: boolean }[] = [];
+
+  for (let sol = firstSol; sol <= lastSol; sol++) {
+    if (grid === 'timeslip') {
+      const midnight = convertMarsToEarthTime({ location, sol, hours: 0, minutes: 0 });
+      if (!midnight) return [];
+      for (let minuteOfSol = 0; minuteOfSol < 24 * 60; minuteOfSol += incrementMinutes) {
+        starts.push({ at: midnight.toMillis() + minuteOfSol * 60 * 1000, sol, minuteOfSol, isTimeslip: false });
+      }
+      starts.push({ at: midnight.toMillis() + TIMESLIP_START_MS, sol, minuteOfSol: 24 * 60, isTimeslip: true });
+    } else {
+      for (let minuteOfSol = 0; minuteOfSol < 24 * 60; minuteOfSol += incrementMinutes) {
+        const start = convertMarsToEarthTime({
+          location, sol, hours: Math.floor(minuteOfSol / 60), minutes: minuteOfSol % 60, scale
+        });
+        if (!start) return [];
+        starts.push({ at: start.toMillis(), sol, minuteOfSol, isTimeslip: false });
+      }
+    }
+  }
+
+  // True solar time runs unevenly, so boundaries from neighbouring sols can interleave
+  starts.sort((a, b) => a.at - b.at);
+
+  const slots: MarsTimeSlot[] = [];
+  for (let i = 0; i < starts.length - 1; i++) {
+    const { at, sol, minuteOfSol, isTimeslip } = starts[i];
+    const end = starts[i + 1].at;
+    if (end <= from.getTime() || at >= to.getTime()) continue;
+
+    // Calendar fields from the conversion, clock fields exactly on the boundary
+    const marsTime = {
+      ...convertEarthToMarsTime(DateTime.fromMillis(at), location, clockScale),
+      hours: isTimeslip ? 24 : Math.floor(minuteOfSol / 60),
+      minutes: isTimeslip ? 0 : minuteOfSol % 60,
+      seconds: 0,
+      sol
+    };
+    slots.push({ start: new Date(at), end: new Date(end), marsTime, clock: grid, isTimeslip });
+  }
+  return slots;
+}
+
+/**
+ * Format a Mars-aligned slot, e.g. "2:30 PM LMST (Curiosity Sol 4000)" or
+ * "Timeslip (Curiosity Sol 4000)". Timeslip-clock times carry no LMST/LTST label.
+ */
+export function formatMarsTimeSlot(slot: MarsTimeSlot): string {
+  if (slot.clock === 'mars') {
+    return formatMarsTime(slot.marsTime);
+  }
+  const { sol, mission } = slot.marsTime;
+  const solLabel = mission ? `${mission} Sol ${sol}` : `MSD ${sol}`;
+  if (slot.isTimeslip) {
+    return `Timeslip (${solLabel})`;
+  }
+  return formatMarsTime(slot.marsTime).replace(/ (LMST|LTST) /, ' ');
+}
+
 /**
  * Format Mars time string using calculated components.
  * @param marsTimeData Object containing Mars H:M:S and Sol number
- * @returns Formatted time string (e.g., "6:46 AM MTC (Sol 2002)")
+ * @returns Formatted time string (e.g., "6:46 AM LMST (Perseverance Sol 2002)" or "6:46 AM LMST (MSD 53912)")
  */
 export function formatMarsTime(marsTimeData: MarsTimeData): string {
-  const { hours, minutes, sol } = marsTimeData;
+  const { hours, minutes, sol, mission, scale = 'lmst' } = marsTimeData;
 
   // Format using the calculated H:M components manually
   const hours12 = hours % 12 === 0 ? 12 : hours % 12; // Convert 0 to 12 for 12-hour format
   const ampm = hours < 12 ? 'AM' : 'PM';
   const formattedMinutes = minutes.toString().padStart(2, '0');
 
-  // Note: The label "MTC" is technically incorrect here as we've calculated LMST.
-  // However, for user display consistency with common Mars time reporting, we might keep it,
-  // or change it to LMST or simply omit it. Let's keep MTC for now as per previous format.
-  return `${hours12}:${formattedMinutes} ${ampm} MTC (Sol ${sol})`;
+  const solLabel = mission ? `${mission} Sol ${sol}` : `MSD ${sol}`;
+
+  return `${hours12}:${formattedMinutes} ${ampm} ${scale.toUpperCase()} (${solLabel})`;
 }
 
 /**
@@ -261,7 +676,7 @@ export function formatMarsTime(marsTimeData: MarsTimeData): string {
  */
 export function getMarsTimezoneOffset(location: string): string {
   // Mars offset always changes relative to Earth because of the length of Mars sol
-  const marsLocation = MARS_LOCATIONS.find(loc => loc.id === location);
+  const marsLocation = getMarsLocation(location);
   if (!marsLocation) {
     return 'MTC+0';
   }
@@ -280,7 +695,7 @@ export function getMarsTimezoneOffset(location: string): string {
  * @returns Array of Mars timezone information objects
  */
 export function getMarsSiteTimezones(): TimezoneInfo[] {
-  return MARS_LOCATIONS.map(location => {
+  return getMarsLocations().map(location => {
     const offset = getMarsTimezoneOffset(location.id);
     
     return {
@@ -312,7 +727,7 @@ export function getRoverInfo(locationId: string): {
   latitude: number;
   longitude: number;
 } | null {
-  const location = MARS_LOCATIONS.find(loc => loc.id === locationId);
+  const location = getMarsLocation(locationId);
   
   if (!location || !location.roverPresent) {
     return null;
@@ -0,0 +1,93 @@
+import { DateTime } from 'luxon';
+import type { Timezone } from '@/store/timezoneStore';
+import { isBusinessHours } from './dateTimeFormatter';
+import { isEarthZone } from './timeSystems';
+
+/**
+ * A candidate meeting slot and the zones that are inside working hours for it
+ */
+export interface MeetingSlot {
+  start: Date;
+  end: Date;
+  availableZoneIds: string[];
+  availableCount: number;
+  totalZones: number;
+}
+
+/**
+ * Get the zones that can take part in meeting planning.
+ * Zones outside Earth's calendar (e.g. Mars sites) have no working hours, so they are left out of the count.
+ * @param timezones Timezones selected by the user
+ * @returns Unique Earth timezones
+ */
+function getPlannableTimezones(timezones: Timezone[]): Timezone[] {
+  return timezones.filter((tz, index, self) =>
+    isEarthZone(tz.id) && index === self.findIndex(t => t.id === tz.id)
+  );
+}
+
+/**
+ * Score every slot on a date by how many zones are inside working hours
+ * @param timezones Timezones selected by the user
+ * @param date The date to plan for (interpreted in the local timezone)
+ * @param localTimezone The user's local timezone
+ * @param slotMinutes Slot length in minutes
+ * @returns All slots of the day in chronological order
+ */
+export function getMeetingSlots(
+  timezones: Timezone[],
+  date: Date,
+  localTimezone: string,
+  slotMinutes = 30
+): MeetingSlot[] {
+  try {
+    const zones = getPlannableTimezones(timezones);
+    const startOfDay = DateTime.fromJSDate(date).setZone(localTimezone).startOf('day');
+    const endOfDay = startOfDay.plus({ days: 1 });
+    const slots: MeetingSlot[] = [];
+
+    for (let slot = startOfDay; slot < endOfDay; slot = slot.plus({ minutes: slotMinutes })) {
+      // A slot only counts for a zone if the whole meeting fits in that zone's working hours
+      const slotEnd = slot.plus({ minutes: slotMinutes });
+      const lastMinute = slotEnd.minus({ minutes: 1 });
+      const availableZoneIds = zones
+        .filter(tz =>
+          isBusinessHours(slot, tz.id, tz.workingHours) && isBusinessHours(lastMinute, tz.id, tz.workingHours)
+        )
+        .map(tz => tz.id);
+
+      slots.push({
+        start: slot.toJSDate(),
+        end: slotEnd.toJSDate(),
+        availableZoneIds,
+        availableCount: availableZoneIds.length,
+        totalZones: zones.length
+      });
+    }
+
+    return slots;
+  } catch (error) {
+    console.error('Error calculating meeting slots:', error);
+    return [];
+  }
+}
+
+/**
+ * Find the best meeting slots on a date, ranked by how many zones are in working hours
+ * @param timezones Timezones selected by the user
+ * @param date The date to plan for (interpreted in the local timezone)
+ * @param localTimezone The user's local timezone
+ * @param limit Maximum number of slots to return
+ * @returns Slots with at least one available zone, best first (earlier slots win ties)
+ */
+export function findBestMeetingSlots(
+  timezones: Timezone[],
+  date: Date,
+  localTimezone: string,
+  limit = 6
+): MeetingSlot[] {
+  return getMeetingSlots(timezones, date, localTimezone)
+    .filter(slot => slot.availableCount > 0)
+    .sort((a, b) => b.availableCount - a.availableCount || a.start.getTime() - b.start.getTime())
+    .slice(0, limit);
+}
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { parseNaturalTime, type NaturalTimeResult } from './naturalTime';
+
+const parse = (input: string, now: string) =>
+  parseNaturalTime(input, { timezones: [], localTimezone: 'Europe/London', now: new Date(now) });
+
+/**
+ * Get the single match of a resolved result
+ */
+function resolved(result: NaturalTimeResult) {
+  expect(result.status).toBe('resolved');
+  if (result.status !== 'resolved') throw new Error(`Expected a resolved result, got ${result.status}`);
+  return result.match;
+}
+
+describe('parseNaturalTime', () => {
+  it('reads times in a city', () => {
+    const match = resolved(parse('3pm Tokyo tomorrow', '2026-10-19T12:00:00Z'));
+    expect(match.instant.toISOString()).toBe('2026-10-20T06:00:00.000Z');
+    expect(match.zone).toBe('Asia/Tokyo');
+  });
+
+  it('reads fixed offsets and relative times', () => {
+    expect(resolved(parse('noon UTC+5:30', '2026-10-19T12:00:00Z')).instant.toISOString()).toBe('2026-10-19T06:30:00.000Z');
+    expect(resolved(parse('in 3 hours', '2026-10-19T12:00:00Z')).instant.toISOString()).toBe('2026-10-19T15:00:00.000Z');
+  });
+
+  it('applies a standard-time abbreviation outside its season and warns', () => {
+    const match = resolved(parse('9am EST', '2026-10-19T12:00:00Z'));
+    expect(match.instant.toISOString()).toBe('2026-10-19T14:00:00.000Z');
+    expect(match.zone).toBe('America/New_York');
+    expect(match.warning).toBe("EST isn't in use then; local time there is 10:00 AM EDT");
+
+    const summer = resolved(parse('17:00 PST', '2026-07-15T12:00:00Z'));
+    expect(summer.instant.toISOString()).toBe('2026-07-16T01:00:00.000Z');
+    expect(summer.warning).toBe("PST isn't in use then; local time there is 6:00 PM PDT");
+  });
+
+  it('applies a daylight-time abbreviation in winter', () => {
+    const match = resolved(parse('9am EDT', '2026-01-12T12:00:00Z'));
+    expect(match.instant.toISOString()).toBe('2026-01-12T13:00:00.000Z');
+    expect(match.warning).toContain('8:00 AM EST');
+  });
+
+  it("doesn't warn when the abbreviation is in use", () => {
+    const match = resolved(parse('9am EST', '2026-01-12T12:00:00Z'));
+    expect(match.instant.toISOString()).toBe('2026-01-12T14:00:00.000Z');
+    expect(match.warning).toBeUndefined();
+  });
+
+  it('follows the zone for generic abbreviations', () => {
+    const match = resolved(parse('9am ET', '2026-10-19T12:00:00Z'));
+    expect(match.instant.toISOString()).toBe('2026-10-19T13:00:00.000Z');
+    expect(match.warning).toBeUndefined();
+  });
+
+  it('offers one reading per zone for ambiguous abbreviations', () => {
+    const result = parse('9:30 IST', '2026-10-19T12:00:00Z');
+    expect(result.status).toBe('ambiguous');
+    if (result.status !== 'ambiguous') return;
+    expect(result.matches.map(match => [match.zone, match.instant.toISOString()])).toEqual([
+      ['Asia/Kolkata', '2026-10-19T04:00:00.000Z'],
+      ['Europe/Dublin', '2026-10-19T08:30:00.000Z'],
+      ['Asia/Jerusalem', '2026-10-19T07:30:00.000Z']
+    ]);
+    // Irish Standard Time is Dublin's summer offset; Israel doesn't leave summer time until late October
+    expect(result.matches.map(match => match.warning)).toEqual([undefined, undefined, "IST isn't in use then; local time there is 10:30 AM GMT+3"]);
+  });
+
+  it('explains input it cannot read', () => {
+    expect(parse('tomorrow', '2026-10-19T12:00:00Z')).toEqual({ status: 'unrecognized', reason: 'Add a time, e.g. "3pm" or "17:00"' });
+    expect(parse('3pm Atlantis', '2026-10-19T12:00:00Z')).toEqual({ status: 'unrecognized', reason: 'No timezone found for "atlantis"' });
+  });
+});
@@ -0,0 +1,300 @@
+import { DateTime } from 'luxon';
+import type { Timezone } from '@/store/timezoneStore';
+import { getAllTimezones } from './timezone';
+import { resolveLocalTime } from './timeConversion';
+import { isEarthZone } from './timeSystems';
+import { ZONE_ABBREVIATIONS } from './timezoneMetadata';
+import { buildTimezoneSearchIndex, type SearchTermKind, type TimezoneSearchIndex } from './timezoneSearch';
+
+/**
+ * A zone a typed place or abbreviation could mean
+ */
+interface ZoneCandidate {
+  id: string;
+  label: string; // e.g. "Tokyo" or "India Standard Time"
+  offset?: number; // Fixed UTC offset in minutes named by a standard/daylight abbreviation such as EST
+}
+
+/**
+ * One way of reading a typed time, resolved to an instant
+ */
+export interface NaturalTimeMatch {
+  instant: Date;
+  zone: string; // IANA zone or a fixed offset such as "UTC+5:30"
+  zoneLabel: string;
+  description: string; // e.g. "Tue, Jun 3, 3:00 PM Tokyo"
+  warning?: string; // Set when an abbreviation's offset isn't the one its zone uses on that date
+}
+
+/**
+ * Result of parsing a typed time. Ambiguous input (e.g. "IST") gives one match per reading.
+ */
+export type NaturalTimeResult =
+  | { status: 'resolved'; match: NaturalTimeMatch }
+  | { status: 'ambiguous'; matches: NaturalTimeMatch[] }
+  | { status: 'unrecognized'; reason: string };
+
+// Catalog terms that name a place; a country spans too many zones to pick a time from
+const PLACE_TERM_KINDS = new Set<SearchTermKind>(['city', 'name', 'id', 'alias', 'nickname']);
+
+// Index over the Earth catalog for places outside the selected zones, built on first use
+let catalogIndex: TimezoneSearchIndex | null = null;
+const getCatalogIndex = (): TimezoneSearchIndex =>
+  catalogIndex ??= buildTimezoneSearchIndex(getAllTimezones().filter(tz => isEarthZone(tz.id)));
+
+const WEEKDAYS = ['mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun'];
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+const MONTH_PATTERN = '(jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)\\.?';
+const RELATIVE_PATTERN = /^in\s+(\d+(?:\.\d+)?)\s*(minutes?|mins?|m|hours?|hrs?|h|days?|d|weeks?|w)$/;
+const OFFSET_PATTERN = /\b(?:utc|gmt)(?:\s*([+-])\s*(\d{1,2})(?::?(\d{2}))?)?(?![\w:])/;
+const ISO_DATE_PATTERN = /\b(\d{4})-(\d{2})-(\d{2})\b/;
+const MONTH_DAY_PATTERN = new RegExp(`\\b${MONTH_PATTERN}\\s+(\\d{1,2})(?:st|nd|rd|th)?(?:,?\\s+(\\d{4}))?\\b`);
+const DAY_MONTH_PATTERN = new RegExp(`\\b(\\d{1,2})(?:st|nd|rd|th)?\\s+${MONTH_PATTERN}(?:,?\\s+(\\d{4}))?(?![\\w])`);
+const RELATIVE_DAY_PATTERN = /\b(today|tonight|tomorrow|tmrw|yesterday)\b/;
+const WEEKDAY_PATTERN = /\b(?:(next|this)\s+)?(mon|tue|tues|wed|thu|thur|thurs|fri|sat|sun)(?:day|sday|nesday|rsday|urday)?\b/;
+const NAMED_TIME_PATTERN = /\b(noon|midday|midnight)\b/;
+const MERIDIEM_TIME_PATTERN = /\b(\d{1,2})(?:[:.](\d{2}))?\s*([ap])\.?m?\.?(?![\w])/;
+const CLOCK_TIME_PATTERN = /\b(\d{1,2}):(\d{2})\b/;
+const FILLER_PATTERN = /\b(in|at|on|for|the|time|o'?clock)\b/g;
+
+/**
+ * How the date part of the input picks a day, applied in each candidate zone
+ */
+type DateSpec =
+  | { kind: 'relative'; days: number }
+  | { kind: 'weekday'; weekday: number; next: boolean }
+  | { kind: 'calendar'; month: number; day: number; year?: number };
+
+/**
+ * Remove the first match of a pattern from the text
+ */
+function extract(text: string, pattern: RegExp): { match: RegExpExecArray | null; rest: string } {
+  const match = pattern.exec(text);
+  if (!match) return { match: null, rest: text };
+  return { match, rest: `${text.slice(0, match.index)} ${text.slice(match.index + match[0].length)}` };
+}
+
+/**
+ * Read the date part of the input
+ */
+function extractDate(text: string): { date: DateSpec | null; rest: string } {
+  const iso = extract(text, ISO_DATE_PATTERN);
+  if (iso.match) {
+    const [, year, month, day] = iso.match;
+    return { date: { kind: 'calendar', year: parseInt(year, 10), month: parseInt(month, 10), day: parseInt(day, 10) }, rest: iso.rest };
+  }
+
+  const monthDay = extract(text, MONTH_DAY_PATTERN);
+  if (monthDay.match) {
+    const [, month, day, year] = monthDay.match;
+    return {
+      date: { kind: 'calendar', month: MONTHS.indexOf(month.slice(0, 3)) + 1, day: parseInt(day, 10), year: year ? parseInt(year, 10) : undefined },
+      rest: monthDay.rest
+    };
+  }
+
+  const dayMonth = extract(text, DAY_MONTH_PATTERN);
+  if (dayMonth.match) {
+    const [, day, month, year] = dayMonth.match;
+    return {
+      date: { kind: 'calendar', month: MONTHS.indexOf(month.slice(0, 3)) + 1, day: parseInt(day, 10), year: year ? parseInt(year, 10) : undefined },
+      rest: dayMonth.rest
+    };
+  }
+
+  const relative = extract(text, RELATIVE_DAY_PATTERN);
+  if (relative.match) {
+    const word = relative.match[1];
+    const days = word === 'yesterday' ? -1 : word === 'tomorrow' || word === 'tmrw' ? 1 : 0;
+    return { date: { kind: 'relative', days }, rest: relative.rest };
+  }
+
+  const weekday = extract(text, WEEKDAY_PATTERN);
+  if (weekday.match) {
+    return {
+      date: { kind: 'weekday', weekday: WEEKDAYS.indexOf(weekday.match[2].slice(0, 3)) + 1, next: weekday.match[1] === 'next' },
+      rest: weekday.rest
+    };
+  }
+
+  return { date: null, rest: text };
+}
+
+/**
+ * Read the time of day, e.g. "3pm", "9:30", "17:00" or "noon"
+ */
+function extractTime(text: string): { time: { hour: number; minute: number } | null; rest: string } {
+  const named = extract(text, NAMED_TIME_PATTERN);
+  if (named.match) {
+    return { time: { hour: named.match[1] === 'midnight' ? 0 : 12, minute: 0 }, rest: named.rest };
+  }
+
+  const meridiem = extract(text, MERIDIEM_TIME_PATTERN);
+  if (meridiem.match) {
+    const hour = parseInt(meridiem.match[1], 10);
+    const minute = meridiem.match[2] ? parseInt(meridiem.match[2], 10) : 0;
+    if (hour < 1 || hour > 12 || minute > 59) return { time: null, rest: text };
+    return { time: { hour: (hour % 12) + (meridiem.match[3] === 'p' ? 12 : 0), minute }, rest: meridiem.rest };
+  }
+
+  const clock = extract(text, CLOCK_TIME_PATTERN);
+  if (clock.match) {
+    const hour = parseInt(clock.match[1], 10);
+    const minute = parseInt(clock.match[2], 10);
+    if (hour > 23 || minute > 59) return { time: null, rest: text };
+    return { time: { hour, minute }, rest: clock.rest };
+  }
+
+  return { time: null, rest: text };
+}
+
+/**
+ * Name a fixed offset in minutes as a zone, e.g. "UTC+5:30"
+ */
+function formatOffsetZone(offset: number): string {
+  const hours = Math.floor(Math.abs(offset) / 60);
+  const minutes = Math.abs(offset) % 60;
+  return `UTC${offset < 0 ? '-' : '+'}${hours}${minutes ? `:${String(minutes).padStart(2, '0')}` : ''}`;
+}
+
+/**
+ * Check a typed place against a zone's city, aliases, name and identifier
+ */
+function zoneMatchesPlace(timezone: Timezone, place: string): boolean {
+  const idCity = timezone.id.split('/').pop()?.replace(/_/g, ' ') ?? '';
+  return [timezone.city, idCity, timezone.id, timezone.name, ...(timezone.aliases || [])]
+    .some(field => field?.toLowerCase() === place);
+}
+
+/**
+ * Find the zones a place or abbreviation could mean: the selected zones first,
+ * then abbreviations, then every known city, alias or nickname. Zones outside
+ * Earth's calendar (e.g. Mars sites) have no wall-clock date to resolve, so they're skipped.
+ */
+function resolveZoneCandidates(place: string, timezones: Timezone[], localTimezone: string): ZoneCandidate[] {
+  if (!place || place === 'local' || place === 'here' || place === 'my') {
+    return [{ id: localTimezone, label: 'local time' }];
+  }
+
+  const offset = OFFSET_PATTERN.exec(place);
+  if (offset && offset[0].length === place.length) {
+    if (!offset[1]) return [{ id: 'UTC', label: place.toUpperCase() }];
+    const hours = parseInt(offset[2], 10);
+    const minutes = offset[3] ? parseInt(offset[3], 10) : 0;
+    if (hours > 14 || minutes > 59) return [];
+    const label = formatOffsetZone((offset[1] === '-' ? -1 : 1) * (hours * 60 + minutes));
+    return [{ id: label, label }];
+  }
+
+  const toCandidate = (timezone: Timezone): ZoneCandidate => ({ id: timezone.id, label: timezone.city || timezone.name });
+  const selected = timezones.filter(tz => isEarthZone(tz.id) && zoneMatchesPlace(tz, place)).map(toCandidate);
+  // Zones sharing an abbreviation's name (e.g. CET) keep the same time, so one reading is enough
+  const abbreviated = (ZONE_ABBREVIATIONS[place.toUpperCase()] ?? [])
+    .filter((entry, index, all) => all.findIndex(other => other.name === entry.name) === index)
+    .map(entry => ({ id: entry.zone, label: entry.offset === undefined ? entry.name : `${entry.name} (${place.toUpperCase()})`, offset: entry.offset }));
+
+  let candidates = [...selected, ...abbreviated];
+  if (candidates.length === 0) {
+    candidates = getCatalogIndex()
+      .lookup(place)
+      .filter(result => PLACE_TERM_KINDS.has(result.matchKind))
+      .map(result => toCandidate(result.timezone));
+  }
+
+  // Abbreviations list every zone they're used for; selected zones come first
+  const selectedIds = new Set(timezones.map(tz => tz.id));
+  return candidates
+    .filter((candidate, index) => candidates.findIndex(other => other.id === candidate.id) === index)
+    .sort((a, b) => Number(selectedIds.has(b.id)) - Number(selectedIds.has(a.id)));
+}
+
+/**
+ * Pick the day for a date spec in a zone
+ */
+function resolveDay(date: DateSpec | null, today: DateTime): DateTime | null {
+  if (!date) return today;
+  switch (date.kind) {
+    case 'relative':
+      return today.plus({ days: date.days });
+    case 'weekday': {
+      // "Tue" is today or the coming Tuesday; "next Tue" is always after today
+      let days = (date.weekday - today.weekday + 7) % 7;
+      if (date.next && days === 0) days = 7;
+      return today.plus({ days });
+    }
+    case 'calendar': {
+      const day = today.set({ year: date.year ?? today.year, month: date.month, day: date.day });
+      return day.isValid && day.month === date.month && day.day === date.day ? day : null;
+    }
+  }
+}
+
+/**
+ * Parse a typed time such as "3pm Tokyo", "tomorrow 9:30 in London", "next Tue 17:00 PST",
+ * "noon UTC+5:30" or "in 3 hours" into an instant. Places are looked up in the selected
+ * zones, common abbreviations and city names; without a place, the local zone is used.
+ * @param input The typed text
+ * @param options The selected zones, the user's zone and the current instant
+ * @returns The instant, one instant per reading when the place is ambiguous, or why it couldn't be read
+ */
+export function parseNaturalTime(
+  input: string,
+  { timezones, localTimezone, now = new Date() }: { timezones: Timezone[]; localTimezone: string; now?: Date }
+): NaturalTimeResult {
+  const text = input.trim().toLowerCase().replace(/,/g, ' ').replace(/\s+/g, ' ');
+  if (!text) return { status: 'unrecognized', reason: 'Type a time, e.g. "3pm Tokyo tomorrow"' };
+
+  const describe = (instant: DateTime, zoneLabel: string) =>
+    `${instant.toFormat('EEE, MMM d, h:mm a')} ${zoneLabel}`;
+
+  // "now" and "in 3 hours" don't depend on a zone
+  const relative = RELATIVE_PATTERN.exec(text);
+  if (text === 'now' || relative) {
+    let instant = DateTime.fromJSDate(now).setZone(localTimezone);
+    if (relative) {
+      const amount = parseFloat(relative[1]);
+      const unit = relative[2][0];
+      const minutes = amount * (unit === 'w' ? 7 * 24 * 60 : unit === 'd' ? 24 * 60 : unit === 'h' ? 60 : 1);
+      instant = instant.plus({ minutes });
+    }
+    return {
+      status: 'resolved',
+      match: { instant: instant.toJSDate(), zone: localTimezone, zoneLabel: 'local time', description: describe(instant, 'local time') }
+    };
+  }
+
+  // Take the offset out first so "UTC+5:30" isn't read as a time
+  const offset = extract(text, OFFSET_PATTERN);
+  const { date, rest: withoutDate } = extractDate(offset.rest);
+  const { time, rest: withoutTime } = extractTime(withoutDate);
+  if (!time) return { status: 'unrecognized', reason: 'Add a time, e.g. "3pm" or "17:00"' };
+
+  const place = offset.match ? offset.match[0].replace(/\s+/g, '') : withoutTime.replace(FILLER_PATTERN, ' ').replace(/\s+/g, ' ').trim();
+  const candidates = resolveZoneCandidates(place, timezones, localTimezone);
+  if (candidates.length === 0) return { status: 'unrecognized', reason: `No timezone found for "${place}"` };
+
+  const matches = candidates.flatMap((candidate): NaturalTimeMatch[] => {
+    // "9am EST" means UTC-5 even in summer, so read the wall time in the abbreviation's own offset
+    const wallZone = candidate.offset === undefined ? candidate.id : formatOffsetZone(candidate.offset);
+    const day = resolveDay(date, DateTime.fromJSDate(now).setZone(wallZone));
+    if (!day) return [];
+    const resolution = resolveLocalTime({ year: day.year, month: day.month, day: day.day, ...time }, wallZone);
+    if (!resolution) return [];
+
+    const zoneTime = resolution.resolved.setZone(candidate.id);
+    const offsetInUse = candidate.offset === undefined || zoneTime.offset === candidate.offset;
+    return [{
+      instant: resolution.resolved.toJSDate(),
+      zone: candidate.id,
+      zoneLabel: candidate.label,
+      description: describe(resolution.resolved, candidate.label),
+      ...(offsetInUse ? {} : {
+        warning: `${place.toUpperCase()} isn't in use then; local time there is ${zoneTime.toFormat('h:mm a')} ${zoneTime.offsetNameShort}`
+      })
+    }];
+  });
+
+  if (matches.length === 0) return { status: 'unrecognized', reason: 'That date doesn\'t exist' };
+  return matches.length === 1 ? { status: 'resolved', match: matches[0] } : { status: 'ambiguous', matches };
+}
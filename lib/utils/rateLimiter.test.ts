@@ -0,0 +1,159 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  MemoryRateLimitStore,
+  checkRateLimit,
+  getRateLimitHeaders,
+  getRateLimitKey,
+  setRateLimitStore
+} from './rateLimiter';
+
+// A small default policy (4 per minute) keeps the per-policy limits easy to reach
+vi.mock('./env', () => ({ config: { RATE_LIMIT_WINDOW: 60, RATE_LIMIT_MAX_REQUESTS: 4 } }));
+
+const NOW = Date.UTC(2026, 9, 19, 12, 0, 0);
+
+describe('MemoryRateLimitStore', () => {
+  const policy = { limit: 2, windowMs: 1000 };
+
+  it('counts requests inside the window and frees them as it slides', async () => {
+    const store = new MemoryRateLimitStore();
+    expect(await store.consume('client', policy, 0)).toEqual({ allowed: true, count: 1, oldest: 0 });
+    expect(await store.consume('client', policy, 500)).toEqual({ allowed: true, count: 2, oldest: 0 });
+    // Rejected requests aren't recorded
+    expect(await store.consume('client', policy, 999)).toEqual({ allowed: false, count: 2, oldest: 0 });
+    // The first request leaves the window exactly one window later
+    expect(await store.consume('client', policy, 1000)).toEqual({ allowed: true, count: 2, oldest: 500 });
+  });
+
+  it('keeps keys apart and forgets a key on reset', async () => {
+    const store = new MemoryRateLimitStore();
+    await store.consume('a', { limit: 1, windowMs: 1000 }, 0);
+    expect((await store.consume('b', { limit: 1, windowMs: 1000 }, 0)).allowed).toBe(true);
+    await store.reset('a');
+    expect((await store.consume('a', { limit: 1, windowMs: 1000 }, 0)).allowed).toBe(true);
+  });
+
+  it('evicts the least recently seen key when full', async () => {
+    const store = new MemoryRateLimitStore();
+    const single = { limit: 1, windowMs: 60000 };
+    await store.consume('busy', single, 0);
+    for (let i = 1; i < 10000; i++) {
+      await store.consume(`client-${i}`, single, 0);
+    }
+    // Seeing "busy" again makes client-1 the least recent
+    expect((await store.consume('busy', single, 0)).allowed).toBe(false);
+    await store.consume('client-10000', single, 0);
+
+    expect((await store.consume('client-1', single, 0)).allowed).toBe(true);
+    expect((await store.consume('busy', single, 0)).allowed).toBe(false);
+  });
+});
+
+describe('checkRateLimit', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(NOW);
+    setRateLimitStore(new MemoryRateLimitStore());
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  /**
+   * Make requests until one is refused, returning how many were allowed
+   */
+  async function allowedRequests(key: string, endpoint: Parameters<typeof checkRateLimit>[1]): Promise<number> {
+    let allowed = 0;
+    while ((await checkRateLimit(key, endpoint)).success) allowed++;
+    return allowed;
+  }
+
+  it('applies each endpoint its own policy', async () => {
+    expect(await allowedRequests('ip:203.0.113.7', 'default')).toBe(4);
+    expect(await allowedRequests('ip:203.0.113.7', 'time')).toBe(8);
+    expect(await allowedRequests('ip:203.0.113.7', 'weather')).toBe(2);
+    expect(await allowedRequests('ip:203.0.113.7', 'news')).toBe(2);
+    expect(await allowedRequests('ip:203.0.113.7', 'cleanup')).toBe(5);
+    expect(await allowedRequests('ip:203.0.113.7', 'auth')).toBe(10);
+  });
+
+  it('reports the remaining budget and when to retry', async () => {
+    const first = await checkRateLimit('ip:203.0.113.7');
+    expect(first).toMatchObject({ success: true, limit: 4, remaining: 3, retryAfter: 0 });
+    expect(first.resetTime.getTime()).toBe(NOW + 60000);
+
+    vi.advanceTimersByTime(20000);
+    await checkRateLimit('ip:203.0.113.7');
+    await checkRateLimit('ip:203.0.113.7');
+    await checkRateLimit('ip:203.0.113.7');
+    const limited = await checkRateLimit('ip:203.0.113.7');
+    expect(limited).toMatchObject({ success: false, remaining: 0, retryAfter: 40 });
+
+    // Another client has its own budget
+    expect((await checkRateLimit('ip:198.51.100.2')).success).toBe(true);
+
+    // Once the first request leaves the window, one more is allowed
+    vi.advanceTimersByTime(40000);
+    expect(await checkRateLimit('ip:203.0.113.7')).toMatchObject({ success: true, remaining: 0 });
+  });
+
+  it('fails open when the store errors', async () => {
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+    setRateLimitStore({
+      consume: () => Promise.reject(new Error('connection refused')),
+      reset: () => Promise.resolve()
+    });
+
+    expect(await checkRateLimit('ip:203.0.113.7', 'auth')).toMatchObject({ success: true, limit: 10, remaining: 10 });
+    expect(consoleError).toHaveBeenCalled();
+    consoleError.mockRestore();
+  });
+});
+
+describe('getRateLimitKey', () => {
+  it('ignores API keys the caller sends', async () => {
+    const first = await getRateLimitKey(new Headers({ 'x-api-key': 'one', 'x-real-ip': '203.0.113.7' }));
+    const second = await getRateLimitKey(new Headers({ 'x-api-key': 'two', 'x-real-ip': '203.0.113.7' }));
+    expect(first).toBe('ip:203.0.113.7');
+    expect(second).toBe(first);
+  });
+
+  it('uses the entry added by the proxy', async () => {
+    expect(await getRateLimitKey(new Headers({ 'x-forwarded-for': '10.0.0.1, 203.0.113.7' }))).toBe('ip:203.0.113.7');
+    expect(await getRateLimitKey(new Headers({ 'x-forwarded-for': '10.0.0.1', 'x-real-ip': '198.51.100.2' }))).toBe('ip:198.51.100.2');
+    expect(await getRateLimitKey(new Headers())).toBe('ip:unknown');
+  });
+});
+
+describe('getRateLimitHeaders', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(NOW);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const policy = { limit: 4, windowMs: 60000 };
+
+  it('describes the budget and policy', () => {
+    const headers = getRateLimitHeaders({
+      success: true, limit: 4, remaining: 3, resetTime: new Date(NOW + 59500), retryAfter: 0, policy
+    });
+    expect(headers).toEqual({
+      'RateLimit-Limit': '4',
+      'RateLimit-Remaining': '3',
+      'RateLimit-Reset': '60',
+      'RateLimit-Policy': '4;w=60'
+    });
+  });
+
+  it('adds Retry-After when limited', () => {
+    const headers = getRateLimitHeaders({
+      success: false, limit: 4, remaining: 0, resetTime: new Date(NOW + 40000), retryAfter: 40, policy
+    });
+    expect(headers['Retry-After']).toBe('40');
+  });
+});
@@ -1,25 +1,203 @@
 /**
- * Dummy rate limiter implementation.
- * This file exists for compatibility purposes but rate limiting is disabled.
+ * Sliding-window rate limiting for API endpoints.
+ *
+ * Each request is logged against the client's IP address and counted
+ * if it falls within the policy's window. The backend is pluggable: the
+ * default in-memory store works per server instance; a shared store
+ * (e.g. Redis sorted sets) can be swapped in with setRateLimitStore().
  */
+import { config } from './env';
 
-// Define dummy rate limiter types
+/**
+ * A rate limit policy: at most `limit` requests per `windowMs`
+ */
+export interface RateLimitPolicy {
+  limit: number;
+  windowMs: number;
+}
+
+/**
+ * Result of recording a request in a store
+ */
+export interface RateLimitConsumeResult {
+  allowed: boolean;      // Whether the request was under the limit (and recorded)
+  count: number;         // Requests in the window, including this one if allowed
+  oldest: number | null; // Timestamp (ms) of the oldest request still in the window
+}
+
+/**
+ * Storage backend for the sliding-window log
+ */
+export interface RateLimitStore {
+  /**
+   * Drop requests older than the window, then record this one if under the limit
+   */
+  consume(key: string, policy: RateLimitPolicy, now: number): Promise<RateLimitConsumeResult>;
+  /**
+   * Forget all requests for a key
+   */
+  reset(key: string): Promise<void>;
+}
+
+// Limit on distinct keys kept in memory; the least recently seen are evicted first
+const MAX_MEMORY_KEYS = 10000;
+// Sweep expired keys after this many requests
+const SWEEP_INTERVAL = 1000;
+
+/**
+ * In-memory sliding-window log.
+ * State is per process, so limits apply per server instance.
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private hits = new Map<string, number[]>();
+  private requestsSinceSweep = 0;
+  private longestWindowMs = 0;
+
+  async consume(key: string, policy: RateLimitPolicy, now: number): Promise<RateLimitConsumeResult> {
+    this.longestWindowMs = Math.max(this.longestWindowMs, policy.windowMs);
+    if (++this.requestsSinceSweep >= SWEEP_INTERVAL) {
+      this.sweep(now);
+    }
+
+    const windowStart = now - policy.windowMs;
+    const timestamps = (this.hits.get(key) || []).filter(timestamp => timestamp > windowStart);
+    const allowed = timestamps.length < policy.limit;
+    if (allowed) {
+      timestamps.push(now);
+    }
+
+    // Re-insert so the Map's order tracks recency for eviction
+    this.hits.delete(key);
+    this.hits.set(key, timestamps);
+    if (this.hits.size > MAX_MEMORY_KEYS) {
+      const leastRecent = this.hits.keys().next().value;
+      if (leastRecent !== undefined) this.hits.delete(leastRecent);
+    }
+
+    return { allowed, count: timestamps.length, oldest: timestamps.length > 0 ? timestamps[0] : null };
+  }
+
+  async reset(key: string): Promise<void> {
+    this.hits.delete(key);
+  }
+
+  /**
+   * Remove keys with no requests inside the longest window seen
+   */
+  private sweep(now: number) {
+    this.requestsSinceSweep = 0;
+    Array.from(this.hits.entries()).forEach(([key, timestamps]) => {
+      if (timestamps.length === 0 || timestamps[timestamps.length - 1] <= now - this.longestWindowMs) {
+        this.hits.delete(key);
+      }
+    });
+  }
+}
+
+const windowMs = (config.RATE_LIMIT_WINDOW || 60) * 1000;
+const maxRequests = config.RATE_LIMIT_MAX_REQUESTS || 60;
+
+/**
+ * Per-endpoint policies. The default comes from RATE_LIMIT_WINDOW (seconds)
+ * and RATE_LIMIT_MAX_REQUESTS; the others are scaled from it.
+ */
 export const rateLimiters = {
-  default: { limit: 1000 },
-  time: { limit: 1000 },
-  cleanup: { limit: 1000 }
-};
-
-/**
- * Dummy function that always allows requests.
- * Rate limiting is disabled.
- */
-export async function checkRateLimit(key: string, endpoint: keyof typeof rateLimiters = 'default') {
-  return {
-    success: true,
-    limit: 1000,
-    remaining: 999,
-    resetTime: new Date(Date.now() + 60000),
-    error: null
+  default: { limit: maxRequests, windowMs },
+  time: { limit: maxRequests * 2, windowMs },           // Polled by clocks, so more generous
+  cleanup: { limit: 5, windowMs: 15 * 60 * 1000 },     // Admin maintenance task
+  auth: { limit: 10, windowMs: 15 * 60 * 1000 },       // Login/registration attempts
+  weather: { limit: Math.max(1, Math.floor(maxRequests / 2)), windowMs }, // Proxies a paid upstream API
+  news: { limit: Math.max(1, Math.floor(maxRequests / 2)), windowMs },    // Proxies a paid upstream API
+} satisfies Record<string, RateLimitPolicy>;
+
+export type RateLimitEndpoint = keyof typeof rateLimiters;
+
+let store: RateLimitStore = new MemoryRateLimitStore();
+
+/**
+ * Replace the storage backend (e.g. with a shared store in multi-instance deployments)
+ */
+export function setRateLimitStore(nextStore: RateLimitStore) {
+  store = nextStore;
+}
+
+/**
+ * Outcome of a rate limit check
+ */
+export interface RateLimitResult {
+  success: boolean;
+  limit: number;
+  remaining: number;
+  resetTime: Date;        // When the oldest counted request leaves the window
+  retryAfter: number;     // Seconds until a request would be allowed (0 if allowed now)
+  policy: RateLimitPolicy;
+}
+
+/**
+ * Record a request and check it against an endpoint's policy
+ * @param key Client identifier (see getRateLimitKey)
+ * @param endpoint The policy to apply
+ * @returns The rate limit result; fails open if the store errors
+ */
+export async function checkRateLimit(key: string, endpoint: RateLimitEndpoint = 'default'): Promise<RateLimitResult> {
+  const policy = rateLimiters[endpoint];
+  const now = Date.now();
+
+  try {
+    const { allowed, count, oldest } = await store.consume(`${endpoint}:${key}`, policy, now);
+    const resetAt = (oldest ?? now) + policy.windowMs;
+    return {
+      success: allowed,
+      limit: policy.limit,
+      remaining: Math.max(0, policy.limit - count),
+      resetTime: new Date(resetAt),
+      retryAfter: allowed ? 0 : Math.max(1, Math.ceil((resetAt - now) / 1000)),
+      policy
+    };
+  } catch (error) {
+    // Don't take the API down because the limiter's backend is unavailable
+    console.error('Rate limit store error:', error);
+    return {
+      success: true,
+      limit: policy.limit,
+      remaining: policy.limit,
+      resetTime: new Date(now + policy.windowMs),
+      retryAfter: 0,
+      policy
+    };
+  }
+}
+
+/**
+ * Identify the client for rate limiting by IP address. Nothing the caller sends on
+ * its own (such as an unvalidated API key) picks the bucket, or a fresh value per
+ * request would get a fresh limit.
+ * @param requestHeaders The request headers
+ * @returns A key such as "ip:203.0.113.7"
+ */
+export async function getRateLimitKey(requestHeaders: Headers): Promise<string> {
+  // x-real-ip is set by the hosting proxy. Otherwise use the last x-forwarded-for entry:
+  // it was added by the proxy in front of us, while earlier entries come from the client.
+  const forwardedFor = requestHeaders.get('x-forwarded-for')?.split(',').map(entry => entry.trim()).filter(Boolean);
+  const clientIp = requestHeaders.get('x-real-ip')?.trim() ||
+                   forwardedFor?.[forwardedFor.length - 1] ||
+                   'unknown';
+  return `ip:${clientIp}`;
+}
+
+/**
+ * Standard rate limit headers (IETF RateLimit header fields, plus Retry-After when limited)
+ */
+export function getRateLimitHeaders(result: RateLimitResult): Record<string, string> {
+  const resetSeconds = Math.max(0, Math.ceil((result.resetTime.getTime() - Date.now()) / 1000));
+  const headers: Record<string, string> = {
+    'RateLimit-Limit': result.limit.toString(),
+    'RateLimit-Remaining': result.remaining.toString(),
+    'RateLimit-Reset': resetSeconds.toString(),
+    'RateLimit-Policy': `${result.policy.limit};w=${Math.round(result.policy.windowMs / 1000)}`
   };
+  if (!result.success) {
+    headers['Retry-After'] = result.retryAfter.toString();
+  }
+  return headers;
 }
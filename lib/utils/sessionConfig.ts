@@ -1,4 +1,5 @@
-import { SessionOptions } from 'iron-session';
+import { cookies } from 'next/headers';
+import { getIronSession, SessionOptions } from 'iron-session';
 import { createSecureHash } from './security';
 
 /**
@@ -29,6 +30,7 @@ export const sessionConfig: SessionOptions = {
  */
 export interface SessionData {
   userId?: string;
+  username?: string;
   isLoggedIn: boolean;
   csrfToken?: string;
   lastActivity?: number;
@@ -57,4 +59,30 @@ export function validateSession(session: SessionData): boolean {
   // Update last activity
   session.lastActivity = now;
   return true;
-}
\ No newline at end of file
+}
+
+/**
+ * Read the iron-session for the current request (route handlers and server components)
+ */
+export async function getSession() {
+  const session = await getIronSession<SessionData>(await cookies(), sessionConfig);
+  if (session.isLoggedIn === undefined) {
+    session.isLoggedIn = false;
+  }
+  return session;
+}
+
+/**
+ * Log a user into the current session, issuing a fresh CSRF token
+ * @returns The CSRF token the client must send in the x-csrf-token header
+ */
+export async function startUserSession(user: { id: string; username: string }): Promise<string> {
+  const session = await getSession();
+  session.userId = user.id;
+  session.username = user.username;
+  session.isLoggedIn = true;
+  session.csrfToken = await generateCsrfToken();
+  session.lastActivity = Date.now();
+  await session.save();
+  return session.csrfToken;
+}
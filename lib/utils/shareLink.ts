@@ -0,0 +1,141 @@
+import { DateTime } from 'luxon';
+import type { Timezone } from '@/store/timezoneStore';
+import { getTimezoneInfo } from './timezone';
+
+/**
+ * Query parameters used by shareable links
+ * e.g. /?z=Europe/London,Asia/Tokyo&d=2026-11-03&t=14:30Z
+ */
+export const SHARE_LINK_PARAMS = {
+  zones: 'z',
+  date: 'd',
+  time: 't',
+  action: 'action'
+} as const;
+
+// Keep links (and the resulting view) a reasonable size
+const MAX_SHARED_ZONES = 24;
+
+/**
+ * State decoded from a shareable link. Fields are null when absent or invalid.
+ */
+export interface ShareLinkState {
+  timezones: Timezone[] | null;
+  selectedDate: Date | null;
+  highlightedTime: Date | null;
+  action: string | null;
+}
+
+/**
+ * Parse the highlighted time parameter.
+ * Accepts "HH:mm" with an optional "Z" or "±HH:mm" suffix (UTC when omitted),
+ * which is placed on the given date, or a full ISO timestamp.
+ * @param value The raw parameter value
+ * @param date ISO date (yyyy-MM-dd) the time belongs to, if known
+ * @returns The instant, or null if the value can't be parsed
+ */
+function parseSharedTime(value: string, date: string | null): Date | null {
+  const timeOnly = value.match(/^(\d{2}:\d{2})(Z|[+-]\d{2}:?\d{2})?$/i);
+  const iso = timeOnly
+    ? `${date || DateTime.utc().toISODate()}T${timeOnly[1]}${timeOnly[2] || 'Z'}`
+    : value;
+  const parsed = DateTime.fromISO(iso, { setZone: true });
+  return parsed.isValid ? parsed.toJSDate() : null;
+}
+
+/**
+ * Check whether a query string carries any shareable link state
+ * @param search The query string or parsed parameters
+ * @returns True if zones, a date, a time or an action are present
+ */
+export function hasShareLinkParams(search: string | URLSearchParams): boolean {
+  const params = typeof search === 'string' ? new URLSearchParams(search) : search;
+  return Object.values(SHARE_LINK_PARAMS).some(param => params.has(param));
+}
+
+/**
+ * Decode zones, date, highlighted time and action from a query string.
+ * Unknown zone identifiers are skipped; legacy IANA names are canonicalized.
+ * @param search The query string or parsed parameters
+ * @returns The decoded state
+ */
+export function parseShareLink(search: string | URLSearchParams): ShareLinkState {
+  const params = typeof search === 'string' ? new URLSearchParams(search) : search;
+
+  let timezones: Timezone[] | null = null;
+  const rawZones = params.get(SHARE_LINK_PARAMS.zones);
+  if (rawZones) {
+    const seen = new Set<string>();
+    timezones = [];
+    for (const rawId of rawZones.split(',')) {
+      const info = getTimezoneInfo(rawId.trim());
+      if (!info || seen.has(info.id)) continue;
+      seen.add(info.id);
+      timezones.push(info);
+      if (timezones.length >= MAX_SHARED_ZONES) break;
+    }
+    if (timezones.length === 0) timezones = null;
+  }
+
+  const rawDate = params.get(SHARE_LINK_PARAMS.date);
+  const date = rawDate && /^\d{4}-\d{2}-\d{2}$/.test(rawDate) && DateTime.fromISO(rawDate).isValid
+    ? rawDate
+    : null;
+
+  const rawTime = params.get(SHARE_LINK_PARAMS.time);
+  const highlightedTime = rawTime ? parseSharedTime(rawTime, date) : null;
+
+  // Show the day containing the highlighted time in the visitor's own timezone;
+  // otherwise fall back to the shared calendar date
+  let selectedDate: Date | null = null;
+  if (highlightedTime) {
+    selectedDate = DateTime.fromJSDate(highlightedTime).startOf('day').toJSDate();
+  } else if (date) {
+    selectedDate = DateTime.fromISO(date).startOf('day').toJSDate();
+  }
+
+  return {
+    timezones,
+    selectedDate,
+    highlightedTime,
+    action: params.get(SHARE_LINK_PARAMS.action)
+  };
+}
+
+/**
+ * Build a shareable link for the given view state
+ * @param baseUrl Absolute URL of the page to link to (query and hash are replaced)
+ * @param state Zones, selected date and optional highlighted time
+ * @returns The link
+ */
+export function buildShareLink(
+  baseUrl: string,
+  state: { timezones: Timezone[]; selectedDate: Date; highlightedTime?: Date | null }
+): string {
+  const url = new URL(baseUrl);
+  const date = DateTime.fromJSDate(state.selectedDate).toISODate();
+  const parts: string[] = [];
+
+  if (state.timezones.length > 0) {
+    // Keep "/" readable; everything else (notably "+" in Etc/GMT+5) is escaped
+    const zones = state.timezones
+      .map(tz => encodeURIComponent(tz.id).replace(/%2F/gi, '/'))
+      .join(',');
+    parts.push(`${SHARE_LINK_PARAMS.zones}=${zones}`);
+  }
+  if (date) {
+    parts.push(`${SHARE_LINK_PARAMS.date}=${date}`);
+  }
+  if (state.highlightedTime) {
+    const utc = DateTime.fromJSDate(state.highlightedTime).toUTC();
+    // Short form when the time falls on the shared date, full timestamp otherwise
+    const time = utc.toISODate() === date
+      ? utc.toFormat("HH:mm'Z'")
+      : utc.toFormat("yyyy-MM-dd'T'HH:mm'Z'");
+    parts.push(`${SHARE_LINK_PARAMS.time}=${time}`);
+  }
+
+  url.search = parts.join('&');
+  url.hash = '';
+  return url.toString();
+}
@@ -0,0 +1,139 @@
+import { DateTime } from 'luxon';
+import { ZONE_COORDINATES, ZONE_LINKS } from './timezoneMetadata';
+
+/**
+ * A point on Earth in degrees (north and east are positive)
+ */
+export interface Coordinates {
+  lat: number;
+  lon: number;
+}
+
+/**
+ * How light it is outside. Astronomical twilight is dark enough to count as night.
+ */
+export type DaylightPhase = 'day' | 'civil-twilight' | 'nautical-twilight' | 'night';
+
+/**
+ * Sun events for one local day. A time is null when the sun doesn't cross that
+ * altitude that day (e.g. no sunset in Reykjavik's midsummer).
+ */
+export interface SunTimes {
+  nauticalDawn: Date | null;
+  civilDawn: Date | null;
+  sunrise: Date | null;
+  sunset: Date | null;
+  civilDusk: Date | null;
+  nauticalDusk: Date | null;
+}
+
+// Sun altitudes (degrees) that start each phase; sunrise allows for refraction and the sun's radius
+const SUNRISE_ALTITUDE = -0.833;
+const CIVIL_TWILIGHT_ALTITUDE = -6;
+const NAUTICAL_TWILIGHT_ALTITUDE = -12;
+
+const RAD = Math.PI / 180;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const J1970 = 2440588;
+const J2000 = 2451545;
+const OBLIQUITY = RAD * 23.4397; // Tilt of Earth's axis
+const J0 = 0.0009;
+
+// Days since the J2000 epoch
+const toDays = (date: Date): number => date.getTime() / DAY_MS - 0.5 + J1970 - J2000;
+const fromJulian = (julian: number): Date => new Date((julian + 0.5 - J1970) * DAY_MS);
+
+const solarMeanAnomaly = (days: number): number => RAD * (357.5291 + 0.98560028 * days);
+
+function eclipticLongitude(meanAnomaly: number): number {
+  const center = RAD * (1.9148 * Math.sin(meanAnomaly) + 0.02 * Math.sin(2 * meanAnomaly) + 0.0003 * Math.sin(3 * meanAnomaly));
+  const perihelion = RAD * 102.9372;
+  return meanAnomaly + center + perihelion + Math.PI;
+}
+
+const declination = (longitude: number): number => Math.asin(Math.sin(OBLIQUITY) * Math.sin(longitude));
+const rightAscension = (longitude: number): number =>
+  Math.atan2(Math.sin(longitude) * Math.cos(OBLIQUITY), Math.cos(longitude));
+
+/**
+ * Sun altitude above the horizon in degrees at an instant. Accurate to well
+ * under a degree, which is plenty for shading time slots.
+ */
+export function getSolarAltitude(instant: Date, { lat, lon }: Coordinates): number {
+  const days = toDays(instant);
+  const longitude = eclipticLongitude(solarMeanAnomaly(days));
+  const siderealTime = RAD * (280.16 + 360.9856235 * days) + RAD * lon;
+  const hourAngle = siderealTime - rightAscension(longitude);
+  const phi = RAD * lat;
+  const dec = declination(longitude);
+  return Math.asin(Math.sin(phi) * Math.sin(dec) + Math.cos(phi) * Math.cos(dec) * Math.cos(hourAngle)) / RAD;
+}
+
+/**
+ * How light it is at a place at an instant
+ */
+export function getSolarPhase(instant: Date, coordinates: Coordinates): DaylightPhase {
+  const altitude = getSolarAltitude(instant, coordinates);
+  if (altitude > SUNRISE_ALTITUDE) return 'day';
+  if (altitude > CIVIL_TWILIGHT_ALTITUDE) return 'civil-twilight';
+  if (altitude > NAUTICAL_TWILIGHT_ALTITUDE) return 'nautical-twilight';
+  return 'night';
+}
+
+/**
+ * Sunrise, sunset and twilight for the local day containing a date
+ *
+ * @param date Any instant on the day
+ * @param coordinates Where to compute for
+ * @param timezone IANA zone whose calendar day is used
+ */
+export function getSunTimes(date: Date, coordinates: Coordinates, timezone: string): SunTimes {
+  // Solar noon nearest local noon, so the events land on the zone's calendar day
+  const localNoon = DateTime.fromJSDate(date).setZone(timezone).set({ hour: 12, minute: 0, second: 0, millisecond: 0 });
+  const lw = -RAD * coordinates.lon;
+  const phi = RAD * coordinates.lat;
+
+  const days = toDays(localNoon.toJSDate());
+  const cycle = Math.round(days - J0 - lw / (2 * Math.PI));
+  const approxNoon = J0 + lw / (2 * Math.PI) + cycle;
+  const meanAnomaly = solarMeanAnomaly(approxNoon);
+  const longitude = eclipticLongitude(meanAnomaly);
+  const dec = declination(longitude);
+  const transit = J2000 + approxNoon + 0.0053 * Math.sin(meanAnomaly) - 0.0069 * Math.sin(2 * longitude);
+
+  const crossings = (altitude: number): [Date | null, Date | null] => {
+    const cosHourAngle = (Math.sin(RAD * altitude) - Math.sin(phi) * Math.sin(dec)) / (Math.cos(phi) * Math.cos(dec));
+    // Polar day or night: the sun stays above or below this altitude all day
+    if (cosHourAngle < -1 || cosHourAngle > 1 || Number.isNaN(cosHourAngle)) return [null, null];
+    const hourAngle = Math.acos(cosHourAngle);
+    const set = J2000 + J0 + (hourAngle + lw) / (2 * Math.PI) + cycle
+      + 0.0053 * Math.sin(meanAnomaly) - 0.0069 * Math.sin(2 * longitude);
+    const rise = transit - (set - transit);
+    return [fromJulian(rise), fromJulian(set)];
+  };
+
+  const [sunrise, sunset] = crossings(SUNRISE_ALTITUDE);
+  const [civilDawn, civilDusk] = crossings(CIVIL_TWILIGHT_ALTITUDE);
+  const [nauticalDawn, nauticalDusk] = crossings(NAUTICAL_TWILIGHT_ALTITUDE);
+  return { nauticalDawn, civilDawn, sunrise, sunset, civilDusk, nauticalDusk };
+}
+
+/**
+ * Bundled coordinates for a zone's principal city, following renamed zones
+ * (e.g. Asia/Calcutta uses Asia/Kolkata's)
+ */
+export function getZoneCoordinates(zone: string): Coordinates | null {
+  const entry = ZONE_COORDINATES[zone] ?? ZONE_COORDINATES[ZONE_LINKS[zone]];
+  return entry ? { lat: entry[0], lon: entry[1] } : null;
+}
+
+/**
+ * Coordinates for a timezone entry: the ones saved on it (bundled or set by the user),
+ * falling back to the bundled city for entries saved before coordinates existed
+ */
+export function getTimezoneCoordinates(timezone: { id: string; lat?: number; lon?: number }): Coordinates | null {
+  if (typeof timezone.lat === 'number' && typeof timezone.lon === 'number') {
+    return { lat: timezone.lat, lon: timezone.lon };
+  }
+  return getZoneCoordinates(timezone.id);
+}
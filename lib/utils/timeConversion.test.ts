@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { resolveLocalTime } from './timeConversion';
+
+const iso = (resolution: ReturnType<typeof resolveLocalTime>) => ({
+  status: resolution?.status,
+  candidates: resolution?.candidates.map(candidate => candidate.toUTC().toISO()),
+  resolved: resolution?.resolved.toUTC().toISO(),
+  gapMinutes: resolution?.gapMinutes
+});
+
+describe('resolveLocalTime', () => {
+  it('resolves ordinary wall times to one instant', () => {
+    expect(iso(resolveLocalTime({ year: 2026, month: 6, day: 15, hour: 9, minute: 0 }, 'America/New_York'))).toEqual({
+      status: 'valid',
+      candidates: ['2026-06-15T13:00:00.000Z'],
+      resolved: '2026-06-15T13:00:00.000Z',
+      gapMinutes: undefined
+    });
+  });
+
+  it('shifts skipped times forward by the gap', () => {
+    // 2:30 AM doesn't exist on March 8th in New York; it becomes 3:30 AM EDT
+    expect(iso(resolveLocalTime({ year: 2026, month: 3, day: 8, hour: 2, minute: 30 }, 'America/New_York'))).toEqual({
+      status: 'gap',
+      candidates: [],
+      resolved: '2026-03-08T07:30:00.000Z',
+      gapMinutes: 60
+    });
+    // Lord Howe Island moves its clocks by half an hour, so 2:15 AM becomes 2:45 AM
+    expect(iso(resolveLocalTime({ year: 2026, month: 10, day: 4, hour: 2, minute: 15 }, 'Australia/Lord_Howe'))).toMatchObject({
+      status: 'gap',
+      resolved: '2026-10-03T15:45:00.000Z',
+      gapMinutes: 30
+    });
+  });
+
+  it('lists both instants of a repeated time and picks one', () => {
+    const wall = { year: 2026, month: 11, day: 1, hour: 1, minute: 30 };
+    expect(iso(resolveLocalTime(wall, 'America/New_York'))).toEqual({
+      status: 'ambiguous',
+      candidates: ['2026-11-01T05:30:00.000Z', '2026-11-01T06:30:00.000Z'],
+      resolved: '2026-11-01T05:30:00.000Z',
+      gapMinutes: undefined
+    });
+    expect(resolveLocalTime(wall, 'America/New_York', 'later')?.resolved.toUTC().toISO()).toBe('2026-11-01T06:30:00.000Z');
+  });
+
+  it('handles southern-hemisphere changes', () => {
+    expect(resolveLocalTime({ year: 2026, month: 4, day: 5, hour: 2, minute: 30 }, 'Australia/Sydney')?.status).toBe('ambiguous');
+    expect(resolveLocalTime({ year: 2026, month: 10, day: 4, hour: 2, minute: 30 }, 'Australia/Sydney')?.status).toBe('gap');
+  });
+
+  it('rejects unknown zones and impossible dates', () => {
+    expect(resolveLocalTime({ year: 2026, month: 6, day: 15, hour: 9, minute: 0 }, 'Mars/Nowhere')).toBeNull();
+    expect(resolveLocalTime({ year: 2026, month: 2, day: 30, hour: 9, minute: 0 }, 'Europe/London')).toBeNull();
+  });
+});
@@ -0,0 +1,181 @@
+import { DateTime, IANAZone } from 'luxon';
+import { convertEarthToMarsTime, formatMarsTime } from './mars-timezone';
+import { getCanonicalTimezoneId, isValidTimezone } from './timezone';
+import { getTimeSystem, marsTimeSystem } from './timeSystems';
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+/**
+ * How a wall-clock time maps onto real instants in a zone:
+ * - valid: exactly one instant
+ * - gap: the time is skipped (clocks spring forward)
+ * - ambiguous: the time happens twice (clocks fall back)
+ */
+export type LocalTimeStatus = 'valid' | 'gap' | 'ambiguous';
+
+/**
+ * Which instant to pick for an ambiguous wall-clock time
+ */
+export type Disambiguation = 'earlier' | 'later';
+
+/**
+ * Result of resolving a wall-clock time in a zone
+ */
+export interface LocalTimeResolution {
+  status: LocalTimeStatus;
+  /** The instants the wall time refers to (none for a gap, two when ambiguous) */
+  candidates: DateTime[];
+  /** The chosen instant; for a gap, the wall time shifted forward by the gap length */
+  resolved: DateTime;
+  /** Length of the skipped interval in minutes (gaps only) */
+  gapMinutes?: number;
+}
+
+/**
+ * Wall-clock components of a local time
+ */
+export interface WallTime {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second?: number;
+}
+
+/**
+ * Get a zone's UTC offset (minutes) at an instant
+ */
+function getZoneOffset(zone: string, millis: number): number {
+  const ianaZone = IANAZone.create(zone);
+  return ianaZone.isValid ? ianaZone.offset(millis) : DateTime.fromMillis(millis, { zone }).offset;
+}
+
+/**
+ * Resolve a wall-clock time in a zone, detecting DST gaps and ambiguities
+ * @param wall The wall-clock time
+ * @param zone IANA timezone
+ * @param disambiguation Which instant to use when the time occurs twice
+ * @returns The resolution, or null if the zone or time is invalid
+ */
+export function resolveLocalTime(
+  wall: WallTime,
+  zone: string,
+  disambiguation: Disambiguation = 'earlier'
+): LocalTimeResolution | null {
+  if (!isValidTimezone(zone)) return null;
+  const wallAsUtc = DateTime.utc(wall.year, wall.month, wall.day, wall.hour, wall.minute, wall.second ?? 0);
+  if (!wallAsUtc.isValid) return null;
+  const wallMs = wallAsUtc.toMillis();
+
+  // Any offset the wall time could use is in effect within a day of it
+  const offsets = Array.from(new Set([
+    getZoneOffset(zone, wallMs - DAY_MS),
+    getZoneOffset(zone, wallMs),
+    getZoneOffset(zone, wallMs + DAY_MS)
+  ]));
+
+  const candidates = offsets
+    .map(offset => wallMs - offset * MINUTE_MS)
+    .filter(instant => getZoneOffset(zone, instant) === (wallMs - instant) / MINUTE_MS)
+    .sort((a, b) => a - b)
+    .map(instant => DateTime.fromMillis(instant, { zone }));
+
+  if (candidates.length === 0) {
+    // Skipped time: move forward by the size of the jump (01:30 becomes 02:30 for a one-hour gap)
+    const before = getZoneOffset(zone, wallMs - DAY_MS);
+    const after = getZoneOffset(zone, wallMs + DAY_MS);
+    const gapMinutes = after - before;
+    return {
+      status: 'gap',
+      candidates,
+      resolved: DateTime.fromMillis(wallMs - before * MINUTE_MS, { zone }),
+      gapMinutes
+    };
+  }
+
+  if (candidates.length > 1) {
+    return {
+      status: 'ambiguous',
+      candidates,
+      resolved: disambiguation === 'later' ? candidates[candidates.length - 1] : candidates[0]
+    };
+  }
+
+  return { status: 'valid', candidates, resolved: candidates[0] };
+}
+
+/**
+ * Check whether an identifier refers to a known Mars site
+ */
+export function isMarsZone(zone: string): boolean {
+  const system = getTimeSystem(zone);
+  return system === marsTimeSystem && !!system.getZones?.().some(site => site.id === zone);
+}
+
+/**
+ * An instant expressed in a target zone
+ */
+export type ConvertedTime =
+  | {
+      timezone: string;
+      kind: 'earth';
+      iso: string | null;
+      formatted: {
+        time: string;
+        date: string;
+        dateTime: string;
+        dayOfWeek: string;
+        offset: string;
+        abbreviation: string;
+      };
+      isInDST: boolean;
+      /** Calendar days between the source's local date and this zone's local date */
+      dayShift: number;
+    }
+  | {
+      timezone: string;
+      kind: 'mars';
+      mars: { hours: number; minutes: number; seconds: number; sol: number };
+      formatted: string;
+    };
+
+/**
+ * Express an instant in an Earth or Mars zone
+ * @param instant The instant to convert
+ * @param zone Target IANA timezone or Mars site
+ * @param sourceDate Local date in the source zone (yyyy-MM-dd), used for the day shift
+ * @returns The converted time, or null if the zone is unknown
+ */
+export function convertInstantToZone(instant: DateTime, zone: string, sourceDate: string): ConvertedTime | null {
+  if (isMarsZone(zone)) {
+    const mars = convertEarthToMarsTime(instant, zone);
+    return { timezone: zone, kind: 'mars', mars, formatted: formatMarsTime(mars) };
+  }
+
+  const canonicalZone = getCanonicalTimezoneId(zone);
+  if (!isValidTimezone(canonicalZone)) return null;
+
+  const local = instant.setZone(canonicalZone);
+  const dayShift = Math.round(
+    DateTime.fromISO(local.toISODate() || sourceDate, { zone: 'utc' })
+      .diff(DateTime.fromISO(sourceDate, { zone: 'utc' }), 'days').days
+  );
+
+  return {
+    timezone: canonicalZone,
+    kind: 'earth',
+    iso: local.toISO(),
+    formatted: {
+      time: local.toFormat('HH:mm:ss'),
+      date: local.toFormat('yyyy-MM-dd'),
+      dateTime: local.toFormat('yyyy-MM-dd HH:mm:ss'),
+      dayOfWeek: local.toFormat('EEEE'),
+      offset: local.toFormat('ZZ'),
+      abbreviation: local.toFormat('ZZZZ'),
+    },
+    isInDST: local.isInDST,
+    dayShift
+  };
+}
@@ -0,0 +1,56 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { Settings } from 'luxon';
+import { findSlotIndex, generateTimeSlots, isTimeInSlot } from './timeSlots';
+
+// Slots follow the runtime's zone, so pin it to one with DST
+const originalZone = Settings.defaultZone;
+beforeAll(() => { Settings.defaultZone = 'America/New_York'; });
+afterAll(() => { Settings.defaultZone = originalZone; });
+
+const iso = (slots: Date[]) => slots.map(slot => slot.toISOString());
+
+describe('generateTimeSlots', () => {
+  it('covers an ordinary day', () => {
+    const slots = generateTimeSlots(new Date('2026-06-15T16:00:00Z'), 30);
+    expect(slots).toHaveLength(48);
+    expect(slots[0].toISOString()).toBe('2026-06-15T04:00:00.000Z');
+    expect(slots[47].toISOString()).toBe('2026-06-16T03:30:00.000Z');
+  });
+
+  it('skips the missing hour on a 23-hour day', () => {
+    const slots = generateTimeSlots(new Date('2026-03-08T16:00:00Z'), 30);
+    expect(slots).toHaveLength(46);
+    // 1:30 AM EST is followed by 3:00 AM EDT
+    expect(iso(slots.slice(3, 5))).toEqual(['2026-03-08T06:30:00.000Z', '2026-03-08T07:00:00.000Z']);
+  });
+
+  it('repeats the extra hour on a 25-hour day', () => {
+    const slots = generateTimeSlots(new Date('2026-11-01T16:00:00Z'), 30);
+    expect(slots).toHaveLength(50);
+    // 1:00 and 1:30 AM EDT, then 1:00 and 1:30 AM EST
+    expect(iso(slots.slice(2, 6))).toEqual([
+      '2026-11-01T05:00:00.000Z',
+      '2026-11-01T05:30:00.000Z',
+      '2026-11-01T06:00:00.000Z',
+      '2026-11-01T06:30:00.000Z'
+    ]);
+  });
+});
+
+describe('findSlotIndex', () => {
+  const fallBackSlots = () => generateTimeSlots(new Date('2026-11-01T16:00:00Z'), 30);
+
+  it('finds the slot in the second run of a repeated hour', () => {
+    expect(findSlotIndex(fallBackSlots(), new Date('2026-11-01T06:15:00Z'), 30)).toBe(4);
+  });
+
+  it('includes the slot start and excludes its end', () => {
+    const slot = fallBackSlots()[4];
+    expect(isTimeInSlot(slot, new Date('2026-11-01T06:00:00Z'), 30)).toBe(true);
+    expect(isTimeInSlot(slot, new Date('2026-11-01T06:30:00Z'), 30)).toBe(false);
+  });
+
+  it('returns -1 outside the day', () => {
+    expect(findSlotIndex(fallBackSlots(), new Date('2026-11-02T05:00:00Z'), 30)).toBe(-1);
+  });
+});
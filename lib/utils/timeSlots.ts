@@ -0,0 +1,46 @@
+import { DateTime } from 'luxon';
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * Generate the time grid for a day
+ * @param date Any time on the day (the day is taken in the runtime's local timezone)
+ * @param incrementMinutes Slot length in minutes (should divide 60)
+ * @returns Slot start times covering the whole day; DST change days have fewer
+ * (23-hour day) or more (25-hour day) slots
+ */
+export function generateTimeSlots(date: Date, incrementMinutes: number): Date[] {
+  const startOfDay = DateTime.fromJSDate(date).startOf('day');
+  // Step in real elapsed time so a skipped or repeated hour is handled correctly
+  const start = startOfDay.toMillis();
+  const end = startOfDay.plus({ days: 1 }).toMillis();
+  const slots: Date[] = [];
+
+  for (let time = start; time < end; time += incrementMinutes * MINUTE_MS) {
+    slots.push(new Date(time));
+  }
+
+  return slots;
+}
+
+/**
+ * Check whether a time falls within a slot
+ * @param slot Slot start time
+ * @param time The time to check
+ * @param incrementMinutes Slot length in minutes
+ */
+export function isTimeInSlot(slot: Date, time: Date, incrementMinutes: number): boolean {
+  const offset = time.getTime() - slot.getTime();
+  return offset >= 0 && offset < incrementMinutes * MINUTE_MS;
+}
+
+/**
+ * Find the slot containing a time
+ * @param timeSlots Slot start times in chronological order
+ * @param time The time to look up
+ * @param incrementMinutes Slot length in minutes
+ * @returns Index of the slot, or -1 if the time is outside the grid
+ */
+export function findSlotIndex(timeSlots: Date[], time: Date, incrementMinutes: number): number {
+  return timeSlots.findIndex(slot => isTimeInSlot(slot, time, incrementMinutes));
+}
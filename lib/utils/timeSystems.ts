@@ -0,0 +1,306 @@
+import { DateTime } from 'luxon';
+import { DEFAULT_WORKING_HOURS, isBusinessHours, isNightHours, type WorkingHours } from './dateTimeFormatter';
+import {
+  convertEarthToMarsTime,
+  formatMarsDate,
+  formatMarsTime,
+  formatMarsTimeSlot,
+  generateMarsTimeSlots,
+  getMarsLocation,
+  getMarsSiteTimezones,
+  getMarsTimezoneOffset,
+  getRoverInfo,
+  MarsSlotGrid,
+  MarsTimeData,
+  MarsTimeScale
+} from './mars-timezone';
+import { getSolarPhase, getZoneCoordinates, type Coordinates, type DaylightPhase } from './solar';
+import type { TimezoneInfo } from './timezone';
+
+/**
+ * Display settings passed to time systems; each system reads the ones it understands
+ */
+export interface TimeSystemOptions {
+  format?: string; // Luxon format for Earth times
+  nightHours?: { start: number; end: number }; // Earth night window (hours of day), used when a zone has no coordinates
+  coordinates?: Coordinates; // Where on Earth to follow the sun; defaults to the zone's bundled city
+  marsTimeScale?: MarsTimeScale;
+  marsSlotGrid?: MarsSlotGrid;
+}
+
+/**
+ * A clock reading in a zone
+ */
+export interface TimeSystemReading {
+  hours: number;
+  minutes: number;
+  seconds: number;
+  dayLabel: string; // e.g. "Mon, Jun 2" or "Perseverance Sol 1522"
+}
+
+/**
+ * A time slot on a system's own clock (e.g. a Mars hour), with the Earth instants it covers
+ */
+export interface TimeSystemSlot {
+  start: Date;
+  end: Date;
+  label: string;
+}
+
+/**
+ * What the timezone selector shows about a zone
+ */
+export interface TimeSystemSearchMetadata {
+  offset: string; // Relative to the user's zone for Earth, the system's own offset otherwise
+  isBusinessHours: boolean;
+  currentTime: string;
+  isDaytime: boolean;
+  isRoverLocation?: boolean;
+  roverInfo?: {
+    name: string;
+    mission: string;
+    landingDate: string;
+  } | null;
+  calendarSummary?: string; // e.g. "MY 38 · Ls 123.4° · Northern summer · 12 Leo 220"
+}
+
+/**
+ * A way of telling time. Zones belong to the registered system whose ID prefix
+ * they start with; anything else is an Earth IANA zone.
+ */
+export interface TimeSystem {
+  id: string;
+  name: string; // e.g. "Mars"
+  idPrefix: string; // e.g. "Mars/"; empty for Earth, which is the fallback
+  iconSrc?: string; // Image shown beside the zone's name
+  symbol?: string; // Short marker shown beside the zone's times
+  usesEarthCalendar: boolean; // Has UTC offsets, DST, weekends and working hours
+  now(zone: string, options?: TimeSystemOptions): TimeSystemReading;
+  convert(instant: Date, zone: string, options?: TimeSystemOptions): TimeSystemReading;
+  format(instant: Date, zone: string, options?: TimeSystemOptions): string;
+  getOffsetLabel(zone: string, at?: Date): string;
+  getOffsetHours(zone: string, at?: Date): number;
+  isDaytime(instant: Date, zone: string, options?: TimeSystemOptions): boolean;
+  getDaylightPhase(instant: Date, zone: string, options?: TimeSystemOptions): DaylightPhase;
+  getSearchMetadata(
+    zone: string,
+    context: { userTimezone: string; workingHours?: WorkingHours },
+    options?: TimeSystemOptions
+  ): TimeSystemSearchMetadata;
+  getCalendarSummary?(instant: Date, zone: string, options?: TimeSystemOptions): string;
+  /** Zones the system defines; Earth's come from the IANA catalog instead */
+  getZones?(): TimezoneInfo[];
+  /** Slots on the system's own clock, or null when its grid isn't turned on */
+  generateSlots?(from: Date, to: Date, zone: string, incrementMinutes: number, options?: TimeSystemOptions): TimeSystemSlot[] | null;
+}
+
+/**
+ * Civil time in IANA zones
+ */
+export const earthTimeSystem: TimeSystem = {
+  id: 'earth',
+  name: 'Earth',
+  idPrefix: '',
+  usesEarthCalendar: true,
+  now(zone) {
+    return this.convert(new Date(), zone);
+  },
+  convert(instant, zone) {
+    const local = DateTime.fromJSDate(instant).setZone(zone);
+    return { hours: local.hour, minutes: local.minute, seconds: local.second, dayLabel: local.toFormat('EEE, MMM d') };
+  },
+  format(instant, zone, options) {
+    return DateTime.fromJSDate(instant).setZone(zone).toFormat(options?.format ?? 'hh:mm a');
+  },
+  getOffsetLabel(zone, at = new Date()) {
+    return DateTime.fromJSDate(at).setZone(zone).toFormat('ZZ');
+  },
+  getOffsetHours(zone, at = new Date()) {
+    return DateTime.fromJSDate(at).setZone(zone).offset / 60;
+  },
+  isDaytime(instant, zone, options) {
+    return this.getDaylightPhase(instant, zone, options) === 'day';
+  },
+  getDaylightPhase(instant, zone, options) {
+    // Follow the sun where the zone's location is known; otherwise use the night-hours setting
+    const coordinates = options?.coordinates ?? getZoneCoordinates(zone);
+    if (coordinates) return getSolarPhase(instant, coordinates);
+    return isNightHours(instant, zone, options?.nightHours) ? 'night' : 'day';
+  },
+  getSearchMetadata(zone, { userTimezone, workingHours = DEFAULT_WORKING_HOURS }) {
+    const now = new Date();
+
+    // Handle missing or invalid timezone data with fallbacks
+    const safeUserTimezone = userTimezone && typeof userTimezone === 'string' ? userTimezone : 'UTC';
+    const safeTimezoneId = zone && typeof zone === 'string' ? zone : 'UTC';
+
+    // Use try-catch for each timezone conversion
+    let userTime: Date;
+    try {
+      userTime = new Date(now.toLocaleString('en-US', { timeZone: safeUserTimezone }));
+    } catch (error) {
+      console.error(`Error converting to user timezone ${safeUserTimezone}:`, error);
+      userTime = new Date();
+    }
+
+    let tzTime: Date;
+    try {
+      tzTime = new Date(now.toLocaleString('en-US', { timeZone: safeTimezoneId }));
+    } catch (error) {
+      console.error(`Error converting to timezone ${safeTimezoneId}:`, error);
+      tzTime = new Date();
+    }
+
+    // Calculate offset in hours
+    const offsetMs = tzTime.getTime() - userTime.getTime();
+    const offsetHours = Math.round(offsetMs / (1000 * 60 * 60));
+    const offsetStr = offsetHours === 0 ? 'Same time' :
+      `${offsetHours > 0 ? '+' : ''}${offsetHours}h`;
+
+    // Format current time
+    let currentTime: string;
+    try {
+      currentTime = tzTime.toLocaleTimeString('en-US', {
+        hour: '2-digit',
+        minute: '2-digit',
+        hour12: true,
+      });
+    } catch (error) {
+      console.error('Error formatting time:', error);
+      currentTime = 'Unavailable';
+    }
+
+    return {
+      offset: offsetStr,
+      // Check if current time is within this timezone's working hours
+      isBusinessHours: isBusinessHours(now, safeTimezoneId, workingHours),
+      currentTime,
+      isDaytime: this.isDaytime(now, safeTimezoneId)
+    };
+  }
+};
+
+const toMarsTime = (instant: Date, zone: string, options?: TimeSystemOptions): MarsTimeData =>
+  convertEarthToMarsTime(DateTime.fromJSDate(instant), zone, options?.marsTimeScale);
+
+/**
+ * Local solar time at Mars sites (see mars-timezone.ts)
+ */
+export const marsTimeSystem: TimeSystem = {
+  id: 'mars',
+  name: 'Mars',
+  idPrefix: 'Mars/',
+  iconSrc: '/mars.png',
+  symbol: '♂︎',
+  usesEarthCalendar: false,
+  now(zone, options) {
+    return this.convert(new Date(), zone, options);
+  },
+  convert(instant, zone, options) {
+    const { hours, minutes, seconds, sol, mission } = toMarsTime(instant, zone, options);
+    return { hours, minutes, seconds, dayLabel: mission ? `${mission} Sol ${sol}` : `MSD ${sol}` };
+  },
+  format(instant, zone, options) {
+    return formatMarsTime(toMarsTime(instant, zone, options));
+  },
+  getOffsetLabel(zone) {
+    return getMarsTimezoneOffset(zone);
+  },
+  getOffsetHours(zone) {
+    // Mars hours east of the prime meridian (Airy-0)
+    return (getMarsLocation(zone)?.longitude ?? 0) / 15;
+  },
+  isDaytime(instant, zone, options) {
+    // Simplified: 7 AM to 7 PM local Mars time
+    const { hours } = toMarsTime(instant, zone, options);
+    return hours >= 7 && hours < 19;
+  },
+  getDaylightPhase(instant, zone, options) {
+    return this.isDaytime(instant, zone, options) ? 'day' : 'night';
+  },
+  getSearchMetadata(zone, _context, options) {
+    const now = new Date();
+    const marsTimeData = toMarsTime(now, zone, options);
+    const roverInfo = getRoverInfo(zone);
+
+    // Show the MTC+XX:XX offset as "+5h 9m"
+    const match = getMarsTimezoneOffset(zone).match(/MTC([+-])(\d+):(\d+)/);
+    let offset = 'Mars Time';
+    if (match) {
+      const minutes = parseInt(match[3], 10);
+      offset = `${match[1]}${parseInt(match[2], 10)}h${minutes > 0 ? ` ${minutes}m` : ''}`;
+    }
+
+    // There are no working hours on Mars, so daylight stands in for them
+    const isDaytime = this.isDaytime(now, zone, options);
+    return {
+      offset,
+      isBusinessHours: isDaytime,
+      currentTime: formatMarsTime(marsTimeData),
+      isDaytime,
+      isRoverLocation: !!roverInfo,
+      roverInfo: roverInfo ? {
+        name: roverInfo.name,
+        mission: roverInfo.mission,
+        landingDate: roverInfo.landingDate
+      } : null,
+      calendarSummary: formatMarsDate(marsTimeData, getMarsLocation(zone)?.latitude)
+    };
+  },
+  getCalendarSummary(instant, zone, options) {
+    return formatMarsDate(toMarsTime(instant, zone, options), getMarsLocation(zone)?.latitude);
+  },
+  getZones() {
+    return getMarsSiteTimezones();
+  },
+  generateSlots(from, to, zone, incrementMinutes, options) {
+    const grid = options?.marsSlotGrid ?? 'earth';
+    if (grid === 'earth') return null;
+    return generateMarsTimeSlots(from, to, zone, incrementMinutes, grid, options?.marsTimeScale)
+      .map(slot => ({ start: slot.start, end: slot.end, label: formatMarsTimeSlot(slot) }));
+  }
+};
+
+/**
+ * Find the slot containing an instant
+ * @returns The slot's index, or -1 if the instant is outside the slots
+ */
+export function findTimeSystemSlotIndex(slots: TimeSystemSlot[], time: Date): number {
+  const millis = time.getTime();
+  return slots.findIndex(slot => slot.start.getTime() <= millis && millis < slot.end.getTime());
+}
+
+// Systems other than Earth, matched by ID prefix
+let timeSystems: TimeSystem[] = [marsTimeSystem];
+
+/**
+ * Add a time system, replacing any registered with the same ID
+ */
+export function registerTimeSystem(system: TimeSystem): void {
+  if (!system.idPrefix) {
+    throw new Error(`Time system ${system.id} needs an ID prefix`);
+  }
+  timeSystems = [...timeSystems.filter(existing => existing.id !== system.id), system];
+}
+
+/**
+ * Get every time system, Earth first
+ */
+export function getTimeSystems(): TimeSystem[] {
+  return [earthTimeSystem, ...timeSystems];
+}
+
+/**
+ * Get the time system a zone belongs to
+ * @param zone IANA zone or a prefixed ID such as "Mars/Jezero"
+ */
+export function getTimeSystem(zone: string): TimeSystem {
+  return timeSystems.find(system => zone.startsWith(system.idPrefix)) ?? earthTimeSystem;
+}
+
+/**
+ * Check whether a zone keeps Earth civil time (offsets, DST, working hours)
+ */
+export function isEarthZone(zone: string): boolean {
+  return getTimeSystem(zone).usesEarthCalendar;
+}
@@ -1,5 +1,9 @@
 import { DateTime } from 'luxon';
-import { getMarsSiteTimezones } from './mars-timezone';
+import { getMarsSiteTimezones, isCustomMarsLocation } from './mars-timezone';
+import { getZoneTransitions, ZoneTransition } from './dst';
+import { getTimeSystem, isEarthZone } from './timeSystems';
+import { COUNTRY_NAMES, ZONE_LINKS, ZONE_METADATA } from './timezoneMetadata';
+import { getZoneCoordinates } from './solar';
 
 /**
  * Interface for a timezone with display information
@@ -10,8 +14,12 @@ export interface TimezoneInfo {
   offset: string;
   city?: string;
   country?: string;
+  countryCode?: string;
   abbreviation?: string;
   region?: string;
+  aliases?: string[];
+  lat?: number;
+  lon?: number;
 }
 
 /**
@@ -33,217 +41,279 @@ export function isInDST(timezone: string): boolean {
 }
 
 /**
- * Get DST transition dates for a timezone in the current year
+ * Get the exact offset changes for a timezone over a date range
  * @param timezone The timezone identifier
- * @returns Object containing start and end dates for DST, or null if not applicable
+ * @param from Start of the range (defaults to the start of the current year in the zone)
+ * @param to End of the range (defaults to the end of the current year in the zone)
+ * @returns Transitions with their instants, offsets and abbreviations; empty if the zone doesn't change
  */
-export function getDSTTransitions(timezone: string) {
+export function getDSTTransitions(timezone: string, from?: Date, to?: Date): ZoneTransition[] {
   const now = DateTime.now().setZone(timezone);
-  const year = now.year;
-  
-  // If the timezone doesn't have DST
-  if (!now.zoneName || !DateTime.now().setZone(timezone).zoneName) {
-    return null;
+  if (!now.isValid) {
+    return [];
   }
 
-  // Try to find DST transitions by checking each month
-  let dstStart = null;
-  let dstEnd = null;
+  return getZoneTransitions(
+    timezone,
+    from ?? now.startOf('year').toJSDate(),
+    to ?? now.endOf('year').toJSDate()
+  );
+}
 
-  // Check each month to find transitions
-  for (let month = 1; month <= 12; month++) {
-    const firstOfMonth = DateTime.fromObject({ year, month, day: 1 }, { zone: timezone });
-    const lastOfMonth = firstOfMonth.endOf('month');
-    
-    // Check each day in the month
-    for (let day = 1; day <= lastOfMonth.day; day++) {
-      const currentDay = DateTime.fromObject({ year, month, day }, { zone: timezone });
-      const nextDay = currentDay.plus({ days: 1 });
-      
-      // If DST status changes, we found a transition
-      if (currentDay.isInDST !== nextDay.isInDST) {
-        if (nextDay.isInDST) {
-          dstStart = nextDay;
-        } else {
-          dstEnd = nextDay;
-        }
-      }
-    }
-  }
+/**
+ * Fallback zone list used when the runtime can't enumerate IANA timezones
+ * (Intl.supportedValuesOf is unavailable in older browsers)
+ */
+const FALLBACK_ZONES = [
+  // North America
+  'America/New_York',      // Eastern Time (US & Canada)
+  'America/Chicago',       // Central Time (US & Canada)
+  'America/Denver',        // Mountain Time (US & Canada)
+  'America/Los_Angeles',   // Pacific Time (US & Canada)
+  'America/Anchorage',     // Alaska Time (US)
+  'Pacific/Honolulu',      // Hawaii-Aleutian Time (US)
+
+  // Latin America & Caribbean
+  'America/Mexico_City',   // Mexico City
+  'America/Bogota',        // Bogota, Colombia
+  'America/Argentina/Buenos_Aires', // Buenos Aires, Argentina
+  'America/Sao_Paulo',     // São Paulo, Brazil
+  'America/Santiago',      // Santiago, Chile
+  'America/Lima',          // Lima, Peru
+  'America/Toronto',       // Toronto, Canada
+  'America/Vancouver',     // Vancouver, Canada
+  'America/Phoenix',       // Phoenix, Arizona (no DST)
+
+  // Europe
+  'Europe/London',         // London, UK
+  'Europe/Berlin',         // Central European Time (Berlin, Paris, Rome, Madrid, Amsterdam)
+  'Europe/Paris',          // Paris, France
+  'Europe/Rome',           // Rome, Italy
+  'Europe/Madrid',         // Madrid, Spain
+  'Europe/Amsterdam',      // Amsterdam, Netherlands
+  'Europe/Athens',         // Eastern European Time (Athens, Bucharest)
+  'Europe/Moscow',         // Moscow, Russia
+  'Europe/Istanbul',       // Istanbul, Turkey
+
+  // Africa
+  'Africa/Casablanca',     // Casablanca, Morocco
+  'Africa/Lagos',          // West Africa Time (Lagos, Nigeria)
+  'Africa/Johannesburg',   // Central Africa Time (Johannesburg, South Africa)
+  'Africa/Nairobi',        // East Africa Time (Nairobi, Kenya)
+  'Africa/Cairo',          // Cairo, Egypt
+
+  // Asia
+  'Asia/Dubai',            // Dubai, UAE
+  'Asia/Kolkata',          // India Standard Time (Mumbai, Delhi, Bangalore)
+  'Asia/Bangkok',          // Bangkok, Thailand
+  'Asia/Singapore',        // Singapore
+  'Asia/Hong_Kong',        // Hong Kong
+  'Asia/Tokyo',            // Tokyo, Japan
+  'Asia/Seoul',            // Seoul, South Korea
+  'Asia/Shanghai',         // Shanghai/Beijing, China
+  'Asia/Jakarta',          // Jakarta, Indonesia
+  'Asia/Karachi',          // Pakistan Standard Time (Karachi)
+
+  // Australia & Pacific
+  'Australia/Sydney',      // Sydney, Australia
+  'Australia/Melbourne',   // Melbourne, Australia
+  'Australia/Brisbane',    // Brisbane, Australia
+  'Australia/Adelaide',    // Adelaide, Australia
+  'Australia/Perth',       // Perth, Australia
+  'Pacific/Auckland',      // Auckland, New Zealand
+
+  // UTC & Global
+  'Etc/UTC',               // Coordinated Universal Time (UTC)
+  'Etc/GMT',               // Greenwich Mean Time (GMT)
+];
+
+// Countries whose America/* zones are grouped under North America
+const NORTH_AMERICA_COUNTRIES = new Set(['US', 'CA', 'GL', 'PM', 'BM']);
 
-  return { start: dstStart, end: dstEnd };
+// Display order for timezone regions
+const REGION_ORDER = [
+  'North America',
+  'Latin America & Caribbean',
+  'Europe',
+  'Asia',
+  'Australia & Pacific',
+  'Africa',
+  'Atlantic',
+  'Indian Ocean',
+  'Antarctica',
+  'UTC & Global',
+  'Mars',
+  'Other'
+];
+
+/**
+ * Map a zone identifier to its current IANA name
+ * @param id The zone identifier, possibly a legacy alias such as Asia/Calcutta
+ * @returns The canonical identifier
+ */
+export function getCanonicalTimezoneId(id: string): string {
+  return ZONE_LINKS[id] || id;
 }
 
 /**
- * Get a formatted list of all available timezones
- * @returns Array of timezone information objects
+ * Enumerate the IANA zones supported by the runtime
+ * @returns Canonical zone identifiers, or the fallback list if enumeration is unsupported
  */
-export function getAllTimezones(): TimezoneInfo[] {
+function getSupportedZoneIds(): string[] {
   try {
-    // Comprehensive list of IANA timezone names organized by region
-    const zones = [
-      // North America
-      'America/New_York',      // Eastern Time (US & Canada)
-      'America/Chicago',       // Central Time (US & Canada)
-      'America/Denver',        // Mountain Time (US & Canada)
-      'America/Los_Angeles',   // Pacific Time (US & Canada)
-      'America/Anchorage',     // Alaska Time (US)
-      'Pacific/Honolulu',      // Hawaii-Aleutian Time (US)
+    if (typeof Intl !== 'undefined' && typeof Intl.supportedValuesOf === 'function') {
+      const ids = new Set(Intl.supportedValuesOf('timeZone').map(getCanonicalTimezoneId));
+      // Not every runtime lists the UTC aliases
+      ids.add('Etc/UTC');
+      ids.add('Etc/GMT');
+      return Array.from(ids);
+    }
+  } catch (err) {
+    console.warn('Unable to enumerate runtime timezones, using fallback list', err);
+  }
+  return FALLBACK_ZONES;
+}
 
-      // Latin America & Caribbean
-      'America/Mexico_City',   // Mexico City
-      'America/Bogota',        // Bogota, Colombia
-      'America/Argentina/Buenos_Aires', // Buenos Aires, Argentina
-      'America/Sao_Paulo',     // São Paulo, Brazil
-      'America/Santiago',      // Santiago, Chile
-      'America/Lima',          // Lima, Peru
-      'America/Toronto',       // Toronto, Canada
-      'America/Vancouver',     // Vancouver, Canada
-      'America/Phoenix',       // Phoenix, Arizona (no DST)
+/**
+ * Get the display region for a timezone
+ * @param id The timezone identifier
+ * @param countryCode ISO country code from the metadata table, if known
+ * @returns The region name
+ */
+function getRegion(id: string, countryCode?: string): string {
+  if (id.startsWith('America/')) {
+    return countryCode && !NORTH_AMERICA_COUNTRIES.has(countryCode)
+      ? 'Latin America & Caribbean'
+      : 'North America';
+  }
+  if (id.startsWith('Europe/') || id.startsWith('Arctic/')) return 'Europe';
+  if (id.startsWith('Asia/')) return 'Asia';
+  if (id.startsWith('Africa/')) return 'Africa';
+  if (id.startsWith('Australia/')) return 'Australia & Pacific';
+  if (id.startsWith('Pacific/')) return 'Australia & Pacific';
+  if (id.startsWith('Atlantic/')) return 'Atlantic';
+  if (id.startsWith('Indian/')) return 'Indian Ocean';
+  if (id.startsWith('Antarctica/')) return 'Antarctica';
+  if (id.startsWith('Etc/')) return 'UTC & Global';
+  const system = getTimeSystem(id);
+  if (!system.usesEarthCalendar) return system.name;
+  return 'Other';
+}
 
-      // Europe
-      'Europe/London',         // London, UK
-      'Europe/Berlin',         // Central European Time (Berlin, Paris, Rome, Madrid, Amsterdam)
-      'Europe/Paris',          // Paris, France
-      'Europe/Rome',           // Rome, Italy
-      'Europe/Madrid',         // Madrid, Spain
-      'Europe/Amsterdam',      // Amsterdam, Netherlands
-      'Europe/Athens',         // Eastern European Time (Athens, Bucharest)
-      'Europe/Moscow',         // Moscow, Russia
-      'Europe/Istanbul',       // Istanbul, Turkey
+/**
+ * Parse a "+HH:MM" style offset (optionally prefixed, e.g. "MTC+05:10") into minutes
+ * @param offset The offset string
+ * @returns Offset in minutes, or null if it can't be parsed
+ */
+function parseOffsetMinutes(offset: string): number | null {
+  const match = offset.match(/([+-])(\d{2}):(\d{2})/);
+  if (!match) return null;
+  const minutes = parseInt(match[2], 10) * 60 + parseInt(match[3], 10);
+  return match[1] === '-' ? -minutes : minutes;
+}
 
-      // Africa
-      'Africa/Casablanca',     // Casablanca, Morocco
-      'Africa/Lagos',          // West Africa Time (Lagos, Nigeria)
-      'Africa/Johannesburg',   // Central Africa Time (Johannesburg, South Africa)
-      'Africa/Nairobi',        // East Africa Time (Nairobi, Kenya)
-      'Africa/Cairo',          // Cairo, Egypt
+/**
+ * Build display information for a single Earth timezone
+ * @param tz Canonical IANA identifier
+ * @returns Timezone information with metadata applied
+ */
+function buildTimezoneInfo(tz: string): TimezoneInfo {
+  const metadata = ZONE_METADATA[tz];
+  const parts = tz.split('/');
+  const city = metadata?.city
+    || (tz === 'Etc/UTC' ? 'UTC' : tz === 'Etc/GMT' ? 'GMT' : parts[parts.length - 1].replace(/_/g, ' '));
+  const country = metadata ? COUNTRY_NAMES[metadata.countryCode] || '' : '';
+  const region = getRegion(tz, metadata?.countryCode);
+  const coordinates = getZoneCoordinates(tz);
 
-      // Asia
-      'Asia/Dubai',            // Dubai, UAE
-      'Asia/Kolkata',          // India Standard Time (Mumbai, Delhi, Bangalore)
-      'Asia/Bangkok',          // Bangkok, Thailand
-      'Asia/Singapore',        // Singapore
-      'Asia/Hong_Kong',        // Hong Kong
-      'Asia/Tokyo',            // Tokyo, Japan
-      'Asia/Seoul',            // Seoul, South Korea
-      'Asia/Shanghai',         // Shanghai/Beijing, China
-      'Asia/Jakarta',          // Jakarta, Indonesia
-      'Asia/Karachi',          // Pakistan Standard Time (Karachi)
+  try {
+    const now = DateTime.now().setZone(tz);
+    // Skip invalid timezones or handle with fallback data
+    if (!now.isValid) {
+      console.warn(`Invalid timezone: ${tz}, using fallback data`);
+      return {
+        id: tz,
+        name: `${tz} (Unknown)`,
+        offset: 'Unknown',
+        city,
+        country,
+        countryCode: metadata?.countryCode,
+        aliases: metadata?.aliases,
+        abbreviation: 'Unknown',
+        region
+      };
+    }
 
-      // Australia & Pacific
-      'Australia/Sydney',      // Sydney, Australia
-      'Australia/Melbourne',   // Melbourne, Australia
-      'Australia/Brisbane',    // Brisbane, Australia
-      'Australia/Adelaide',    // Adelaide, Australia
-      'Australia/Perth',       // Perth, Australia
-      'Pacific/Auckland',      // Auckland, New Zealand
+    const offset = now.toFormat('ZZ');
 
-      // UTC & Global
-      'Etc/UTC',               // Coordinated Universal Time (UTC)
-      'Etc/GMT',               // Greenwich Mean Time (GMT)
-    ];
-    
-    // Helper function to get the region from the timezone ID
-    const getRegion = (id: string): string => {
-      if (id.startsWith('America/')) return 'North America';
-      if (id.startsWith('Europe/')) return 'Europe';
-      if (id.startsWith('Asia/')) return 'Asia';
-      if (id.startsWith('Africa/')) return 'Africa';
-      if (id.startsWith('Australia/')) return 'Australia & Pacific';
-      if (id.startsWith('Pacific/')) return 'Australia & Pacific';
-      if (id.startsWith('Etc/')) return 'UTC & Global';
-      if (id.startsWith('Mars/')) return 'Mars';
-      return 'Other';
+    return {
+      id: tz,
+      name: `${city} (${offset})`,
+      offset,
+      city,
+      country,
+      countryCode: metadata?.countryCode,
+      aliases: metadata?.aliases,
+      abbreviation: now.toFormat('ZZZZ'),
+      region,
+      lat: coordinates?.lat,
+      lon: coordinates?.lon
     };
-    
-    // Get timezone info for all zones
-    const timezones: TimezoneInfo[] = zones.map(tz => {
-      try {
-        const now = DateTime.now().setZone(tz);
-        // Skip invalid timezones or handle with fallback data
-        if (!now.isValid) {
-          console.warn(`Invalid timezone: ${tz}, using fallback data`);
-          return {
-            id: tz,
-            name: `${tz} (Unknown)`,
-            offset: 'Unknown',
-            city: tz.split('/').pop()?.replace(/_/g, ' ') || tz,
-            country: '',
-            abbreviation: 'Unknown',
-            region: getRegion(tz)
-          };
-        }
-        
-        const offset = now.toFormat('ZZ');
-        const parts = tz.split('/');
-        const city = parts.length > 1 ? parts[parts.length - 1].replace(/_/g, ' ') : tz;
-        const country = parts.length > 1 ? parts[0] : '';
-        
-        return {
-          id: tz,
-          name: `${city} (${offset})`,
-          offset,
-          city,
-          country,
-          abbreviation: now.toFormat('ZZZZ'),
-          region: getRegion(tz)
-        };
-      } catch (err) {
-        console.error(`Error processing timezone ${tz}:`, err);
-        // Return fallback data for this timezone
-        return {
-          id: tz,
-          name: `${tz} (Error)`,
-          offset: 'Unknown',
-          city: tz.split('/').pop()?.replace(/_/g, ' ') || tz,
-          country: '',
-          abbreviation: 'Error',
-          region: getRegion(tz)
-        };
-      }
-    }).filter(Boolean);
+  } catch (err) {
+    console.error(`Error processing timezone ${tz}:`, err);
+    // Return fallback data for this timezone
+    return {
+      id: tz,
+      name: `${tz} (Error)`,
+      offset: 'Unknown',
+      city,
+      country,
+      abbreviation: 'Error',
+      region
+    };
+  }
+}
+
+/**
+ * Get a formatted list of all available timezones
+ * @returns Array of timezone information objects
+ */
+export function getAllTimezones(): TimezoneInfo[] {
+  try {
+    // Full IANA catalog from the runtime, enriched with bundled city/country metadata
+    const timezones: TimezoneInfo[] = getSupportedZoneIds().map(buildTimezoneInfo);
     
     // Check if it's April 1st (April Fools' Day)
     const now = DateTime.now();
     const isAprilFools = now.month === 4 && now.day === 1;
     
-    // If it's April Fools' Day, add Mars timezones
-    if (isAprilFools) {
-      const marsTimezones = getMarsSiteTimezones();
-      timezones.push(...marsTimezones);
-    }
-    
-    // Define the region order
-    const regionOrder = [
-      'North America',
-      'Europe',
-      'Asia',
-      'Australia & Pacific',
-      'Africa',
-      'UTC & Global',
-      'Mars',
-      'Other'
-    ];
+    // Mars sites are added on April Fools' Day; locations the user defined are always listed
+    const marsTimezones = getMarsSiteTimezones().filter(tz => isAprilFools || isCustomMarsLocation(tz.id));
+    timezones.push(...marsTimezones);
     
     // Sort by region first, then by offset within each region
     return timezones.sort((a, b) => {
       // First sort by region based on defined order
       const regionA = a.region as string;
       const regionB = b.region as string;
-      const regionCompare = regionOrder.indexOf(regionA) - regionOrder.indexOf(regionB);
+      const regionCompare = REGION_ORDER.indexOf(regionA) - REGION_ORDER.indexOf(regionB);
       
       if (regionCompare !== 0) {
         return regionCompare;
       }
       
-      // Within the same region, sort by offset
-      if (a.offset === b.offset) {
-        // If same offset, sort by name alphabetically
-        return a.name.localeCompare(b.name);
+      // Within the same region, sort by offset (numerically, so -10:00 sorts before -05:00)
+      const offsetA = parseOffsetMinutes(a.offset);
+      const offsetB = parseOffsetMinutes(b.offset);
+      if (offsetA !== null && offsetB !== null && offsetA !== offsetB) {
+        return offsetA - offsetB;
+      }
+      if (a.offset !== b.offset && (offsetA === null || offsetB === null)) {
+        return a.offset.localeCompare(b.offset);
       }
       
-      return a.offset.localeCompare(b.offset);
+      // If same offset, sort by name alphabetically
+      return a.name.localeCompare(b.name);
     });
   } catch (error) {
     console.error('Fatal error in getAllTimezones:', error);
@@ -262,6 +332,19 @@ export function getAllTimezones(): TimezoneInfo[] {
   }
 }
 
+/**
+ * Get display information for a single timezone identifier
+ * @param id IANA identifier (legacy aliases are accepted) or a zone from another time system such as a Mars site
+ * @returns Timezone information, or null if the identifier is unknown
+ */
+export function getTimezoneInfo(id: string): TimezoneInfo | null {
+  if (!isEarthZone(id)) {
+    return getTimeSystem(id).getZones?.().find(tz => tz.id === id) || null;
+  }
+  const canonicalId = getCanonicalTimezoneId(id);
+  return isValidTimezone(canonicalId) ? buildTimezoneInfo(canonicalId) : null;
+}
+
 /**
  * Check if a timezone identifier is valid
  * @param timezone The timezone identifier to check
@@ -1,6 +1,13 @@
 import { Timezone } from '@/store/timezoneStore';
-import { formatMarsTime, getMarsTimezoneOffset, getRoverInfo, convertEarthToMarsTime } from './mars-timezone';
-import { DateTime } from 'luxon';
+import { useSettingsStore } from '@/store/settingsStore';
+import { getTimeSystem, isEarthZone, type TimeSystemSearchMetadata } from './timeSystems';
+import {
+  COUNTRY_ALIASES,
+  COUNTRY_NAMES,
+  ZONE_ABBREVIATIONS,
+  ZONE_METADATA,
+  ZONE_NICKNAMES
+} from './timezoneMetadata';
 
 // Scoring weights for different match types
 const WEIGHTS = {
@@ -71,194 +78,293 @@ function levenshteinDistance(str1: string, str2: string): number {
   return track[str2.length][str1.length];
 }
 
+export type SearchTermKind =
+  | 'city'
+  | 'name'
+  | 'id'
+  | 'alias'
+  | 'nickname'
+  | 'country'
+  | 'countryCode'
+  | 'abbreviation';
+
 /**
- * Calculate search score for a timezone based on various factors
+ * What an abbreviation match stands for, and whether it could mean something else
  */
-export function calculateTimezoneScore(
-  timezone: Timezone,
-  searchTerm: string,
-  recentTimezones: Set<string>
-): number {
-  let score = 0;
-  const searchLower = searchTerm.toLowerCase();
-  const fieldsToSearch = [
-    timezone.name.toLowerCase(),
-    timezone.id.toLowerCase(),
-    timezone.city?.toLowerCase() || '',
-    timezone.country?.toLowerCase() || '',
-    timezone.abbreviation?.toLowerCase() || '',
-  ];
-
-  // Check for exact matches
-  if (fieldsToSearch.some(field => field === searchLower)) {
-    score += WEIGHTS.EXACT_MATCH;
-  }
-
-  // Check for starts with matches
-  if (fieldsToSearch.some(field => field.startsWith(searchLower))) {
-    score += WEIGHTS.STARTS_WITH;
-  }
+export interface AbbreviationMatch {
+  code: string; // e.g. "IST"
+  name: string; // e.g. "India Standard Time"
+  ambiguous: boolean;
+  alternatives: string[]; // other meanings, e.g. ["Irish Standard Time", "Israel Standard Time"]
+}
 
-  // Check for contains matches
-  if (fieldsToSearch.some(field => field.includes(searchLower))) {
-    score += WEIGHTS.CONTAINS;
-  }
+export interface TimezoneSearchResult {
+  timezone: Timezone;
+  score: number;
+  matchedTerm: string; // the term as written, e.g. "Bombay"
+  matchKind: SearchTermKind;
+  abbreviation?: AbbreviationMatch;
+}
 
-  // Add fuzzy matching score
-  const minDistance = Math.min(
-    ...fieldsToSearch.map(field => levenshteinDistance(field, searchLower))
-  );
-  const fuzzyScore = Math.max(0, WEIGHTS.FUZZY_MATCH * (1 - minDistance / searchLower.length));
-  score += fuzzyScore;
+export interface TimezoneSearchOptions {
+  recentTimezones?: Set<string>;
+  limit?: number;
+}
 
-  // Add score for recently used timezones
-  if (recentTimezones.has(timezone.id)) {
-    score += WEIGHTS.RECENTLY_USED;
-  }
+/**
+ * Prebuilt search index over a list of timezones
+ */
+export interface TimezoneSearchIndex {
+  search(query: string, options?: TimezoneSearchOptions): TimezoneSearchResult[];
+  lookup(term: string): TimezoneSearchResult[]; // exact matches only
+}
 
-  // Add score for popular timezones
-  if (POPULAR_TIMEZONES.has(timezone.id)) {
-    score += WEIGHTS.POPULAR;
-  }
+interface IndexedTerm {
+  text: string; // normalized
+  label: string;
+  kind: SearchTermKind;
+  zone: number; // position in the indexed list
+}
 
-  // Boost score for rover locations 
-  if (timezone.id === 'Mars/Jezero') {
-    score += WEIGHTS.ROVER_LOCATION;
-  }
+// Abbreviations and ISO codes are too short to prefix or fuzzy match usefully
+const EXACT_ONLY_KINDS = new Set<SearchTermKind>(['abbreviation', 'countryCode']);
 
-  return score;
-}
+// Fuzzy matching needs a few characters before it finds anything meaningful
+const MIN_FUZZY_LENGTH = 4;
+const MAX_FUZZY_CANDIDATES = 200;
 
 /**
- * Sort timezones based on search relevance
+ * Lowercase, strip accents and collapse separators so "São_Paulo" matches "sao paulo"
  */
-export function sortTimezonesByRelevance(
-  timezones: Timezone[],
-  searchTerm: string,
-  recentTimezones: Set<string>
-): Timezone[] {
-  if (!searchTerm.trim()) {
-    return timezones;
+function normalizeSearchText(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[_\-/.,'()]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function getTrigrams(text: string): string[] {
+  const padded = `  ${text} `;
+  const trigrams: string[] = [];
+  for (let i = 0; i < padded.length - 2; i += 1) {
+    trigrams.push(padded.slice(i, i + 3));
   }
+  return trigrams;
+}
 
-  return [...timezones].sort((a, b) => {
-    const scoreA = calculateTimezoneScore(a, searchTerm, recentTimezones);
-    const scoreB = calculateTimezoneScore(b, searchTerm, recentTimezones);
-    return scoreB - scoreA;
-  });
+/**
+ * Describe an abbreviation match, flagging codes used for differently named zones
+ */
+function describeAbbreviation(code: string, zoneId: string): AbbreviationMatch | undefined {
+  const entries = ZONE_ABBREVIATIONS[code];
+  if (!entries) return undefined;
+  const name = entries.find(entry => entry.zone === zoneId)?.name ?? entries[0].name;
+  const alternatives = Array.from(new Set(entries.map(entry => entry.name))).filter(other => other !== name);
+  return { code, name, ambiguous: alternatives.length > 0, alternatives };
 }
 
 /**
- * Get relative time information for a timezone
+ * Build a search index over timezones, covering cities, identifiers, aliases,
+ * historical names and nicknames, country names and ISO codes, and abbreviations.
+ * Candidates come from exact, prefix and trigram lookups, so edit distance is only
+ * computed for a handful of terms rather than every field of every zone.
  */
-export function getTimezoneContext(timezone: Timezone, userTimezone: string): {
-  offset: string;
-  isBusinessHours: boolean;
-  currentTime: string;
-  isRoverLocation?: boolean;
-  roverInfo?: {
-    name: string;
-    mission: string;
-    landingDate: string;
-  } | null;
-  isMarsDaytime: boolean;
-} {
-  try {
-    // Special handling for Mars timezones
-    if (timezone.id.startsWith('Mars/')) {
-      // Get Mars-specific data
-      const marsOffset = getMarsTimezoneOffset(timezone.id);
-      const roverInfo = getRoverInfo(timezone.id);
-      
-      // Format time in Mars time format
-      const marsTimeData = convertEarthToMarsTime(DateTime.now(), timezone.id);
-      const currentTime = formatMarsTime(marsTimeData);
-      
-      // Extract numeric offset from MTC+XX:XX format
-      const match = marsOffset.match(/MTC([+-])(\d+):(\d+)/);
-      let offsetStr = 'Mars Time';
-      if (match) {
-        const sign = match[1];
-        const hours = parseInt(match[2], 10);
-        const minutes = parseInt(match[3], 10);
-        offsetStr = `${sign}${hours}h${minutes > 0 ? ` ${minutes}m` : ''}`;
-      }
-      
-      // Determine if it's daytime on Mars (7 AM to 7 PM Mars time)
-      // This is simplified as Mars has similar day/night cycles to Earth
-      const marsHour = marsTimeData.hours;
-      const isMarsDaytime = marsHour >= 7 && marsHour < 19;
-      
-      // For Mars, we'll use isBusinessHours to indicate daylight hours
-      const isBusinessHours = isMarsDaytime;
-      
-      return {
-        offset: offsetStr,
-        isBusinessHours,
-        currentTime,
-        isRoverLocation: !!roverInfo,
-        roverInfo: roverInfo ? {
-          name: roverInfo.name,
-          mission: roverInfo.mission,
-          landingDate: roverInfo.landingDate
-        } : null,
-        isMarsDaytime
-      };
+export function buildTimezoneSearchIndex(timezones: Timezone[]): TimezoneSearchIndex {
+  const terms: IndexedTerm[] = [];
+  const exact = new Map<string, number[]>();
+  const words = new Map<string, number[]>(); // whole terms and their words, for prefix lookups
+  const trigrams = new Map<string, number[]>();
+
+  const addToMap = (map: Map<string, number[]>, key: string, termIndex: number) => {
+    const list = map.get(key);
+    if (!list) {
+      map.set(key, [termIndex]);
+    } else if (list[list.length - 1] !== termIndex) {
+      list.push(termIndex);
     }
-    
-    // Original handling for Earth timezones
-    const now = new Date();
-    
-    // Handle missing or invalid timezone data with fallbacks
-    const safeUserTimezone = userTimezone && typeof userTimezone === 'string' ? userTimezone : 'UTC';
-    const safeTimezoneId = timezone && timezone.id && typeof timezone.id === 'string' ? timezone.id : 'UTC';
-    
-    // Use try-catch for each timezone conversion
-    let userTime: Date;
-    try {
-      userTime = new Date(now.toLocaleString('en-US', { timeZone: safeUserTimezone }));
-    } catch (error) {
-      console.error(`Error converting to user timezone ${safeUserTimezone}:`, error);
-      userTime = new Date();
+  };
+
+  const zoneIdsByAbbreviation = new Map<string, Set<string>>();
+  Object.entries(ZONE_ABBREVIATIONS).forEach(([code, entries]) => {
+    entries.forEach(entry => {
+      const codes = zoneIdsByAbbreviation.get(entry.zone) ?? new Set<string>();
+      codes.add(code);
+      zoneIdsByAbbreviation.set(entry.zone, codes);
+    });
+  });
+
+  timezones.forEach((timezone, zone) => {
+    const countryCode = ZONE_METADATA[timezone.id]?.countryCode;
+    const seen = new Set<string>();
+    const addTerm = (label: string | undefined, kind: SearchTermKind) => {
+      if (!label) return;
+      const text = normalizeSearchText(label);
+      if (!text || seen.has(text)) return;
+      seen.add(text);
+
+      const termIndex = terms.length;
+      terms.push({ text, label, kind, zone });
+      addToMap(exact, text, termIndex);
+      if (EXACT_ONLY_KINDS.has(kind)) return;
+
+      addToMap(words, text, termIndex);
+      text.split(' ').forEach(word => addToMap(words, word, termIndex));
+      if (text.length >= MIN_FUZZY_LENGTH - 1) {
+        getTrigrams(text).forEach(trigram => addToMap(trigrams, trigram, termIndex));
+      }
+    };
+
+    addTerm(timezone.city, 'city');
+    addTerm(timezone.name, 'name');
+    addTerm(timezone.id, 'id');
+    (timezone.aliases || []).forEach(alias => addTerm(alias, 'alias'));
+    (ZONE_NICKNAMES[timezone.id] || []).forEach(nickname => addTerm(nickname, 'nickname'));
+    zoneIdsByAbbreviation.get(timezone.id)?.forEach(code => addTerm(code, 'abbreviation'));
+    // Runtime abbreviations such as "PST"; offsets such as "GMT+9" are matched by the name instead
+    if (timezone.abbreviation && /^[A-Za-z]{2,6}$/.test(timezone.abbreviation)) {
+      addTerm(timezone.abbreviation.toUpperCase(), 'abbreviation');
     }
-    
-    let tzTime: Date;
-    try {
-      tzTime = new Date(now.toLocaleString('en-US', { timeZone: safeTimezoneId }));
-    } catch (error) {
-      console.error(`Error converting to timezone ${safeTimezoneId}:`, error);
-      tzTime = new Date();
+    if (countryCode) {
+      addTerm(timezone.country || COUNTRY_NAMES[countryCode], 'country');
+      (COUNTRY_ALIASES[countryCode] || []).forEach(alias => addTerm(alias, 'country'));
+      addTerm(countryCode, 'countryCode');
+    } else {
+      addTerm(timezone.country, 'country');
     }
-    
-    // Calculate offset in hours
-    const offsetMs = tzTime.getTime() - userTime.getTime();
-    const offsetHours = Math.round(offsetMs / (1000 * 60 * 60));
-    const offsetStr = offsetHours === 0 ? 'Same time' : 
-      `${offsetHours > 0 ? '+' : ''}${offsetHours}h`;
-
-    // Check if current time is within business hours (9 AM to 5 PM)
-    const hour = tzTime.getHours();
-    const isBusinessHours = hour >= 9 && hour < 17;
-
-    // Format current time
-    let currentTime: string;
-    try {
-      currentTime = tzTime.toLocaleTimeString('en-US', {
-        hour: '2-digit',
-        minute: '2-digit',
-        hour12: true,
-      });
-    } catch (error) {
-      console.error('Error formatting time:', error);
-      currentTime = 'Unavailable';
+  });
+
+  const sortedWords = Array.from(words.keys()).sort();
+
+  // Binary search for the first key at or after the prefix
+  const findPrefixStart = (prefix: string): number => {
+    let low = 0;
+    let high = sortedWords.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (sortedWords[mid] < prefix) low = mid + 1;
+      else high = mid;
     }
+    return low;
+  };
 
+  const toResult = (term: IndexedTerm, score: number): TimezoneSearchResult => {
+    const timezone = timezones[term.zone];
     return {
-      offset: offsetStr,
-      isBusinessHours,
-      currentTime,
-      isMarsDaytime: false // Earth timezones don't have Mars daytime
+      timezone,
+      score,
+      matchedTerm: term.label,
+      matchKind: term.kind,
+      abbreviation: term.kind === 'abbreviation' ? describeAbbreviation(term.label, timezone.id) : undefined,
+    };
+  };
+
+  const lookup = (term: string): TimezoneSearchResult[] => {
+    const text = normalizeSearchText(term);
+    const best = new Map<number, TimezoneSearchResult>();
+    (exact.get(text) || []).forEach(termIndex => {
+      const indexed = terms[termIndex];
+      if (!best.has(indexed.zone)) best.set(indexed.zone, toResult(indexed, WEIGHTS.EXACT_MATCH));
+    });
+    return Array.from(best.values());
+  };
+
+  const search = (query: string, options: TimezoneSearchOptions = {}): TimezoneSearchResult[] => {
+    const text = normalizeSearchText(query);
+    if (!text) return [];
+
+    // Best scoring term per zone
+    const best = new Map<number, { term: IndexedTerm; score: number }>();
+    const consider = (termIndex: number, score: number) => {
+      const term = terms[termIndex];
+      const current = best.get(term.zone);
+      if (!current || score > current.score) best.set(term.zone, { term, score });
     };
+
+    (exact.get(text) || []).forEach(termIndex => consider(termIndex, WEIGHTS.EXACT_MATCH));
+
+    for (let i = findPrefixStart(text); i < sortedWords.length && sortedWords[i].startsWith(text); i += 1) {
+      (words.get(sortedWords[i]) || []).forEach(termIndex => {
+        // A prefix of the whole term beats a prefix of one of its words
+        consider(termIndex, terms[termIndex].text.startsWith(text) ? WEIGHTS.STARTS_WITH : WEIGHTS.CONTAINS);
+      });
+    }
+
+    if (text.length >= MIN_FUZZY_LENGTH) {
+      const queryTrigrams = Array.from(new Set(getTrigrams(text)));
+      const shared = new Map<number, number>();
+      queryTrigrams.forEach(trigram => {
+        (trigrams.get(trigram) || []).forEach(termIndex => shared.set(termIndex, (shared.get(termIndex) || 0) + 1));
+      });
+
+      const minShared = Math.max(2, Math.ceil(queryTrigrams.length / 3));
+      const maxDistance = Math.max(1, Math.floor(text.length / 3));
+      Array.from(shared.entries())
+        .filter(([, count]) => count >= minShared)
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, MAX_FUZZY_CANDIDATES)
+        .forEach(([termIndex]) => {
+          const term = terms[termIndex];
+          // Compare against the whole term and each word, so "londn" finds "London (+01:00)"
+          const distance = Math.min(
+            levenshteinDistance(term.text, text),
+            ...term.text.split(' ').map(word => levenshteinDistance(word, text))
+          );
+          if (distance <= maxDistance) {
+            consider(termIndex, WEIGHTS.FUZZY_MATCH * (1 - distance / text.length));
+          }
+        });
+    }
+
+    const recentTimezones = options.recentTimezones ?? new Set<string>();
+    const results = Array.from(best.values()).map(({ term, score }) => {
+      const id = timezones[term.zone].id;
+      let total = score;
+      if (recentTimezones.has(id)) total += WEIGHTS.RECENTLY_USED;
+      if (POPULAR_TIMEZONES.has(id)) total += WEIGHTS.POPULAR;
+      // Boost score for rover locations
+      if (id === 'Mars/Jezero') total += WEIGHTS.ROVER_LOCATION;
+      return toResult(term, total);
+    });
+
+    // Ties keep catalog order, with zones from other time systems (e.g. Mars) first
+    results.sort((a, b) =>
+      b.score - a.score ||
+      Number(isEarthZone(a.timezone.id)) - Number(isEarthZone(b.timezone.id))
+    );
+
+    return options.limit ? results.slice(0, options.limit) : results;
+  };
+
+  return { search, lookup };
+}
+
+/**
+ * Explain a search match that isn't visible in the row, e.g. "Matches Bombay"
+ * or "IST · India Standard Time, also Irish Standard Time, Israel Standard Time"
+ */
+export function describeSearchMatch(result: TimezoneSearchResult | undefined): string | null {
+  if (!result) return null;
+  if (result.abbreviation) {
+    const { code, name, ambiguous, alternatives } = result.abbreviation;
+    return ambiguous ? `${code} · ${name}, also ${alternatives.join(', ')}` : `${code} · ${name}`;
+  }
+  if (result.matchKind === 'city' || result.matchKind === 'name' || result.matchKind === 'id') return null;
+  return `Matches ${result.matchedTerm}`;
+}
+
+/**
+ * Get relative time information for a timezone
+ */
+export function getTimezoneContext(timezone: Timezone, userTimezone: string): TimeSystemSearchMetadata {
+  try {
+    return getTimeSystem(timezone.id).getSearchMetadata(
+      timezone.id,
+      { userTimezone, workingHours: timezone.workingHours },
+      { marsTimeScale: useSettingsStore.getState().marsTimeScale }
+    );
   } catch (error) {
     console.error('Error in getTimezoneContext:', error);
     // Return safe fallback values
@@ -266,7 +372,7 @@ export function getTimezoneContext(timezone: Timezone, userTimezone: string): {
       offset: 'Unknown',
       isBusinessHours: false,
       currentTime: 'Unavailable',
-      isMarsDaytime: false
+      isDaytime: false
     };
   }
-}
\ No newline at end of file
+}
@@ -1,13 +1,10 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getCspWithNonce, getDefaultSecurityHeaders, generateNonce } from "./lib/utils/security";
+import { checkRateLimit, getRateLimitHeaders, getRateLimitKey } from "./lib/utils/rateLimiter";
 
-/**
- * Dummy rate limiter for edge compatibility
- * This is a placeholder that always allows requests
- */
-const dummyRateLimiter = {
-  limit: async () => ({ success: true, reset: 0 }),
-};
+// API routes that check their own rate-limit policy via authenticateApi; checking them
+// here as well would charge each request to the default bucket a second time
+const SELF_RATE_LIMITED_ROUTES = ['/api/auth', '/api/cleanup', '/api/convert', '/api/news', '/api/time', '/api/weather'];
 
 /**
  * Middleware function for Next.js
@@ -51,22 +48,31 @@ export async function middleware(request: NextRequest) {
     `nonce=${nonce}; Path=/; ${domain}${process.env.NODE_ENV === 'production' ? 'Secure; ' : ''}SameSite=Lax`
   );
 
-  // Simple rate limiting - always succeeds in this implementation
-  try {
-    const limiter = dummyRateLimiter;
-    const result = await limiter.limit();
-    
-    if (!result.success) {
-      return new NextResponse("Too Many Requests", {
-        status: 429,
-        headers: {
-          "Retry-After": result.reset.toString(),
-        },
+  // Default per-client limit for API routes that don't apply a policy of their own
+  const { pathname } = request.nextUrl;
+  if (
+    pathname.startsWith('/api/') &&
+    !SELF_RATE_LIMITED_ROUTES.some((route) => pathname === route || pathname.startsWith(`${route}/`)) &&
+    process.env.NODE_ENV !== 'development'
+  ) {
+    try {
+      const result = await checkRateLimit(await getRateLimitKey(request.headers), 'default');
+      const rateLimitHeaders = getRateLimitHeaders(result);
+
+      if (!result.success) {
+        return new NextResponse("Too Many Requests", {
+          status: 429,
+          headers: rateLimitHeaders,
+        });
+      }
+
+      Object.entries(rateLimitHeaders).forEach(([key, value]) => {
+        response.headers.set(key, value);
       });
+    } catch (error) {
+      console.error("Rate limiting error:", error);
+      // Continue processing even if rate limiting fails
     }
-  } catch (error) {
-    console.error("Rate limiting error:", error);
-    // Continue processing even if rate limiting fails
   }
 
   return response;
@@ -0,0 +1,93 @@
+'use client';
+
+import { create } from 'zustand';
+
+/**
+ * The logged-in user
+ */
+export interface AuthUser {
+  id: string;
+  username: string;
+}
+
+/**
+ * Login state: 'unknown' until the session has been checked
+ */
+export type AuthStatus = 'unknown' | 'anonymous' | 'authenticated';
+
+/**
+ * Interface for the auth store state
+ */
+interface AuthState {
+  status: AuthStatus;
+  user: AuthUser | null;
+  csrfToken: string | null; // Sent as x-csrf-token on state-changing requests
+  refreshSession: () => Promise<void>;
+  login: (username: string, password: string) => Promise<void>;
+  register: (username: string, password: string) => Promise<void>;
+  logout: () => Promise<void>;
+}
+
+/**
+ * POST credentials to an auth route
+ * @throws Error with the server's message if the request fails
+ */
+async function submitCredentials(url: string, username: string, password: string) {
+  const res = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ username, password }),
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) {
+    throw new Error(data.error || data.message || 'Request failed');
+  }
+  return data as { user: AuthUser; csrfToken: string };
+}
+
+/**
+ * Zustand store for the user's session.
+ * Not persisted: the session lives in an httpOnly cookie and is re-read on load.
+ */
+export const useAuthStore = create<AuthState>()((set, get) => ({
+  status: 'unknown',
+  user: null,
+  csrfToken: null,
+
+  refreshSession: async () => {
+    try {
+      const res = await fetch('/api/auth/session');
+      const data = await res.json();
+      if (res.ok && data.isLoggedIn) {
+        set({ status: 'authenticated', user: data.user, csrfToken: data.csrfToken });
+      } else {
+        set({ status: 'anonymous', user: null, csrfToken: null });
+      }
+    } catch (error) {
+      console.error('Failed to load session:', error);
+      set({ status: 'anonymous', user: null, csrfToken: null });
+    }
+  },
+
+  login: async (username: string, password: string) => {
+    const { user, csrfToken } = await submitCredentials('/api/auth/login', username, password);
+    set({ status: 'authenticated', user, csrfToken });
+  },
+
+  register: async (username: string, password: string) => {
+    const { user, csrfToken } = await submitCredentials('/api/auth/register', username, password);
+    set({ status: 'authenticated', user, csrfToken });
+  },
+
+  logout: async () => {
+    try {
+      await fetch('/api/auth/logout', {
+        method: 'POST',
+        headers: { 'x-csrf-token': get().csrfToken || '' },
+      });
+    } finally {
+      // Forget the session locally even if the request fails
+      set({ status: 'anonymous', user: null, csrfToken: null });
+    }
+  },
+}));
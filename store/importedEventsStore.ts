@@ -0,0 +1,90 @@
+'use client';
+
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import type { ImportedEvent } from '@/lib/utils/icalendarParser';
+
+/**
+ * An imported .ics file
+ */
+export interface ImportedCalendar {
+  id: string;
+  name: string; // File name the events came from
+  importedAt: number;
+}
+
+/**
+ * Interface for the imported events store state
+ */
+interface ImportedEventsState {
+  calendars: ImportedCalendar[];
+  events: ImportedEvent[];
+  addCalendar: (calendar: ImportedCalendar, events: ImportedEvent[]) => void;
+  removeCalendar: (id: string) => void;
+  removeEvent: (id: string) => void;
+  clearEvents: () => void;
+}
+
+// Get a storage key that's unique to the current origin to prevent cross-port persistence issues
+const getStorageKey = () => {
+  if (typeof window === 'undefined') return 'imported-events-storage';
+  return `imported-events-storage-${window.location.origin.replace(/[^a-z0-9]/gi, '-')}`;
+};
+
+/**
+ * Zustand store for calendar events imported from .ics files, with persistence
+ */
+export const useImportedEventsStore = create<ImportedEventsState>()(
+  persist(
+    (set) => ({
+      calendars: [],
+      events: [],
+
+      // Actions
+      addCalendar: (calendar: ImportedCalendar, events: ImportedEvent[]) =>
+        set((state) => ({
+          calendars: [...state.calendars, calendar],
+          events: [...state.events, ...events]
+        })),
+
+      removeCalendar: (id: string) =>
+        set((state) => ({
+          calendars: state.calendars.filter((calendar) => calendar.id !== id),
+          events: state.events.filter((event) => event.calendarId !== id)
+        })),
+
+      removeEvent: (id: string) =>
+        set((state) => {
+          const events = state.events.filter((event) => event.id !== id);
+          // Drop calendars that no longer have any events
+          const calendars = state.calendars.filter((calendar) =>
+            events.some((event) => event.calendarId === calendar.id)
+          );
+          return { events, calendars };
+        }),
+
+      clearEvents: () =>
+        set({ calendars: [], events: [] }),
+    }),
+    {
+      name: getStorageKey(),
+      skipHydration: true,
+      storage: createJSONStorage(() => {
+        if (typeof window === 'undefined') {
+          // Return mock storage for SSR
+          return {
+            getItem: () => null,
+            setItem: () => {},
+            removeItem: () => {}
+          };
+        }
+        return localStorage;
+      }),
+      // Only persist the data, not the actions
+      partialize: (state) => ({
+        calendars: state.calendars,
+        events: state.events
+      }),
+    }
+  )
+);
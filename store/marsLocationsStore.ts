@@ -0,0 +1,103 @@
+'use client';
+
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import { getMarsLocations, MarsLocation, setCustomMarsLocations } from '@/lib/utils/mars-timezone';
+
+/**
+ * Details entered for a new custom Mars location
+ */
+export interface NewMarsLocation {
+  name: string;
+  latitude: number;  // Degrees north (negative for south)
+  longitude: number; // Degrees east of Airy-0
+  missionName?: string;
+  missionStart?: string; // ISO 8601 UTC; sols are counted from here when set
+}
+
+/**
+ * Interface for the Mars locations store state
+ */
+interface MarsLocationsState {
+  locations: MarsLocation[];
+  addLocation: (location: NewMarsLocation) => MarsLocation;
+  removeLocation: (id: string) => void;
+}
+
+// Get a storage key that's unique to the current origin to prevent cross-port persistence issues
+const getStorageKey = () => {
+  if (typeof window === 'undefined') return 'mars-locations-storage';
+  return `mars-locations-storage-${window.location.origin.replace(/[^a-z0-9]/gi, '-')}`;
+};
+
+/**
+ * Build a "Mars/..." id from a name that doesn't clash with an existing location
+ */
+const createLocationId = (name: string): string => {
+  const base = `Mars/${name.trim().replace(/[^A-Za-z0-9]+/g, '_').replace(/^_|_$/g, '') || 'Custom'}`;
+  const taken = new Set(getMarsLocations().map(location => location.id));
+  let id = base;
+  for (let i = 2; taken.has(id); i++) {
+    id = `${base}_${i}`;
+  }
+  return id;
+};
+
+/**
+ * Zustand store for user-defined Mars locations, with persistence
+ */
+export const useMarsLocationsStore = create<MarsLocationsState>()(
+  persist(
+    (set) => ({
+      locations: [],
+
+      // Actions
+      addLocation: (input: NewMarsLocation) => {
+        const name = input.name.trim();
+        const latitude = Math.max(-90, Math.min(90, input.latitude));
+        const longitude = ((input.longitude % 360) + 360) % 360;
+        const location: MarsLocation = {
+          id: createLocationId(name),
+          name,
+          city: name,
+          latitude,
+          longitude,
+          description: `Custom location (${Math.abs(latitude).toFixed(2)}°${latitude >= 0 ? 'N' : 'S'}, ${longitude.toFixed(2)}°E)`,
+          mission: input.missionStart
+            ? { name: input.missionName?.trim() || name, epoch: input.missionStart, landingSol: 0 }
+            : undefined,
+          isCustom: true
+        };
+        set((state) => ({ locations: [...state.locations, location] }));
+        return location;
+      },
+
+      removeLocation: (id: string) =>
+        set((state) => ({
+          locations: state.locations.filter((location) => location.id !== id)
+        })),
+    }),
+    {
+      name: getStorageKey(),
+      skipHydration: true,
+      storage: createJSONStorage(() => {
+        if (typeof window === 'undefined') {
+          // Return mock storage for SSR
+          return {
+            getItem: () => null,
+            setItem: () => {},
+            removeItem: () => {}
+          };
+        }
+        return localStorage;
+      }),
+      // Only persist the data, not the actions
+      partialize: (state) => ({
+        locations: state.locations
+      }),
+    }
+  )
+);
+
+// Keep the Mars time helpers aware of custom locations (including after rehydration)
+useMarsLocationsStore.subscribe((state) => setCustomMarsLocations(state.locations));
@@ -0,0 +1,127 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import type { MarsSlotGrid, MarsTimeScale } from '@/lib/utils/mars-timezone';
+
+// Note: no 'use client' here – dateTimeFormatter reads these settings and is
+// also used by API routes, where the store simply holds the defaults.
+
+/**
+ * Time display format
+ */
+export type TimeFormat = '12h' | '24h';
+
+/**
+ * Date display format
+ */
+export type DateFormat = 'MM/DD/YYYY' | 'DD/MM/YYYY' | 'YYYY-MM-DD';
+
+/**
+ * Colors available for highlighting weekend time slots
+ */
+export const WEEKEND_HIGHLIGHT_COLORS = ['red', 'orange', 'amber', 'green', 'blue', 'purple', 'pink', 'gray'] as const;
+export type WeekendHighlightColor = typeof WEEKEND_HIGHLIGHT_COLORS[number];
+
+/**
+ * Time slot lengths (minutes) available for the time grid
+ */
+export const SLOT_GRANULARITIES = [15, 30, 60] as const;
+export type SlotGranularity = typeof SLOT_GRANULARITIES[number];
+
+/**
+ * User display preferences
+ */
+export interface Settings {
+  timeFormat: TimeFormat;
+  dateFormat: DateFormat;
+  showSeconds: boolean;
+  nightHoursStart: number; // Hour of day (0-23) when night starts
+  nightHoursEnd: number; // Hour of day (0-23) when night ends; may be before start (spans midnight)
+  highlightAutoClear: boolean;
+  highlightDuration: number; // Seconds before a highlighted time is cleared
+  weekendHighlightColor: WeekendHighlightColor;
+  slotGranularity: SlotGranularity; // Minutes per row in the time grid
+  marsTimeScale: MarsTimeScale; // Mean (LMST) or true (LTST) solar time for Mars locations
+  marsSlotGrid: MarsSlotGrid; // Earth slots, Mars hours or the timeslip clock for Mars columns
+}
+
+/**
+ * Interface for the settings store state
+ */
+interface SettingsState extends Settings {
+  updateSettings: (settings: Partial<Settings>) => void;
+  resetSettings: () => void;
+}
+
+/**
+ * Default settings (match the previously hardcoded values)
+ */
+export const DEFAULT_SETTINGS: Settings = {
+  timeFormat: '12h',
+  dateFormat: 'MM/DD/YYYY',
+  showSeconds: false,
+  nightHoursStart: 20,
+  nightHoursEnd: 6,
+  highlightAutoClear: true,
+  highlightDuration: 60,
+  weekendHighlightColor: 'red',
+  slotGranularity: 30,
+  marsTimeScale: 'lmst',
+  marsSlotGrid: 'earth',
+};
+
+// Get a storage key that's unique to the current origin to prevent cross-port persistence issues
+const getStorageKey = () => {
+  if (typeof window === 'undefined') return 'settings-storage';
+  return `settings-storage-${window.location.origin.replace(/[^a-z0-9]/gi, '-')}`;
+};
+
+/**
+ * Zustand store for user settings with persistence
+ */
+export const useSettingsStore = create<SettingsState>()(
+  persist(
+    (set) => ({
+      ...DEFAULT_SETTINGS,
+
+      // Actions
+      updateSettings: (settings: Partial<Settings>) =>
+        set(settings),
+
+      resetSettings: () =>
+        set(DEFAULT_SETTINGS),
+    }),
+    {
+      name: getStorageKey(),
+      skipHydration: true,
+      storage: createJSONStorage(() => {
+        if (typeof window === 'undefined') {
+          // Return mock storage for SSR
+          return {
+            getItem: () => null,
+            setItem: () => {},
+            removeItem: () => {}
+          };
+        }
+        return localStorage;
+      }),
+      // Only persist the settings values, not the actions
+      partialize: (state): Settings => ({
+        timeFormat: state.timeFormat,
+        dateFormat: state.dateFormat,
+        showSeconds: state.showSeconds,
+        nightHoursStart: state.nightHoursStart,
+        nightHoursEnd: state.nightHoursEnd,
+        highlightAutoClear: state.highlightAutoClear,
+        highlightDuration: state.highlightDuration,
+        weekendHighlightColor: state.weekendHighlightColor,
+        slotGranularity: state.slotGranularity,
+        marsTimeScale: state.marsTimeScale,
+        marsSlotGrid: state.marsSlotGrid,
+      }),
+    }
+  )
+);
+
+// Tailwind classes for weekend highlighting (safelisted in tailwind.config.js)
+export const getWeekendHighlightClass = (color: WeekendHighlightColor) =>
+  `bg-${color}-100 dark:bg-${color}-900/20`;
@@ -3,6 +3,11 @@
 import { create } from 'zustand';
 import { persist, createJSONStorage } from 'zustand/middleware';
 import { getLocalTimezone } from '@/lib/utils/timezone';
+import type { WorkingHours } from '@/lib/utils/dateTimeFormatter';
+import { getZoneCoordinates, type Coordinates } from '@/lib/utils/solar';
+import { getTimeSystem, marsTimeSystem } from '@/lib/utils/timeSystems';
+
+const isMarsZone = (id: string) => getTimeSystem(id) === marsTimeSystem;
 
 /**
  * App version info to track state consistency
@@ -23,6 +28,22 @@ export interface Timezone {
   country?: string;
   offset?: string;
   abbreviation?: string;
+  region?: string;
+  aliases?: string[];
+  workingHours?: WorkingHours; // Custom working hours/workweek; defaults to 9–17 Mon–Fri when unset
+  lat?: number; // Coordinates for sunrise/sunset; from the bundled city or set by the user
+  lon?: number;
+}
+
+/**
+ * A named, saved list of timezones (e.g. "EMEA support")
+ */
+export interface TimezoneSet {
+  id: string;
+  name: string;
+  timezones: Timezone[];
+  createdAt: number;
+  updatedAt: number;
 }
 
 /**
@@ -43,15 +64,29 @@ interface TimezoneState {
   // Removed state related to the old Mars explanation tooltip
   // showMarsExplanation: boolean; 
   hasMarsTimezone: boolean; // Keep this to know if any Mars timezone exists
+  savedTimezones: Timezone[] | null; // The visitor's own list while a shared link is being viewed
+  timezoneSets: TimezoneSet[];
+  activeSetId: string | null; // Set whose zones are currently loaded, if any
   // marsExplanationPosition: 'left' | 'right';
   // lastAddedMarsTimezoneId: string | null;
   addTimezone: (timezone: Timezone) => void;
   removeTimezone: (id: string) => void;
+  setTimezoneWorkingHours: (id: string, workingHours: WorkingHours | null) => void; // null restores the default
+  setTimezoneCoordinates: (id: string, coordinates: Coordinates | null) => void; // null restores the bundled city
   // setViewMode: (mode: ViewMode) => void; // Removed
   setHighlightedTime: (time: Date | null) => void;
   setSelectedDate: (date: Date) => void;
   resetToToday: () => void;
   reorderTimezones: (fromIndex: number, toIndex: number) => void;
+  applySharedLink: (link: { timezones?: Timezone[] | null; selectedDate?: Date | null; highlightedTime?: Date | null }) => void;
+  keepSharedTimezones: () => void; // Replace the saved list with the shared zones
+  restoreSavedTimezones: () => void; // Leave the shared view and go back to the saved list
+  createTimezoneSet: (name: string) => string; // Saves the current list; returns the new set's id
+  renameTimezoneSet: (id: string, name: string) => void;
+  duplicateTimezoneSet: (id: string) => string | null;
+  deleteTimezoneSet: (id: string) => void;
+  switchTimezoneSet: (id: string) => void;
+  applySyncedTimezones: (timezones: Timezone[]) => void; // Replace the user's own list with the server copy
   hydrate: () => void;
   resetStore: () => void;
   // Removed hideMarsExplanation action
@@ -61,6 +96,20 @@ interface TimezoneState {
   closeTimezoneSelector: () => void; // Action to close modal
 }
 
+// Generate an id for a saved timezone set
+const createSetId = () => `set-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+// Copy the user's current list into the active set so edits made while it was loaded are kept
+const syncActiveSet = (state: TimezoneState): TimezoneSet[] => {
+  if (!state.activeSetId) return state.timezoneSets;
+  const ownTimezones = state.savedTimezones ?? state.timezones;
+  return state.timezoneSets.map((timezoneSet) =>
+    timezoneSet.id === state.activeSetId
+      ? { ...timezoneSet, timezones: ownTimezones, updatedAt: Date.now() }
+      : timezoneSet
+  );
+};
+
 // Get a storage key that's unique to the current origin to prevent cross-port persistence issues
 const getStorageKey = () => {
   if (typeof window === 'undefined') return 'timezone-storage';
@@ -190,6 +239,9 @@ export const useTimezoneStore = create<TimezoneState>()(
         // Removed initial state for old tooltip
         // showMarsExplanation: false,
         hasMarsTimezone: false, // Changed to false since Mars is no longer added by default
+        savedTimezones: null,
+        timezoneSets: [],
+        activeSetId: null,
         // marsExplanationPosition: 'right' as 'left' | 'right',
         // lastAddedMarsTimezoneId: null,
         isTimezoneSelectorOpen: false, // Initial state for modal
@@ -208,7 +260,7 @@ export const useTimezoneStore = create<TimezoneState>()(
             return state; // Don't add duplicates
           }
           
-          const isMarsTimezone = timezone.id.startsWith('Mars/');
+          const isMarsTimezone = isMarsZone(timezone.id);
           
           // Return updated state (only update timezones and hasMarsTimezone)
           return {
@@ -224,6 +276,33 @@ export const useTimezoneStore = create<TimezoneState>()(
             timezones: state.timezones.filter((timezone) => timezone.id !== id)
           })),
           
+        setTimezoneWorkingHours: (id: string, workingHours: WorkingHours | null) =>
+          set((state) => ({
+            timezones: state.timezones.map((timezone) => {
+              if (timezone.id !== id) return timezone;
+              if (!workingHours) {
+                // Drop the custom setting so the default working hours apply
+                const { workingHours: _removed, ...rest } = timezone;
+                return rest;
+              }
+              return { ...timezone, workingHours };
+            })
+          })),
+          
+        setTimezoneCoordinates: (id: string, coordinates: Coordinates | null) =>
+          set((state) => ({
+            timezones: state.timezones.map((timezone) => {
+              if (timezone.id !== id) return timezone;
+              const fallback = coordinates ?? getZoneCoordinates(id);
+              if (!fallback) {
+                // No bundled city either, so the night-hours setting applies
+                const { lat: _lat, lon: _lon, ...rest } = timezone;
+                return rest;
+              }
+              return { ...timezone, lat: fallback.lat, lon: fallback.lon };
+            })
+          })),
+          
         // setViewMode: (mode: ViewMode) => // Removed
         //   set({ viewMode: mode }), // Removed
           
@@ -244,6 +323,100 @@ export const useTimezoneStore = create<TimezoneState>()(
             return { timezones: newTimezones };
           }),
           
+        applySharedLink: (link) =>
+          set((state) => {
+            const update: Partial<TimezoneState> = {};
+            if (link.timezones && link.timezones.length > 0) {
+              // Set the saved list aside (only once) so persistence keeps writing it
+              update.savedTimezones = state.savedTimezones ?? state.timezones;
+              update.timezones = link.timezones;
+              update.hasMarsTimezone = link.timezones.some(tz => isMarsZone(tz.id));
+            }
+            if (link.selectedDate) update.selectedDate = link.selectedDate;
+            if (link.highlightedTime) update.highlightedTime = link.highlightedTime;
+            return update;
+          }),
+
+        keepSharedTimezones: () =>
+          set({ savedTimezones: null }),
+
+        restoreSavedTimezones: () =>
+          set((state) => state.savedTimezones
+            ? {
+                timezones: state.savedTimezones,
+                savedTimezones: null,
+                hasMarsTimezone: state.savedTimezones.some(tz => isMarsZone(tz.id))
+              }
+            : {}),
+          
+        createTimezoneSet: (name: string) => {
+          const id = createSetId();
+          const now = Date.now();
+          set((state) => ({
+            timezoneSets: [
+              ...syncActiveSet(state),
+              { id, name: name.trim(), timezones: state.timezones, createdAt: now, updatedAt: now }
+            ],
+            activeSetId: id,
+            // Saving the visible list (even from a shared link) makes it the user's own
+            savedTimezones: null
+          }));
+          return id;
+        },
+
+        renameTimezoneSet: (id: string, name: string) =>
+          set((state) => ({
+            timezoneSets: state.timezoneSets.map((timezoneSet) =>
+              timezoneSet.id === id ? { ...timezoneSet, name: name.trim(), updatedAt: Date.now() } : timezoneSet
+            )
+          })),
+
+        duplicateTimezoneSet: (id: string) => {
+          const state = get();
+          const timezoneSets = syncActiveSet(state);
+          const source = timezoneSets.find((timezoneSet) => timezoneSet.id === id);
+          if (!source) return null;
+          const newId = createSetId();
+          const now = Date.now();
+          set({
+            timezoneSets: [
+              ...timezoneSets,
+              { ...source, id: newId, name: `${source.name} (copy)`, createdAt: now, updatedAt: now }
+            ]
+          });
+          return newId;
+        },
+
+        deleteTimezoneSet: (id: string) =>
+          set((state) => ({
+            timezoneSets: state.timezoneSets.filter((timezoneSet) => timezoneSet.id !== id),
+            // The loaded zones stay as they are; they just aren't tied to a set anymore
+            activeSetId: state.activeSetId === id ? null : state.activeSetId
+          })),
+
+        switchTimezoneSet: (id: string) =>
+          set((state) => {
+            const timezoneSets = syncActiveSet(state);
+            const target = timezoneSets.find((timezoneSet) => timezoneSet.id === id);
+            if (!target) return {};
+            return {
+              timezoneSets,
+              timezones: target.timezones,
+              activeSetId: id,
+              savedTimezones: null,
+              hasMarsTimezone: target.timezones.some(tz => isMarsZone(tz.id))
+            };
+          }),
+
+        applySyncedTimezones: (timezones: Timezone[]) =>
+          set((state) => state.savedTimezones
+            // A shared link is open: update the list behind it and leave the shared view alone
+            ? { savedTimezones: timezones }
+            : {
+                timezones,
+                hasMarsTimezone: timezones.some(tz => isMarsZone(tz.id))
+              }),
+
         // Hydration function for client-side
         hydrate: () => {
           // Update version on hydration to track state freshness
@@ -277,8 +450,11 @@ export const useTimezoneStore = create<TimezoneState>()(
       }),
       // Filter out certain fields from persistence
       partialize: (state) => ({
-        timezones: state.timezones,
-        localTimezone: state.localTimezone
+        // While a shared link is open, keep persisting the visitor's own list
+        timezones: state.savedTimezones ?? state.timezones,
+        localTimezone: state.localTimezone,
+        timezoneSets: state.timezoneSets,
+        activeSetId: state.activeSetId
       }),
     }
   )
@@ -14,6 +14,11 @@ module.exports = {
     'backdrop-blur-xl',
     'backdrop-blur-2xl',
     'backdrop-blur-3xl',
+    // Weekend highlight colors are chosen in settings and built dynamically
+    ...['red', 'orange', 'amber', 'green', 'blue', 'purple', 'pink', 'gray'].flatMap(color => [
+      `bg-${color}-100`,
+      `dark:bg-${color}-900/20`,
+    ]),
   ],
   theme: {
     extend: {